@@ -6,6 +6,18 @@ config :social_network, SocialNetwork.Repo,
 
 config :social_network, ecto_repos: [SocialNetwork.Repo]
 
+# Where createPost media uploads are stored; served at /uploads
+config :social_network, uploads_dir: Path.expand("../priv/static/uploads", Path.dirname(__ENV__.file))
+
+# API and subscription socket on port 4000; the endpoint doubles as the
+# subscriptions' pubsub
+config :social_network, SocialNetworkWeb.Endpoint,
+  http: [port: 4000],
+  server: true,
+  pubsub_server: SocialNetwork.PubSub
+
+config :phoenix, :json_library, Jason
+
 config :green_fairy, :generators,
   graphql_namespace: SocialNetworkWeb.GraphQL,
   domain_namespace: SocialNetwork,
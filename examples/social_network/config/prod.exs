@@ -1,3 +1,6 @@
 import Config
 
 # Prod-specific config (if any)
+
+# Only run the frontend's persisted queries; reject arbitrary documents
+config :social_network, persisted_queries_only: true
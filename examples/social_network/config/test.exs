@@ -6,11 +6,11 @@ config :social_network, SocialNetwork.Repo,
   pool: Ecto.Adapters.SQL.Sandbox,
   pool_size: 10
 
-# Don't start HTTP server during tests
-config :social_network, start_http: false
+# Keep test uploads out of priv/static
+config :social_network, uploads_dir: Path.join(System.tmp_dir!(), "social_network_test_uploads")
 
-# Don't start subscriptions during tests
-config :social_network, start_subscriptions: false
+# Don't start HTTP server during tests; sockets are tested in-process
+config :social_network, SocialNetworkWeb.Endpoint, server: false
 
 # Print only warnings and errors during test
 config :logger, level: :warning
@@ -0,0 +1,151 @@
+// Evaluates GreenFairy CQL `where`/`orderBy` inputs against in-memory records,
+// following Postgres semantics closely enough for the UI: comparisons with
+// null never match, and NULLs sort last ascending and first descending.
+
+type Row = Record<string, unknown>;
+/** A CQL `where` input, e.g. `{ username: { _ilike: "a%" } }`. */
+export type Filter = Record<string, unknown>;
+
+/** Looks up a related record for nested filters such as `author: {...}`. */
+export type Relations<T> = Record<string, (record: T) => object | null | undefined>;
+
+// LIKE patterns: % is any run of characters and _ is any one character.
+// Like the SQLite `_ilike` the Phoenix app runs, there is no escape
+// character, so a backslash is just a backslash.
+function likePattern(pattern: string, flags: string): RegExp {
+  const source = [...pattern]
+    .map((char) => {
+      if (char === "%") return ".*";
+      if (char === "_") return ".";
+      return char.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${source}$`, flags);
+}
+
+function compare(a: unknown, b: unknown): number {
+  const numeric = typeof a === "string" && typeof b === "string" && /^\d+$/.test(a) && /^\d+$/.test(b);
+  if (numeric) return Number(a) - Number(b);
+  return String(a) < String(b) ? -1 : String(a) > String(b) ? 1 : 0;
+}
+
+function matchesOperator(value: unknown, operator: string, operand: unknown): boolean {
+  if (operator === "_isNull") return (value == null) === operand;
+  if (operand === null || operand === undefined) return true;
+  if (value == null) return false;
+
+  const text = String(value);
+  const needle = String(operand);
+  switch (operator) {
+    case "_eq":
+      return compare(value, operand) === 0;
+    case "_ne":
+    case "_neq":
+      return compare(value, operand) !== 0;
+    case "_gt":
+      return compare(value, operand) > 0;
+    case "_gte":
+      return compare(value, operand) >= 0;
+    case "_lt":
+      return compare(value, operand) < 0;
+    case "_lte":
+      return compare(value, operand) <= 0;
+    case "_in":
+      return (operand as unknown[]).some((item) => compare(value, item) === 0);
+    case "_nin":
+      return !(operand as unknown[]).some((item) => compare(value, item) === 0);
+    case "_between": {
+      const [low, high] = operand as unknown[];
+      return compare(value, low) >= 0 && compare(value, high) <= 0;
+    }
+    case "_like":
+      return likePattern(needle, "").test(text);
+    case "_nlike":
+      return !likePattern(needle, "").test(text);
+    case "_ilike":
+      return likePattern(needle, "i").test(text);
+    case "_nilike":
+      return !likePattern(needle, "i").test(text);
+    case "_startsWith":
+      return text.startsWith(needle);
+    case "_istartsWith":
+      return text.toLowerCase().startsWith(needle.toLowerCase());
+    case "_endsWith":
+      return text.endsWith(needle);
+    case "_iendsWith":
+      return text.toLowerCase().endsWith(needle.toLowerCase());
+    case "_contains":
+      return text.includes(needle);
+    case "_icontains":
+      return text.toLowerCase().includes(needle.toLowerCase());
+    default:
+      throw new Error(`Unsupported CQL operator ${operator}`);
+  }
+}
+
+/** Whether `record` satisfies a CQL filter input. A missing filter matches everything. */
+export function matchesFilter<T extends object>(
+  record: T,
+  filter: Filter | null | undefined,
+  relations: Relations<T> = {}
+): boolean {
+  if (!filter) return true;
+
+  return Object.entries(filter).every(([key, condition]) => {
+    if (condition == null) return true;
+    switch (key) {
+      case "_and":
+        return (condition as Filter[]).every((part) => matchesFilter(record, part, relations));
+      case "_or":
+        return (condition as Filter[]).some((part) => matchesFilter(record, part, relations));
+      case "_not":
+        return !matchesFilter(record, condition as Filter, relations);
+    }
+
+    const relation = relations[key];
+    if (relation) {
+      const related = relation(record);
+      return related != null && matchesFilter(related, condition as Filter);
+    }
+
+    const value = (record as Row)[key];
+    return Object.entries(condition as Filter).every(([operator, operand]) =>
+      matchesOperator(value, operator, operand)
+    );
+  });
+}
+
+type Direction = "ASC" | "DESC" | "ASC_NULLS_FIRST" | "ASC_NULLS_LAST" | "DESC_NULLS_FIRST" | "DESC_NULLS_LAST";
+
+/** A CQL `orderBy` input. */
+export type OrderBy = ReadonlyArray<Record<string, { direction: Direction } | null> | null>;
+
+/**
+ * Sorts by a CQL `orderBy` list (`[{ insertedAt: { direction: DESC } }]`),
+ * earlier entries first. Returns a new array.
+ */
+export function applyOrderBy<T extends object>(
+  records: readonly T[],
+  orderBy: OrderBy
+): T[] {
+  const keys = orderBy.flatMap((entry) =>
+    Object.entries(entry ?? {}).flatMap(([field, order]) => (order ? [{ field, direction: order.direction }] : []))
+  );
+
+  return [...records].sort((a, b) => {
+    for (const { field, direction } of keys) {
+      const descending = direction.startsWith("DESC");
+      const nullsFirst = direction.endsWith("NULLS_FIRST") || direction === "DESC";
+      const x = (a as Row)[field];
+      const y = (b as Row)[field];
+
+      if (x == null || y == null) {
+        if (x == null && y == null) continue;
+        return (x == null) === nullsFirst ? -1 : 1;
+      }
+      const result = compare(x, y);
+      if (result !== 0) return descending ? -result : result;
+    }
+    return 0;
+  });
+}
@@ -0,0 +1,186 @@
+// In-memory stand-in for the Phoenix app's Postgres tables. Records use the
+// GraphQL field names, and ids are plain numeric strings like the real
+// backend's, drawn from one sequence so no two records share an id.
+
+export type PostVisibility = "PUBLIC" | "FRIENDS" | "PRIVATE";
+export type FriendshipStatus = "PENDING" | "ACCEPTED" | "BLOCKED";
+
+interface Timestamps {
+  insertedAt: string;
+  updatedAt: string;
+}
+
+export interface UserRecord extends Timestamps {
+  id: string;
+  email: string;
+  username: string;
+  displayName: string | null;
+  bio: string | null;
+  avatarUrl: string | null;
+  /** Stored as given; users created without one can't log in. */
+  password: string | null;
+}
+
+export interface PostRecord extends Timestamps {
+  id: string;
+  authorId: string;
+  body: string;
+  mediaUrl: string | null;
+  visibility: PostVisibility;
+}
+
+export interface CommentRecord extends Timestamps {
+  id: string;
+  authorId: string;
+  postId: string;
+  parentId: string | null;
+  body: string;
+}
+
+export interface LikeRecord extends Timestamps {
+  id: string;
+  userId: string;
+  postId: string | null;
+  commentId: string | null;
+}
+
+export interface FriendshipRecord extends Timestamps {
+  id: string;
+  userId: string;
+  friendId: string;
+  status: FriendshipStatus;
+}
+
+export interface SessionRecord {
+  token: string;
+  userId: string;
+  expiresAt: string;
+}
+
+export interface Database {
+  users: UserRecord[];
+  posts: PostRecord[];
+  comments: CommentRecord[];
+  likes: LikeRecord[];
+  friendships: FriendshipRecord[];
+  sessions: SessionRecord[];
+  /** Uploaded media by file name, served under /uploads. */
+  uploads: Map<string, Blob>;
+  nextId: () => string;
+}
+
+/** A NaiveDateTime (UTC, second precision, no offset) for `date`. */
+export function naiveDateTime(date: Date): string {
+  return date.toISOString().slice(0, 19);
+}
+
+export function timestamps(date = new Date()): Timestamps {
+  const value = naiveDateTime(date);
+  return { insertedAt: value, updatedAt: value };
+}
+
+/** The password every seeded account logs in with. */
+export const SEED_PASSWORD = "password123";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * A small social graph: Alice and Bob are friends, Carol has asked Alice to
+ * be friends, and Dave knows nobody. There are posts at every visibility, so
+ * logging in as different users shows different feeds.
+ */
+export function createDatabase(now = new Date()): Database {
+  let lastId = 0;
+  const db: Database = {
+    users: [],
+    posts: [],
+    comments: [],
+    likes: [],
+    friendships: [],
+    sessions: [],
+    uploads: new Map(),
+    nextId: () => String(++lastId),
+  };
+
+  const hoursAgo = (hours: number) => timestamps(new Date(now.getTime() - hours * HOUR_MS));
+
+  const user = (username: string, displayName: string, bio: string | null, age: number) => {
+    const record: UserRecord = {
+      id: db.nextId(),
+      email: `${username}@example.com`,
+      username,
+      displayName,
+      bio,
+      avatarUrl: null,
+      password: SEED_PASSWORD,
+      ...hoursAgo(age),
+    };
+    db.users.push(record);
+    return record;
+  };
+
+  const alice = user("alice", "Alice Adams", "Coffee, climbing and code.", 24 * 60);
+  const bob = user("bob", "Bob Brown", null, 24 * 45);
+  const carol = user("carol", "Carol Chen", "Photographer.", 24 * 30);
+  const dave = user("dave", "Dave Diaz", null, 24 * 3);
+
+  const friendship = (from: UserRecord, to: UserRecord, status: FriendshipStatus, age: number) => {
+    db.friendships.push({ id: db.nextId(), userId: from.id, friendId: to.id, status, ...hoursAgo(age) });
+  };
+
+  friendship(alice, bob, "ACCEPTED", 24 * 40);
+  friendship(carol, alice, "PENDING", 5);
+
+  const post = (author: UserRecord, body: string, visibility: PostVisibility, age: number) => {
+    const record: PostRecord = {
+      id: db.nextId(),
+      authorId: author.id,
+      body,
+      mediaUrl: null,
+      visibility,
+      ...hoursAgo(age),
+    };
+    db.posts.push(record);
+    return record;
+  };
+
+  const welcome = post(alice, "Hello from the mock backend! Everyone can see this post.", "PUBLIC", 72);
+  post(bob, "Only my friends can read this one.", "FRIENDS", 50);
+  post(carol, "Golden hour at the pier.", "PUBLIC", 30);
+  post(alice, "Note to self: nobody else sees private posts.", "PRIVATE", 20);
+  const climbing = post(alice, "Anyone up for climbing on Saturday?", "FRIENDS", 8);
+  post(dave, "Just joined. Hi all!", "PUBLIC", 2);
+
+  const comment = (author: UserRecord, on: PostRecord, body: string, age: number, parent?: CommentRecord) => {
+    const record: CommentRecord = {
+      id: db.nextId(),
+      authorId: author.id,
+      postId: on.id,
+      parentId: parent?.id ?? null,
+      body,
+      ...hoursAgo(age),
+    };
+    db.comments.push(record);
+    return record;
+  };
+
+  const hi = comment(carol, welcome, "Hi Alice!", 70);
+  comment(alice, welcome, "Hi Carol, thanks for stopping by.", 69, hi);
+  comment(bob, climbing, "I'm in.", 6);
+
+  const like = (by: UserRecord, target: { postId?: string; commentId?: string }, age: number) => {
+    db.likes.push({
+      id: db.nextId(),
+      userId: by.id,
+      postId: target.postId ?? null,
+      commentId: target.commentId ?? null,
+      ...hoursAgo(age),
+    });
+  };
+
+  like(bob, { postId: welcome.id }, 60);
+  like(carol, { postId: welcome.id }, 65);
+  like(alice, { commentId: hi.id }, 69);
+
+  return db;
+}
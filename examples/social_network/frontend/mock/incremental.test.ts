@@ -0,0 +1,68 @@
+import { buildSchema, parse } from "graphql";
+import { describe, expect, it } from "vitest";
+import { splitIncremental } from "./incremental";
+
+const schema = buildSchema(`
+  directive @defer(label: String, if: Boolean! = true) on FRAGMENT_SPREAD | INLINE_FRAGMENT
+  directive @stream(label: String, initialCount: Int = 0, if: Boolean! = true) on FIELD
+
+  type Query { viewer: User }
+  type User { id: ID! name: String posts: [Post] friends: [User] }
+  type Post { id: ID! body: String likes: Int }
+`);
+
+const result = {
+  data: {
+    viewer: {
+      id: "1",
+      name: "Alice",
+      posts: [
+        { id: "p1", body: "One", likes: 1 },
+        { id: "p2", body: "Two", likes: 2 },
+      ],
+      friends: [{ id: "2" }],
+    },
+  },
+};
+
+describe("splitIncremental", () => {
+  it("sends deferred fragments and streamed items after the rest, parents first", () => {
+    const document = parse(`
+      query Profile {
+        viewer {
+          id
+          name
+          posts @stream(label: "posts", initialCount: 1) { id body ...PostLikes @defer(label: "likes") }
+          ...Friends @defer(label: "friends")
+        }
+      }
+      fragment PostLikes on Post { likes }
+      fragment Friends on User { friends { id } }
+    `);
+
+    expect(splitIncremental(schema, document, result, {})).toEqual({
+      initial: {
+        data: { viewer: { id: "1", name: "Alice", posts: [{ id: "p1", body: "One" }] } },
+        hasNext: true,
+      },
+      subsequent: [
+        { incremental: [{ data: { likes: 1 }, path: ["viewer", "posts", 0], label: "likes" }], hasNext: true },
+        { incremental: [{ items: [{ id: "p2", body: "Two" }], path: ["viewer", "posts", 1], label: "posts" }], hasNext: true },
+        { incremental: [{ data: { friends: [{ id: "2" }] }, path: ["viewer"], label: "friends" }], hasNext: true },
+        { incremental: [{ data: { likes: 2 }, path: ["viewer", "posts", 1], label: "likes" }], hasNext: false },
+      ],
+    });
+  });
+
+  it("leaves a fragment inline when `if` turns deferring off", () => {
+    const document = parse(`
+      query Profile($defer: Boolean!) {
+        viewer { id ...Friends @defer(label: "friends", if: $defer) }
+      }
+      fragment Friends on User { friends { id } }
+    `);
+
+    expect(splitIncremental(schema, document, result, { defer: false })).toBeNull();
+    expect(splitIncremental(schema, document, result, { defer: true })?.subsequent).toHaveLength(1);
+  });
+});
@@ -0,0 +1,190 @@
+// Splits an executed result into the parts of an incremental response, as a
+// server supporting @defer and @stream would send them. graphql-js 16
+// resolves deferred fragments and streamed lists along with everything else,
+// so the split happens afterwards: the data is the same, only when it
+// arrives differs.
+import {
+  getDirectiveValues,
+  getNamedType,
+  isAbstractType,
+  isCompositeType,
+  isObjectType,
+  Kind,
+  type DocumentNode,
+  type ExecutionResult,
+  type FragmentDefinitionNode,
+  type GraphQLCompositeType,
+  type GraphQLSchema,
+  type NamedTypeNode,
+  type OperationDefinitionNode,
+  type SelectionNode,
+  type SelectionSetNode,
+} from "graphql";
+
+type Data = Record<string, unknown>;
+type ResponsePath = Array<string | number>;
+
+/** A deferred fragment's data, or the next item of a streamed list. */
+export interface IncrementalEntry {
+  data?: Data | null;
+  items?: unknown[];
+  path: ResponsePath;
+  label?: string;
+}
+
+export interface IncrementalResponse {
+  initial: ExecutionResult & { hasNext: true };
+  subsequent: Array<{ incremental: IncrementalEntry[]; hasNext: boolean }>;
+}
+
+function isData(value: unknown): value is Data {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// The same field selected twice, e.g. by a fragment and the query, is one field
+function merge(current: unknown, next: unknown): unknown {
+  if (isData(current) && isData(next)) {
+    const merged: Data = { ...current };
+    Object.entries(next).forEach(([key, value]) => {
+      merged[key] = merge(current[key], value);
+    });
+    return merged;
+  }
+  if (Array.isArray(current) && Array.isArray(next)) {
+    return next.map((item, index) => merge(current[index], item));
+  }
+  return next === undefined ? current : next;
+}
+
+/**
+ * The initial payload and each later one for `result`, or null when the
+ * operation defers and streams nothing. Each deferred fragment and each
+ * streamed item past `initialCount` gets a payload of its own, parents
+ * before children. All errors go with the initial payload.
+ */
+export function splitIncremental(
+  schema: GraphQLSchema,
+  document: DocumentNode,
+  result: ExecutionResult,
+  variables: Record<string, unknown>,
+  operationName?: string
+): IncrementalResponse | null {
+  const operation = document.definitions.find(
+    (definition): definition is OperationDefinitionNode =>
+      definition.kind === Kind.OPERATION_DEFINITION && (!operationName || definition.name?.value === operationName)
+  );
+  const rootType = operation && schema.getRootType(operation.operation);
+  if (!operation || !rootType || !result.data) return null;
+
+  const fragments = new Map<string, FragmentDefinitionNode>();
+  document.definitions.forEach((definition) => {
+    if (definition.kind === Kind.FRAGMENT_DEFINITION) fragments.set(definition.name.value, definition);
+  });
+
+  const pending: Array<() => IncrementalEntry> = [];
+
+  // The directive's arguments, or null when it's absent or turned off with `if: false`
+  const directive = (name: "defer" | "stream", node: SelectionNode) => {
+    const definition = schema.getDirective(name);
+    const values = definition ? getDirectiveValues(definition, node, variables) : undefined;
+    return values && values.if !== false ? values : null;
+  };
+
+  const applies = (condition: NamedTypeNode | undefined, type: GraphQLCompositeType, object: Data) => {
+    const conditionType = condition && schema.getType(condition.name.value);
+    const runtimeType = typeof object.__typename === "string" ? schema.getType(object.__typename) : type;
+    if (!conditionType || !runtimeType || conditionType === runtimeType) return true;
+    if (isAbstractType(conditionType) && isObjectType(runtimeType)) {
+      return schema.isSubType(conditionType, runtimeType);
+    }
+    // Without __typename there's no telling which object type it was
+    return isAbstractType(runtimeType);
+  };
+
+  // Copies what `selectionSet` selects from `object`, queueing deferred
+  // fragments and streamed items instead of copying them
+  const pick = (selectionSet: SelectionSetNode, type: GraphQLCompositeType, object: Data, path: ResponsePath) => {
+    let picked: Data = {};
+
+    for (const selection of selectionSet.selections) {
+      if (selection.kind === Kind.FIELD) {
+        const key = selection.alias?.value ?? selection.name.value;
+        if (!(key in object)) continue;
+        const value = object[key];
+        const fieldSelections = selection.selectionSet;
+        if (!fieldSelections) {
+          picked[key] = value;
+          continue;
+        }
+
+        const field = "getFields" in type ? type.getFields()[selection.name.value] : undefined;
+        const fieldType = field && getNamedType(field.type);
+        const childType = fieldType && isCompositeType(fieldType) ? fieldType : type;
+        const stream = directive("stream", selection);
+
+        if (!stream || !Array.isArray(value)) {
+          picked[key] = merge(picked[key], pickValue(fieldSelections, childType, value, [...path, key]));
+          continue;
+        }
+
+        const initialCount = Number(stream.initialCount ?? 0);
+        picked[key] = merge(
+          picked[key],
+          pickValue(fieldSelections, childType, value.slice(0, initialCount), [...path, key])
+        );
+        value.slice(initialCount).forEach((item, offset) => {
+          const itemPath = [...path, key, initialCount + offset];
+          pending.push(() => ({
+            items: [pickValue(fieldSelections, childType, item, itemPath)],
+            path: itemPath,
+            label: stream.label as string | undefined,
+          }));
+        });
+        continue;
+      }
+
+      const fragment = selection.kind === Kind.INLINE_FRAGMENT ? selection : fragments.get(selection.name.value);
+      if (!fragment || !applies(fragment.typeCondition, type, object)) continue;
+      const conditionType = fragment.typeCondition && schema.getType(fragment.typeCondition.name.value);
+      const fragmentType = conditionType && isCompositeType(conditionType) ? conditionType : type;
+
+      const defer = directive("defer", selection);
+      if (defer) {
+        pending.push(() => ({
+          data: pick(fragment.selectionSet, fragmentType, object, path),
+          path,
+          label: defer.label as string | undefined,
+        }));
+      } else {
+        picked = merge(picked, pick(fragment.selectionSet, fragmentType, object, path)) as Data;
+      }
+    }
+
+    return picked;
+  };
+
+  const pickValue = (
+    selectionSet: SelectionSetNode,
+    type: GraphQLCompositeType,
+    value: unknown,
+    path: ResponsePath
+  ): unknown => {
+    if (Array.isArray(value)) {
+      return value.map((item, index) => pickValue(selectionSet, type, item, [...path, index]));
+    }
+    return isData(value) ? pick(selectionSet, type, value, path) : value;
+  };
+
+  const data = pick(operation.selectionSet, rootType, result.data, []);
+  if (pending.length === 0) return null;
+
+  // Entries queue more entries as they're picked, e.g. a fragment deferred
+  // inside a streamed item
+  const subsequent: IncrementalResponse["subsequent"] = [];
+  for (let index = 0; index < pending.length; index++) {
+    subsequent.push({ incremental: [pending[index]()], hasNext: true });
+  }
+  subsequent[subsequent.length - 1].hasNext = false;
+
+  return { initial: { ...result, data, hasNext: true }, subsequent };
+}
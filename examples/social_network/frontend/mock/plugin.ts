@@ -0,0 +1,35 @@
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import type { Plugin } from "vite";
+import { createDatabase, SEED_PASSWORD } from "./db";
+import { createMockSchema } from "./schema";
+import { createMockBackend } from "./server";
+
+/**
+ * Serves /api/graphql, /uploads and /socket from an in-memory backend, so the
+ * frontend runs without Phoenix or Postgres (`npm run dev:mock`). Data is
+ * seeded on startup and lost on restart.
+ */
+export function mockBackend(): Plugin {
+  return {
+    name: "social-network-mock-backend",
+    apply: "serve",
+    configureServer(server) {
+      const root = server.config.root;
+      const db = createDatabase();
+      const backend = createMockBackend({
+        schema: createMockSchema(readFileSync(resolve(root, "schema.graphql"), "utf8")),
+        db,
+        loadManifest: () => JSON.parse(readFileSync(resolve(root, "persisted_queries.json"), "utf8")),
+      });
+
+      server.middlewares.use("/api/graphql", backend.handleGraphQL);
+      server.middlewares.use("/uploads", backend.handleUploads);
+      server.httpServer?.on("upgrade", backend.handleUpgrade);
+
+      server.config.logger.info(
+        `  Mock backend: log in as ${db.users.map((user) => user.email).join(", ")} (password "${SEED_PASSWORD}")`
+      );
+    },
+  };
+}
@@ -0,0 +1,109 @@
+import { readFileSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { graphql } from "graphql";
+import { describe, expect, it } from "vitest";
+import { createDatabase, type Database } from "./db";
+import { createMockSchema, type MockContext } from "./schema";
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), "..");
+const schema = createMockSchema(readFileSync(resolve(root, "schema.graphql"), "utf8"));
+
+// `TData` is the shape `source` selects
+function run<TData = Record<string, unknown>>(db: Database, source: string, username: string | null = null) {
+  const context: MockContext = {
+    db,
+    viewer: db.users.find((user) => user.username === username) ?? null,
+    token: null,
+    files: new Map(),
+    errors: [],
+    publish: () => {},
+  };
+  return graphql({ schema, source, contextValue: context }).then((result) => ({
+    ...result,
+    data: result.data as TData | null | undefined,
+    errors: [...(result.errors ?? []), ...context.errors].map((error) => error.toJSON()),
+  }));
+}
+
+const FEED = "{ feed(first: 20) { edges { node { body visibility author { username } } } } }";
+
+interface FeedResult {
+  feed: { edges: Array<{ node: { visibility: string; author: { username: string } } }> };
+}
+
+async function feedAs(username: string | null) {
+  const { data } = await run<FeedResult>(createDatabase(), FEED, username);
+  return (data?.feed.edges ?? []).map(({ node }) => `${node.author.username}:${node.visibility}`);
+}
+
+describe("mock backend", () => {
+  it("shows anonymous visitors only public posts", async () => {
+    expect(await feedAs(null)).toEqual(["dave:PUBLIC", "carol:PUBLIC", "alice:PUBLIC"]);
+  });
+
+  it("shows friends-only posts to friends and private posts to their author", async () => {
+    expect(await feedAs("bob")).toEqual([
+      "dave:PUBLIC",
+      "alice:FRIENDS",
+      "carol:PUBLIC",
+      "bob:FRIENDS",
+      "alice:PUBLIC",
+    ]);
+    expect(await feedAs("alice")).toContain("alice:PRIVATE");
+    expect(await feedAs("carol")).not.toContain("alice:FRIENDS");
+  });
+
+  it("filters the feed with CQL", async () => {
+    const { data } = await run(
+      createDatabase(),
+      '{ feed(where: { author: { username: { _ilike: "CAR%" } } }) { totalCount } }'
+    );
+    expect(data).toEqual({ feed: { totalCount: 1 } });
+  });
+
+  it("reads LIKE patterns as SQLite does, with no escape character", async () => {
+    const db = createDatabase();
+    const count = async (pattern: string) =>
+      (await run(db, `{ people(where: { username: { _ilike: ${JSON.stringify(pattern)} } }) { totalCount } }`)).data;
+
+    expect(await count("_LICE")).toEqual({ people: { totalCount: 1 } });
+    expect(await count("\\_lice")).toEqual({ people: { totalCount: 0 } });
+  });
+
+  it("rejects filtering or ordering by email, like the server does for non-admins", async () => {
+    const db = createDatabase();
+    const results = await Promise.all([
+      run(db, '{ people(where: { email: { _ilike: "a%" } }) { totalCount } }', "alice"),
+      run(db, "{ people(orderBy: [{ email: { direction: ASC } }]) { totalCount } }"),
+      run(db, '{ feed(where: { author: { email: { _eq: "bob@example.com" } } }) { totalCount } }'),
+    ]);
+
+    const rejected = { message: "Cannot filter or order by email", extensions: { code: "BAD_USER_INPUT" } };
+    for (const { errors } of results) expect(errors).toMatchObject([rejected]);
+  });
+
+  it("requires a session to post", async () => {
+    const { errors } = await run(createDatabase(), 'mutation { createPost(body: "Hi") { id } }');
+    expect(errors).toMatchObject([{ message: "Not authenticated", extensions: { code: "UNAUTHENTICATED" } }]);
+  });
+
+  it("reports each invalid argument as its own field error", async () => {
+    const { errors } = await run(
+      createDatabase(),
+      'mutation { createUser(email: "nope", username: "alice!") { id } }'
+    );
+    expect(errors.map((error) => error.extensions)).toEqual([
+      { code: "VALIDATION_FAILED", field: "email" },
+      { code: "VALIDATION_FAILED", field: "username" },
+    ]);
+  });
+
+  it("rejects duplicate usernames once everything else is valid", async () => {
+    const { errors } = await run(
+      createDatabase(),
+      'mutation { createUser(email: "new@example.com", username: "alice") { id } }'
+    );
+    expect(errors).toMatchObject([{ message: "username has already been taken" }]);
+  });
+});
@@ -0,0 +1,584 @@
+// Resolvers for schema.graphql over the in-memory database. They mirror the
+// Phoenix app's rules: mutations other than createUser and login need a
+// session, changeset failures come back as one VALIDATION_FAILED error per
+// field, and posts are only visible to the people their visibility allows.
+import { randomBytes } from "node:crypto";
+import {
+  buildSchema,
+  GraphQLError,
+  isObjectType,
+  responsePathAsArray,
+  type GraphQLFieldResolver,
+  type GraphQLInterfaceType,
+  type GraphQLResolveInfo,
+  type GraphQLSchema,
+} from "graphql";
+import { applyOrderBy, matchesFilter, type Filter, type OrderBy } from "./cql";
+import {
+  naiveDateTime,
+  timestamps,
+  type CommentRecord,
+  type Database,
+  type FriendshipRecord,
+  type LikeRecord,
+  type PostRecord,
+  type PostVisibility,
+  type SessionRecord,
+  type UserRecord,
+} from "./db";
+
+/** Events subscriptions listen for, named after their Subscription field. */
+export type MockEvent =
+  | { field: "postCreated"; record: PostRecord }
+  | { field: "commentAdded"; record: CommentRecord };
+
+export interface MockContext {
+  db: Database;
+  viewer: UserRecord | null;
+  /** The session token the request was made with, if any. */
+  token: string | null;
+  /** Files from a multipart request, by part name. */
+  files: Map<string, File>;
+  /** Errors beyond the one a resolver throws, added to the response. */
+  errors: GraphQLError[];
+  publish: (event: MockEvent) => void;
+}
+
+type NoArgs = Record<string, never>;
+
+/** Resolvers for a type's fields: `TSource` is its record, `TArgs` each field's arguments. */
+type Resolvers<TSource, TArgs extends Record<keyof TArgs, object>> = {
+  [Field in keyof TArgs]: GraphQLFieldResolver<TSource, MockContext, TArgs[Field]>;
+};
+
+/** Resolvers for a type whose fields take no arguments. */
+type FieldResolvers<TSource> = Record<string, GraphQLFieldResolver<TSource, MockContext, NoArgs>>;
+
+// Keep in sync with SocialNetwork.Content.Media and the Session TTL
+const MEDIA_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": ".jpg",
+  "image/png": ".png",
+  "image/gif": ".gif",
+  "image/webp": ".webp",
+  "video/mp4": ".mp4",
+  "video/webm": ".webm",
+};
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const USERNAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/** The user an unexpired session token belongs to, or null. */
+export function userForToken(db: Database, token: string): UserRecord | null {
+  const now = naiveDateTime(new Date());
+  const session = db.sessions.find((s) => s.token === token && s.expiresAt > now);
+  return (session && db.users.find((user) => user.id === session.userId)) ?? null;
+}
+
+function areFriends(db: Database, a: string, b: string): boolean {
+  return db.friendships.some(
+    (f) =>
+      f.status === "ACCEPTED" &&
+      ((f.userId === a && f.friendId === b) || (f.userId === b && f.friendId === a))
+  );
+}
+
+/** PUBLIC posts are for everyone, FRIENDS posts for the author's friends, PRIVATE ones for the author. */
+export function canSee(db: Database, viewer: UserRecord | null, post: PostRecord): boolean {
+  if (post.visibility === "PUBLIC") return true;
+  if (!viewer) return false;
+  if (viewer.id === post.authorId) return true;
+  return post.visibility === "FRIENDS" && areFriends(db, viewer.id, post.authorId);
+}
+
+function visiblePosts({ db, viewer }: MockContext): PostRecord[] {
+  return db.posts.filter((post) => canSee(db, viewer, post));
+}
+
+function requireViewer(context: MockContext): UserRecord {
+  if (!context.viewer) {
+    throw new GraphQLError("Not authenticated", { extensions: { code: "UNAUTHENTICATED" } });
+  }
+  return context.viewer;
+}
+
+interface Problem {
+  /** The argument's GraphQL name. */
+  field: string;
+  message: string;
+}
+
+/**
+ * Fails a mutation the way the ChangesetErrors middleware does: one error
+ * per problem, each tagged with the field it is about.
+ */
+function invalid(context: MockContext, info: GraphQLResolveInfo, problems: Problem[]): never {
+  const path = responsePathAsArray(info.path);
+  const [first, ...rest] = problems.map(
+    ({ field, message }) =>
+      new GraphQLError(message, { path, extensions: { code: "VALIDATION_FAILED", field } })
+  );
+  context.errors.push(...rest);
+  throw first;
+}
+
+// Ecto's messages, prefixed with the humanized field name
+function lengthProblems(field: string, label: string, value: string | null | undefined, min?: number, max?: number) {
+  if (value == null) return [];
+  if (min !== undefined && value.length < min) {
+    return [{ field, message: `${label} should be at least ${min} character(s)` }];
+  }
+  if (max !== undefined && value.length > max) {
+    return [{ field, message: `${label} should be at most ${max} character(s)` }];
+  }
+  return [];
+}
+
+function blankProblems(fields: Record<string, [label: string, value: string | null | undefined]>) {
+  return Object.entries(fields).flatMap(([field, [label, value]]) =>
+    value == null || value.trim() === "" ? [{ field, message: `${label} can't be blank` }] : []
+  );
+}
+
+interface PageArgs {
+  first?: number | null;
+  after?: string | null;
+  last?: number | null;
+  before?: string | null;
+}
+
+interface ConnectionArgs extends PageArgs {
+  where?: Filter | null;
+  orderBy?: OrderBy | null;
+}
+
+/** A Relay connection over already-ordered records, with id-based cursors like the real backend's. */
+function connection<T extends { id: string }>(typeName: string, records: T[], args: PageArgs) {
+  const cursorFor = (record: T) => Buffer.from(`${typeName}:${record.id}`).toString("base64");
+  const indexOf = (cursor: string) => records.findIndex((record) => cursorFor(record) === cursor);
+
+  let start = 0;
+  let end = records.length;
+  if (args.after) start = indexOf(args.after) + 1;
+  if (args.before) {
+    const index = indexOf(args.before);
+    if (index >= 0) end = index;
+  }
+
+  let page = records.slice(start, end);
+  let hasNextPage = end < records.length;
+  let hasPreviousPage = start > 0;
+  if (args.first != null && page.length > args.first) {
+    page = page.slice(0, args.first);
+    hasNextPage = true;
+  }
+  if (args.last != null && page.length > args.last) {
+    page = page.slice(page.length - args.last);
+    hasPreviousPage = true;
+  }
+
+  const edges = page.map((node) => ({ node, cursor: cursorFor(node) }));
+  return {
+    edges,
+    nodes: page,
+    pageInfo: {
+      hasNextPage,
+      hasPreviousPage,
+      startCursor: edges[0]?.cursor ?? null,
+      endCursor: edges[edges.length - 1]?.cursor ?? null,
+    },
+    totalCount: records.length,
+    exists: records.length > 0,
+  };
+}
+
+const byId = <T extends { id: string }>(records: T[], id: string | null | undefined) =>
+  (id != null && records.find((record) => record.id === id)) || null;
+
+// Whether a filter or ordering names `email` anywhere, e.g. under `author`
+function usesEmail(input: unknown): boolean {
+  if (Array.isArray(input)) return input.some(usesEmail);
+  if (!input || typeof input !== "object") return false;
+  return Object.entries(input).some(([field, value]) => field === "email" || usesEmail(value));
+}
+
+// Like the server's PrivateFilters middleware; there are no admins here, so
+// nobody may filter or order by somebody's email
+function rejectPrivateFilters(where: unknown, orderBy: unknown) {
+  if (usesEmail([where, orderBy])) {
+    throw new GraphQLError("Cannot filter or order by email", { extensions: { code: "BAD_USER_INPUT" } });
+  }
+}
+
+// The post a record hangs off, provided the viewer may see it
+function visiblePost(context: MockContext, postId: string | null): PostRecord | null {
+  const post = byId(context.db.posts, postId);
+  return post && canSee(context.db, context.viewer, post) ? post : null;
+}
+
+const DEFAULT_FEED_ORDER = [{ insertedAt: { direction: "DESC" as const } }, { id: { direction: "DESC" as const } }];
+
+interface QueryArgs {
+  viewer: NoArgs;
+  user: { id: string };
+  users: NoArgs;
+  post: { id: string };
+  posts: { visibility?: PostVisibility | null };
+  node: { id: string };
+  feed: ConnectionArgs;
+  people: ConnectionArgs;
+}
+
+const Query: Resolvers<unknown, QueryArgs> = {
+  viewer: (_, __, context) => context.viewer,
+  user: (_, { id }, { db }) => byId(db.users, id),
+  users: (_, __, { db }) => db.users,
+  post: (_, { id }, context) => visiblePost(context, id),
+  posts: (_, { visibility }, context) =>
+    visiblePosts(context).filter((post) => visibility == null || post.visibility === visibility),
+
+  // node(id:) takes GreenFairy global ids: Base64 "Type:id"
+  node: (_, { id }, context) => {
+    const [typeName, rawId] = Buffer.from(id, "base64").toString().split(":");
+    const { db } = context;
+    const tables: Record<string, Array<{ id: string }>> = {
+      User: db.users,
+      Comment: db.comments,
+      Like: db.likes,
+      Friendship: db.friendships,
+    };
+    const record = typeName === "Post" ? visiblePost(context, rawId) : byId(tables[typeName] ?? [], rawId);
+    return record && { ...record, __typename: typeName };
+  },
+
+  feed: (_, { where, orderBy, ...page }, context) => {
+    rejectPrivateFilters(where, orderBy);
+    const { db } = context;
+    const posts = visiblePosts(context).filter((post) =>
+      matchesFilter(post, where, { author: (p) => byId(db.users, p.authorId) })
+    );
+    const ordered = applyOrderBy(posts, orderBy?.length ? orderBy : DEFAULT_FEED_ORDER);
+    return connection("Post", ordered, page);
+  },
+
+  people: (_, { where, orderBy, ...page }, { db }) => {
+    rejectPrivateFilters(where, orderBy);
+    const users = db.users.filter((user) => matchesFilter(user, where));
+    const ordered = applyOrderBy(users, orderBy?.length ? orderBy : [{ username: { direction: "ASC" } }]);
+    return connection("User", ordered, page);
+  },
+};
+
+interface MutationArgs {
+  createUser: { email: string; username: string; displayName?: string | null; password?: string | null };
+  login: { email: string; password: string };
+  logout: NoArgs;
+  /** `media` names the multipart part holding the file. */
+  createPost: { body: string; mediaUrl?: string | null; media?: string | null; visibility?: PostVisibility | null };
+  createComment: { postId: string; body: string; parentId?: string | null };
+  likePost: { postId: string };
+  likeComment: { commentId: string };
+  sendFriendRequest: { friendId: string };
+  acceptFriendRequest: { friendshipId: string };
+  declineFriendRequest: { friendshipId: string };
+}
+
+const Mutation: Resolvers<unknown, MutationArgs> = {
+  createUser: (_, { email, username, displayName, password }, context, info) => {
+    const { db } = context;
+
+    const problems: Problem[] = [
+      ...blankProblems({ email: ["email", email], username: ["username", username] }),
+      ...(email && !EMAIL_PATTERN.test(email) ? [{ field: "email", message: "email must be a valid email address" }] : []),
+      ...(username && !USERNAME_PATTERN.test(username)
+        ? [{ field: "username", message: "username may only contain letters, numbers, underscores and hyphens" }]
+        : []),
+      ...lengthProblems("username", "username", username, 2, 30),
+      ...lengthProblems("displayName", "display name", displayName, undefined, 80),
+      ...lengthProblems("password", "password", password, 8),
+    ];
+    // Unique constraints are only checked once everything else passes
+    if (problems.length === 0) {
+      if (db.users.some((user) => user.email === email)) {
+        problems.push({ field: "email", message: "email has already been taken" });
+      } else if (db.users.some((user) => user.username === username)) {
+        problems.push({ field: "username", message: "username has already been taken" });
+      }
+    }
+    if (problems.length > 0) invalid(context, info, problems);
+
+    const user: UserRecord = {
+      id: db.nextId(),
+      email,
+      username,
+      displayName: displayName ?? null,
+      bio: null,
+      avatarUrl: null,
+      password: password ?? null,
+      ...timestamps(),
+    };
+    db.users.push(user);
+    return user;
+  },
+
+  login: (_, { email, password }, { db }) => {
+    const user = db.users.find((u) => u.email === email);
+    if (!user || user.password === null || user.password !== password) {
+      throw new GraphQLError("Invalid email or password");
+    }
+
+    const session = {
+      token: randomBytes(32).toString("base64url"),
+      userId: user.id,
+      expiresAt: naiveDateTime(new Date(Date.now() + SESSION_TTL_MS)),
+    };
+    db.sessions.push(session);
+    return { ...session, user };
+  },
+
+  logout: (_, __, { db, token }) => {
+    if (!token) return false;
+    db.sessions = db.sessions.filter((session) => session.token !== token);
+    return true;
+  },
+
+  createPost: (_, args, context, info) => {
+    const viewer = requireViewer(context);
+    const { db } = context;
+
+    let mediaUrl: string | null = args.mediaUrl ?? null;
+    if (args.media != null) {
+      const file = context.files.get(args.media);
+      const extension = file && MEDIA_EXTENSIONS[file.type];
+      if (!file || !extension) {
+        throw new GraphQLError(
+          `Unsupported media type ${JSON.stringify(file?.type ?? "")}; upload an image or video`,
+          { extensions: { code: "VALIDATION_FAILED", field: "media" } }
+        );
+      }
+      const name = randomBytes(16).toString("base64url") + extension;
+      db.uploads.set(name, file);
+      mediaUrl = `/uploads/${name}`;
+    }
+
+    const problems = [
+      ...blankProblems({ body: ["body", args.body] }),
+      ...lengthProblems("body", "body", args.body, undefined, 5000),
+    ];
+    if (problems.length > 0) invalid(context, info, problems);
+
+    const post: PostRecord = {
+      id: db.nextId(),
+      authorId: viewer.id,
+      body: args.body,
+      mediaUrl,
+      visibility: args.visibility ?? "PUBLIC",
+      ...timestamps(),
+    };
+    db.posts.push(post);
+    context.publish({ field: "postCreated", record: post });
+    return post;
+  },
+
+  createComment: (_, { postId, body, parentId }, context, info) => {
+    const viewer = requireViewer(context);
+    const { db } = context;
+
+    if (!visiblePost(context, postId)) {
+      invalid(context, info, [{ field: "postId", message: "post does not exist" }]);
+    }
+    const parent = parentId != null ? byId(db.comments, parentId) : null;
+    if (parentId != null && parent?.postId !== postId) {
+      invalid(context, info, [{ field: "parentId", message: "parent does not exist" }]);
+    }
+    const problems = blankProblems({ body: ["body", body] });
+    if (problems.length > 0) invalid(context, info, problems);
+
+    const comment: CommentRecord = {
+      id: db.nextId(),
+      authorId: viewer.id,
+      postId,
+      parentId: parent?.id ?? null,
+      body,
+      ...timestamps(),
+    };
+    db.comments.push(comment);
+    context.publish({ field: "commentAdded", record: comment });
+    return comment;
+  },
+
+  likePost: (_, { postId }, context, info) => {
+    const viewer = requireViewer(context);
+    if (!visiblePost(context, postId)) {
+      invalid(context, info, [{ field: "postId", message: "post does not exist" }]);
+    }
+    return addLike(context, info, viewer, { postId, commentId: null });
+  },
+
+  likeComment: (_, { commentId }, context, info) => {
+    const viewer = requireViewer(context);
+    const comment = byId(context.db.comments, commentId);
+    if (!comment || !visiblePost(context, comment.postId)) {
+      invalid(context, info, [{ field: "commentId", message: "comment does not exist" }]);
+    }
+    return addLike(context, info, viewer, { postId: null, commentId });
+  },
+
+  sendFriendRequest: (_, { friendId }, context, info) => {
+    const viewer = requireViewer(context);
+    const { db } = context;
+
+    if (friendId === viewer.id) {
+      invalid(context, info, [{ field: "friendId", message: "friend id cannot be the same as user" }]);
+    }
+    if (!byId(db.users, friendId)) {
+      invalid(context, info, [{ field: "friendId", message: "friend does not exist" }]);
+    }
+    if (db.friendships.some((f) => f.userId === viewer.id && f.friendId === friendId)) {
+      invalid(context, info, [{ field: "userId", message: "user id has already been taken" }]);
+    }
+
+    const friendship: FriendshipRecord = {
+      id: db.nextId(),
+      userId: viewer.id,
+      friendId,
+      status: "PENDING",
+      ...timestamps(),
+    };
+    db.friendships.push(friendship);
+    return friendship;
+  },
+
+  acceptFriendRequest: (_, { friendshipId }, context) => {
+    const request = pendingRequestTo(requireViewer(context), context.db, friendshipId);
+    if (!request) throw new GraphQLError("Friend request not found");
+
+    request.status = "ACCEPTED";
+    request.updatedAt = naiveDateTime(new Date());
+    return request;
+  },
+
+  // Only the recipient can decline; declining removes the request
+  declineFriendRequest: (_, { friendshipId }, context) => {
+    const request = pendingRequestTo(requireViewer(context), context.db, friendshipId);
+    if (!request) throw new GraphQLError("Friend request not found");
+
+    context.db.friendships = context.db.friendships.filter((f) => f !== request);
+    return request;
+  },
+};
+
+function addLike(
+  context: MockContext,
+  info: GraphQLResolveInfo,
+  viewer: UserRecord,
+  target: { postId: string | null; commentId: string | null }
+) {
+  const { db } = context;
+  const duplicate = db.likes.some(
+    (like) => like.userId === viewer.id && like.postId === target.postId && like.commentId === target.commentId
+  );
+  if (duplicate) invalid(context, info, [{ field: "userId", message: "user id has already been taken" }]);
+
+  const like = { id: db.nextId(), userId: viewer.id, ...target, ...timestamps() };
+  db.likes.push(like);
+  return like;
+}
+
+function pendingRequestTo(viewer: UserRecord, db: Database, friendshipId: string) {
+  const friendship = byId(db.friendships, friendshipId);
+  return friendship?.friendId === viewer.id && friendship.status === "PENDING" ? friendship : null;
+}
+
+// Subscription fields receive the event's record as their root value, and
+// resolve to null when the subscriber shouldn't get it
+type SubscriptionRoot = { [Event in MockEvent as Event["field"]]?: Event["record"] };
+
+const Subscription: Resolvers<SubscriptionRoot, { postCreated: NoArgs; commentAdded: { postId: string } }> = {
+  postCreated: ({ postCreated: post }, _, context) => (post && canSee(context.db, context.viewer, post) ? post : null),
+  commentAdded: ({ commentAdded: comment }, { postId }, context) =>
+    comment && comment.postId === postId && visiblePost(context, postId) ? comment : null,
+};
+
+// The public profile is visible to everyone; the rest only to the user
+// themselves, like the User type's `authorize` rule
+const ownerOnly =
+  (resolve: (user: UserRecord, db: Database) => unknown): GraphQLFieldResolver<UserRecord, MockContext, NoArgs> =>
+  (user, _, { db, viewer }) =>
+    viewer?.id === user.id ? resolve(user, db) : null;
+
+const User: FieldResolvers<UserRecord> = {
+  posts: (user, _, context) =>
+    visiblePosts(context).filter((post) => post.authorId === user.id),
+  friends: (user, _, { db }) =>
+    db.friendships
+      .filter((f) => f.status === "ACCEPTED" && (f.userId === user.id || f.friendId === user.id))
+      .map((f) => byId(db.users, f.userId === user.id ? f.friendId : f.userId)),
+  comments: ownerOnly((user, db) => db.comments.filter((c) => c.authorId === user.id)),
+  likes: ownerOnly((user, db) => db.likes.filter((like) => like.userId === user.id)),
+  friendships: ownerOnly((user, db) => db.friendships.filter((f) => f.userId === user.id)),
+  incomingFriendships: ownerOnly((user, db) => db.friendships.filter((f) => f.friendId === user.id)),
+};
+
+const Post: FieldResolvers<PostRecord> = {
+  author: (post, _, { db }) => byId(db.users, post.authorId),
+  comments: (post, _, { db }) => db.comments.filter((c) => c.postId === post.id),
+  likes: (post, _, { db }) => db.likes.filter((like) => like.postId === post.id),
+};
+
+const Comment: FieldResolvers<CommentRecord> = {
+  author: (comment, _, { db }) => byId(db.users, comment.authorId),
+  post: (comment, _, { db }) => byId(db.posts, comment.postId),
+  parent: (comment, _, { db }) => byId(db.comments, comment.parentId),
+  replies: (comment, _, { db }) => db.comments.filter((c) => c.parentId === comment.id),
+  likes: (comment, _, { db }) => db.likes.filter((like) => like.commentId === comment.id),
+};
+
+const Like: FieldResolvers<LikeRecord> = {
+  user: (like, _, { db }) => byId(db.users, like.userId),
+  post: (like, _, context) => visiblePost(context, like.postId),
+  comment: (like, _, { db }) => byId(db.comments, like.commentId),
+};
+
+const Friendship: FieldResolvers<FriendshipRecord> = {
+  user: (friendship, _, { db }) => byId(db.users, friendship.userId),
+  friend: (friendship, _, { db }) => byId(db.users, friendship.friendId),
+};
+
+const AuthSession: FieldResolvers<SessionRecord> = {
+  user: (session, _, { db }) => byId(db.users, session.userId),
+};
+
+// Each map is typed against its own records; graphql-js sees them as taking
+// whatever the schema passes
+const RESOLVERS: Record<string, Record<string, GraphQLFieldResolver<never, MockContext, never>>> = {
+  Query,
+  Mutation,
+  Subscription,
+  User,
+  Post,
+  Comment,
+  Like,
+  Friendship,
+  AuthSession,
+};
+
+/** Builds an executable schema from the SDL in `schema.graphql`. */
+export function createMockSchema(source: string): GraphQLSchema {
+  const schema = buildSchema(source);
+
+  for (const [typeName, fields] of Object.entries(RESOLVERS)) {
+    const type = schema.getType(typeName);
+    if (!isObjectType(type)) throw new Error(`schema.graphql has no object type ${typeName}`);
+    for (const [fieldName, resolve] of Object.entries(fields)) {
+      const field = type.getFields()[fieldName];
+      if (!field) throw new Error(`schema.graphql has no field ${typeName}.${fieldName}`);
+      field.resolve = resolve as GraphQLFieldResolver<unknown, MockContext>;
+    }
+  }
+
+  // node(id:) tags its result with the type it decoded from the id
+  (schema.getType("Node") as GraphQLInterfaceType).resolveType = (value) => value.__typename;
+
+  return schema;
+}
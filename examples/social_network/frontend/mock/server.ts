@@ -0,0 +1,380 @@
+// HTTP and WebSocket handlers that stand in for the Phoenix app: the GraphQL
+// endpoint (persisted ids, batches and multipart uploads, as Absinthe.Plug
+// accepts them), uploaded media, and Absinthe subscriptions over the Phoenix
+// channel protocol that src/relay/socket.ts speaks. Unlike Absinthe, the
+// endpoint answers @defer and @stream incrementally.
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { Duplex } from "node:stream";
+import { Readable } from "node:stream";
+import {
+  execute,
+  GraphQLError,
+  parse,
+  validate,
+  type DocumentNode,
+  type ExecutionResult,
+  type GraphQLSchema,
+} from "graphql";
+import { WebSocketServer, type WebSocket } from "ws";
+import type { Database, UserRecord } from "./db";
+import { splitIncremental, type IncrementalResponse } from "./incremental";
+import { userForToken, type MockContext, type MockEvent } from "./schema";
+
+export interface MockBackendOptions {
+  schema: GraphQLSchema;
+  db: Database;
+  /** The persisted query manifest, read on each lookup so it follows relay-compiler. */
+  loadManifest: () => Record<string, string>;
+}
+
+export interface MockBackend {
+  /** Serves POST /api/graphql. */
+  handleGraphQL: (req: IncomingMessage, res: ServerResponse) => void;
+  /** Serves GET /uploads/<name>. */
+  handleUploads: (req: IncomingMessage, res: ServerResponse, next: () => void) => void;
+  /** Accepts the subscription socket at /socket/websocket. */
+  handleUpgrade: (req: IncomingMessage, socket: Duplex, head: Buffer) => void;
+}
+
+// Matches the router's Plug.Parsers limit
+const MAX_BODY_BYTES = 25_000_000;
+
+// Between the parts of an incremental response, so deferred content visibly arrives later
+const INCREMENTAL_DELAY_MS = 250;
+
+type Operation = Record<string, unknown>;
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.statusCode = status;
+  res.setHeader("Content-Type", "application/json");
+  res.end(JSON.stringify(body));
+}
+
+function acceptsIncremental(req: IncomingMessage): boolean {
+  return (req.headers.accept ?? "").includes("multipart/mixed");
+}
+
+/**
+ * Writes each payload as a part of a multipart/mixed response, pausing
+ * between them. Each part is followed by its delimiter straight away, so the
+ * client can tell it's complete without waiting for the next.
+ */
+async function sendIncremental(res: ServerResponse, { initial, subsequent }: IncrementalResponse) {
+  const writePart = (body: unknown) =>
+    res.write(`\r\nContent-Type: application/json; charset=utf-8\r\n\r\n${JSON.stringify(body)}\r\n---`);
+
+  res.statusCode = 200;
+  res.setHeader("Content-Type", 'multipart/mixed; boundary="-"; deferSpec=20220824');
+  res.write("\r\n---");
+  writePart(initial);
+  for (const payload of subsequent) {
+    await new Promise((resolve) => setTimeout(resolve, INCREMENTAL_DELAY_MS));
+    // The client went away, e.g. it navigated elsewhere
+    if (res.destroyed) return;
+    writePart(payload);
+  }
+  // Turns the last delimiter into the closing one
+  res.end("--\r\n");
+}
+
+function bearerToken(req: IncomingMessage): string | null {
+  const match = /^Bearer (.+)$/.exec(req.headers.authorization ?? "");
+  return match ? match[1] : null;
+}
+
+/**
+ * Reads a JSON body (one operation or a batch), or a multipart one whose
+ * `variables` field is JSON and whose other file parts are uploads.
+ */
+async function readOperations(req: IncomingMessage): Promise<{ body: Operation | Operation[]; files: Map<string, File> }> {
+  const request = new Request(`http://localhost${req.url}`, {
+    method: "POST",
+    headers: req.headers as Record<string, string>,
+    body: Readable.toWeb(req) as ReadableStream,
+    duplex: "half",
+  } as RequestInit);
+
+  if (!(req.headers["content-type"] ?? "").startsWith("multipart/form-data")) {
+    return { body: await request.json(), files: new Map() };
+  }
+
+  const form = await request.formData();
+  const operation: Operation = {};
+  const files = new Map<string, File>();
+  form.forEach((value, name) => {
+    if (typeof value !== "string") files.set(name, value);
+    else operation[name] = name === "variables" ? JSON.parse(value) : value;
+  });
+  return { body: operation, files };
+}
+
+export function createMockBackend({ schema, db, loadManifest }: MockBackendOptions): MockBackend {
+  const subscriptions = createSubscriptions(schema, db);
+
+  const context = (viewer: UserRecord | null, token: string | null, files: Map<string, File>): MockContext => ({
+    db,
+    viewer,
+    token,
+    files,
+    errors: [],
+    publish: subscriptions.publish,
+  });
+
+  const run = async (
+    operation: Operation,
+    contextValue: MockContext
+  ): Promise<{ result: ExecutionResult; document: DocumentNode | null }> => {
+    const query =
+      typeof operation.query === "string"
+        ? operation.query
+        : typeof operation.id === "string"
+          ? loadManifest()[operation.id]
+          : undefined;
+    // Absinthe.Plug's answer to an id no document provider knows
+    if (query === undefined) {
+      return { result: { errors: [new GraphQLError("No query document supplied")] }, document: null };
+    }
+
+    let document: DocumentNode;
+    try {
+      document = parse(query);
+    } catch (error) {
+      return { result: { errors: [error as GraphQLError] }, document: null };
+    }
+    const validationErrors = validate(schema, document);
+    if (validationErrors.length > 0) return { result: { errors: validationErrors }, document };
+
+    const result = await execute({
+      schema,
+      document,
+      contextValue,
+      variableValues: (operation.variables as Record<string, unknown> | undefined) ?? {},
+      operationName: typeof operation.operationName === "string" ? operation.operationName : undefined,
+    });
+    const errors = [...(result.errors ?? []), ...contextValue.errors];
+    return { result: errors.length > 0 ? { ...result, errors } : result, document };
+  };
+
+  const handleGraphQL = async (req: IncomingMessage, res: ServerResponse) => {
+    if (req.method !== "POST") {
+      sendJson(res, 405, { errors: [{ message: "Use POST" }] });
+      return;
+    }
+    if (Number(req.headers["content-length"] ?? 0) > MAX_BODY_BYTES) {
+      sendJson(res, 413, { errors: [{ message: "Request entity too large" }] });
+      return;
+    }
+
+    // Same contract as SocialNetwork.Plugs.AbsintheContext
+    const token = bearerToken(req);
+    const viewer = token ? userForToken(db, token) : null;
+    if (token && !viewer) {
+      res.setHeader("WWW-Authenticate", 'Bearer error="invalid_token"');
+      sendJson(res, 401, {
+        errors: [{ message: "Invalid or expired session token", extensions: { code: "SESSION_EXPIRED" } }],
+      });
+      return;
+    }
+
+    let body: Operation | Operation[];
+    let files: Map<string, File>;
+    try {
+      ({ body, files } = await readOperations(req));
+    } catch {
+      sendJson(res, 400, { errors: [{ message: "Could not parse the request body" }] });
+      return;
+    }
+
+    if (Array.isArray(body)) {
+      const results = [];
+      for (const operation of body) {
+        results.push({ payload: (await run(operation, context(viewer, token, files))).result });
+      }
+      sendJson(res, 200, results);
+      return;
+    }
+
+    const { result, document } = await run(body, context(viewer, token, files));
+    const incremental =
+      document && result.data && acceptsIncremental(req)
+        ? splitIncremental(
+            schema,
+            document,
+            result,
+            (body.variables as Record<string, unknown> | undefined) ?? {},
+            typeof body.operationName === "string" ? body.operationName : undefined
+          )
+        : null;
+    if (incremental) {
+      await sendIncremental(res, incremental);
+    } else {
+      sendJson(res, 200, result);
+    }
+  };
+
+  const handleUploads = async (req: IncomingMessage, res: ServerResponse, next: () => void) => {
+    const upload = db.uploads.get(decodeURIComponent((req.url ?? "").replace(/^\/+/, "").split("?")[0]));
+    if (!upload) {
+      next();
+      return;
+    }
+    res.setHeader("Content-Type", upload.type);
+    res.end(Buffer.from(await upload.arrayBuffer()));
+  };
+
+  return {
+    handleGraphQL: (req, res) => void handleGraphQL(req, res),
+    handleUploads: (req, res, next) => void handleUploads(req, res, next),
+    handleUpgrade: subscriptions.handleUpgrade,
+  };
+}
+
+type Frame = [string | null, string | null, string, string, unknown];
+
+interface Subscriber {
+  socket: WebSocket;
+  document: DocumentNode;
+  variables: Record<string, unknown>;
+  viewer: UserRecord | null;
+}
+
+/**
+ * The server side of Absinthe's Phoenix channel transport: joins of the
+ * control channel, heartbeats, "doc" pushes that start a subscription and
+ * "unsubscribe". Every event is executed against each subscription, and the
+ * subscription gets it unless its root field resolved to null.
+ */
+function createSubscriptions(schema: GraphQLSchema, db: Database) {
+  const server = new WebSocketServer({ noServer: true });
+  const subscribers = new Map<string, Subscriber>();
+  let lastId = 0;
+
+  const send = (socket: WebSocket, frame: Frame) => socket.send(JSON.stringify(frame));
+  const reply = (socket: WebSocket, [joinRef, ref, topic]: Frame, status: string, response: unknown) =>
+    send(socket, [joinRef, ref, topic, "phx_reply", { status, response }]);
+
+  const accept = (socket: WebSocket, viewer: UserRecord | null) => {
+    const own = new Set<string>();
+
+    socket.on("message", (data) => {
+      const frame = parseFrame(String(data));
+      if (!frame) {
+        send(socket, [null, null, "phoenix", "phx_reply", { status: "error", response: { reason: "malformed frame" } }]);
+        return;
+      }
+      const [, , , event, payload] = frame;
+
+      switch (event) {
+        case "phx_join":
+        case "heartbeat":
+          reply(socket, frame, "ok", {});
+          return;
+
+        case "doc": {
+          if (!isRecord(payload) || typeof payload.query !== "string") {
+            reply(socket, frame, "error", { reason: "missing query" });
+            return;
+          }
+          const variables = payload.variables ?? {};
+          if (!isRecord(variables)) {
+            reply(socket, frame, "error", { reason: "variables must be an object" });
+            return;
+          }
+          let document: DocumentNode;
+          try {
+            document = parse(payload.query);
+          } catch (error) {
+            reply(socket, frame, "error", { errors: [{ message: (error as Error).message }] });
+            return;
+          }
+          const errors = validate(schema, document);
+          if (errors.length > 0) {
+            reply(socket, frame, "error", { errors: errors.map((error) => error.toJSON()) });
+            return;
+          }
+
+          const subscriptionId = `__absinthe__:doc:${++lastId}`;
+          subscribers.set(subscriptionId, { socket, document, variables, viewer });
+          own.add(subscriptionId);
+          reply(socket, frame, "ok", { subscriptionId });
+          return;
+        }
+
+        case "unsubscribe": {
+          const subscriptionId = isRecord(payload) ? payload.subscriptionId : undefined;
+          if (typeof subscriptionId !== "string") {
+            reply(socket, frame, "error", { reason: "missing subscriptionId" });
+            return;
+          }
+          subscribers.delete(subscriptionId);
+          own.delete(subscriptionId);
+          reply(socket, frame, "ok", { subscriptionId });
+          return;
+        }
+
+        default:
+          reply(socket, frame, "error", { reason: `unknown event ${event}` });
+      }
+    });
+
+    socket.on("close", () => own.forEach((id) => subscribers.delete(id)));
+  };
+
+  const publish = (event: MockEvent) => {
+    subscribers.forEach(async (subscriber, subscriptionId) => {
+      const result = await execute({
+        schema,
+        document: subscriber.document,
+        rootValue: { [event.field]: event.record },
+        variableValues: subscriber.variables,
+        contextValue: {
+          db,
+          viewer: subscriber.viewer,
+          token: null,
+          files: new Map(),
+          errors: [],
+          publish,
+        } satisfies MockContext,
+      });
+      const data = result.data as Record<string, unknown> | null | undefined;
+      if (!data || Object.values(data).every((value) => value == null)) return;
+
+      send(subscriber.socket, [null, null, subscriptionId, "subscription:data", { result, subscriptionId }]);
+    });
+  };
+
+  const handleUpgrade = (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    if (!(req.url ?? "").startsWith("/socket/websocket")) return;
+
+    // UserSocket.connect refuses a token that isn't a live session, which
+    // Phoenix answers with a 403; with no token the socket is anonymous
+    const token = new URL(req.url ?? "", "http://localhost").searchParams.get("token");
+    const viewer = token ? userForToken(db, token) : null;
+    if (token && !viewer) {
+      socket.end("HTTP/1.1 403 Forbidden\r\nConnection: close\r\nContent-Length: 0\r\n\r\n");
+      return;
+    }
+    server.handleUpgrade(req, socket, head, (ws) => accept(ws, viewer));
+  };
+
+  return { publish, handleUpgrade };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// A frame as src/relay/socket.ts sends it, or null for anything else
+function parseFrame(data: string): Frame | null {
+  let frame: unknown;
+  try {
+    frame = JSON.parse(data);
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(frame) || frame.length !== 5) return null;
+  const [joinRef, ref, topic, event, payload]: unknown[] = frame;
+  const isRef = (value: unknown): value is string | null => value === null || typeof value === "string";
+  if (!isRef(joinRef) || !isRef(ref) || typeof topic !== "string" || typeof event !== "string") return null;
+  return [joinRef, ref, topic, event, payload];
+}
@@ -0,0 +1,80 @@
+// Copies relay-compiler's persisted query manifest to where the Phoenix app
+// loads it (priv/graphql/persisted_queries.json), after checking every id is
+// the SHA-256 of its document so a stale or hand-edited manifest can't ship.
+// relay-compiler only ever adds to its manifest, so documents no generated
+// artifact sends any more are pruned from both copies.
+//
+// Usage: node scripts/export-persisted-queries.mjs [--check] [output path]
+//
+// --check writes nothing and fails if either copy is out of date (for CI).
+import { createHash } from "node:crypto";
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, join, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const args = process.argv.slice(2);
+const check = args.includes("--check");
+const root = resolve(dirname(fileURLToPath(import.meta.url)), "..");
+const input = resolve(root, "persisted_queries.json");
+const output = resolve(root, args.find((arg) => arg !== "--check") ?? "../priv/graphql/persisted_queries.json");
+
+const manifest = JSON.parse(await readFile(input, "utf8"));
+
+const mismatched = Object.entries(manifest).filter(
+  ([id, text]) => createHash("sha256").update(text).digest("hex") !== id
+);
+if (mismatched.length > 0) {
+  console.error(`${mismatched.length} persisted queries don't match their ids; run relay-compiler again:`);
+  for (const [id] of mismatched) console.error(`  ${id}`);
+  process.exit(1);
+}
+
+// The generated artifacts under `dir`
+async function* artifacts(dir) {
+  for (const entry of await readdir(dir, { withFileTypes: true })) {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) yield* artifacts(path);
+    else if (entry.name.endsWith(".graphql.ts") && dir.endsWith("__generated__")) yield path;
+  }
+}
+
+// The ids the frontend sends, from each operation artifact's `params`
+const used = new Set();
+for await (const path of artifacts(resolve(root, "src"))) {
+  const match = /"params": \{\s*"id": "([0-9a-f]{64})"/.exec(await readFile(path, "utf8"));
+  if (match) used.add(match[1]);
+}
+
+const missing = [...used].filter((id) => !(id in manifest));
+if (missing.length > 0) {
+  console.error(`${missing.length} persisted ids are missing from the manifest; run relay-compiler again:`);
+  for (const id of missing) console.error(`  ${id}`);
+  process.exit(1);
+}
+
+const stale = Object.keys(manifest).filter((id) => !used.has(id));
+const pruned = Object.fromEntries(Object.entries(manifest).filter(([id]) => used.has(id)));
+// Sorted so the Elixir copy diffs cleanly between builds
+const sorted = Object.fromEntries(Object.entries(pruned).sort(([a], [b]) => a.localeCompare(b)));
+const exported = `${JSON.stringify(sorted, null, 2)}\n`;
+
+if (check) {
+  const problems = [];
+  if (stale.length > 0) problems.push(`${stale.length} persisted queries in ${input} are no longer used`);
+  if ((await readFile(output, "utf8").catch(() => null)) !== exported) problems.push(`${output} is out of date`);
+  if (problems.length > 0) {
+    for (const problem of problems) console.error(problem);
+    console.error("Run `npm run persist` and commit the result.");
+    process.exit(1);
+  }
+  console.log(`${Object.keys(sorted).length} persisted queries are up to date`);
+  process.exit(0);
+}
+
+if (stale.length > 0) {
+  await writeFile(input, `${JSON.stringify(pruned, null, 2)}\n`);
+  console.log(`Pruned ${stale.length} persisted queries no artifact uses`);
+}
+await mkdir(dirname(output), { recursive: true });
+await writeFile(output, exported);
+console.log(`Wrote ${Object.keys(sorted).length} persisted queries to ${output}`);
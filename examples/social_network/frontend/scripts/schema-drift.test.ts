@@ -0,0 +1,59 @@
+import { buildSchema } from "graphql";
+import { describe, expect, it } from "vitest";
+import { diffSchemas, findAffectedOperations } from "./schema-drift";
+
+const BASE = `
+  type User { id: ID! username: String! bio: String }
+  type Post { id: ID! body: String! likeCount: Int author: User! }
+  type Query { feed(first: Int): [Post!]! user(id: ID!): User }
+`;
+
+const FEED = "query FeedQuery { feed(first: 10) { id body author { username } } }";
+const PROFILE = "query ProfileQuery($id: ID!) { user(id: $id) { username bio } }";
+
+function diff(next: string) {
+  return diffSchemas(buildSchema(BASE), buildSchema(next));
+}
+
+function affected(next: string) {
+  return findAffectedOperations([FEED, PROFILE], buildSchema(BASE), buildSchema(next));
+}
+
+describe("schema drift", () => {
+  it("reports a removed field as breaking for the operations that select it", () => {
+    const next = BASE.replace("bio: String", "");
+
+    expect(diff(next)).toEqual([{ severity: "breaking", description: "User.bio was removed." }]);
+    expect(affected(next)).toMatchObject([
+      { name: "ProfileQuery", problems: [expect.stringContaining('Cannot query field "bio" on type "User".')] },
+    ]);
+  });
+
+  it("treats additions and newly non-null output fields as safe", () => {
+    const next = BASE.replace("likeCount: Int", "likeCount: Int! commentCount: Int!");
+
+    expect(diff(next)).toEqual([
+      { severity: "safe", description: "Post.likeCount changed type from Int to Int!." },
+      { severity: "safe", description: "Post.commentCount was added." },
+    ]);
+    expect(affected(next)).toEqual([]);
+  });
+
+  it("flags a field that changed type only where an operation reads it", () => {
+    const next = BASE.replace("likeCount: Int", "likeCount: String").replace("body: String!", "body: Int!");
+
+    expect(diff(next).map((change) => change.severity)).toEqual(["breaking", "breaking"]);
+    expect(affected(next)).toEqual([
+      { name: "FeedQuery", problems: ["Post.body changed type from String! to Int!."] },
+    ]);
+  });
+
+  it("reports a new optional argument as dangerous", () => {
+    const next = BASE.replace("feed(first: Int)", "feed(first: Int, after: String = null)");
+
+    expect(diff(next)).toEqual([
+      { severity: "dangerous", description: expect.stringContaining("An optional arg after on Query.feed was added") },
+    ]);
+    expect(affected(next)).toEqual([]);
+  });
+});
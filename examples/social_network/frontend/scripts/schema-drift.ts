@@ -0,0 +1,136 @@
+// Compares two versions of the GraphQL schema, and checks which of the
+// frontend's operations a change would break. Used by sync-schema.ts.
+import {
+  findBreakingChanges,
+  findDangerousChanges,
+  isInterfaceType,
+  isObjectType,
+  parse,
+  TypeInfo,
+  validate,
+  visit,
+  visitWithTypeInfo,
+  type GraphQLSchema,
+} from "graphql";
+
+export type Severity = "breaking" | "dangerous" | "safe";
+
+export interface SchemaChange {
+  severity: Severity;
+  description: string;
+}
+
+export interface AffectedOperation {
+  name: string;
+  problems: string[];
+}
+
+/**
+ * Additions graphql-js doesn't report because no client can break on them:
+ * new types, new output fields and output fields that became non-null.
+ */
+function findSafeChanges(oldSchema: GraphQLSchema, newSchema: GraphQLSchema, breaking: string[]): string[] {
+  const changes: string[] = [];
+  const oldTypes = oldSchema.getTypeMap();
+
+  for (const newType of Object.values(newSchema.getTypeMap())) {
+    if (newType.name.startsWith("__")) continue;
+    const oldType = oldTypes[newType.name];
+    if (!oldType) {
+      changes.push(`${newType.name} was added.`);
+      continue;
+    }
+    if (!(isObjectType(newType) || isInterfaceType(newType))) continue;
+    if (!(isObjectType(oldType) || isInterfaceType(oldType))) continue;
+
+    const oldFields = oldType.getFields();
+    for (const field of Object.values(newType.getFields())) {
+      const coordinate = `${newType.name}.${field.name}`;
+      const oldField = oldFields[field.name];
+      if (!oldField) {
+        changes.push(`${coordinate} was added.`);
+      } else if (
+        String(oldField.type) !== String(field.type) &&
+        !breaking.some((description) => description.startsWith(`${coordinate} changed type`))
+      ) {
+        changes.push(`${coordinate} changed type from ${oldField.type} to ${field.type}.`);
+      }
+    }
+  }
+
+  return changes;
+}
+
+/** Every difference between the schemas, classified the way graphql-js does. */
+export function diffSchemas(oldSchema: GraphQLSchema, newSchema: GraphQLSchema): SchemaChange[] {
+  const breaking = findBreakingChanges(oldSchema, newSchema).map((change) => change.description);
+  const dangerous = findDangerousChanges(oldSchema, newSchema).map((change) => change.description);
+  const safe = findSafeChanges(oldSchema, newSchema, breaking);
+
+  return [
+    ...breaking.map((description) => ({ severity: "breaking" as const, description })),
+    ...dangerous.map((description) => ({ severity: "dangerous" as const, description })),
+    ...safe.map((description) => ({ severity: "safe" as const, description })),
+  ];
+}
+
+// Field and argument coordinates ("Post.author", "Query.feed(first:)") an
+// operation selects or passes
+function usedCoordinates(document: ReturnType<typeof parse>, schema: GraphQLSchema): Set<string> {
+  const used = new Set<string>();
+  const typeInfo = new TypeInfo(schema);
+  visit(
+    document,
+    visitWithTypeInfo(typeInfo, {
+      Field(node) {
+        const parent = typeInfo.getParentType();
+        if (parent) used.add(`${parent.name}.${node.name.value}`);
+      },
+      Argument(node) {
+        const parent = typeInfo.getParentType();
+        const field = typeInfo.getFieldDef();
+        if (parent && field) used.add(`${parent.name}.${field.name}(${node.name.value}:)`);
+      },
+    })
+  );
+  return used;
+}
+
+// graphql-js describes type changes as "Type.field changed type from ..." and
+// "Type.field arg name has changed type from ..."
+function changedCoordinate(description: string): string | null {
+  const arg = /^(\w+\.\w+) arg (\w+) has changed type/.exec(description);
+  if (arg) return `${arg[1]}(${arg[2]}:)`;
+  const field = /^(\w+\.\w+) changed type/.exec(description);
+  return field ? field[1] : null;
+}
+
+/**
+ * The operations (full documents, fragments included) that the new schema
+ * breaks: those that no longer validate, plus those reading a field or
+ * passing an argument whose type changed incompatibly, which still validate
+ * but would get data the generated types don't describe.
+ */
+export function findAffectedOperations(
+  documents: string[],
+  oldSchema: GraphQLSchema,
+  newSchema: GraphQLSchema
+): AffectedOperation[] {
+  const typeChanges = findBreakingChanges(oldSchema, newSchema).flatMap((change) => {
+    const coordinate = changedCoordinate(change.description);
+    return coordinate ? [{ coordinate, description: change.description }] : [];
+  });
+
+  return documents.flatMap((text) => {
+    const document = parse(text);
+    const operation = document.definitions.find((definition) => definition.kind === "OperationDefinition");
+    const name = operation && "name" in operation && operation.name ? operation.name.value : "(anonymous)";
+
+    const used = usedCoordinates(document, oldSchema);
+    const problems = [
+      ...validate(newSchema, document).map((error) => error.message),
+      ...typeChanges.filter(({ coordinate }) => used.has(coordinate)).map(({ description }) => description),
+    ];
+    return problems.length > 0 ? [{ name, problems }] : [];
+  });
+}
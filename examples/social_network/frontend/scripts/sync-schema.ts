@@ -0,0 +1,126 @@
+// Regenerates schema.graphql from the backend and reports what changed since
+// the checked-in copy. Breaking changes that affect one of the frontend's
+// current operations fail the run and leave schema.graphql alone, so
+// `npm run codegen` stops before relay-compiler.
+//
+// Usage: npm run schema:sync -- [--url <endpoint> | --sdl <file>] [--check] [--force]
+//
+//   --url    Introspect a running server (default http://localhost:4000/api/graphql,
+//            or SCHEMA_URL)
+//   --sdl    Read SDL instead, e.g. from
+//            `mix absinthe.schema.sdl --schema SocialNetworkWeb.GraphQL.Schema <file>`
+//   --check  Only report; exit 1 if schema.graphql is out of date
+//   --force  Write schema.graphql even if operations break
+import { readdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { parseArgs } from "node:util";
+import {
+  buildClientSchema,
+  buildSchema,
+  getIntrospectionQuery,
+  lexicographicSortSchema,
+  printSchema,
+  type GraphQLSchema,
+  type IntrospectionQuery,
+} from "graphql";
+import { diffSchemas, findAffectedOperations, type Severity } from "./schema-drift";
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), "..");
+const schemaPath = resolve(root, "schema.graphql");
+const manifestPath = resolve(root, "persisted_queries.json");
+
+const { values: options } = parseArgs({
+  options: {
+    url: { type: "string", default: process.env.SCHEMA_URL ?? "http://localhost:4000/api/graphql" },
+    sdl: { type: "string" },
+    check: { type: "boolean", default: false },
+    force: { type: "boolean", default: false },
+  },
+});
+
+async function introspect(url: string): Promise<GraphQLSchema> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ query: getIntrospectionQuery() }),
+    });
+  } catch (error) {
+    throw new Error(`Couldn't reach ${url} (${(error as Error).message}). Is the Phoenix app running?`);
+  }
+  // A proxy or the wrong path answers with an HTML error page rather than GraphQL
+  const contentType = response.headers.get("content-type") ?? "";
+  if (!response.ok || !contentType.includes("application/json")) {
+    throw new Error(
+      `${url} answered ${response.status} ${response.statusText} (${contentType || "no content type"}), ` +
+        "not a GraphQL JSON response. Is --url the GraphQL endpoint?"
+    );
+  }
+  const { data, errors } = (await response.json()) as { data?: IntrospectionQuery; errors?: { message: string }[] };
+  if (!data) {
+    throw new Error(`Introspection failed: ${errors?.map((error) => error.message).join("; ") ?? response.status}`);
+  }
+  return buildClientSchema(data);
+}
+
+// The manifest keeps superseded versions too; the artifacts name the current ones
+async function currentOperations(): Promise<string[]> {
+  const manifest = JSON.parse(await readFile(manifestPath, "utf8")) as Record<string, string>;
+  const artifacts = (await readdir(resolve(root, "src"), { recursive: true })).filter((path) =>
+    /__generated__[\\/].*\.graphql\.ts$/.test(path)
+  );
+
+  const documents: string[] = [];
+  for (const artifact of artifacts) {
+    const id = /"id": "([0-9a-f]{64})"/.exec(await readFile(resolve(root, "src", artifact), "utf8"))?.[1];
+    if (id && manifest[id]) documents.push(manifest[id]);
+  }
+  return documents;
+}
+
+const source = options.sdl ? resolve(options.sdl) : options.url!;
+const liveSchema = options.sdl ? buildSchema(await readFile(source, "utf8")) : await introspect(source);
+const checkedIn = buildSchema(await readFile(schemaPath, "utf8"));
+
+// Sorted so regenerating doesn't reorder the file when nothing changed
+const printed = `${printSchema(lexicographicSortSchema(liveSchema))}\n`;
+const current = `${printSchema(lexicographicSortSchema(checkedIn))}\n`;
+
+const changes = diffSchemas(checkedIn, liveSchema);
+if (printed === current && changes.length === 0) {
+  console.log(`schema.graphql matches ${source}.`);
+  process.exit(0);
+}
+
+console.log(`schema.graphql differs from ${source}:`);
+for (const severity of ["breaking", "dangerous", "safe"] satisfies Severity[]) {
+  const matching = changes.filter((change) => change.severity === severity);
+  if (matching.length === 0) continue;
+  console.log(`\n  ${severity} (${matching.length}):`);
+  for (const change of matching) console.log(`    - ${change.description}`);
+}
+if (changes.length === 0) console.log("\n  Only formatting or descriptions changed.");
+
+const documents = await currentOperations();
+const affected = findAffectedOperations(documents, checkedIn, liveSchema);
+if (affected.length > 0) {
+  console.log(`\n${affected.length} operation(s) would break:`);
+  for (const { name, problems } of affected) {
+    console.log(`  ${name}`);
+    for (const problem of problems) console.log(`    - ${problem}`);
+  }
+}
+
+if (options.check) {
+  console.log("\nRun `npm run schema:sync` to update schema.graphql.");
+  process.exit(1);
+}
+if (affected.length > 0 && !options.force) {
+  console.error("\nNot updating schema.graphql. Update the operations above, or rerun with --force.");
+  process.exit(1);
+}
+
+await writeFile(schemaPath, printed);
+console.log("\nUpdated schema.graphql.");
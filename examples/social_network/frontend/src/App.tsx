@@ -1,82 +1,89 @@
-import React, { Suspense, useState } from "react";
-import { UserList } from "./components/UserList";
-import { PostFeed } from "./components/PostFeed";
-import { CreateUserForm } from "./components/CreateUserForm";
-import { CreatePostForm } from "./components/CreatePostForm";
-import { UserSelector } from "./components/UserSelector";
+import { lazy, Suspense, useState } from "react";
+import { AccountMenu } from "./components/AccountMenu";
+import { ErrorBoundary, ErrorPanel } from "./components/ErrorBoundary";
+import { LocaleSwitcher } from "./components/LocaleSwitcher";
+import { UserTypeahead } from "./components/UserTypeahead";
+import { useI18n } from "./i18n/I18nProvider";
+import { Link } from "./router/Link";
+import { RouteRenderer, useLocation, useRouter } from "./router/Router";
 import "./App.css";
 
-type Tab = "feed" | "users";
+// Left out of production builds entirely
+const NetworkInspector = import.meta.env.DEV
+  ? lazy(() => import("./components/NetworkInspector").then((module) => ({ default: module.NetworkInspector })))
+  : null;
 
 function App() {
-  const [activeTab, setActiveTab] = useState<Tab>("feed");
-  const [refreshKey, setRefreshKey] = useState(0);
-
-  const handleRefresh = () => {
-    setRefreshKey((k) => k + 1);
-  };
+  const { pathname } = useLocation();
+  const { entry, isNavigating, reload } = useRouter();
+  const [accountFetchKey, setAccountFetchKey] = useState(0);
+  const { t } = useI18n();
 
   return (
     <div className="app">
       <header className="header">
         <div className="header-content">
           <div>
-            <h1>Social Network</h1>
-            <p className="subtitle">
-              Built with GreenFairy + Absinthe + Relay
-            </p>
+            <h1>{t("app.title")}</h1>
+            <p className="subtitle">{t("app.subtitle")}</p>
           </div>
-          <Suspense fallback={<div>Loading users...</div>}>
-            <UserSelector onUserChange={handleRefresh} />
-          </Suspense>
+          <UserTypeahead />
+          <ErrorBoundary
+            onRetry={() => setAccountFetchKey((key) => key + 1)}
+            fallback={(props) => <ErrorPanel {...props} compact />}
+          >
+            <Suspense fallback={<div className="account-menu">{t("app.loading")}</div>}>
+              <AccountMenu fetchKey={accountFetchKey} />
+            </Suspense>
+          </ErrorBoundary>
+          <LocaleSwitcher />
         </div>
       </header>
 
       <nav className="tabs">
-        <button
-          className={`tab ${activeTab === "feed" ? "active" : ""}`}
-          onClick={() => setActiveTab("feed")}
-        >
-          Feed
-        </button>
-        <button
-          className={`tab ${activeTab === "users" ? "active" : ""}`}
-          onClick={() => setActiveTab("users")}
-        >
-          Users
-        </button>
+        <Link to="/" className={`tab ${pathname === "/" ? "active" : ""}`}>
+          {t("nav.feed")}
+        </Link>
+        <Link to="/users" className={`tab ${pathname.startsWith("/users") ? "active" : ""}`}>
+          {t("nav.users")}
+        </Link>
+        <Link to="/me" className={`tab ${pathname === "/me" ? "active" : ""}`}>
+          {t("nav.profile")}
+        </Link>
       </nav>
 
+      {isNavigating && <div className="navigation-progress" />}
+
       <main className="main">
-        <Suspense fallback={<div className="loading">Loading...</div>}>
-          {activeTab === "feed" && (
-            <div className="feed-container">
-              <CreatePostForm onPostCreated={handleRefresh} />
-              <PostFeed key={refreshKey} />
-            </div>
-          )}
-          {activeTab === "users" && (
-            <div className="users-container">
-              <CreateUserForm onUserCreated={handleRefresh} />
-              <UserList key={refreshKey} />
-            </div>
-          )}
-        </Suspense>
+        <ErrorBoundary resetKey={entry} onRetry={reload} fallback={(props) => <ErrorPanel {...props} />}>
+          <Suspense fallback={<div className="loading">{t("app.loading")}</div>}>
+            <RouteRenderer />
+          </Suspense>
+        </ErrorBoundary>
       </main>
 
       <footer className="footer">
         <p>
-          Example application demonstrating{" "}
-          <a
-            href="https://github.com/GreenFairy-GraphQL/greenfairy"
-            target="_blank"
-            rel="noopener noreferrer"
-          >
-            GreenFairy
-          </a>
-          , a cleaner DSL for Absinthe GraphQL schemas
+          {t.parts("app.footer", {
+            greenFairy: (
+              <a
+                key="greenFairy"
+                href="https://github.com/GreenFairy-GraphQL/greenfairy"
+                target="_blank"
+                rel="noopener noreferrer"
+              >
+                {t("app.greenFairy")}
+              </a>
+            ),
+          })}
         </p>
       </footer>
+
+      {NetworkInspector && (
+        <Suspense fallback={null}>
+          <NetworkInspector />
+        </Suspense>
+      )}
     </div>
   );
 }
@@ -0,0 +1,108 @@
+import { act, render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { describe, expect, it, vi } from "vitest";
+import type { EnvironmentOptions } from "../relay/environment";
+import { AuthProvider, useAuth } from "./AuthProvider";
+import { loadSession, saveSession, type Session } from "./session";
+
+interface FakeClient {
+  options: EnvironmentOptions;
+  disconnected: boolean;
+}
+
+const clients = vi.hoisted(() => [] as FakeClient[]);
+
+vi.mock("../relay/environment", async () => {
+  const { createMockEnvironment } = await import("relay-test-utils");
+  return {
+    createEnvironment: (options: EnvironmentOptions) => {
+      const client: FakeClient = { options, disconnected: false };
+      clients.push(client);
+      return {
+        environment: createMockEnvironment(),
+        socket: { disconnect: () => (client.disconnected = true) },
+      };
+    },
+  };
+});
+
+const alice: Session = { token: "alice-token", userId: "alice", expiresAt: "2099-01-01T00:00:00" };
+const bob: Session = { token: "bob-token", userId: "bob", expiresAt: "2099-01-01T00:00:00" };
+
+function Account() {
+  const { userId, signIn, signOut } = useAuth();
+  return (
+    <>
+      <p>{userId ?? "anonymous"}</p>
+      <button onClick={() => signIn(bob, "/feed")}>Sign in</button>
+      <button onClick={() => signOut()}>Sign out</button>
+    </>
+  );
+}
+
+function renderAuth() {
+  clients.length = 0;
+  render(
+    <AuthProvider>
+      <Account />
+    </AuthProvider>
+  );
+}
+
+const currentClient = () => clients[clients.length - 1];
+
+describe("AuthProvider", () => {
+  it("restores the stored session on reload", () => {
+    saveSession(alice);
+    renderAuth();
+
+    expect(screen.getByText("alice")).toBeInTheDocument();
+    expect(currentClient().options).toMatchObject({ token: "alice-token", userId: "alice" });
+  });
+
+  it("discards a stored session that has expired", () => {
+    saveSession({ ...alice, expiresAt: "2000-01-01T00:00:00" });
+    renderAuth();
+
+    expect(screen.getByText("anonymous")).toBeInTheDocument();
+    expect(currentClient().options.token).toBeNull();
+    expect(loadSession()).toBeNull();
+  });
+
+  it("signs in with a fresh environment and closes the old socket", async () => {
+    renderAuth();
+    await userEvent.click(screen.getByRole("button", { name: "Sign in" }));
+
+    expect(screen.getByText("bob")).toBeInTheDocument();
+    expect(window.location.pathname).toBe("/feed");
+    expect(loadSession()).toEqual(bob);
+    expect(currentClient().options.token).toBe("bob-token");
+    expect(clients[0].disconnected).toBe(true);
+  });
+
+  it("signs out to the login page", async () => {
+    saveSession(alice);
+    renderAuth();
+    await userEvent.click(screen.getByRole("button", { name: "Sign out" }));
+
+    expect(screen.getByText("anonymous")).toBeInTheDocument();
+    expect(`${window.location.pathname}${window.location.search}`).toBe("/login?reason=signed-out");
+    expect(loadSession()).toBeNull();
+    expect(currentClient().options.token).toBeNull();
+  });
+
+  it("expires the session on a 401 for its own token only", async () => {
+    saveSession(alice);
+    renderAuth();
+    await userEvent.click(screen.getByRole("button", { name: "Sign in" }));
+
+    // A late 401 for the previous user's request
+    act(() => clients[0].options.onUnauthorized());
+    expect(screen.getByText("bob")).toBeInTheDocument();
+
+    act(() => currentClient().options.onUnauthorized());
+    expect(screen.getByText("anonymous")).toBeInTheDocument();
+    expect(`${window.location.pathname}${window.location.search}`).toBe("/login?reason=expired&next=%2Ffeed");
+    expect(loadSession()).toBeNull();
+  });
+});
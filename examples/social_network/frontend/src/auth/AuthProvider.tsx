@@ -0,0 +1,126 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from "react";
+import { RelayEnvironmentProvider } from "react-relay";
+import { createEnvironment } from "../relay/environment";
+import {
+  clearSession,
+  loadSession,
+  msUntilExpiry,
+  onSessionStorageChange,
+  saveSession,
+  type Session,
+} from "./session";
+
+/** Why the user was sent to the login page; shown there as a notice. */
+export type SignOutReason = "signed-out" | "expired";
+
+// setTimeout fires immediately for delays past 2^31-1 ms; sessions further
+// out than that are left to the server's 401
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+export interface AuthContextValue {
+  session: Session | null;
+  userId: string | null;
+  /** Stores the session and continues to `redirectTo` as the new user. */
+  signIn: (session: Session, redirectTo?: string) => void;
+  /** Forgets the session and sends the user to the login page. */
+  signOut: (reason?: SignOutReason) => void;
+}
+
+/** Exported so tests can provide a session without a real environment. */
+export const AuthContext = createContext<AuthContextValue | null>(null);
+
+/** The login URL for `reason`, returning to the current page for expired sessions. */
+export function loginPath(reason?: SignOutReason): string {
+  const params = new URLSearchParams();
+  if (reason) params.set("reason", reason);
+  if (reason === "expired") {
+    params.set("next", `${window.location.pathname}${window.location.search}`);
+  }
+  const query = params.toString();
+  return query ? `/login?${query}` : "/login";
+}
+
+/**
+ * Owns the login session and the Relay environment for it. Every identity
+ * change (login, logout, expiry, another tab) builds a fresh environment and
+ * remounts everything below, so no records, preloaded queries or component
+ * state carry over from the previous user.
+ */
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [session, setSession] = useState<Session | null>(loadSession);
+  const sessionRef = useRef(session);
+  sessionRef.current = session;
+
+  // History is updated before the state change so the remounted router
+  // starts on the right page.
+  const replaceSession = useCallback((next: Session | null, url?: string) => {
+    if (next) saveSession(next);
+    else clearSession();
+    if (url) window.history.pushState(null, "", url);
+    setSession(next);
+  }, []);
+
+  const signIn = useCallback(
+    (next: Session, redirectTo = "/") => replaceSession(next, redirectTo),
+    [replaceSession]
+  );
+
+  const signOut = useCallback(
+    (reason: SignOutReason = "signed-out") => replaceSession(null, loginPath(reason)),
+    [replaceSession]
+  );
+
+  // Only expire the session the rejected request was sent with; a late 401
+  // from before a login must not log out the new user.
+  const expire = useCallback(
+    (token: string | null) => {
+      if (token && sessionRef.current?.token === token) signOut("expired");
+    },
+    [signOut]
+  );
+
+  const token = session?.token ?? null;
+  const userId = session?.userId ?? null;
+  const client = useMemo(
+    () => createEnvironment({ token, userId, onUnauthorized: () => expire(token) }),
+    [token, userId, expire]
+  );
+  useEffect(() => () => client.socket.disconnect(), [client]);
+
+  useEffect(() => {
+    const ms = session ? msUntilExpiry(session) : Infinity;
+    if (!session || ms > MAX_TIMER_MS) return;
+    const timeout = window.setTimeout(() => expire(session.token), Math.max(ms, 0));
+    return () => window.clearTimeout(timeout);
+  }, [session, expire]);
+
+  useEffect(
+    () =>
+      onSessionStorageChange(() => {
+        const stored = loadSession();
+        if (stored?.token !== sessionRef.current?.token) setSession(stored);
+      }),
+    []
+  );
+
+  const value = useMemo(
+    () => ({ session, userId: session?.userId ?? null, signIn, signOut }),
+    [session, signIn, signOut]
+  );
+
+  return (
+    <AuthContext.Provider value={value}>
+      <RelayEnvironmentProvider key={token ?? "anonymous"} environment={client.environment}>
+        {children}
+      </RelayEnvironmentProvider>
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth(): AuthContextValue {
+  const auth = useContext(AuthContext);
+  if (!auth) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return auth;
+}
@@ -0,0 +1,55 @@
+import { parseNaiveDateTime, type NaiveDateTime } from "../relay/naiveDateTime";
+
+export interface Session {
+  token: string;
+  userId: string;
+  /** From the `login` mutation. */
+  expiresAt: NaiveDateTime;
+}
+
+const STORAGE_KEY = "social-network.session";
+
+/** Milliseconds until the session expires; zero or less once it has. */
+export function msUntilExpiry(session: Session): number {
+  const expiresAt = parseNaiveDateTime(session.expiresAt);
+  return expiresAt ? expiresAt.getTime() - Date.now() : 0;
+}
+
+function isSession(value: unknown): value is Session {
+  if (typeof value !== "object" || value === null) return false;
+  const { token, userId, expiresAt } = value as Record<string, unknown>;
+  return typeof token === "string" && typeof userId === "string" && typeof expiresAt === "string";
+}
+
+/** Reads the persisted session, discarding it if it is malformed or expired. */
+export function loadSession(): Session | null {
+  let stored: unknown;
+  try {
+    stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? "null");
+  } catch {
+    stored = null;
+  }
+
+  if (!isSession(stored) || !(msUntilExpiry(stored) > 0)) {
+    clearSession();
+    return null;
+  }
+  return stored;
+}
+
+export function saveSession(session: Session) {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+}
+
+export function clearSession() {
+  window.localStorage.removeItem(STORAGE_KEY);
+}
+
+/** Calls `onChange` when another tab logs in or out. */
+export function onSessionStorageChange(onChange: () => void): () => void {
+  const handleStorage = (e: StorageEvent) => {
+    if (e.key === STORAGE_KEY || e.key === null) onChange();
+  };
+  window.addEventListener("storage", handleStorage);
+  return () => window.removeEventListener("storage", handleStorage);
+}
@@ -0,0 +1,75 @@
+import { graphql, useLazyLoadQuery, useMutation } from "react-relay";
+import { loginPath, useAuth } from "../auth/AuthProvider";
+import { useI18n } from "../i18n/I18nProvider";
+import { Link } from "../router/Link";
+import type { AccountMenuQuery } from "./__generated__/AccountMenuQuery.graphql";
+import type { AccountMenuLogoutMutation } from "./__generated__/AccountMenuLogoutMutation.graphql";
+
+const query = graphql`
+  query AccountMenuQuery {
+    viewer {
+      id
+      username
+      displayName
+    }
+  }
+`;
+
+const logoutMutation = graphql`
+  mutation AccountMenuLogoutMutation {
+    logout
+  }
+`;
+
+interface Props {
+  /** Bump to refetch the viewer, e.g. after the query failed. */
+  fetchKey?: number;
+}
+
+/** Header widget: who is logged in, with a logout button, or a login link. */
+export function AccountMenu({ fetchKey = 0 }: Props) {
+  const { t } = useI18n();
+  const { session, signOut } = useAuth();
+
+  if (!session) {
+    return (
+      <div className="account-menu">
+        <span>{t("account.guest")}</span>
+        <Link to={loginPath()} className="btn btn-secondary btn-small">
+          {t("login.logIn")}
+        </Link>
+      </div>
+    );
+  }
+
+  return <SignedInMenu fetchKey={fetchKey} onSignOut={() => signOut("signed-out")} />;
+}
+
+function SignedInMenu({ fetchKey, onSignOut }: { fetchKey: number; onSignOut: () => void }) {
+  const { t } = useI18n();
+  const data = useLazyLoadQuery<AccountMenuQuery>(query, {}, { fetchKey });
+  const [commitLogout, isLoggingOut] = useMutation<AccountMenuLogoutMutation>(logoutMutation);
+
+  // Forget the session locally even if revoking it on the server fails
+  const logout = () => {
+    commitLogout({ variables: {}, onCompleted: onSignOut, onError: onSignOut });
+  };
+
+  const viewer = data.viewer;
+
+  return (
+    <div className="account-menu">
+      {viewer && (
+        <span>
+          {t.parts("account.loggedInAs", {
+            name: <strong key="name">{viewer.displayName || viewer.username}</strong>,
+          })}
+          <span className="current-user-badge"> @{viewer.username}</span>
+        </span>
+      )}
+      <button type="button" className="btn btn-secondary btn-small" onClick={logout} disabled={isLoggingOut}>
+        {isLoggingOut ? t("account.loggingOut") : t("account.logOut")}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+import { useState } from "react";
+
+interface Props {
+  name: string;
+  url?: string | null;
+  size?: "small" | "large";
+}
+
+/** A user's avatar image, falling back to their initial if it is missing or fails to load. */
+export function Avatar({ name, url, size = "small" }: Props) {
+  const [failedUrl, setFailedUrl] = useState<string | null>(null);
+  const className = `avatar avatar-${size}`;
+
+  if (url && url !== failedUrl) {
+    return <img className={className} src={url} alt={name} onError={() => setFailedUrl(url)} />;
+  }
+
+  return (
+    <div className={className} aria-label={name}>
+      {(name[0] ?? "?").toUpperCase()}
+    </div>
+  );
+}
@@ -0,0 +1,257 @@
+import React, { useMemo, useState } from "react";
+import { graphql, useFragment, useMutation } from "react-relay";
+import type { RecordProxy, RecordSourceSelectorProxy } from "relay-runtime";
+import { useI18n } from "../i18n/I18nProvider";
+import { describeError } from "../relay/errors";
+import { CommentLikeButton } from "./LikeButton";
+import { RelativeTime } from "./RelativeTime";
+import type { CommentThread_post$key } from "./__generated__/CommentThread_post.graphql";
+import type { CommentThread_comment$key } from "./__generated__/CommentThread_comment.graphql";
+import type { CommentThreadCreateCommentMutation } from "./__generated__/CommentThreadCreateCommentMutation.graphql";
+
+// Replies nested deeper than this are hidden behind a "continue thread" toggle
+const MAX_DEPTH = 4;
+
+const postFragment = graphql`
+  fragment CommentThread_post on Post {
+    id
+    # Throws to the post's error boundary rather than showing "no comments"
+    comments @required(action: THROW) {
+      id
+      parent {
+        id
+      }
+      ...CommentThread_comment
+    }
+  }
+`;
+
+const commentFragment = graphql`
+  fragment CommentThread_comment on Comment {
+    id
+    body
+    insertedAt
+    author {
+      id
+      username
+      displayName
+    }
+    ...LikeButton_comment
+  }
+`;
+
+const createCommentMutation = graphql`
+  mutation CommentThreadCreateCommentMutation(
+    $postId: ID!
+    $body: String!
+    $parentId: ID
+  ) {
+    createComment(postId: $postId, body: $body, parentId: $parentId) {
+      id
+      parent {
+        id
+      }
+      ...CommentThread_comment
+    }
+  }
+`;
+
+function appendLinkedRecord(record: RecordProxy, field: string, item: RecordProxy) {
+  const items = record.getLinkedRecords(field) ?? [];
+  if (items.some((existing) => existing?.getDataID() === item.getDataID())) return;
+  record.setLinkedRecords([...items, item], field);
+}
+
+/**
+ * Inserts a newly created comment into its post's comment list and, for
+ * replies, into the parent comment's replies. Safe to call more than once for
+ * the same comment (e.g. from both the mutation and the live subscription).
+ */
+export function insertComment(
+  store: RecordSourceSelectorProxy,
+  postId: string,
+  comment: RecordProxy
+) {
+  const post = store.get(postId);
+  if (post) appendLinkedRecord(post, "comments", comment);
+
+  const parentId = comment.getLinkedRecord("parent")?.getDataID();
+  const parent = parentId ? store.get(parentId) : null;
+  if (parent) appendLinkedRecord(parent, "replies", comment);
+}
+
+interface CommentFormProps {
+  postId: string;
+  parentId?: string;
+  autoFocus?: boolean;
+  onDone?: () => void;
+}
+
+function CommentForm({ postId, parentId, autoFocus, onDone }: CommentFormProps) {
+  const { t } = useI18n();
+  const [body, setBody] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [commit, isInFlight] = useMutation<CommentThreadCreateCommentMutation>(
+    createCommentMutation
+  );
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    commit({
+      variables: { postId, body, parentId: parentId ?? null },
+      updater: (store) => {
+        const comment = store.getRootField("createComment");
+        if (comment) insertComment(store, postId, comment);
+      },
+      onCompleted: () => {
+        setBody("");
+        onDone?.();
+      },
+      onError: (err) => {
+        setError(describeError(err, t));
+      },
+    });
+  };
+
+  return (
+    <form className="comment-form" onSubmit={handleSubmit}>
+      {error && <div className="error-message">{error}</div>}
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder={parentId ? t("comments.writeReply") : t("comments.writeComment")}
+        autoFocus={autoFocus}
+        required
+      />
+      <div className="comment-form-actions">
+        {onDone && (
+          <button type="button" className="btn btn-secondary" onClick={onDone}>
+            {t("comments.cancel")}
+          </button>
+        )}
+        <button
+          type="submit"
+          className="btn btn-primary"
+          disabled={isInFlight || body.trim() === ""}
+        >
+          {isInFlight ? t("comments.posting") : parentId ? t("comments.reply") : t("comments.comment")}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+type CommentRef = CommentThread_comment$key & { readonly id: string };
+
+interface CommentNodeProps {
+  comment: CommentRef;
+  childrenByParent: Map<string | null, CommentRef[]>;
+  postId: string;
+  depth: number;
+}
+
+function countDescendants(id: string, childrenByParent: Map<string | null, CommentRef[]>): number {
+  return (childrenByParent.get(id) ?? []).reduce(
+    (sum, child) => sum + 1 + countDescendants(child.id, childrenByParent),
+    0
+  );
+}
+
+function CommentNode({ comment: commentKey, childrenByParent, postId, depth }: CommentNodeProps) {
+  const { t } = useI18n();
+  const comment = useFragment(commentFragment, commentKey);
+  const replies = childrenByParent.get(comment.id) ?? [];
+  const [collapsed, setCollapsed] = useState(depth >= MAX_DEPTH);
+  const [replying, setReplying] = useState(false);
+
+  const authorName = comment.author?.displayName || comment.author?.username || t("post.anonymous");
+  const hiddenCount = countDescendants(comment.id, childrenByParent);
+
+  return (
+    <div className="comment" style={{ marginLeft: depth > 0 && depth <= MAX_DEPTH ? "1.25rem" : 0 }}>
+      <div className="comment-header">
+        <span className="comment-author">{authorName}</span>
+        <RelativeTime value={comment.insertedAt} className="comment-time" />
+      </div>
+      <div className="comment-body">{comment.body}</div>
+      <div className="comment-actions">
+        <CommentLikeButton comment={comment} />
+        <button type="button" className="link-button" onClick={() => setReplying((r) => !r)}>
+          {t("comments.reply")}
+        </button>
+        {replies.length > 0 && (
+          <button type="button" className="link-button" onClick={() => setCollapsed((c) => !c)}>
+            {collapsed
+              ? depth >= MAX_DEPTH
+                ? t("comments.continueThread", { count: hiddenCount })
+                : t("comments.showReplies", { count: hiddenCount })
+              : t("comments.hideReplies")}
+          </button>
+        )}
+      </div>
+      {replying && (
+        <CommentForm
+          postId={postId}
+          parentId={comment.id}
+          autoFocus
+          onDone={() => {
+            setReplying(false);
+            setCollapsed(false);
+          }}
+        />
+      )}
+      {!collapsed &&
+        replies.map((reply) => (
+          <CommentNode
+            key={reply.id}
+            comment={reply}
+            childrenByParent={childrenByParent}
+            postId={postId}
+            depth={depth + 1}
+          />
+        ))}
+    </div>
+  );
+}
+
+interface Props {
+  post: CommentThread_post$key;
+}
+
+export function CommentThread({ post: postKey }: Props) {
+  const post = useFragment(postFragment, postKey);
+
+  // Post.comments is flat (replies included); rebuild the tree from parent ids.
+  // Comments whose parent is not in the list are treated as top-level.
+  const childrenByParent = useMemo(() => {
+    const comments = post.comments;
+    const ids = new Set(comments.map((c) => c.id));
+    const map = new Map<string | null, CommentRef[]>();
+
+    for (const comment of comments) {
+      const parentId = comment.parent && ids.has(comment.parent.id) ? comment.parent.id : null;
+      map.set(parentId, [...(map.get(parentId) ?? []), comment]);
+    }
+
+    return map;
+  }, [post.comments]);
+
+  const topLevel = childrenByParent.get(null) ?? [];
+
+  return (
+    <div className="comment-thread">
+      {topLevel.map((comment) => (
+        <CommentNode
+          key={comment.id}
+          comment={comment}
+          childrenByParent={childrenByParent}
+          postId={post.id}
+          depth={0}
+        />
+      ))}
+      <CommentForm postId={post.id} />
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import { screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { describe, expect, it } from "vitest";
+import { AuthError } from "../relay/errors";
+import { rejectMostRecent, renderWithRelay, resolveMostRecent } from "../test/relay";
+import { CreatePostForm } from "./CreatePostForm";
+
+describe("CreatePostForm", () => {
+  it("requires a body before posting", async () => {
+    const user = userEvent.setup();
+    const { environment } = renderWithRelay(<CreatePostForm />, { userId: "1" });
+
+    await user.click(screen.getByRole("button", { name: "Post" }));
+
+    expect(screen.getByLabelText("What's on your mind?")).toHaveAccessibleDescription(
+      "Write something to post."
+    );
+    expect(environment.mock.getAllOperations()).toHaveLength(0);
+  });
+
+  it("posts with the chosen visibility and clears the form", async () => {
+    const user = userEvent.setup();
+    const { environment } = renderWithRelay(<CreatePostForm />, { userId: "1" });
+
+    await user.type(screen.getByLabelText("What's on your mind?"), "Hello");
+    await user.selectOptions(screen.getByLabelText("Visibility"), "FRIENDS");
+    await user.click(screen.getByRole("button", { name: "Post" }));
+
+    expect(screen.getByRole("button", { name: "Posting..." })).toBeDisabled();
+    expect(environment.mock.getMostRecentOperation().request.variables).toMatchObject({
+      body: "Hello",
+      visibility: "FRIENDS",
+    });
+
+    resolveMostRecent(environment, { Post: () => ({ body: "Hello" }) });
+
+    expect(await screen.findByRole("button", { name: "Post" })).toBeEnabled();
+    expect(screen.getByLabelText("What's on your mind?")).toHaveValue("");
+    expect(screen.getByLabelText("Visibility")).toHaveValue("PUBLIC");
+  });
+
+  it("keeps the draft and explains when the session has expired", async () => {
+    const user = userEvent.setup();
+    const { environment } = renderWithRelay(<CreatePostForm />, { userId: "1" });
+
+    await user.type(screen.getByLabelText("What's on your mind?"), "Hello");
+    await user.click(screen.getByRole("button", { name: "Post" }));
+    rejectMostRecent(environment, new AuthError("unauthenticated"));
+
+    expect(await screen.findByText("You need to be logged in to do that.")).toBeInTheDocument();
+    expect(screen.getByLabelText("What's on your mind?")).toHaveValue("Hello");
+  });
+
+  it("rejects attachments that aren't images or videos", async () => {
+    // Bypass the input's accept filter, as dropping a file would
+    const user = userEvent.setup({ applyAccept: false });
+    renderWithRelay(<CreatePostForm />, { userId: "1" });
+
+    await user.upload(
+      screen.getByLabelText("Photo or video"),
+      new File(["%PDF"], "resume.pdf", { type: "application/pdf" })
+    );
+
+    expect(screen.getByLabelText("Photo or video").closest(".form-group")).toHaveTextContent(
+      "Only JPEG, PNG, GIF or WebP images and MP4 or WebM videos can be attached."
+    );
+    expect(screen.getByText("Drop an image or video here, or choose a file.")).toBeInTheDocument();
+  });
+});
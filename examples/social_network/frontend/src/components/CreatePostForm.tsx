@@ -1,87 +1,225 @@
-import React, { useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { graphql, useMutation } from "react-relay";
+import type { Disposable } from "relay-runtime";
+import { useAuth } from "../auth/AuthProvider";
+import { FormField } from "../forms/FormField";
+import { useForm } from "../forms/useForm";
+import { MUTATION_CONSTRAINTS, rulesFor } from "../forms/constraints";
+import type { Translate } from "../i18n/catalog";
+import { useI18n } from "../i18n/I18nProvider";
+import { trackUploadProgress } from "../relay/uploadProgress";
+import { useSearchParams } from "../router/Router";
+import { feedQueryVariables } from "./feedFilters";
+import { insertPostIntoFeed } from "./PostFeed";
 import type { CreatePostFormMutation } from "./__generated__/CreatePostFormMutation.graphql";
 
+// Must match SocialNetwork.Content.Media and the router's multipart limit
+const ACCEPTED_MEDIA = ["image/jpeg", "image/png", "image/gif", "image/webp", "video/mp4", "video/webm"];
+const MAX_MEDIA_BYTES = 25_000_000;
+
 const mutation = graphql`
   mutation CreatePostFormMutation(
     $body: String!
     $visibility: PostVisibility
+    $media: Upload
   ) {
-    createPost(body: $body, visibility: $visibility) {
+    createPost(body: $body, visibility: $visibility, media: $media) {
       id
-      body
-      visibility
+      ...PostFeed_post @arguments(deferDetails: false)
     }
   }
 `;
 
-interface Props {
-  onPostCreated: () => void;
+type PostFields = {
+  body: string;
+  visibility: "PUBLIC" | "FRIENDS" | "PRIVATE";
+};
+
+// Checked as SocialNetwork.Content.Post.changeset checks them
+const postRules = rulesFor<PostFields>(MUTATION_CONSTRAINTS.createPost, {
+  body: { required: "createPost.bodyRequired" },
+});
+
+const EMPTY: PostFields = { body: "", visibility: "PUBLIC" };
+
+function mediaError(file: File, t: Translate): string | null {
+  if (!ACCEPTED_MEDIA.includes(file.type)) {
+    return t("createPost.mediaType");
+  }
+  if (file.size > MAX_MEDIA_BYTES) {
+    return t("createPost.mediaSize", { megabytes: MAX_MEDIA_BYTES / 1_000_000 });
+  }
+  return null;
 }
 
-export function CreatePostForm({ onPostCreated }: Props) {
-  const [body, setBody] = useState("");
-  const [visibility, setVisibility] = useState<"PUBLIC" | "FRIENDS" | "PRIVATE">("PUBLIC");
-  const [error, setError] = useState<string | null>(null);
+export function CreatePostForm() {
+  const { t } = useI18n();
+  const { userId } = useAuth();
+  // The feed next to the form shows these params
+  const [params] = useSearchParams();
+  const form = useForm(EMPTY, postRules, ["media"]);
+  const [media, setMedia] = useState<File | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const request = useRef<Disposable | null>(null);
 
   const [commit, isInFlight] = useMutation<CreatePostFormMutation>(mutation);
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    setError(null);
+  // Stop uploading if the form goes away mid-request
+  useEffect(() => () => request.current?.dispose(), []);
 
-    commit({
+  const selectMedia = (file: File | null) => {
+    const problem = file && mediaError(file, t);
+    form.setFieldError("media", problem);
+    setMedia(problem ? null : file);
+  };
+
+  const handleSubmit = form.handleSubmit(({ body, visibility }) => {
+    const untrack = media
+      ? trackUploadProgress(media, ({ loaded, total }) => setProgress(loaded / total))
+      : () => {};
+    const finish = () => {
+      untrack();
+      request.current = null;
+      setProgress(null);
+    };
+
+    request.current = commit({
       variables: {
         body,
         visibility,
       },
-      onCompleted: (response) => {
-        if (response.createPost) {
-          setBody("");
-          onPostCreated();
-        }
+      uploadables: media ? { media } : undefined,
+      updater: (store) => {
+        const post = store.getRootField("createPost");
+        if (post) insertPostIntoFeed(store, post, feedQueryVariables(params, userId));
+      },
+      onCompleted: () => {
+        finish();
+        form.reset();
+        setMedia(null);
       },
       onError: (err) => {
-        setError(err.message || "Failed to create post. Make sure you have a user in the context.");
+        finish();
+        form.setServerErrors(err);
       },
+      onUnsubscribe: finish,
     });
+  });
+
+  const handleCancel = () => {
+    request.current?.dispose();
   };
 
   return (
     <div className="card">
-      <h2>Create Post</h2>
-      {error && <div className="error-message">{error}</div>}
-      <form onSubmit={handleSubmit}>
-        <div className="form-group">
-          <label htmlFor="body">What's on your mind?</label>
-          <textarea
-            id="body"
-            value={body}
-            onChange={(e) => setBody(e.target.value)}
-            placeholder="Share your thoughts..."
-            required
-          />
-        </div>
-        <div className="form-group">
-          <label htmlFor="visibility">Visibility</label>
-          <select
-            id="visibility"
-            value={visibility}
-            onChange={(e) => setVisibility(e.target.value as typeof visibility)}
-          >
-            <option value="PUBLIC">Public</option>
-            <option value="FRIENDS">Friends Only</option>
-            <option value="PRIVATE">Private</option>
+      <h2>{t("createPost.title")}</h2>
+      {form.formError && <div className="error-message">{form.formError}</div>}
+      <form onSubmit={handleSubmit} noValidate>
+        <FormField name="body" label={t("createPost.body")} error={form.errorFor("body")}>
+          <textarea {...form.field("body")} placeholder={t("createPost.bodyPlaceholder")} />
+        </FormField>
+        <FormField name="media" label={t("createPost.media")} error={form.errorFor("media")}>
+          <MediaDropZone file={media} onSelect={selectMedia} disabled={isInFlight} />
+        </FormField>
+        <FormField name="visibility" label={t("createPost.visibility")} error={form.errorFor("visibility")}>
+          <select {...form.field("visibility")}>
+            <option value="PUBLIC">{t("createPost.visibility.PUBLIC")}</option>
+            <option value="FRIENDS">{t("createPost.visibility.FRIENDS")}</option>
+            <option value="PRIVATE">{t("createPost.visibility.PRIVATE")}</option>
           </select>
+        </FormField>
+        {isInFlight && progress !== null && (
+          <div className="upload-progress">
+            <progress value={progress} max={1} aria-label={t("createPost.uploadProgress")} />
+            <span>{t("createPost.percent", { progress })}</span>
+          </div>
+        )}
+        <div className="form-actions">
+          <button type="submit" className="btn btn-primary" disabled={isInFlight}>
+            {isInFlight
+              ? t(media ? "createPost.uploading" : "createPost.posting")
+              : t("createPost.submit")}
+          </button>
+          {isInFlight && media && (
+            <button type="button" className="btn btn-secondary" onClick={handleCancel}>
+              {t("createPost.cancel")}
+            </button>
+          )}
         </div>
-        <button type="submit" className="btn btn-primary" disabled={isInFlight}>
-          {isInFlight ? "Posting..." : "Post"}
-        </button>
       </form>
       <p style={{ marginTop: "1rem", fontSize: "0.875rem", color: "#888" }}>
-        Note: Creating posts requires authentication. In a real app, you would
-        need to be logged in.
+        {t("createPost.note")}
       </p>
     </div>
   );
 }
+
+interface MediaDropZoneProps {
+  file: File | null;
+  onSelect: (file: File | null) => void;
+  disabled: boolean;
+}
+
+/** Picks one image or video by browsing or drag-and-drop, and previews it. */
+function MediaDropZone({ file, onSelect, disabled }: MediaDropZoneProps) {
+  const { t } = useI18n();
+  const [isDragging, setIsDragging] = useState(false);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const input = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!file) {
+      setPreviewUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(file);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  // Let the same file be picked again after it was removed
+  useEffect(() => {
+    if (!file && input.current) input.current.value = "";
+  }, [file]);
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (!disabled) onSelect(e.dataTransfer.files[0] ?? null);
+  };
+
+  return (
+    <div
+      className={`media-drop-zone ${isDragging ? "media-drop-zone-active" : ""}`}
+      onDragOver={(e) => {
+        e.preventDefault();
+        if (!disabled) setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+    >
+      <input
+        ref={input}
+        id="media"
+        type="file"
+        accept={ACCEPTED_MEDIA.join(",")}
+        onChange={(e) => onSelect(e.target.files?.[0] ?? null)}
+        disabled={disabled}
+      />
+      {file && previewUrl ? (
+        <div className="media-preview">
+          {file.type.startsWith("video/") ? (
+            <video src={previewUrl} controls muted />
+          ) : (
+            <img src={previewUrl} alt={t("createPost.mediaPreview")} />
+          )}
+          <button type="button" className="link-button" onClick={() => onSelect(null)} disabled={disabled}>
+            {t("createPost.removeMedia")}
+          </button>
+        </div>
+      ) : (
+        <p className="media-drop-hint">{t("createPost.mediaHint")}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import { screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { loadQuery } from "react-relay";
+import { createMockEnvironment } from "relay-test-utils";
+import { describe, expect, it } from "vitest";
+import { NetworkError, ValidationError } from "../relay/errors";
+import { rejectMostRecent, renderWithRelay, resolveMostRecent } from "../test/relay";
+import { USER_LIST_PAGE_SIZE } from "./pageSizes";
+import { UserList } from "./UserList";
+import UserListQueryNode, { type UserListQuery } from "./__generated__/UserListQuery.graphql";
+
+// The form sits above the list it adds users to
+async function renderForm() {
+  const environment = createMockEnvironment();
+  const queryRef = loadQuery<UserListQuery>(environment, UserListQueryNode, { count: USER_LIST_PAGE_SIZE });
+  renderWithRelay(<UserList queryRef={queryRef} />, { environment });
+  resolveMostRecent(environment, {
+    Query: () => ({ viewer: null }),
+    PeopleConnection: () => ({ edges: [{}], totalCount: 1 }),
+    User: () => ({ id: "grace", username: "grace", displayName: "Grace" }),
+  });
+  await screen.findByText("@grace");
+  return { environment };
+}
+
+async function fillIn(fields: Record<string, string>) {
+  const user = userEvent.setup();
+  for (const [label, value] of Object.entries(fields)) {
+    await user.type(screen.getByLabelText(label, { exact: false }), value);
+  }
+  await user.click(screen.getByRole("button", { name: "Create User" }));
+}
+
+describe("CreateUserForm", () => {
+  it("blocks submission until the required fields are valid", async () => {
+    const { environment } = await renderForm();
+    await fillIn({ Email: "not-an-email" });
+
+    expect(screen.getByLabelText("Email", { exact: false })).toHaveAccessibleDescription(
+      "Enter a valid email address."
+    );
+    expect(screen.getByLabelText("Username", { exact: false })).toHaveAccessibleDescription(
+      "Username is required."
+    );
+    const sent = environment.mock.getAllOperations().map((operation) => operation.request.node.params.name);
+    expect(sent).not.toContain("CreateUserFormMutation");
+  });
+
+  it("adds the new user to the list and clears the form", async () => {
+    const { environment } = await renderForm();
+    await fillIn({ Email: "ada@example.com", Username: "ada" });
+
+    expect(screen.getByRole("button", { name: "Creating..." })).toBeDisabled();
+    expect(environment.mock.getMostRecentOperation().request.variables).toMatchObject({
+      email: "ada@example.com",
+      username: "ada",
+    });
+
+    resolveMostRecent(environment, { User: () => ({ id: "ada", username: "ada", displayName: "Ada" }) });
+
+    expect(await screen.findByText("@ada")).toBeInTheDocument();
+    expect(screen.getByText("@grace")).toBeInTheDocument();
+    expect(screen.getByText("Showing 2 of 2 users")).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: "Create User" })).toBeEnabled();
+    expect(screen.getByLabelText("Email", { exact: false })).toHaveValue("");
+  });
+
+  it("leaves a new user out of search results they don't match", async () => {
+    const user = userEvent.setup();
+    const { environment } = await renderForm();
+    await user.type(screen.getByRole("searchbox", { name: "Search users" }), "gra");
+    await waitFor(() =>
+      expect(environment.mock.getMostRecentOperation().request.node.params.name).toBe("UserListPaginationQuery")
+    );
+    resolveMostRecent(environment, {
+      PeopleConnection: () => ({ edges: [{}], totalCount: 1 }),
+      User: () => ({ id: "grace", username: "grace", displayName: "Grace" }),
+    });
+    await screen.findByText("Gra", { selector: "mark" });
+
+    await fillIn({ Email: "ada@example.com", Username: "ada" });
+    resolveMostRecent(environment, { User: () => ({ id: "ada", username: "ada", displayName: "Ada" }) });
+
+    expect(await screen.findByRole("button", { name: "Create User" })).toBeEnabled();
+    expect(screen.queryByText("@ada")).not.toBeInTheDocument();
+    expect(screen.getByText("Showing 1 of 1 user")).toBeInTheDocument();
+  });
+
+  it("shows changeset errors under the fields they belong to", async () => {
+    const { environment } = await renderForm();
+    await fillIn({ Email: "ada@example.com", Username: "ada" });
+
+    rejectMostRecent(
+      environment,
+      new ValidationError("username has already been taken", [
+        {
+          message: "username has already been taken",
+          path: ["createUser"],
+          extensions: { code: "VALIDATION_FAILED", field: "username" },
+        },
+      ])
+    );
+
+    expect(await screen.findByLabelText("Username", { exact: false })).toHaveAccessibleDescription(
+      "username has already been taken"
+    );
+    expect(screen.getByLabelText("Email", { exact: false })).toHaveValue("ada@example.com");
+  });
+
+  it("shows other failures above the form", async () => {
+    const { environment } = await renderForm();
+    await fillIn({ Email: "ada@example.com", Username: "ada" });
+
+    rejectMostRecent(environment, new NetworkError("Network request failed", { retryable: true }));
+
+    expect(
+      await screen.findByText("Couldn't reach the server. Check your connection and try again.")
+    ).toBeInTheDocument();
+  });
+});
@@ -1,14 +1,22 @@
-import React, { useState } from "react";
 import { graphql, useMutation } from "react-relay";
+import { matchesCqlFilter } from "../cql/filter";
+import { FormField } from "../forms/FormField";
+import { useForm } from "../forms/useForm";
+import { MUTATION_CONSTRAINTS, rulesFor } from "../forms/constraints";
+import { useI18n } from "../i18n/I18nProvider";
 import type { CreateUserFormMutation } from "./__generated__/CreateUserFormMutation.graphql";
+import type { CqlFilterUserInput } from "./__generated__/UserListQuery.graphql";
 
 const mutation = graphql`
   mutation CreateUserFormMutation(
     $email: String!
     $username: String!
     $displayName: String
+    $password: String
+    $connections: [ID!]!
   ) {
-    createUser(email: $email, username: $username, displayName: $displayName) {
+    createUser(email: $email, username: $username, displayName: $displayName, password: $password)
+      @appendNode(connections: $connections, edgeTypeName: "PeopleEdge") {
       id
       email
       username
@@ -17,79 +25,91 @@ const mutation = graphql`
   }
 `;
 
+type UserFields = {
+  email: string;
+  username: string;
+  displayName: string;
+  password: string;
+};
+
+// Checked as SocialNetwork.Accounts.User.changeset checks them
+const userRules = rulesFor<UserFields>(MUTATION_CONSTRAINTS.createUser, {
+  email: { required: "createUser.emailRequired", format: "forms.email" },
+  username: { required: "createUser.usernameRequired", format: "createUser.usernamePattern" },
+});
+
+const EMPTY: UserFields = { email: "", username: "", displayName: "", password: "" };
+
 interface Props {
-  onUserCreated: () => void;
+  /** The `people` connection on screen (its `__id`). */
+  connectionId: string;
+  /** The search it was fetched with; a new user is only added if it matches. */
+  where: CqlFilterUserInput | null;
 }
 
-export function CreateUserForm({ onUserCreated }: Props) {
-  const [email, setEmail] = useState("");
-  const [username, setUsername] = useState("");
-  const [displayName, setDisplayName] = useState("");
-  const [error, setError] = useState<string | null>(null);
-
+export function CreateUserForm({ connectionId, where }: Props) {
+  const { t } = useI18n();
+  const form = useForm(EMPTY, userRules);
   const [commit, isInFlight] = useMutation<CreateUserFormMutation>(mutation);
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    setError(null);
+  const handleSubmit = form.handleSubmit(({ email, username, displayName, password }) => {
+    const searched: Record<string, string> = { username, displayName };
+    const belongs = matchesCqlFilter(where, ([field]) => searched[field]);
 
     commit({
       variables: {
         email,
         username,
         displayName: displayName || undefined,
+        password: password || undefined,
+        connections: belongs ? [connectionId] : [],
       },
-      onCompleted: () => {
-        setEmail("");
-        setUsername("");
-        setDisplayName("");
-        onUserCreated();
-      },
-      onError: (err) => {
-        setError(err.message || "Failed to create user");
+      // @appendNode adds the edge to the list; the count is updated by hand
+      updater: (store) => {
+        const people = store.get(connectionId);
+        const totalCount = people?.getValue("totalCount");
+        if (belongs && store.getRootField("createUser") && people && typeof totalCount === "number") {
+          people.setValue(totalCount + 1, "totalCount");
+        }
       },
+      onCompleted: form.reset,
+      onError: form.setServerErrors,
     });
-  };
+  });
 
   return (
     <div className="card">
-      <h2>Create User</h2>
-      {error && <div className="error-message">{error}</div>}
-      <form onSubmit={handleSubmit}>
-        <div className="form-group">
-          <label htmlFor="email">Email *</label>
-          <input
-            id="email"
-            type="email"
-            value={email}
-            onChange={(e) => setEmail(e.target.value)}
-            placeholder="user@example.com"
-            required
-          />
-        </div>
-        <div className="form-group">
-          <label htmlFor="username">Username *</label>
+      <h2>{t("createUser.title")}</h2>
+      {form.formError && <div className="error-message">{form.formError}</div>}
+      <form onSubmit={handleSubmit} noValidate>
+        <FormField name="email" label={t("createUser.email")} required error={form.errorFor("email")}>
+          <input {...form.field("email")} type="email" placeholder={t("createUser.emailPlaceholder")} />
+        </FormField>
+        <FormField
+          name="username"
+          label={t("createUser.username")}
+          required
+          error={form.errorFor("username")}
+        >
+          <input {...form.field("username")} type="text" placeholder={t("createUser.usernamePlaceholder")} />
+        </FormField>
+        <FormField name="displayName" label={t("createUser.displayName")} error={form.errorFor("displayName")}>
           <input
-            id="username"
+            {...form.field("displayName")}
             type="text"
-            value={username}
-            onChange={(e) => setUsername(e.target.value)}
-            placeholder="johndoe"
-            required
+            placeholder={t("createUser.displayNamePlaceholder")}
           />
-        </div>
-        <div className="form-group">
-          <label htmlFor="displayName">Display Name</label>
+        </FormField>
+        <FormField name="password" label={t("createUser.password")} error={form.errorFor("password")}>
           <input
-            id="displayName"
-            type="text"
-            value={displayName}
-            onChange={(e) => setDisplayName(e.target.value)}
-            placeholder="John Doe"
+            {...form.field("password")}
+            type="password"
+            autoComplete="new-password"
+            placeholder={t("createUser.passwordPlaceholder")}
           />
-        </div>
+        </FormField>
         <button type="submit" className="btn btn-primary" disabled={isInFlight}>
-          {isInFlight ? "Creating..." : "Create User"}
+          {isInFlight ? t("createUser.creating") : t("createUser.submit")}
         </button>
       </form>
     </div>
@@ -0,0 +1,77 @@
+import React from "react";
+import { loginPath } from "../auth/AuthProvider";
+import { useI18n } from "../i18n/I18nProvider";
+import { AuthError, describeError } from "../relay/errors";
+import { Link } from "../router/Link";
+
+export interface ErrorFallbackProps {
+  error: unknown;
+  retry: () => void;
+}
+
+interface Props {
+  children: React.ReactNode;
+  fallback: (props: ErrorFallbackProps) => React.ReactNode;
+  /** Called before re-rendering the children on retry, e.g. to refetch. */
+  onRetry?: () => void;
+  /** Clears the error when it changes, e.g. on navigation. */
+  resetKey?: unknown;
+}
+
+interface State {
+  error: unknown;
+  hasError: boolean;
+}
+
+/**
+ * Catches errors thrown while rendering its children, including failed
+ * queries and `@required(action: THROW)` fields, and renders `fallback`.
+ * Pair one with each Suspense boundary so a failure only replaces the
+ * region that was loading.
+ */
+export class ErrorBoundary extends React.Component<Props, State> {
+  state: State = { error: null, hasError: false };
+
+  static getDerivedStateFromError(error: unknown): State {
+    return { error, hasError: true };
+  }
+
+  componentDidUpdate(prevProps: Props) {
+    if (this.state.hasError && prevProps.resetKey !== this.props.resetKey) {
+      this.setState({ error: null, hasError: false });
+    }
+  }
+
+  retry = () => {
+    this.props.onRetry?.();
+    this.setState({ error: null, hasError: false });
+  };
+
+  render() {
+    if (this.state.hasError) {
+      return this.props.fallback({ error: this.state.error, retry: this.retry });
+    }
+    return this.props.children;
+  }
+}
+
+/** The standard fallback: what went wrong, and a way to try again or log in. */
+export function ErrorPanel({ error, retry, compact = false }: ErrorFallbackProps & { compact?: boolean }) {
+  const { t } = useI18n();
+  const needsLogin = error instanceof AuthError;
+
+  return (
+    <div className={compact ? "error-panel error-panel-compact" : "card error-panel"} role="alert">
+      <span>{describeError(error, t)}</span>
+      {needsLogin ? (
+        <Link to={loginPath()} className="btn btn-secondary btn-small">
+          {t("errors.logIn")}
+        </Link>
+      ) : (
+        <button type="button" className="btn btn-secondary btn-small" onClick={retry}>
+          {t("errors.tryAgain")}
+        </button>
+      )}
+    </div>
+  );
+}
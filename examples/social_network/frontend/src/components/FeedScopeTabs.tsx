@@ -0,0 +1,55 @@
+import { useState, useTransition } from "react";
+import { useAuth } from "../auth/AuthProvider";
+import { useI18n } from "../i18n/I18nProvider";
+import { useSearchParams } from "../router/Router";
+import { FEED_SCOPES, readFeedScope, type FeedScope } from "./feedFilters";
+
+/**
+ * Switches the feed between scopes. The switch is a transition, so the
+ * current posts stay on screen (dimmed, with the chosen tab marked as
+ * loading) until the scoped feed is ready, instead of the page suspending.
+ */
+export function FeedScopeTabs() {
+  const { userId } = useAuth();
+  const { t } = useI18n();
+  const [params, setParams] = useSearchParams();
+  const [isPending, startTransition] = useTransition();
+  const [requested, setRequested] = useState<FeedScope | null>(null);
+
+  const current = readFeedScope(params, userId);
+  const scopes = FEED_SCOPES.filter((spec) => userId || !spec.requiresViewer);
+  const pendingScope = isPending ? requested : null;
+  const shown = FEED_SCOPES.find((spec) => spec.scope === (pendingScope ?? current));
+
+  const select = (scope: FeedScope) => {
+    setRequested(scope);
+    startTransition(() => setParams({ scope: scope === "all" ? null : scope }));
+  };
+
+  return (
+    <div className="card feed-scopes">
+      <div className="feed-scope-tabs" role="tablist" aria-label={t("feed.scopes")}>
+        {scopes.map(({ scope, label }) => (
+          <button
+            key={scope}
+            type="button"
+            role="tab"
+            aria-selected={scope === current}
+            aria-busy={scope === pendingScope}
+            className={`feed-scope-tab ${scope === current ? "active" : ""} ${
+              scope === pendingScope ? "pending" : ""
+            }`}
+            onClick={() => select(scope)}
+            disabled={scope === current}
+          >
+            {t(label)}
+          </button>
+        ))}
+      </div>
+      <p className="feed-scope-description">
+        {shown && t(shown.description)}
+        {!userId && ` ${t("feed.scope.logInForFriends")}`}
+      </p>
+    </div>
+  );
+}
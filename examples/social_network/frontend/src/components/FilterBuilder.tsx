@@ -0,0 +1,364 @@
+import React, { useState } from "react";
+import {
+  emptyGroup,
+  newCondition,
+  operatorSpec,
+  OPERATORS,
+  type CqlFieldSpec,
+  type CqlSchema,
+  type FilterCondition,
+  type FilterGroup,
+  type FilterNode,
+  type OperatorArity,
+  type SortRule,
+} from "../cql/filter";
+import { useI18n } from "../i18n/I18nProvider";
+
+// Nesting beyond this gets unreadable in a sidebar-sized form
+const MAX_GROUP_DEPTH = 2;
+
+interface Props<TFilter, TOrder> {
+  schema: CqlSchema<TFilter, TOrder>;
+  filter: FilterGroup;
+  sort: SortRule[];
+  onApply: (filter: FilterGroup, sort: SortRule[]) => void;
+  isPending?: boolean;
+}
+
+/**
+ * Edits a CQL filter tree and sort order for any type described by a
+ * `CqlSchema`. Edits stay local until applied; remount with a new `key` to
+ * reset the draft from props.
+ */
+export function FilterBuilder<TFilter, TOrder>({
+  schema,
+  filter,
+  sort,
+  onApply,
+  isPending = false,
+}: Props<TFilter, TOrder>) {
+  const { t } = useI18n();
+  const [draftFilter, setDraftFilter] = useState(filter);
+  const [draftSort, setDraftSort] = useState(sort);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onApply(draftFilter, draftSort);
+  };
+
+  const handleClear = () => {
+    const cleared = emptyGroup();
+    setDraftFilter(cleared);
+    setDraftSort([]);
+    onApply(cleared, []);
+  };
+
+  return (
+    <form className="card filter-builder" onSubmit={handleSubmit}>
+      <h2>{t("filters.title")}</h2>
+      <GroupEditor
+        group={draftFilter}
+        fields={schema.filterFields}
+        depth={0}
+        onChange={setDraftFilter}
+      />
+      <SortEditor schema={schema} sort={draftSort} onChange={setDraftSort} />
+      <div className="filter-actions">
+        <button type="submit" className="btn btn-primary btn-small" disabled={isPending}>
+          {isPending ? t("filters.applying") : t("filters.apply")}
+        </button>
+        <button
+          type="button"
+          className="btn btn-secondary btn-small"
+          onClick={handleClear}
+          disabled={isPending}
+        >
+          {t("filters.clear")}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+interface GroupEditorProps<TFilter> {
+  group: FilterGroup;
+  fields: readonly CqlFieldSpec<TFilter>[];
+  depth: number;
+  onChange: (group: FilterGroup) => void;
+  onRemove?: () => void;
+}
+
+function GroupEditor<TFilter>({ group, fields, depth, onChange, onRemove }: GroupEditorProps<TFilter>) {
+  const { t } = useI18n();
+  const replaceChild = (id: string, next: FilterNode | null) => {
+    onChange({
+      ...group,
+      children: group.children.flatMap((child) => (child.id !== id ? [child] : next ? [next] : [])),
+    });
+  };
+
+  const addChild = (child: FilterNode) => {
+    onChange({ ...group, children: [...group.children, child] });
+  };
+
+  return (
+    <div className={`filter-group ${depth > 0 ? "filter-group-nested" : ""}`}>
+      <div className="filter-group-header">
+        <span>{t("filters.match")}</span>
+        <select
+          value={group.combinator}
+          onChange={(e) => onChange({ ...group, combinator: e.target.value as FilterGroup["combinator"] })}
+          aria-label={t("filters.combinator")}
+        >
+          <option value="_and">{t("filters.combinator._and")}</option>
+          <option value="_or">{t("filters.combinator._or")}</option>
+        </select>
+        {onRemove && (
+          <button type="button" className="link-button" onClick={onRemove}>
+            {t("filters.removeGroup")}
+          </button>
+        )}
+      </div>
+
+      {group.children.length === 0 && depth === 0 && (
+        <p className="filter-empty">{t("filters.noConditions")}</p>
+      )}
+
+      {group.children.map((child) =>
+        child.kind === "group" ? (
+          <GroupEditor
+            key={child.id}
+            group={child}
+            fields={fields}
+            depth={depth + 1}
+            onChange={(next) => replaceChild(child.id, next)}
+            onRemove={() => replaceChild(child.id, null)}
+          />
+        ) : (
+          <ConditionEditor
+            key={child.id}
+            condition={child}
+            fields={fields}
+            onChange={(next) => replaceChild(child.id, next)}
+            onRemove={() => replaceChild(child.id, null)}
+          />
+        )
+      )}
+
+      <div className="filter-group-actions">
+        <button type="button" className="link-button" onClick={() => addChild(newCondition(fields[0]))}>
+          {t("filters.addCondition")}
+        </button>
+        {depth < MAX_GROUP_DEPTH && (
+          <button
+            type="button"
+            className="link-button"
+            onClick={() => addChild(emptyGroup(group.combinator === "_and" ? "_or" : "_and"))}
+          >
+            {t("filters.addGroup")}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface ConditionEditorProps<TFilter> {
+  condition: FilterCondition;
+  fields: readonly CqlFieldSpec<TFilter>[];
+  onChange: (condition: FilterCondition) => void;
+  onRemove: () => void;
+}
+
+function ConditionEditor<TFilter>({ condition, fields, onChange, onRemove }: ConditionEditorProps<TFilter>) {
+  const { t } = useI18n();
+  const field = fields.find((f) => f.path === condition.field) ?? fields[0];
+  const operators = OPERATORS[field.scalar];
+  const spec = operatorSpec(field.scalar, condition.operator) ?? operators[0];
+
+  const changeField = (path: string) => {
+    const next = fields.find((f) => f.path === path);
+    if (next) onChange({ ...newCondition(next), id: condition.id });
+  };
+
+  const changeOperator = (op: string) => {
+    const nextSpec = operatorSpec(field.scalar, op);
+    if (!nextSpec) return;
+    // Values only carry over between operators that take the same shape
+    let value = "";
+    if (nextSpec.arity === spec.arity) value = condition.value;
+    else if (nextSpec.arity === "boolean") value = "true";
+    else if (nextSpec.arity === "value" && field.values) value = field.values[0];
+    onChange({ ...condition, operator: op, value });
+  };
+
+  return (
+    <div className="filter-condition">
+      <select value={field.path} onChange={(e) => changeField(e.target.value)} aria-label={t("filters.field")}>
+        {fields.map((f) => (
+          <option key={f.path} value={f.path}>
+            {t(f.label)}
+          </option>
+        ))}
+      </select>
+      <select value={spec.op} onChange={(e) => changeOperator(e.target.value)} aria-label={t("filters.operator")}>
+        {operators.map((o) => (
+          <option key={o.op} value={o.op}>
+            {t(o.label)}
+          </option>
+        ))}
+      </select>
+      <ValueInput
+        field={field}
+        arity={spec.arity}
+        value={condition.value}
+        onChange={(value) => onChange({ ...condition, value })}
+      />
+      <button type="button" className="link-button" onClick={onRemove} aria-label={t("filters.removeCondition")}>
+        ✕
+      </button>
+    </div>
+  );
+}
+
+interface ValueInputProps<TFilter> {
+  field: CqlFieldSpec<TFilter>;
+  arity: OperatorArity;
+  value: string;
+  onChange: (value: string) => void;
+}
+
+function ValueInput<TFilter>({ field, arity, value, onChange }: ValueInputProps<TFilter>) {
+  const { t } = useI18n();
+
+  if (arity === "boolean") {
+    return (
+      <select value={value} onChange={(e) => onChange(e.target.value)} aria-label={t("filters.value")}>
+        <option value="true">{t("filters.yes")}</option>
+        <option value="false">{t("filters.no")}</option>
+      </select>
+    );
+  }
+
+  if (arity === "value" && field.scalar === "enum" && field.values) {
+    return (
+      <select value={value} onChange={(e) => onChange(e.target.value)} aria-label={t("filters.value")}>
+        {field.values.map((v) => {
+          const label = field.valueLabels?.[v];
+          return (
+            <option key={v} value={v}>
+              {label ? t(label) : v}
+            </option>
+          );
+        })}
+      </select>
+    );
+  }
+
+  if (field.scalar === "datetime" && arity === "range") {
+    const [from = "", to = ""] = value.split(",");
+    return (
+      <span className="filter-range">
+        <input
+          type="datetime-local"
+          value={from}
+          onChange={(e) => onChange(`${e.target.value},${to}`)}
+          aria-label={t("filters.from")}
+        />
+        <input
+          type="datetime-local"
+          value={to}
+          onChange={(e) => onChange(`${from},${e.target.value}`)}
+          aria-label={t("filters.to")}
+        />
+      </span>
+    );
+  }
+
+  if (field.scalar === "datetime" && arity === "value") {
+    return (
+      <input
+        type="datetime-local"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        aria-label={t("filters.value")}
+      />
+    );
+  }
+
+  return (
+    <input
+      type="text"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder={arity === "list" ? (field.values?.join(", ") ?? t("filters.listPlaceholder")) : t("filters.value")}
+      aria-label={t("filters.value")}
+    />
+  );
+}
+
+interface SortEditorProps<TFilter, TOrder> {
+  schema: CqlSchema<TFilter, TOrder>;
+  sort: SortRule[];
+  onChange: (sort: SortRule[]) => void;
+}
+
+function SortEditor<TFilter, TOrder>({ schema, sort, onChange }: SortEditorProps<TFilter, TOrder>) {
+  const { t } = useI18n();
+  const unused = schema.orderFields.filter((f) => !sort.some((rule) => rule.field === f.name));
+
+  const replaceRule = (index: number, next: SortRule | null) => {
+    onChange(sort.flatMap((rule, i) => (i !== index ? [rule] : next ? [next] : [])));
+  };
+
+  return (
+    <div className="filter-sort">
+      <div className="filter-group-header">
+        <span>{t("filters.sortBy")}</span>
+        {sort.length === 0 && <span className="filter-empty">{t(schema.defaultSortLabel)}</span>}
+      </div>
+      {sort.map((rule, index) => (
+        <div key={rule.field} className="filter-condition">
+          <select
+            value={rule.field}
+            onChange={(e) => replaceRule(index, { ...rule, field: e.target.value })}
+            aria-label={t("filters.sortField")}
+          >
+            {schema.orderFields
+              .filter((f) => f.name === rule.field || unused.includes(f))
+              .map((f) => (
+                <option key={f.name} value={f.name}>
+                  {t(f.label)}
+                </option>
+              ))}
+          </select>
+          <select
+            value={rule.direction}
+            onChange={(e) => replaceRule(index, { ...rule, direction: e.target.value as SortRule["direction"] })}
+            aria-label={t("filters.sortDirection")}
+          >
+            <option value="ASC">{t("filters.direction.ASC")}</option>
+            <option value="DESC">{t("filters.direction.DESC")}</option>
+          </select>
+          <button
+            type="button"
+            className="link-button"
+            onClick={() => replaceRule(index, null)}
+            aria-label={t("filters.removeSort")}
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+      {unused.length > 0 && (
+        <button
+          type="button"
+          className="link-button"
+          onClick={() => onChange([...sort, { field: unused[0].name, direction: "DESC" }])}
+        >
+          {t("filters.addSort")}
+        </button>
+      )}
+    </div>
+  );
+}
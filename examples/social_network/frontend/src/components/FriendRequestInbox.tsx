@@ -0,0 +1,134 @@
+import { graphql, useFragment, useMutation } from "react-relay";
+import { useI18n } from "../i18n/I18nProvider";
+import { describeError } from "../relay/errors";
+import { useToast } from "./Toast";
+import type { FriendRequestInbox_viewer$key } from "./__generated__/FriendRequestInbox_viewer.graphql";
+import type { FriendRequestInboxAcceptMutation } from "./__generated__/FriendRequestInboxAcceptMutation.graphql";
+import type { FriendRequestInboxDeclineMutation } from "./__generated__/FriendRequestInboxDeclineMutation.graphql";
+
+const viewerFragment = graphql`
+  fragment FriendRequestInbox_viewer on User {
+    id
+    incomingFriendships {
+      id
+      status
+      user {
+        id
+        username
+        displayName
+      }
+    }
+  }
+`;
+
+const acceptMutation = graphql`
+  mutation FriendRequestInboxAcceptMutation($friendshipId: ID!) {
+    acceptFriendRequest(friendshipId: $friendshipId) {
+      id
+      status
+      user {
+        id
+      }
+    }
+  }
+`;
+
+const declineMutation = graphql`
+  mutation FriendRequestInboxDeclineMutation($friendshipId: ID!) {
+    declineFriendRequest(friendshipId: $friendshipId) {
+      id
+    }
+  }
+`;
+
+interface Props {
+  viewer: FriendRequestInbox_viewer$key;
+}
+
+export function FriendRequestInbox({ viewer: viewerKey }: Props) {
+  const { t } = useI18n();
+  const viewer = useFragment(viewerFragment, viewerKey);
+  const [commitAccept, isAccepting] = useMutation<FriendRequestInboxAcceptMutation>(acceptMutation);
+  const [commitDecline, isDeclining] = useMutation<FriendRequestInboxDeclineMutation>(declineMutation);
+  const showToast = useToast();
+
+  const pending = (viewer.incomingFriendships ?? []).filter((f) => f.status === "PENDING");
+
+  if (pending.length === 0) {
+    return null;
+  }
+
+  const accept = (friendshipId: string) => {
+    commitAccept({
+      variables: { friendshipId },
+      // The new status is normalized onto the Friendship record; the
+      // requester also becomes one of the viewer's friends.
+      updater: (store) => {
+        const requester = store.getRootField("acceptFriendRequest")?.getLinkedRecord("user");
+        const me = store.get(viewer.id);
+        const friends = me?.getLinkedRecords("friends");
+        if (!requester || !me || !friends) return;
+
+        if (!friends.some((f) => f?.getDataID() === requester.getDataID())) {
+          me.setLinkedRecords([...friends, requester], "friends");
+        }
+      },
+      onError: (error) => showToast(t("friends.acceptFailed", { reason: describeError(error, t) })),
+    });
+  };
+
+  const decline = (friendshipId: string) => {
+    commitDecline({
+      variables: { friendshipId },
+      updater: (store) => {
+        const me = store.get(viewer.id);
+        const incoming = me?.getLinkedRecords("incomingFriendships");
+        if (me && incoming) {
+          me.setLinkedRecords(
+            incoming.filter((f) => f?.getDataID() !== friendshipId),
+            "incomingFriendships"
+          );
+        }
+        store.delete(friendshipId);
+      },
+      onError: (error) => showToast(t("friends.declineFailed", { reason: describeError(error, t) })),
+    });
+  };
+
+  return (
+    <div className="card">
+      <h2>{t("friends.requests")}</h2>
+      {pending.map((friendship) => (
+        <div key={friendship.id} className="user-card">
+          <div className="user-avatar">
+            {(friendship.user.displayName || friendship.user.username)[0].toUpperCase()}
+          </div>
+          <div className="user-info">
+            <div className="user-name">
+              {friendship.user.displayName || friendship.user.username}
+            </div>
+            <div className="user-username">@{friendship.user.username}</div>
+          </div>
+          <div className="user-actions">
+            <button
+              type="button"
+              className="btn btn-primary btn-small"
+              onClick={() => accept(friendship.id)}
+              disabled={isAccepting || isDeclining}
+            >
+              {t("friends.accept")}
+            </button>
+            <button
+              type="button"
+              className="btn btn-secondary btn-small"
+              onClick={() => decline(friendship.id)}
+              disabled={isAccepting || isDeclining}
+            >
+              {t("friends.decline")}
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
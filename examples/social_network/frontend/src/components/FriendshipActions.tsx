@@ -0,0 +1,125 @@
+import { useCallback } from "react";
+import { graphql, useFragment, useMutation } from "react-relay";
+import type { MessageKey } from "../i18n/catalog";
+import { useI18n } from "../i18n/I18nProvider";
+import { describeError } from "../relay/errors";
+import { useToast } from "./Toast";
+import type { FriendshipActions_viewer$key } from "./__generated__/FriendshipActions_viewer.graphql";
+import type { FriendshipActionsSendFriendRequestMutation } from "./__generated__/FriendshipActionsSendFriendRequestMutation.graphql";
+
+const viewerFragment = graphql`
+  fragment FriendshipActions_viewer on User {
+    id
+    friendships {
+      id
+      status
+      friend {
+        id
+      }
+    }
+    incomingFriendships {
+      id
+      status
+      user {
+        id
+      }
+    }
+  }
+`;
+
+const sendFriendRequestMutation = graphql`
+  mutation FriendshipActionsSendFriendRequestMutation($friendId: ID!) {
+    sendFriendRequest(friendId: $friendId) {
+      id
+      status
+      friend {
+        id
+      }
+    }
+  }
+`;
+
+/** How a user relates to the viewer, from the viewer's side. */
+export type Relationship = "self" | "none" | "friend" | "requested" | "incoming" | "blocked";
+
+/**
+ * Reads the viewer's friendships (both directions) and returns a lookup from
+ * user id to relationship. Returns `null` when nobody is logged in.
+ */
+export function useRelationships(viewerKey: FriendshipActions_viewer$key | null | undefined) {
+  const viewer = useFragment(viewerFragment, viewerKey);
+
+  const relationshipTo = useCallback(
+    (userId: string): Relationship => {
+      if (!viewer) return "none";
+      if (viewer.id === userId) return "self";
+
+      const outgoing = viewer.friendships?.find((f) => f.friend.id === userId);
+      const incoming = viewer.incomingFriendships?.find((f) => f.user.id === userId);
+      const statuses = [outgoing?.status, incoming?.status];
+
+      if (statuses.includes("BLOCKED")) return "blocked";
+      if (statuses.includes("ACCEPTED")) return "friend";
+      if (outgoing?.status === "PENDING") return "requested";
+      if (incoming?.status === "PENDING") return "incoming";
+      return "none";
+    },
+    [viewer]
+  );
+
+  return viewer ? { viewerId: viewer.id, relationshipTo } : null;
+}
+
+const BADGE_LABELS: Partial<Record<Relationship, MessageKey>> = {
+  self: "friends.badge.self",
+  friend: "friends.badge.friend",
+  requested: "friends.badge.requested",
+  incoming: "friends.badge.incoming",
+  blocked: "friends.badge.blocked",
+};
+
+export function RelationshipBadge({ relationship }: { relationship: Relationship }) {
+  const { t } = useI18n();
+  const label = BADGE_LABELS[relationship];
+  if (!label) return null;
+
+  return <span className={`relationship-badge relationship-${relationship}`}>{t(label)}</span>;
+}
+
+interface AddFriendButtonProps {
+  viewerId: string;
+  friendId: string;
+}
+
+export function AddFriendButton({ viewerId, friendId }: AddFriendButtonProps) {
+  const { t } = useI18n();
+  const [commit, isInFlight] = useMutation<FriendshipActionsSendFriendRequestMutation>(
+    sendFriendRequestMutation
+  );
+  const showToast = useToast();
+
+  const handleClick = () => {
+    commit({
+      variables: { friendId },
+      updater: (store) => {
+        const friendship = store.getRootField("sendFriendRequest");
+        const viewer = store.get(viewerId);
+        if (!friendship || !viewer) return;
+
+        // A refetch of the viewer may already have listed it
+        const friendships = viewer.getLinkedRecords("friendships") ?? [];
+        if (friendships.some((existing) => existing?.getDataID() === friendship.getDataID())) return;
+        viewer.setLinkedRecords([...friendships, friendship], "friendships");
+      },
+      onError: (error) => {
+        showToast(t("friends.requestFailed", { reason: describeError(error, t) }));
+      },
+    });
+  };
+
+  return (
+    <button type="button" className="btn btn-secondary btn-small" onClick={handleClick} disabled={isInFlight}>
+      {isInFlight ? t("friends.sending") : t("friends.add")}
+    </button>
+  );
+}
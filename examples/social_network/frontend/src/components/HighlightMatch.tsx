@@ -0,0 +1,25 @@
+import type { ReactNode } from "react";
+
+interface Props {
+  text: string;
+  /** Highlighted wherever it occurs in `text`, ignoring case. */
+  term: string;
+}
+
+/** Renders `text` with each occurrence of `term` wrapped in `<mark>`. */
+export function HighlightMatch({ text, term }: Props) {
+  const needle = term.trim().toLowerCase();
+  if (!needle) return <>{text}</>;
+
+  const parts: ReactNode[] = [];
+  const haystack = text.toLowerCase();
+  let start = 0;
+  for (let index = haystack.indexOf(needle); index !== -1; index = haystack.indexOf(needle, start)) {
+    if (index > start) parts.push(text.slice(start, index));
+    parts.push(<mark key={index}>{text.slice(index, index + needle.length)}</mark>);
+    start = index + needle.length;
+  }
+  parts.push(text.slice(start));
+
+  return <>{parts}</>;
+}
@@ -0,0 +1,92 @@
+import { screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { loadQuery } from "react-relay";
+import { createOperationDescriptor } from "relay-runtime";
+import { createMockEnvironment } from "relay-test-utils";
+import { describe, expect, it } from "vitest";
+import { ResolverError } from "../relay/errors";
+import { mockPayload, rejectMostRecent, renderWithRelay, resolveMostRecent } from "../test/relay";
+import { feedQueryVariables } from "./feedFilters";
+import { PostFeed } from "./PostFeed";
+import AccountMenuQueryNode from "./__generated__/AccountMenuQuery.graphql";
+import PostFeedQueryNode, { type PostFeedQuery } from "./__generated__/PostFeedQuery.graphql";
+
+// A feed with one unliked post; `viewerLoaded` puts the viewer in the store
+// the way AccountMenu does on every page
+async function renderPost(userId: string | null, { viewerLoaded = true } = {}) {
+  const environment = createMockEnvironment();
+  if (userId && viewerLoaded) {
+    const accountMenu = createOperationDescriptor(AccountMenuQueryNode, {});
+    const { data } = mockPayload(accountMenu, { User: () => ({ id: userId }) });
+    environment.commitPayload(accountMenu, data ?? {});
+  }
+  const variables = feedQueryVariables(new URLSearchParams(), userId);
+  const queryRef = loadQuery<PostFeedQuery>(environment, PostFeedQueryNode, variables);
+  renderWithRelay(<PostFeed queryRef={queryRef} />, { environment, userId });
+  resolveMostRecent(environment, {
+    FeedConnection: () => ({ edges: [{}], totalCount: 1 }),
+    Post: () => ({ id: "post-1", body: "Hello", likes: [], comments: [] }),
+  });
+
+  return { environment, button: await screen.findByRole("button", { name: "♡ 0 likes" }) };
+}
+
+const likedByViewer = { Like: () => ({ id: "like-1" }), User: () => ({ id: "viewer" }) };
+
+describe("PostLikeButton", () => {
+  it("shows the like straight away and keeps the server's", async () => {
+    const user = userEvent.setup();
+    const { environment, button } = await renderPost("viewer");
+
+    await user.click(button);
+    expect(screen.getByRole("button", { name: "♥ 1 like" })).toHaveAttribute("aria-pressed", "true");
+
+    const operation = environment.mock.getMostRecentOperation();
+    expect(operation.request.node.params.name).toBe("LikeButtonLikePostMutation");
+    expect(operation.request.variables).toEqual({ postId: "post-1" });
+
+    resolveMostRecent(environment, likedByViewer);
+    expect(screen.getByRole("button", { name: "♥ 1 like" })).toBeInTheDocument();
+  });
+
+  it("sends one like however often it's clicked while the first is on the wire", async () => {
+    const user = userEvent.setup();
+    // Without the viewer in the store there's no optimistic like to disable the button
+    const { environment, button } = await renderPost("viewer", { viewerLoaded: false });
+
+    await user.click(button);
+    await user.click(button);
+
+    const sent = environment.mock.getAllOperations().map((operation) => operation.request.node.params.name);
+    expect(sent.filter((name) => name === "LikeButtonLikePostMutation")).toHaveLength(1);
+
+    resolveMostRecent(environment, likedByViewer);
+    expect(screen.getByRole("button", { name: "♥ 1 like" })).toBeInTheDocument();
+  });
+
+  it("takes the like back and says why when it fails", async () => {
+    const user = userEvent.setup();
+    const { environment, button } = await renderPost("viewer");
+
+    await user.click(button);
+    rejectMostRecent(environment, new ResolverError("Post not found"));
+
+    expect(await screen.findByRole("status")).toHaveTextContent("Couldn't like: Post not found");
+    expect(screen.getByRole("button", { name: "♡ 0 likes" })).toHaveAttribute("aria-pressed", "false");
+
+    // The failed like no longer blocks another try
+    await user.click(screen.getByRole("button", { name: "♡ 0 likes" }));
+    expect(environment.mock.getMostRecentOperation().request.node.params.name).toBe("LikeButtonLikePostMutation");
+  });
+
+  it("asks an anonymous visitor to log in", async () => {
+    const user = userEvent.setup();
+    const { environment, button } = await renderPost(null);
+
+    await user.click(button);
+
+    expect(await screen.findByRole("status")).toHaveTextContent("Log in to like things.");
+    const sent = environment.mock.getAllOperations().map((operation) => operation.request.node.params.name);
+    expect(sent).not.toContain("LikeButtonLikePostMutation");
+  });
+});
@@ -0,0 +1,186 @@
+import { useCallback, useRef } from "react";
+import { graphql, useFragment, useMutation } from "react-relay";
+import type { GraphQLTaggedNode, RecordSourceSelectorProxy } from "relay-runtime";
+import { useAuth } from "../auth/AuthProvider";
+import { useI18n } from "../i18n/I18nProvider";
+import { describeError } from "../relay/errors";
+import { useToast } from "./Toast";
+import type { LikeButton_post$key } from "./__generated__/LikeButton_post.graphql";
+import type { LikeButton_comment$key } from "./__generated__/LikeButton_comment.graphql";
+import type { LikeButtonLikePostMutation } from "./__generated__/LikeButtonLikePostMutation.graphql";
+import type { LikeButtonLikeCommentMutation } from "./__generated__/LikeButtonLikeCommentMutation.graphql";
+import type { LikeButtonViewerQuery } from "./__generated__/LikeButtonViewerQuery.graphql";
+
+const postFragment = graphql`
+  fragment LikeButton_post on Post {
+    id
+    likes {
+      id
+      user {
+        id
+      }
+    }
+  }
+`;
+
+const commentFragment = graphql`
+  fragment LikeButton_comment on Comment {
+    id
+    likes {
+      id
+      user {
+        id
+      }
+    }
+  }
+`;
+
+const likePostMutation = graphql`
+  mutation LikeButtonLikePostMutation($postId: ID!) {
+    likePost(postId: $postId) {
+      id
+      user {
+        id
+      }
+    }
+  }
+`;
+
+const likeCommentMutation = graphql`
+  mutation LikeButtonLikeCommentMutation($commentId: ID!) {
+    likeComment(commentId: $commentId) {
+      id
+      user {
+        id
+      }
+    }
+  }
+`;
+
+// The signed-in user, whom AccountMenuQuery has put in the store
+const viewerQuery = graphql`
+  query LikeButtonViewerQuery @updatable {
+    viewer {
+      id
+    }
+  }
+`;
+
+type Likes = ReadonlyArray<{ readonly user: { readonly id: string } }> | null | undefined;
+
+function appendLike(store: RecordSourceSelectorProxy, targetId: string, rootField: string) {
+  const target = store.get(targetId);
+  const like = store.getRootField(rootField);
+  if (!target || !like) return;
+
+  const likes = target.getLinkedRecords("likes") ?? [];
+  if (likes.some((existing) => existing?.getDataID() === like.getDataID())) return;
+  target.setLinkedRecords([...likes, like], "likes");
+}
+
+// Without the viewer in the store, the like shows once the server confirms it
+function optimisticallyAppendLike(store: RecordSourceSelectorProxy, targetId: string) {
+  const target = store.get(targetId);
+  const { viewer } = store.readUpdatableQuery<LikeButtonViewerQuery>(viewerQuery, {}).updatableData;
+  const user = viewer && store.get(viewer.id);
+  if (!target || !user) return;
+
+  const like = store.create(`client:optimistic-like:${targetId}`, "Like");
+  like.setValue(`client:optimistic-like:${targetId}`, "id");
+  like.setLinkedRecord(user, "user");
+
+  target.setLinkedRecords([...(target.getLinkedRecords("likes") ?? []), like], "likes");
+}
+
+function useLike<TMutation extends LikeButtonLikePostMutation | LikeButtonLikeCommentMutation>(
+  mutation: GraphQLTaggedNode,
+  rootField: "likePost" | "likeComment",
+  targetId: string,
+  variables: TMutation["variables"],
+  likes: Likes
+) {
+  const [commit] = useMutation<TMutation>(mutation);
+  const showToast = useToast();
+  const { t } = useI18n();
+  const { userId: viewerId } = useAuth();
+  const likedByViewer = !!viewerId && (likes ?? []).some((like) => like.user.id === viewerId);
+  // Set while the like is on the wire, so clicks landing before the button
+  // re-renders as liked are dropped
+  const pending = useRef(false);
+
+  const like = useCallback(() => {
+    if (!viewerId) {
+      showToast(t("post.logInToLike"), "info");
+      return;
+    }
+    if (likedByViewer || pending.current) return;
+
+    pending.current = true;
+
+    commit({
+      variables,
+      optimisticUpdater: (store) => optimisticallyAppendLike(store, targetId),
+      updater: (store) => appendLike(store, targetId, rootField),
+      onCompleted: () => {
+        pending.current = false;
+      },
+      // Relay rolls the optimistic like back when the mutation fails
+      onError: (error) => {
+        pending.current = false;
+        showToast(t("post.likeFailed", { reason: describeError(error, t) }));
+      },
+    });
+  }, [commit, likedByViewer, rootField, showToast, t, targetId, variables, viewerId]);
+
+  return { like, likedByViewer, likeCount: likes?.length ?? 0 };
+}
+
+interface ViewProps {
+  likeCount: number;
+  likedByViewer: boolean;
+  onLike: () => void;
+  compact?: boolean;
+}
+
+function LikeButtonView({ likeCount, likedByViewer, onLike, compact }: ViewProps) {
+  const { t } = useI18n();
+
+  return (
+    <button
+      type="button"
+      className={`${compact ? "link-button" : "post-action like-button"} ${likedByViewer ? "liked" : ""}`}
+      onClick={onLike}
+      aria-pressed={likedByViewer}
+    >
+      {likedByViewer ? "♥" : "♡"} {t("post.likes", { count: likeCount })}
+    </button>
+  );
+}
+
+export function PostLikeButton({ post: postKey }: { post: LikeButton_post$key }) {
+  const post = useFragment(postFragment, postKey);
+  const { like, likedByViewer, likeCount } = useLike<LikeButtonLikePostMutation>(
+    likePostMutation,
+    "likePost",
+    post.id,
+    { postId: post.id },
+    post.likes
+  );
+
+  return <LikeButtonView likeCount={likeCount} likedByViewer={likedByViewer} onLike={like} />;
+}
+
+export function CommentLikeButton({ comment: commentKey }: { comment: LikeButton_comment$key }) {
+  const comment = useFragment(commentFragment, commentKey);
+  const { like, likedByViewer, likeCount } = useLike<LikeButtonLikeCommentMutation>(
+    likeCommentMutation,
+    "likeComment",
+    comment.id,
+    { commentId: comment.id },
+    comment.likes
+  );
+
+  return (
+    <LikeButtonView likeCount={likeCount} likedByViewer={likedByViewer} onLike={like} compact />
+  );
+}
@@ -0,0 +1,67 @@
+import { screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { describe, expect, it, vi } from "vitest";
+import { loadCatalog } from "../i18n/catalog";
+import { preferredLocale } from "../i18n/I18nProvider";
+import { renderWithRelay } from "../test/relay";
+import { LocaleSwitcher } from "./LocaleSwitcher";
+import { PaginationFooter } from "./PaginationFooter";
+
+function Footer() {
+  return (
+    <PaginationFooter
+      hasNext
+      isLoadingNext={false}
+      onLoadMore={() => {}}
+      loadedCount={1}
+      totalCount={1}
+      countLabel={(loaded, total) => `${loaded}/${total}`}
+    />
+  );
+}
+
+describe("LocaleSwitcher", () => {
+  it("switches the UI language and remembers the choice", async () => {
+    const user = userEvent.setup();
+    renderWithRelay(
+      <>
+        <LocaleSwitcher />
+        <Footer />
+      </>
+    );
+    expect(screen.getByRole("button", { name: "Load more" })).toBeInTheDocument();
+
+    await user.selectOptions(screen.getByRole("combobox", { name: "Language" }), "Español");
+
+    expect(await screen.findByRole("button", { name: "Cargar más" })).toBeInTheDocument();
+    expect(screen.getByRole("combobox", { name: "Idioma" })).toHaveValue("es");
+    expect(document.documentElement.lang).toBe("es");
+    expect(window.localStorage.getItem("social-network.locale")).toBe("es");
+  });
+
+  it("starts in the language it is given", async () => {
+    renderWithRelay(<Footer />, { i18n: { locale: "es", catalog: await loadCatalog("es") } });
+
+    expect(screen.getByRole("button", { name: "Cargar más" })).toBeInTheDocument();
+  });
+
+  it("still switches when storage is blocked", async () => {
+    const blocked = () => {
+      throw new DOMException("The operation is insecure.", "SecurityError");
+    };
+    vi.spyOn(Storage.prototype, "getItem").mockImplementation(blocked);
+    vi.spyOn(Storage.prototype, "setItem").mockImplementation(blocked);
+    const user = userEvent.setup();
+
+    expect(preferredLocale()).toBe("en");
+    renderWithRelay(
+      <>
+        <LocaleSwitcher />
+        <Footer />
+      </>
+    );
+    await user.selectOptions(screen.getByRole("combobox", { name: "Language" }), "Español");
+
+    expect(await screen.findByRole("button", { name: "Cargar más" })).toBeInTheDocument();
+  });
+});
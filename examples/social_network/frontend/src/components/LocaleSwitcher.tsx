@@ -0,0 +1,36 @@
+import { isLocale, LOCALES, type Locale } from "../i18n/catalog";
+import { useI18n } from "../i18n/I18nProvider";
+import { useToast } from "./Toast";
+
+/**
+ * Header picker for the UI language. Each language is listed under its own
+ * name, so people can find theirs whatever the UI is currently in.
+ */
+export function LocaleSwitcher() {
+  const { locale, setLocale, pendingLocale, t } = useI18n();
+  const showToast = useToast();
+
+  const select = (next: Locale) => {
+    setLocale(next).catch(() => {
+      showToast(t("app.languageFailed", { language: LOCALES[next].name }));
+    });
+  };
+
+  return (
+    <select
+      className="locale-switcher"
+      aria-label={t("app.language")}
+      value={pendingLocale ?? locale}
+      aria-busy={pendingLocale !== null}
+      onChange={(e) => {
+        if (isLocale(e.target.value)) select(e.target.value);
+      }}
+    >
+      {Object.entries(LOCALES).map(([value, { name }]) => (
+        <option key={value} value={value} lang={value}>
+          {name}
+        </option>
+      ))}
+    </select>
+  );
+}
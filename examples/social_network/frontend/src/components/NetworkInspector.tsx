@@ -0,0 +1,263 @@
+import { useState, useSyncExternalStore } from "react";
+import { useRelayEnvironment } from "react-relay";
+import {
+  clearInspector,
+  getInspectorState,
+  subscribeToInspector,
+  type InspectedOperation,
+  type StoreUpdate,
+} from "../relay/inspector";
+
+type Tab = "operations" | "store";
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  return `${(bytes / 1024).toFixed(1)} kB`;
+}
+
+function formatDuration(operation: InspectedOperation): string {
+  return operation.durationMs === null ? "…" : `${Math.round(operation.durationMs)} ms`;
+}
+
+function formatTime(at: number): string {
+  return new Date(at).toLocaleTimeString();
+}
+
+function Json({ value }: { value: unknown }) {
+  return <pre className="inspector-json">{JSON.stringify(value, null, 2)}</pre>;
+}
+
+function OperationDetails({ operation }: { operation: InspectedOperation }) {
+  const environment = useRelayEnvironment();
+  const canReplay = operation.kind !== "subscription";
+
+  // Sends the request again through the current environment. The new entry
+  // shows the response; the store is left as it is.
+  const replay = () => {
+    if (
+      operation.kind === "mutation" &&
+      !window.confirm(`Replaying ${operation.name} runs the mutation again. Continue?`)
+    ) {
+      return;
+    }
+    environment.getNetwork().execute(operation.params, operation.variables, { force: true }).subscribe({});
+  };
+
+  return (
+    <div className="inspector-details">
+      <div className="inspector-details-header">
+        <strong>{operation.name}</strong>
+        <button
+          type="button"
+          className="btn btn-secondary btn-small"
+          onClick={replay}
+          disabled={!canReplay}
+          title={canReplay ? undefined : "Subscriptions can't be replayed"}
+        >
+          Replay
+        </button>
+      </div>
+      <dl className="inspector-facts">
+        <dt>Sent as</dt>
+        <dd>{operation.userId ? `User ${operation.userId}` : "Anonymous"}</dd>
+        <dt>Started</dt>
+        <dd>{formatTime(operation.startedAt)}</dd>
+        <dt>Duration</dt>
+        <dd>{formatDuration(operation)}</dd>
+        <dt>Response</dt>
+        <dd>
+          {formatBytes(operation.responseBytes)}
+          {operation.responseCount > 1 && ` in ${operation.responseCount} payloads`}
+        </dd>
+        {operation.params.id && (
+          <>
+            <dt>Persisted id</dt>
+            <dd className="inspector-mono">{operation.params.id.slice(0, 12)}…</dd>
+          </>
+        )}
+      </dl>
+
+      <h4>Variables</h4>
+      <Json value={operation.variables} />
+
+      {operation.failure && (
+        <>
+          <h4>Failure</h4>
+          <p className="inspector-error">{operation.failure}</p>
+        </>
+      )}
+
+      {operation.errors.length > 0 && (
+        <>
+          <h4>Errors</h4>
+          <ul className="inspector-errors">
+            {operation.errors.map((error, index) => (
+              <li key={index} className="inspector-error">
+                {error.message}
+                {error.path && <span className="inspector-mono"> at {error.path.join(".")}</span>}
+                {error.extensions?.code && <span className="inspector-tag">{error.extensions.code}</span>}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      {operation.complexity && (
+        <>
+          <h4>Query complexity</h4>
+          <dl className="inspector-facts">
+            <dt>Score</dt>
+            <dd>
+              {operation.complexity.score ?? "?"}
+              {operation.complexity.limit !== null && ` of ${operation.complexity.limit} allowed`}
+            </dd>
+            {operation.complexity.cost !== null && (
+              <>
+                <dt>Planner cost</dt>
+                <dd>{operation.complexity.cost}</dd>
+              </>
+            )}
+          </dl>
+          {operation.complexity.suggestions.length > 0 && (
+            <ul>
+              {operation.complexity.suggestions.map((suggestion) => (
+                <li key={suggestion}>{suggestion}</li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+
+      {operation.extensions && (
+        <>
+          <h4>Extensions</h4>
+          <Json value={operation.extensions} />
+        </>
+      )}
+    </div>
+  );
+}
+
+function OperationList({ operations }: { operations: readonly InspectedOperation[] }) {
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const selected = operations.find((operation) => operation.id === selectedId);
+
+  if (operations.length === 0) {
+    return <p className="inspector-empty">No operations yet.</p>;
+  }
+
+  return (
+    <div className="inspector-split">
+      <ul className="inspector-list" aria-label="Operations">
+        {operations.map((operation) => (
+          <li key={operation.id}>
+            <button
+              type="button"
+              className={`inspector-row ${operation.id === selectedId ? "active" : ""}`}
+              aria-pressed={operation.id === selectedId}
+              onClick={() => setSelectedId(operation.id)}
+            >
+              <span className={`inspector-status inspector-status-${operation.status}`} title={operation.status} />
+              <span className="inspector-kind">{operation.kind}</span>
+              <span className="inspector-name">{operation.name}</span>
+              {operation.errors.length > 0 && (
+                <span className="inspector-tag">{operation.errors.length} errors</span>
+              )}
+              <span className="inspector-meta">
+                {formatDuration(operation)} · {formatBytes(operation.responseBytes)}
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+      {selected ? (
+        <OperationDetails operation={selected} />
+      ) : (
+        <p className="inspector-empty">Select an operation to see its details.</p>
+      )}
+    </div>
+  );
+}
+
+const STORE_UPDATE_LABELS: Record<StoreUpdate["kind"], string> = {
+  optimistic: "Optimistic update",
+  notify: "Updated",
+  gc: "Garbage collected; retained",
+};
+
+function StoreUpdateList({ updates }: { updates: readonly StoreUpdate[] }) {
+  if (updates.length === 0) {
+    return <p className="inspector-empty">No store updates yet.</p>;
+  }
+
+  return (
+    <ul className="inspector-list inspector-store" aria-label="Store updates">
+      {updates.map((update) => (
+        <li key={update.id}>
+          <details>
+            <summary>
+              <span className="inspector-meta">{formatTime(update.at)}</span>{" "}
+              {STORE_UPDATE_LABELS[update.kind]} {update.recordIds.length} records
+              {update.operationName && <span className="inspector-name"> by {update.operationName}</span>}
+            </summary>
+            <p className="inspector-mono">{update.recordIds.join(", ")}</p>
+          </details>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Dev-only panel listing every GraphQL operation the app sends, as recorded
+ * by `relay/inspector.ts`: who it was sent as, its variables, timing, size,
+ * errors and any query complexity the server reported, plus what Relay
+ * wrote to the store. Operations can be replayed from here. Not translated,
+ * like the rest of the developer tooling.
+ */
+export function NetworkInspector() {
+  const { operations, storeUpdates } = useSyncExternalStore(subscribeToInspector, getInspectorState);
+  const [isOpen, setIsOpen] = useState(false);
+  const [tab, setTab] = useState<Tab>("operations");
+  const pending = operations.filter((operation) => operation.status === "pending").length;
+
+  return (
+    <div className="inspector">
+      <button
+        type="button"
+        className="inspector-toggle"
+        aria-expanded={isOpen}
+        onClick={() => setIsOpen((open) => !open)}
+      >
+        GraphQL · {operations.length}
+        {pending > 0 && ` (${pending} pending)`}
+      </button>
+      {isOpen && (
+        <section className="inspector-panel" aria-label="Network inspector">
+          <div className="inspector-toolbar" role="tablist">
+            {(["operations", "store"] as const).map((value) => (
+              <button
+                key={value}
+                type="button"
+                role="tab"
+                aria-selected={tab === value}
+                className={`inspector-tab ${tab === value ? "active" : ""}`}
+                onClick={() => setTab(value)}
+              >
+                {value === "operations" ? `Operations (${operations.length})` : `Store (${storeUpdates.length})`}
+              </button>
+            ))}
+            <button type="button" className="link-button" onClick={clearInspector}>
+              Clear
+            </button>
+          </div>
+          {tab === "operations" ? (
+            <OperationList operations={operations} />
+          ) : (
+            <StoreUpdateList updates={storeUpdates} />
+          )}
+        </section>
+      )}
+    </div>
+  );
+}
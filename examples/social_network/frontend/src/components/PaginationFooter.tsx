@@ -0,0 +1,77 @@
+import { useEffect, useRef } from "react";
+import { useI18n } from "../i18n/I18nProvider";
+
+interface Props {
+  hasNext: boolean;
+  isLoadingNext: boolean;
+  onLoadMore: () => void;
+  loadedCount: number;
+  totalCount?: number | null;
+  /** E.g. "Showing 20 of 45 posts"; shown when the total is known. */
+  countLabel: (loadedCount: number, totalCount: number) => string;
+  /** Set to false when the list loads more by itself, like VirtualList. */
+  loadWhenVisible?: boolean;
+}
+
+/**
+ * Footer for connection-backed lists. Loads the next page automatically when
+ * it scrolls into view (unless `loadWhenVisible` is false), and offers a
+ * "Load more" button as a fallback.
+ */
+export function PaginationFooter({
+  hasNext,
+  isLoadingNext,
+  onLoadMore,
+  loadedCount,
+  totalCount,
+  countLabel,
+  loadWhenVisible = true,
+}: Props) {
+  const { t } = useI18n();
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const onLoadMoreRef = useRef(onLoadMore);
+  onLoadMoreRef.current = onLoadMore;
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (
+      !sentinel ||
+      !loadWhenVisible ||
+      !hasNext ||
+      isLoadingNext ||
+      typeof IntersectionObserver === "undefined"
+    ) {
+      return;
+    }
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          onLoadMoreRef.current();
+        }
+      },
+      { rootMargin: "200px" }
+    );
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [loadWhenVisible, hasNext, isLoadingNext]);
+
+  return (
+    <div className="pagination-footer" ref={sentinelRef}>
+      {totalCount != null && (
+        <span className="pagination-count">{countLabel(loadedCount, totalCount)}</span>
+      )}
+      {hasNext && (
+        <button
+          type="button"
+          className="btn btn-secondary"
+          onClick={onLoadMore}
+          disabled={isLoadingNext}
+        >
+          {isLoadingNext ? t("pagination.loading") : t("pagination.loadMore")}
+        </button>
+      )}
+    </div>
+  );
+}
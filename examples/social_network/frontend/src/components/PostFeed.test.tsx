@@ -0,0 +1,182 @@
+import { act, screen, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { loadQuery } from "react-relay";
+import { createMockEnvironment, type MockEnvironment } from "relay-test-utils";
+import { describe, expect, it } from "vitest";
+import { NetworkError } from "../relay/errors";
+import {
+  mockInitialPayload,
+  mockPayload,
+  rejectMostRecent,
+  renderWithRelay,
+  resolveMostRecent,
+  silenceRenderErrors,
+} from "../test/relay";
+import { feedQueryVariables } from "./feedFilters";
+import { PostFeed } from "./PostFeed";
+import PostFeedQueryNode, { type PostFeedQuery } from "./__generated__/PostFeedQuery.graphql";
+
+// Loads the feed as FeedPage would at `/${search}`
+function renderFeed(userId: string | null = null, search = "") {
+  window.history.replaceState(null, "", `/${search}`);
+  const environment = createMockEnvironment();
+  const variables = feedQueryVariables(new URLSearchParams(search), userId);
+  const queryRef = loadQuery<PostFeedQuery>(environment, PostFeedQueryNode, variables);
+  return renderWithRelay(<PostFeed queryRef={queryRef} />, { environment, userId });
+}
+
+// Delivers a postCreated event
+function pushCreatedPost(environment: MockEnvironment, post: { id: string; body: string; visibility: string }) {
+  const subscription = environment.mock
+    .getAllOperations()
+    .find((operation) => operation.request.node.params.name === "PostFeedPostCreatedSubscription");
+  if (!subscription) throw new Error("Not subscribed to postCreated");
+  act(() => environment.mock.nextValue(subscription.request.node, mockPayload(subscription, { Post: () => post })));
+}
+
+function scopeTabs() {
+  return within(screen.getByRole("tablist", { name: "Feed scope" })).getAllByRole("tab");
+}
+
+describe("PostFeed", () => {
+  it("suspends until the feed loads", () => {
+    renderFeed();
+    expect(screen.getByText("Loading...")).toBeInTheDocument();
+  });
+
+  it("shows an empty state when there are no posts", async () => {
+    const { environment } = renderFeed();
+    resolveMostRecent(environment, {
+      FeedConnection: () => ({ edges: [], totalCount: 0 }),
+    });
+
+    expect(await screen.findByText("No posts yet. Create one above!")).toBeInTheDocument();
+  });
+
+  it("renders each post with its author and visibility", async () => {
+    const { environment } = renderFeed();
+    resolveMostRecent(environment, {
+      FeedConnection: () => ({ edges: [{}, {}], totalCount: 5 }),
+      Post: (_, generateId) => ({ body: `Post number ${generateId()}`, visibility: "FRIENDS" }),
+      User: () => ({ username: "alice", displayName: "Alice" }),
+    });
+
+    expect(await screen.findAllByText(/^Post number \d+$/)).toHaveLength(2);
+    expect(screen.getAllByRole("link", { name: "Alice" })).toHaveLength(2);
+    expect(screen.getAllByText("👥 Friends")).toHaveLength(2);
+    expect(screen.getAllByTitle(/^Only Alice's friends can see this post/)).toHaveLength(2);
+    expect(screen.getByText("Showing 2 of 5 posts")).toBeInTheDocument();
+  });
+
+  it("holds a place for each post's likes and comments until they arrive", async () => {
+    const { environment } = renderFeed();
+    const operation = environment.mock.getMostRecentOperation();
+    const initial = mockInitialPayload(operation, {
+      FeedConnection: () => ({ edges: [{}], totalCount: 1 }),
+      Post: () => ({ id: "post-1", body: "Hello" }),
+    });
+
+    act(() => environment.mock.nextValue(operation.request.node, initial));
+    expect(await screen.findByText("Hello")).toBeInTheDocument();
+    expect(screen.getByText("Loading likes and comments…")).toBeInTheDocument();
+
+    act(() =>
+      environment.mock.nextValue(operation.request.node, {
+        data: { id: "post-1", comments: [], likes: [] },
+        label: "PostFeed_post$defer$PostFeed_details",
+        path: ["feed", "edges", 0, "node"],
+      })
+    );
+    expect(await screen.findByText("💬 0 comments")).toBeInTheDocument();
+    expect(screen.queryByText("Loading likes and comments…")).not.toBeInTheDocument();
+  });
+
+  it("opens and closes a post's comments from a button that says whether they're shown", async () => {
+    const user = userEvent.setup();
+    const { environment } = renderFeed();
+    const operation = environment.mock.getMostRecentOperation();
+    const initial = mockInitialPayload(operation, {
+      FeedConnection: () => ({ edges: [{}], totalCount: 1 }),
+      Post: () => ({ id: "post-1", body: "Hello" }),
+    });
+    act(() => environment.mock.nextValue(operation.request.node, initial));
+    act(() =>
+      environment.mock.nextValue(operation.request.node, {
+        data: { id: "post-1", comments: [], likes: [] },
+        label: "PostFeed_post$defer$PostFeed_details",
+        path: ["feed", "edges", 0, "node"],
+      })
+    );
+
+    const toggle = await screen.findByRole("button", { name: "💬 0 comments" });
+    expect(toggle).toHaveAttribute("aria-expanded", "false");
+
+    await user.click(toggle);
+    expect(toggle).toHaveAttribute("aria-expanded", "true");
+    expect(screen.getByPlaceholderText("Write a comment...")).toBeInTheDocument();
+
+    await user.click(toggle);
+    expect(toggle).toHaveAttribute("aria-expanded", "false");
+    expect(screen.queryByPlaceholderText("Write a comment...")).not.toBeInTheDocument();
+  });
+
+  it("adds a pushed post only if it matches the feed's filter", async () => {
+    const { environment } = renderFeed("1", "?scope=friends");
+    resolveMostRecent(environment, {
+      FeedConnection: () => ({ edges: [{}], totalCount: 1 }),
+      Post: () => ({ id: "p1", body: "Old news", visibility: "FRIENDS" }),
+    });
+    expect(await screen.findByText("Old news")).toBeInTheDocument();
+
+    pushCreatedPost(environment, { id: "p2", body: "Public news", visibility: "PUBLIC" });
+    pushCreatedPost(environment, { id: "p3", body: "Friends news", visibility: "FRIENDS" });
+
+    expect(await screen.findByText("Friends news")).toBeInTheDocument();
+    expect(screen.queryByText("Public news")).not.toBeInTheDocument();
+    expect(screen.getByText("Showing 2 of 2 posts")).toBeInTheDocument();
+  });
+
+  it("shows a retryable error when the request fails", async () => {
+    silenceRenderErrors();
+    const { environment } = renderFeed();
+    rejectMostRecent(environment, new NetworkError("Network request failed", { retryable: true }));
+
+    expect(await screen.findByRole("alert")).toHaveTextContent(
+      "Couldn't reach the server. Check your connection and try again."
+    );
+    expect(screen.getByRole("button", { name: "Try again" })).toBeInTheDocument();
+  });
+
+  it("treats a null feed as an error rather than an empty feed", async () => {
+    silenceRenderErrors();
+    const { environment } = renderFeed();
+    resolveMostRecent(environment, { Query: () => ({ feed: null }) });
+
+    expect(await screen.findByRole("alert")).toHaveTextContent(/feed/);
+  });
+
+  it("offers the friends and mine scopes only to logged-in users", async () => {
+    const { environment, unmount } = renderFeed();
+    resolveMostRecent(environment);
+    await screen.findByRole("tablist", { name: "Feed scope" });
+    expect(scopeTabs().map((tab) => tab.textContent)).toEqual(["All", "Public"]);
+    unmount();
+
+    resolveMostRecent(renderFeed("1").environment);
+    await screen.findByRole("tablist", { name: "Feed scope" });
+    expect(scopeTabs().map((tab) => tab.textContent)).toEqual(["All", "Public", "Friends", "Mine"]);
+  });
+
+  it("switches scope through the URL and explains it", async () => {
+    const { environment } = renderFeed("1");
+    resolveMostRecent(environment, {
+      FeedConnection: () => ({ edges: [], totalCount: 0 }),
+    });
+    await userEvent.click(await screen.findByRole("tab", { name: "Mine" }));
+
+    expect(window.location.search).toBe("?scope=mine");
+    expect(await screen.findByRole("tab", { name: "Mine", selected: true })).toBeInTheDocument();
+    expect(screen.getByText("Your own posts, including private ones.")).toBeInTheDocument();
+    expect(screen.getByText("You haven't posted anything yet. Create a post above!")).toBeInTheDocument();
+  });
+});
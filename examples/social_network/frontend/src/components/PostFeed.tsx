@@ -1,68 +1,458 @@
-import React from "react";
-import { graphql, useLazyLoadQuery } from "react-relay";
+import { Suspense, useMemo, useRef, useState } from "react";
+import {
+  graphql,
+  useFragment,
+  usePaginationFragment,
+  usePreloadedQuery,
+  useSubscription,
+  type PreloadedQuery,
+} from "react-relay";
+import {
+  ConnectionHandler,
+  type GraphQLSubscriptionConfig,
+  type RecordProxy,
+  type RecordSourceSelectorProxy,
+} from "relay-runtime";
+import { useAuth } from "../auth/AuthProvider";
+import { encodeFilter, encodeSort, matchesCqlFilter, type FilterGroup, type SortRule } from "../cql/filter";
+import type { MessageKey, Translate } from "../i18n/catalog";
+import { useI18n } from "../i18n/I18nProvider";
+import { Link } from "../router/Link";
+import { useRouter, useSearchParams } from "../router/Router";
+import { CommentThread, insertComment } from "./CommentThread";
+import { ErrorBoundary, ErrorPanel } from "./ErrorBoundary";
+import {
+  feedQueryVariables,
+  POST_FILTER_SCHEMA,
+  readFeedFilters,
+  readFeedScope,
+  type FeedScope,
+} from "./feedFilters";
+import { FeedScopeTabs } from "./FeedScopeTabs";
+import { FilterBuilder } from "./FilterBuilder";
+import { PostLikeButton } from "./LikeButton";
+import { FEED_PAGE_SIZE } from "./pageSizes";
+import { PaginationFooter } from "./PaginationFooter";
+import { RelativeTime } from "./RelativeTime";
+import { VirtualList } from "./VirtualList";
 import type { PostFeedQuery } from "./__generated__/PostFeedQuery.graphql";
+import type { PostFeedPaginationQuery } from "./__generated__/PostFeedPaginationQuery.graphql";
+import type { PostFeed_query$key } from "./__generated__/PostFeed_query.graphql";
+import type { PostFeed_post$data, PostFeed_post$key } from "./__generated__/PostFeed_post.graphql";
+import type { PostFeed_details$key } from "./__generated__/PostFeed_details.graphql";
+import type { PostFeedPostCreatedSubscription } from "./__generated__/PostFeedPostCreatedSubscription.graphql";
+import type { PostFeedCommentAddedSubscription } from "./__generated__/PostFeedCommentAddedSubscription.graphql";
 
 const query = graphql`
-  query PostFeedQuery {
-    posts {
+  query PostFeedQuery(
+    $count: Int!
+    $cursor: String
+    $where: CqlFilterPostInput
+    $orderBy: [CqlOrderPostInput]
+  ) {
+    ...PostFeed_query
+      @arguments(count: $count, cursor: $cursor, where: $where, orderBy: $orderBy)
+  }
+`;
+
+const feedFragment = graphql`
+  fragment PostFeed_query on Query
+  @argumentDefinitions(
+    count: { type: "Int", defaultValue: 10 }
+    cursor: { type: "String" }
+    where: { type: "CqlFilterPostInput" }
+    orderBy: { type: "[CqlOrderPostInput]" }
+  )
+  @refetchable(queryName: "PostFeedPaginationQuery") {
+    feed(where: $where, orderBy: $orderBy, first: $count, after: $cursor)
+      @connection(key: "PostFeed_feed")
+      @required(action: THROW) {
+      totalCount
+      edges {
+        node {
+          id
+          ...PostFeed_post
+        }
+      }
+    }
+  }
+`;
+
+// Likes and comments are the slow part of a post, so they arrive after the
+// rest unless the spread passes `deferDetails: false`
+const postFragment = graphql`
+  fragment PostFeed_post on Post
+  @argumentDefinitions(deferDetails: { type: "Boolean!", defaultValue: true }) {
+    id
+    body
+    mediaUrl
+    visibility
+    insertedAt
+    author {
+      id
+      username
+      displayName
+    }
+    ...PostFeed_details @defer(label: "PostFeed_details", if: $deferDetails)
+  }
+`;
+
+const detailsFragment = graphql`
+  fragment PostFeed_details on Post {
+    id
+    comments {
       id
-      body
-      visibility
-      insertedAt
-      author {
+    }
+    ...CommentThread_post
+    ...LikeButton_post
+  }
+`;
+
+const postCreatedSubscription = graphql`
+  subscription PostFeedPostCreatedSubscription {
+    postCreated {
+      id
+      ...PostFeed_post @arguments(deferDetails: false)
+    }
+  }
+`;
+
+const commentAddedSubscription = graphql`
+  subscription PostFeedCommentAddedSubscription($postId: ID!) {
+    commentAdded(postId: $postId) {
+      id
+      parent {
         id
-        username
-        displayName
       }
+      ...CommentThread_comment
     }
   }
 `;
 
-function formatDate(dateString: string): string {
-  const date = new Date(dateString);
-  return date.toLocaleDateString("en-US", {
-    month: "short",
-    day: "numeric",
-    hour: "2-digit",
-    minute: "2-digit",
-  });
-}
-
-export function PostFeed() {
-  const data = useLazyLoadQuery<PostFeedQuery>(query, {});
-
-  if (!data.posts || data.posts.length === 0) {
-    return (
-      <div className="card">
-        <div className="empty-state">
-          <div className="empty-state-icon">📝</div>
-          <p>No posts yet. Create one above!</p>
+function useFeedFilters() {
+  const [params, setParams] = useSearchParams();
+  const rawFilter = params.get("filter");
+  const rawSort = params.get("sort");
+  const { filter, sort } = useMemo(() => readFeedFilters(params), [params]);
+
+  const setFilters = (nextFilter: FilterGroup, nextSort: SortRule[]) => {
+    setParams({ filter: encodeFilter(nextFilter), sort: encodeSort(nextSort) });
+  };
+
+  return {
+    filter,
+    sort,
+    setFilters,
+    // Changes when the applied filters do; used to reset the builder's draft
+    key: `${rawFilter ?? ""}|${rawSort ?? ""}`,
+  };
+}
+
+/** The arguments the feed was fetched with, which select its connection in the store. */
+export type FeedArgs = Pick<PostFeedQuery["variables"], "where" | "orderBy">;
+
+// The post's value at a CQL filter path, e.g. ["author", "username"]
+function readPostField(post: RecordProxy, path: readonly string[]): unknown {
+  let record: RecordProxy | null | undefined = post;
+  for (const key of path.slice(0, -1)) record = record?.getLinkedRecord(key);
+  return record?.getValue(path[path.length - 1]);
+}
+
+/**
+ * Prepends a post to the feed fetched with `args`, if it belongs there: it
+ * must match the feed's filter, and the feed must be in the default newest
+ * first order, since only there is its place known. A post already in the
+ * feed isn't added again, e.g. when both the createPost response and the
+ * postCreated event deliver it.
+ */
+export function insertPostIntoFeed(store: RecordSourceSelectorProxy, post: RecordProxy, { where, orderBy }: FeedArgs) {
+  if (orderBy || !matchesCqlFilter(where, (path) => readPostField(post, path))) return;
+
+  const feed = ConnectionHandler.getConnection(store.getRoot(), "PostFeed_feed", { where, orderBy });
+  if (!feed) return;
+
+  const edges = feed.getLinkedRecords("edges") ?? [];
+  const postId = post.getDataID();
+  if (edges.some((edge) => edge?.getLinkedRecord("node")?.getDataID() === postId)) {
+    return;
+  }
+
+  const edge = ConnectionHandler.createEdge(store, feed, post, "FeedEdge");
+  ConnectionHandler.insertEdgeBefore(feed, edge);
+
+  const totalCount = feed.getValue("totalCount");
+  if (typeof totalCount === "number") {
+    feed.setValue(totalCount + 1, "totalCount");
+  }
+}
+
+// The server only sends posts the viewer may see; the feed's filter decides
+// whether one shows up in it
+function usePostCreatedSubscription(feedArgs: FeedArgs) {
+  // Read when a post arrives, so changing filters doesn't resubscribe
+  const feedArgsRef = useRef(feedArgs);
+  feedArgsRef.current = feedArgs;
+
+  const config = useMemo<GraphQLSubscriptionConfig<PostFeedPostCreatedSubscription>>(
+    () => ({
+      subscription: postCreatedSubscription,
+      variables: {},
+      updater: (store) => {
+        const post = store.getRootField("postCreated");
+        if (post) insertPostIntoFeed(store, post, feedArgsRef.current);
+      },
+    }),
+    []
+  );
+
+  useSubscription(config);
+}
+
+function useCommentAddedSubscription(postId: string) {
+  const config = useMemo<GraphQLSubscriptionConfig<PostFeedCommentAddedSubscription>>(
+    () => ({
+      subscription: commentAddedSubscription,
+      variables: { postId },
+      updater: (store) => {
+        const comment = store.getRootField("commentAdded");
+        if (comment) insertComment(store, postId, comment);
+      },
+    }),
+    [postId]
+  );
+
+  useSubscription(config);
+}
+
+interface PostCardProps {
+  post: PostFeed_post$key;
+  defaultShowComments?: boolean;
+}
+
+/**
+ * A post in the feed. Errors inside a post (or just its comments) replace
+ * only that post, so one bad record doesn't take down the feed.
+ */
+export function PostCard(props: PostCardProps) {
+  const { reload } = useRouter();
+
+  return (
+    <ErrorBoundary
+      onRetry={reload}
+      fallback={(fallback) => (
+        <div className="post-card">
+          <ErrorPanel {...fallback} compact />
         </div>
-      </div>
-    );
+      )}
+    >
+      <PostCardContent {...props} />
+    </ErrorBoundary>
+  );
+}
+
+const VIDEO_EXTENSION = /\.(mp4|webm)$/i;
+
+// Uploads are stored with an extension matching their content type
+function PostMedia({ url }: { url: string }) {
+  if (VIDEO_EXTENSION.test(url)) {
+    return <video className="post-media" src={url} controls preload="metadata" />;
   }
+  return <img className="post-media" src={url} alt="" loading="lazy" />;
+}
+
+type Visibility = Exclude<NonNullable<PostFeed_post$data["visibility"]>, "%future added value">;
+
+const VISIBILITY_LABELS: Record<Visibility, MessageKey> = {
+  PUBLIC: "post.visibility.PUBLIC",
+  FRIENDS: "post.visibility.FRIENDS",
+  PRIVATE: "post.visibility.PRIVATE",
+};
+
+// Who else can see the post, from the viewer's point of view
+function visibilityExplanation(
+  t: Translate,
+  visibility: Visibility,
+  ownPost: boolean,
+  author: string
+): string {
+  if (visibility === "PRIVATE") return t("post.visibility.explainPrivate");
+  if (visibility === "PUBLIC") return t("post.visibility.explainPublic");
+  return ownPost
+    ? t("post.visibility.explainOwnFriends")
+    : t("post.visibility.explainFriends", { author });
+}
+
+// Posts without a visibility predate the column and are public
+function postVisibility(post: PostFeed_post$data): Visibility {
+  return post.visibility === "FRIENDS" || post.visibility === "PRIVATE" ? post.visibility : "PUBLIC";
+}
+
+function VisibilityBadge({ post }: { post: PostFeed_post$data }) {
+  const { userId } = useAuth();
+  const { t } = useI18n();
+  const visibility = postVisibility(post);
+  const label = t(VISIBILITY_LABELS[visibility]);
+  const authorName = post.author?.displayName || post.author?.username || t("post.theAuthor");
+  const explanation = visibilityExplanation(t, visibility, post.author?.id === userId, authorName);
+
+  return (
+    <span
+      className={`post-visibility post-visibility-${visibility.toLowerCase()}`}
+      title={explanation}
+      aria-label={t("post.visibility.label", { visibility: label, explanation })}
+    >
+      {label}
+    </span>
+  );
+}
+
+interface PostDetailsProps {
+  post: PostFeed_details$key;
+  defaultShowComments: boolean;
+}
+
+// Likes and comments, which suspend until their deferred fragment arrives
+function PostDetails({ post: postKey, defaultShowComments }: PostDetailsProps) {
+  const { reload } = useRouter();
+  const { t } = useI18n();
+  const post = useFragment(detailsFragment, postKey);
+  const [showComments, setShowComments] = useState(defaultShowComments);
+
+  const commentCount = post.comments?.length ?? 0;
+
+  return (
+    <>
+      <div className="post-actions">
+        <PostLikeButton post={post} />
+        <button
+          type="button"
+          className="post-action"
+          onClick={() => setShowComments((s) => !s)}
+          aria-expanded={showComments}
+        >
+          💬 {t("post.comments", { count: commentCount })}
+        </button>
+      </div>
+      {showComments && (
+        <ErrorBoundary onRetry={reload} fallback={(fallback) => <ErrorPanel {...fallback} compact />}>
+          <CommentThread post={post} />
+        </ErrorBoundary>
+      )}
+    </>
+  );
+}
+
+function PostCardContent({ post: postKey, defaultShowComments = false }: PostCardProps) {
+  const { t } = useI18n();
+  const post = useFragment(postFragment, postKey);
+  useCommentAddedSubscription(post.id);
+
+  return (
+    <div className={`post-card post-card-${postVisibility(post).toLowerCase()}`}>
+      <div className="post-header">
+        <div className="post-author-avatar">
+          {(post.author?.displayName || post.author?.username || "?")[0].toUpperCase()}
+        </div>
+        <div className="post-author-info">
+          <div className="post-author-name">
+            {post.author ? (
+              <Link to={`/users/${post.author.id}`}>
+                {post.author.displayName || post.author.username}
+              </Link>
+            ) : (
+              t("post.anonymous")
+            )}
+          </div>
+          <Link to={`/posts/${post.id}`} className="post-time">
+            <RelativeTime value={post.insertedAt} />
+          </Link>
+        </div>
+        <VisibilityBadge post={post} />
+      </div>
+      <div className="post-body">{post.body}</div>
+      {post.mediaUrl && <PostMedia url={post.mediaUrl} />}
+      <Suspense fallback={<div className="post-actions post-details-loading">{t("post.loadingDetails")}</div>}>
+        <PostDetails post={post} defaultShowComments={defaultShowComments} />
+      </Suspense>
+    </div>
+  );
+}
+
+interface Props {
+  queryRef: PreloadedQuery<PostFeedQuery>;
+}
+
+// A text-only post with its comments closed, for laying out posts not yet rendered
+const POST_CARD_HEIGHT = 200;
+
+const EMPTY_MESSAGES: Record<FeedScope, MessageKey> = {
+  all: "feed.empty.all",
+  public: "feed.empty.public",
+  friends: "feed.empty.friends",
+  mine: "feed.empty.mine",
+};
+
+export function PostFeed({ queryRef }: Props) {
+  const { filter, sort, setFilters, key: filtersKey } = useFeedFilters();
+  const { userId } = useAuth();
+  const { t } = useI18n();
+  const [params] = useSearchParams();
+  const scope = readFeedScope(params, userId);
+  // Applying filters navigates to the same route with new params; the router
+  // keeps this page on screen while the filtered feed loads.
+  const { isNavigating } = useRouter();
+
+  const queryData = usePreloadedQuery(query, queryRef);
+  const { data, loadNext, hasNext, isLoadingNext } = usePaginationFragment<
+    PostFeedPaginationQuery,
+    PostFeed_query$key
+  >(feedFragment, queryData);
+  usePostCreatedSubscription(useMemo(() => feedQueryVariables(params, userId), [params, userId]));
+
+  const posts = (data.feed.edges ?? []).flatMap((edge) => (edge?.node ? [edge.node] : []));
+  const isFiltered = filter.children.length > 0;
 
   return (
     <div>
-      {data.posts.map((post) => (
-        <div key={post.id} className="post-card">
-          <div className="post-header">
-            <div className="post-author-avatar">
-              {(post.author?.displayName || post.author?.username || "?")[0].toUpperCase()}
+      <FeedScopeTabs />
+      <FilterBuilder
+        key={filtersKey}
+        schema={POST_FILTER_SCHEMA}
+        filter={filter}
+        sort={sort}
+        onApply={setFilters}
+        isPending={isNavigating}
+      />
+      <div className={isNavigating ? "feed-pending" : undefined}>
+        {posts.length === 0 ? (
+          <div className="card">
+            <div className="empty-state">
+              <div className="empty-state-icon">📝</div>
+              <p>{t(isFiltered ? "feed.empty.filtered" : EMPTY_MESSAGES[scope])}</p>
             </div>
-            <div className="post-author-info">
-              <div className="post-author-name">
-                {post.author?.displayName || post.author?.username || "Anonymous"}
-              </div>
-              <div className="post-time">{formatDate(post.insertedAt)}</div>
-            </div>
-            <span className="post-visibility">
-              {post.visibility?.toLowerCase() || "public"}
-            </span>
           </div>
-          <div className="post-body">{post.body}</div>
-        </div>
-      ))}
+        ) : (
+          <>
+            <VirtualList
+              id="feed"
+              items={posts}
+              getKey={(post) => post.id}
+              renderItem={(post) => <PostCard post={post} />}
+              estimatedHeight={POST_CARD_HEIGHT}
+              onEndReached={hasNext && !isLoadingNext ? () => loadNext(FEED_PAGE_SIZE) : undefined}
+            />
+            <PaginationFooter
+              hasNext={hasNext}
+              isLoadingNext={isLoadingNext}
+              onLoadMore={() => loadNext(FEED_PAGE_SIZE)}
+              loadedCount={posts.length}
+              totalCount={data.feed.totalCount}
+              countLabel={(loaded, total) => t("feed.count", { loaded, total })}
+              loadWhenVisible={false}
+            />
+          </>
+        )}
+      </div>
     </div>
   );
 }
@@ -0,0 +1,44 @@
+import { useEffect, useState } from "react";
+import { useI18n } from "../i18n/I18nProvider";
+import {
+  formatAbsolute,
+  formatRelative,
+  parseNaiveDateTime,
+  refreshInterval,
+  type NaiveDateTime,
+} from "../relay/naiveDateTime";
+
+interface Props {
+  value: NaiveDateTime;
+  className?: string;
+}
+
+/**
+ * A server timestamp as "5 minutes ago" that keeps itself current, with the
+ * full date and time in the UI's locale and the viewer's time zone on hover.
+ */
+export function RelativeTime({ value, className }: Props) {
+  const { locale } = useI18n();
+  const [now, setNow] = useState(() => new Date());
+  const date = parseNaiveDateTime(value);
+  const time = date?.getTime() ?? null;
+
+  useEffect(() => {
+    if (time === null) return;
+    const delay = refreshInterval(new Date(time), now);
+    const timeout = window.setTimeout(() => setNow(new Date()), delay);
+    return () => window.clearTimeout(timeout);
+  }, [time, now]);
+
+  if (!date) return <span className={className}>{value}</span>;
+
+  return (
+    <time
+      className={className}
+      dateTime={date.toISOString()}
+      title={formatAbsolute(date, { locale })}
+    >
+      {formatRelative(date, now, { locale })}
+    </time>
+  );
+}
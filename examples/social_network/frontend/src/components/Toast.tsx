@@ -0,0 +1,54 @@
+import React, { createContext, useCallback, useContext, useRef, useState } from "react";
+
+type ToastKind = "error" | "info";
+
+interface Toast {
+  id: number;
+  kind: ToastKind;
+  message: string;
+}
+
+type ShowToast = (message: string, kind?: ToastKind) => void;
+
+const ToastContext = createContext<ShowToast>(() => {});
+
+const TOAST_DURATION_MS = 4000;
+
+export function ToastProvider({ children }: { children: React.ReactNode }) {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const nextId = useRef(0);
+
+  const dismiss = useCallback((id: number) => {
+    setToasts((current) => current.filter((toast) => toast.id !== id));
+  }, []);
+
+  const show = useCallback<ShowToast>(
+    (message, kind = "error") => {
+      nextId.current += 1;
+      const id = nextId.current;
+      setToasts((current) => [...current, { id, kind, message }]);
+      setTimeout(() => dismiss(id), TOAST_DURATION_MS);
+    },
+    [dismiss]
+  );
+
+  return (
+    <ToastContext.Provider value={show}>
+      {children}
+      <div className="toast-container" role="status" aria-live="polite">
+        {toasts.map((toast) => (
+          <div key={toast.id} className={`toast toast-${toast.kind}`}>
+            <span>{toast.message}</span>
+            <button type="button" className="toast-close" onClick={() => dismiss(toast.id)}>
+              ×
+            </button>
+          </div>
+        ))}
+      </div>
+    </ToastContext.Provider>
+  );
+}
+
+export function useToast(): ShowToast {
+  return useContext(ToastContext);
+}
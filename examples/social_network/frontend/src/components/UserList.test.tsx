@@ -0,0 +1,128 @@
+import { screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { loadQuery } from "react-relay";
+import { createMockEnvironment, type MockEnvironment } from "relay-test-utils";
+import { describe, expect, it } from "vitest";
+import { ResolverError } from "../relay/errors";
+import { rejectMostRecent, renderWithRelay, resolveMostRecent } from "../test/relay";
+import { USER_LIST_PAGE_SIZE } from "./pageSizes";
+import { UserList } from "./UserList";
+import { userSearchFilter } from "./userSearch";
+import UserListQueryNode, { type UserListQuery } from "./__generated__/UserListQuery.graphql";
+
+function renderUsers(userId: string | null = null) {
+  const environment = createMockEnvironment();
+  const queryRef = loadQuery<UserListQuery>(environment, UserListQueryNode, { count: USER_LIST_PAGE_SIZE });
+  return renderWithRelay(<UserList queryRef={queryRef} />, { environment, userId });
+}
+
+const people = {
+  PeopleConnection: () => ({ edges: [{}, {}], totalCount: 2 }),
+  User: (_: unknown, generateId: () => number) => {
+    const n = generateId();
+    return { username: `user${n}`, displayName: `User ${n}` };
+  },
+};
+
+function searches(environment: MockEnvironment) {
+  return environment.mock
+    .getAllOperations()
+    .filter((operation) => operation.request.node.params.name === "UserListPaginationQuery");
+}
+
+const signedIn = {
+  ...people,
+  Query: () => ({ viewer: { friendships: [], incomingFriendships: [] } }),
+};
+
+describe("UserList", () => {
+  it("shows an empty state when there are no users", async () => {
+    const { environment } = renderUsers();
+    resolveMostRecent(environment, {
+      Query: () => ({ viewer: null }),
+      PeopleConnection: () => ({ edges: [], totalCount: 0 }),
+    });
+
+    expect(await screen.findByText("No users yet. Create one above!")).toBeInTheDocument();
+  });
+
+  it("lists people without friend actions when nobody is logged in", async () => {
+    const { environment } = renderUsers();
+    resolveMostRecent(environment, { ...people, Query: () => ({ viewer: null }) });
+
+    expect(await screen.findAllByText(/^@user\d+$/)).toHaveLength(2);
+    expect(screen.queryByRole("button", { name: "Add friend" })).not.toBeInTheDocument();
+    expect(screen.queryByText("Friend Requests")).not.toBeInTheDocument();
+  });
+
+  it("marks a user as requested once a friend request succeeds", async () => {
+    const user = userEvent.setup();
+    const { environment } = renderUsers("viewer");
+    resolveMostRecent(environment, signedIn);
+
+    const [addFriend] = await screen.findAllByRole("button", { name: "Add friend" });
+    await user.click(addFriend);
+    expect(screen.getByRole("button", { name: "Sending..." })).toBeDisabled();
+
+    const { friendId } = environment.mock.getMostRecentOperation().request.variables;
+    resolveMostRecent(environment, {
+      Friendship: () => ({ status: "PENDING" }),
+      User: () => ({ id: friendId }),
+    });
+
+    expect(await screen.findByText("Request sent")).toBeInTheDocument();
+    expect(screen.getAllByRole("button", { name: "Add friend" })).toHaveLength(1);
+  });
+
+  it("shows a toast when a friend request fails", async () => {
+    const user = userEvent.setup();
+    const { environment } = renderUsers("viewer");
+    resolveMostRecent(environment, signedIn);
+
+    const [addFriend] = await screen.findAllByRole("button", { name: "Add friend" });
+    await user.click(addFriend);
+    rejectMostRecent(environment, new ResolverError("already friends"));
+
+    expect(await screen.findByRole("status")).toHaveTextContent("Couldn't send friend request: already friends");
+    expect(screen.getAllByRole("button", { name: "Add friend" })).toHaveLength(2);
+  });
+
+  it("searches after typing pauses and highlights the matches", async () => {
+    const user = userEvent.setup();
+    const { environment } = renderUsers();
+    resolveMostRecent(environment, { ...people, Query: () => ({ viewer: null }) });
+
+    await user.type(await screen.findByRole("searchbox", { name: "Search users" }), "ali");
+    await waitFor(() =>
+      expect(environment.mock.getMostRecentOperation().request.node.params.name).toBe("UserListPaginationQuery")
+    );
+    const operation = environment.mock.getMostRecentOperation();
+    expect(operation.request.variables.where).toEqual(userSearchFilter("ali"));
+    // One request for the whole word, not one per keystroke
+    expect(searches(environment)).toHaveLength(1);
+
+    // The previous results stay up while the search is in flight
+    expect(screen.getAllByText(/^@user\d+$/)).toHaveLength(2);
+
+    resolveMostRecent(environment, {
+      PeopleConnection: () => ({ edges: [{}], totalCount: 1 }),
+      User: () => ({ username: "alice", displayName: "Alice" }),
+    });
+    const nameMatch = await screen.findByText("Ali", { selector: "mark" });
+    expect(nameMatch.closest("a")).toHaveTextContent("Alice");
+    expect(screen.getByText("ali", { selector: "mark" }).parentElement).toHaveTextContent("@alice");
+    expect(screen.queryAllByText(/^@user\d+$/)).toHaveLength(0);
+  });
+
+  it("says when nothing matches the search", async () => {
+    const user = userEvent.setup();
+    const { environment } = renderUsers();
+    resolveMostRecent(environment, { ...people, Query: () => ({ viewer: null }) });
+
+    await user.type(await screen.findByRole("searchbox", { name: "Search users" }), "zed");
+    await waitFor(() => expect(searches(environment)).toHaveLength(1));
+    resolveMostRecent(environment, { PeopleConnection: () => ({ edges: [], totalCount: 0 }) });
+
+    expect(await screen.findByText("No users match “zed”.")).toBeInTheDocument();
+  });
+});
@@ -1,48 +1,178 @@
-import React from "react";
-import { graphql, useLazyLoadQuery } from "react-relay";
+import { useEffect, useRef, useState, useTransition } from "react";
+import { graphql, usePaginationFragment, usePreloadedQuery, type PreloadedQuery } from "react-relay";
+import { useI18n } from "../i18n/I18nProvider";
+import { Link } from "../router/Link";
+import { CreateUserForm } from "./CreateUserForm";
+import { AddFriendButton, RelationshipBadge, useRelationships } from "./FriendshipActions";
+import { FriendRequestInbox } from "./FriendRequestInbox";
+import { HighlightMatch } from "./HighlightMatch";
+import { USER_LIST_PAGE_SIZE } from "./pageSizes";
+import { PaginationFooter } from "./PaginationFooter";
+import { useDebouncedValue, userSearchFilter } from "./userSearch";
+import { VirtualList } from "./VirtualList";
 import type { UserListQuery } from "./__generated__/UserListQuery.graphql";
+import type { UserListPaginationQuery } from "./__generated__/UserListPaginationQuery.graphql";
+import type { UserList_query$key } from "./__generated__/UserList_query.graphql";
 
 const query = graphql`
-  query UserListQuery {
-    users {
-      id
-      email
-      username
-      displayName
+  query UserListQuery($count: Int!, $cursor: String, $where: CqlFilterUserInput) {
+    viewer {
+      ...FriendshipActions_viewer
+      ...FriendRequestInbox_viewer
     }
+    ...UserList_query @arguments(count: $count, cursor: $cursor, where: $where)
   }
 `;
 
-export function UserList() {
-  const data = useLazyLoadQuery<UserListQuery>(query, {});
+const peopleFragment = graphql`
+  fragment UserList_query on Query
+  @argumentDefinitions(
+    count: { type: "Int", defaultValue: 20 }
+    cursor: { type: "String" }
+    where: { type: "CqlFilterUserInput" }
+  )
+  @refetchable(queryName: "UserListPaginationQuery") {
+    people(where: $where, first: $count, after: $cursor)
+      @connection(key: "UserList_people")
+      @required(action: THROW) {
+      __id
+      totalCount
+      edges {
+        node {
+          id
+          email
+          username
+          displayName
+        }
+      }
+    }
+  }
+`;
+
+// A user card with its bottom margin
+const USER_CARD_HEIGHT = 92;
+
+interface Props {
+  queryRef: PreloadedQuery<UserListQuery>;
+}
+
+/**
+ * Searches `people` as the user types. Each search is a refetch in a
+ * transition, so the previous results stay up (dimmed) until the new ones
+ * arrive; starting a refetch disposes the one before it, which aborts its
+ * request if it is still in flight.
+ */
+function usePeopleSearch(refetch: (variables: Partial<UserListPaginationQuery["variables"]>) => unknown) {
+  const [term, setTerm] = useState("");
+  const debouncedTerm = useDebouncedValue(term.trim());
+  // The term the results on screen were searched for, for highlighting
+  const [resultsTerm, setResultsTerm] = useState("");
+  const [isPending, startTransition] = useTransition();
+  const searched = useRef("");
+  const refetchRef = useRef(refetch);
+  refetchRef.current = refetch;
+
+  useEffect(() => {
+    if (debouncedTerm === searched.current) return;
+    searched.current = debouncedTerm;
+    startTransition(() => {
+      setResultsTerm(debouncedTerm);
+      refetchRef.current({ where: userSearchFilter(debouncedTerm) });
+    });
+  }, [debouncedTerm]);
+
+  return { term, setTerm, resultsTerm, isSearching: isPending };
+}
 
-  if (!data.users || data.users.length === 0) {
+export function UserList({ queryRef }: Props) {
+  const { t } = useI18n();
+  const queryData = usePreloadedQuery(query, queryRef);
+  const { data, loadNext, hasNext, isLoadingNext, refetch } = usePaginationFragment<
+    UserListPaginationQuery,
+    UserList_query$key
+  >(peopleFragment, queryData);
+  const relationships = useRelationships(queryData.viewer);
+  const { term, setTerm, resultsTerm, isSearching } = usePeopleSearch(refetch);
+
+  const users = (data.people.edges ?? []).flatMap((edge) => (edge?.node ? [edge.node] : []));
+  // New users join the list on screen if its search would find them
+  const createForm = <CreateUserForm connectionId={data.people.__id} where={userSearchFilter(resultsTerm)} />;
+
+  if (users.length === 0 && !term && !resultsTerm) {
     return (
-      <div className="card">
-        <div className="empty-state">
-          <div className="empty-state-icon">👥</div>
-          <p>No users yet. Create one above!</p>
+      <>
+        {createForm}
+        <div className="card">
+          <div className="empty-state">
+            <div className="empty-state-icon">👥</div>
+            <p>{t("users.empty")}</p>
+          </div>
         </div>
-      </div>
+      </>
     );
   }
 
   return (
-    <div className="card">
-      <h2>Users</h2>
-      {data.users.map((user) => (
-        <div key={user.id} className="user-card">
-          <div className="user-avatar">
-            {(user.displayName || user.username)[0].toUpperCase()}
-          </div>
-          <div className="user-info">
-            <div className="user-name">
-              {user.displayName || user.username}
-            </div>
-            <div className="user-username">@{user.username}</div>
-          </div>
+    <>
+      {createForm}
+      {queryData.viewer && <FriendRequestInbox viewer={queryData.viewer} />}
+      <div className="card">
+        <h2>{t("users.title")}</h2>
+        <input
+          type="search"
+          className="user-search"
+          placeholder={t("users.searchPlaceholder")}
+          aria-label={t("users.search")}
+          value={term}
+          onChange={(e) => setTerm(e.target.value)}
+        />
+        <div className={isSearching ? "feed-pending" : undefined} aria-busy={isSearching}>
+          {users.length === 0 && (
+            <p className="filter-empty">{t("users.noMatches", { term: resultsTerm })}</p>
+          )}
+          <VirtualList
+            id="people"
+            items={users}
+            getKey={(user) => user.id}
+            estimatedHeight={USER_CARD_HEIGHT}
+            onEndReached={hasNext && !isLoadingNext ? () => loadNext(USER_LIST_PAGE_SIZE) : undefined}
+            renderItem={(user) => (
+              <div className="user-card">
+                <div className="user-avatar">
+                  {(user.displayName || user.username)[0].toUpperCase()}
+                </div>
+                <div className="user-info">
+                  <div className="user-name">
+                    <Link to={`/users/${user.id}`}>
+                      <HighlightMatch text={user.displayName || user.username} term={resultsTerm} />
+                    </Link>
+                  </div>
+                  <div className="user-username">
+                    @<HighlightMatch text={user.username} term={resultsTerm} />
+                  </div>
+                </div>
+                {relationships && (
+                  <div className="user-actions">
+                    <RelationshipBadge relationship={relationships.relationshipTo(user.id)} />
+                    {relationships.relationshipTo(user.id) === "none" && (
+                      <AddFriendButton viewerId={relationships.viewerId} friendId={user.id} />
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+          />
+          <PaginationFooter
+            hasNext={hasNext}
+            isLoadingNext={isLoadingNext}
+            onLoadMore={() => loadNext(USER_LIST_PAGE_SIZE)}
+            loadedCount={users.length}
+            totalCount={data.people.totalCount}
+            countLabel={(loaded, total) => t("users.count", { loaded, total })}
+            loadWhenVisible={false}
+          />
         </div>
-      ))}
-    </div>
+      </div>
+    </>
   );
 }
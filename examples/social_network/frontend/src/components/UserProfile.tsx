@@ -0,0 +1,152 @@
+import { Suspense, useTransition } from "react";
+import { graphql, useFragment, useRefetchableFragment } from "react-relay";
+import { useI18n } from "../i18n/I18nProvider";
+import { toGlobalId } from "../relay/globalId";
+import { Link } from "../router/Link";
+import { Avatar } from "./Avatar";
+import { AddFriendButton, RelationshipBadge, useRelationships } from "./FriendshipActions";
+import { PostCard } from "./PostFeed";
+import type { FriendshipActions_viewer$key } from "./__generated__/FriendshipActions_viewer.graphql";
+import type { UserProfileRefetchQuery } from "./__generated__/UserProfileRefetchQuery.graphql";
+import type { UserProfile_friends$key } from "./__generated__/UserProfile_friends.graphql";
+import type { UserProfile_user$key } from "./__generated__/UserProfile_user.graphql";
+
+const userFragment = graphql`
+  fragment UserProfile_user on User @refetchable(queryName: "UserProfileRefetchQuery") {
+    id
+    username
+    displayName
+    bio
+    avatarUrl
+    # The first posts render with the profile; the rest follow one by one
+    posts @stream(label: "UserProfile_posts", initialCount: 2) {
+      id
+      ...PostFeed_post
+    }
+    ...UserProfile_friends @defer(label: "UserProfile_friends")
+  }
+`;
+
+const friendsFragment = graphql`
+  fragment UserProfile_friends on User {
+    friends {
+      id
+      username
+      displayName
+      avatarUrl
+    }
+  }
+`;
+
+// Suspends until the deferred friends fragment arrives
+function ProfileFriends({ user: userKey }: { user: UserProfile_friends$key }) {
+  const { t } = useI18n();
+  // Only null when its resolver failed; the rest of the profile still renders
+  const { friends } = useFragment(friendsFragment, userKey);
+
+  return (
+    <div className="card">
+      <h2>{friends ? t("profile.friendCount", { count: friends.length }) : t("profile.friends")}</h2>
+      {!friends ? (
+        <p className="filter-empty">{t("profile.friendsFailed")}</p>
+      ) : friends.length === 0 ? (
+        <p className="filter-empty">{t("profile.noFriends")}</p>
+      ) : (
+        <div className="profile-friends">
+          {friends.map((friend) => (
+            <Link key={friend.id} to={`/users/${friend.id}`} className="profile-friend">
+              <Avatar name={friend.displayName || friend.username} url={friend.avatarUrl} />
+              <span>{friend.displayName || friend.username}</span>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface Props {
+  user: UserProfile_user$key;
+  /** The logged-in user, for showing how they relate to this profile. */
+  viewer: FriendshipActions_viewer$key | null | undefined;
+}
+
+/**
+ * A user's profile. The fragment is refetchable through `node(id:)`, so the
+ * same component renders whether the user came from `node` or `viewer`.
+ */
+export function UserProfile({ user: userKey, viewer }: Props) {
+  const { t } = useI18n();
+  const [user, refetch] = useRefetchableFragment<UserProfileRefetchQuery, UserProfile_user$key>(
+    userFragment,
+    userKey
+  );
+  const relationships = useRelationships(viewer);
+  const [isRefreshing, startTransition] = useTransition();
+
+  const refresh = () => {
+    startTransition(() => {
+      // Passing `id` overrides the plain id Relay would read off the record
+      refetch({ id: toGlobalId("User", user.id) }, { fetchPolicy: "network-only" });
+    });
+  };
+
+  const name = user.displayName || user.username;
+  const relationship = relationships?.relationshipTo(user.id) ?? "none";
+  // Only null when its resolver failed; the rest of the profile still renders
+  const { posts } = user;
+
+  return (
+    <div className="feed-container">
+      <div className="card profile-header">
+        <Avatar name={name} url={user.avatarUrl} size="large" />
+        <div className="profile-info">
+          <h2>{name}</h2>
+          <div className="user-username">@{user.username}</div>
+          {user.bio && <p className="profile-bio">{user.bio}</p>}
+          {relationships && (
+            <div className="user-actions">
+              <RelationshipBadge relationship={relationship} />
+              {relationship === "none" && (
+                <AddFriendButton viewerId={relationships.viewerId} friendId={user.id} />
+              )}
+            </div>
+          )}
+        </div>
+        <button
+          type="button"
+          className="btn btn-secondary btn-small"
+          onClick={refresh}
+          disabled={isRefreshing}
+        >
+          {isRefreshing ? t("profile.refreshing") : t("profile.refresh")}
+        </button>
+      </div>
+
+      <Suspense
+        fallback={
+          <div className="card">
+            <h2>{t("profile.friends")}</h2>
+            <p className="filter-empty">{t("profile.loadingFriends")}</p>
+          </div>
+        }
+      >
+        <ProfileFriends user={user} />
+      </Suspense>
+
+      {!posts ? (
+        <div className="card">
+          <p className="filter-empty">{t("profile.postsFailed")}</p>
+        </div>
+      ) : posts.length === 0 ? (
+        <div className="card">
+          <div className="empty-state">
+            <p>{t("profile.noPosts", { username: user.username })}</p>
+          </div>
+        </div>
+      ) : (
+        posts.map((post) => <PostCard key={post.id} post={post} />)
+      )}
+    </div>
+  );
+}
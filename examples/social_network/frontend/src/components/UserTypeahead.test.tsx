@@ -0,0 +1,49 @@
+import { screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import type { MockEnvironment } from "relay-test-utils";
+import { describe, expect, it } from "vitest";
+import { renderWithRelay, resolveMostRecent } from "../test/relay";
+import { UserTypeahead } from "./UserTypeahead";
+
+async function search(text: string) {
+  const user = userEvent.setup();
+  const { environment } = renderWithRelay(<UserTypeahead />);
+  await user.type(screen.getByRole("combobox", { name: "Find people" }), text);
+  await waitFor(() => expect(environment.mock.getAllOperations()).toHaveLength(1));
+  return { user, environment };
+}
+
+function resolveMatches(environment: MockEnvironment, usernames: string[]) {
+  resolveMostRecent(environment, {
+    PeopleConnection: () => ({ edges: usernames.map(() => ({})) }),
+    User: (_, generateId) => {
+      const username = usernames[generateId() - 1];
+      return { id: username, username, displayName: null };
+    },
+  });
+}
+
+describe("UserTypeahead", () => {
+  it("opens a user's profile chosen with the keyboard", async () => {
+    const { user, environment } = await search("bo");
+    resolveMatches(environment, ["bob", "bobby"]);
+
+    expect(await screen.findAllByRole("option")).toHaveLength(2);
+    expect(screen.getAllByText("bo", { selector: "mark" })).toHaveLength(4);
+
+    await user.keyboard("{ArrowDown}{ArrowDown}");
+    expect(screen.getAllByRole("option")[1]).toHaveAttribute("aria-selected", "true");
+    await user.keyboard("{Enter}");
+
+    expect(window.location.pathname).toBe("/users/bobby");
+    expect(screen.getByRole("combobox")).toHaveValue("");
+    expect(screen.queryByRole("listbox")).not.toBeInTheDocument();
+  });
+
+  it("says when nobody matches", async () => {
+    const { environment } = await search("zed");
+    resolveMatches(environment, []);
+
+    expect(await screen.findByText("No users match “zed”.")).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,199 @@
+import React, { Suspense, useEffect, useRef, useState, useTransition } from "react";
+import { graphql, usePreloadedQuery, useQueryLoader, type PreloadedQuery } from "react-relay";
+import { useI18n } from "../i18n/I18nProvider";
+import { useRouter } from "../router/Router";
+import { ErrorBoundary, ErrorPanel } from "./ErrorBoundary";
+import { HighlightMatch } from "./HighlightMatch";
+import { USER_TYPEAHEAD_SIZE } from "./pageSizes";
+import { useDebouncedValue, userSearchFilter } from "./userSearch";
+import type {
+  UserTypeaheadQuery,
+  UserTypeaheadQuery$data,
+} from "./__generated__/UserTypeaheadQuery.graphql";
+
+const query = graphql`
+  query UserTypeaheadQuery($where: CqlFilterUserInput, $count: Int!) {
+    people(where: $where, first: $count) {
+      edges {
+        node {
+          id
+          username
+          displayName
+        }
+      }
+    }
+  }
+`;
+
+type Match = NonNullable<
+  NonNullable<NonNullable<NonNullable<UserTypeaheadQuery$data["people"]>["edges"]>[number]>["node"]
+>;
+
+const LISTBOX_ID = "user-typeahead-listbox";
+const optionId = (index: number) => `user-typeahead-option-${index}`;
+
+interface ResultsProps {
+  queryRef: PreloadedQuery<UserTypeaheadQuery>;
+  term: string;
+  activeIndex: number;
+  /** Receives the matches on screen, for keyboard selection. */
+  matchesRef: React.MutableRefObject<Match[]>;
+  onSelect: (match: Match) => void;
+}
+
+function TypeaheadResults({ queryRef, term, activeIndex, matchesRef, onSelect }: ResultsProps) {
+  const { t } = useI18n();
+  const data = usePreloadedQuery(query, queryRef);
+  const matches = (data.people?.edges ?? []).flatMap((edge) => (edge?.node ? [edge.node] : []));
+
+  useEffect(() => {
+    matchesRef.current = matches;
+  });
+
+  if (matches.length === 0) {
+    return <li className="typeahead-empty">{t("users.noMatches", { term })}</li>;
+  }
+
+  return (
+    <>
+      {matches.map((match, index) => (
+        <li
+          key={match.id}
+          id={optionId(index)}
+          role="option"
+          aria-selected={index === activeIndex}
+          className={`typeahead-option ${index === activeIndex ? "active" : ""}`}
+          // Keep focus in the input so the list doesn't close before the click
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onSelect(match)}
+        >
+          <span className="typeahead-name">
+            <HighlightMatch text={match.displayName || match.username} term={term} />
+          </span>
+          <span className="typeahead-username">
+            @<HighlightMatch text={match.username} term={term} />
+          </span>
+        </li>
+      ))}
+    </>
+  );
+}
+
+/**
+ * Header search that jumps to a user's profile. Typing loads matching users
+ * after a pause; each load disposes the previous one, aborting it if it is
+ * still in flight, and runs in a transition so the last results stay up
+ * until the new ones are ready.
+ */
+export function UserTypeahead() {
+  const { navigate } = useRouter();
+  const { t } = useI18n();
+  const [term, setTerm] = useState("");
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [resultsTerm, setResultsTerm] = useState("");
+  const debouncedTerm = useDebouncedValue(term.trim());
+  const [queryRef, loadQuery, disposeQuery] = useQueryLoader<UserTypeaheadQuery>(query);
+  const [isPending, startTransition] = useTransition();
+  const matches = useRef<Match[]>([]);
+
+  const search = (searchTerm: string, fetchPolicy: "store-or-network" | "network-only") => {
+    startTransition(() => {
+      setResultsTerm(searchTerm);
+      setActiveIndex(-1);
+      loadQuery(
+        { where: userSearchFilter(searchTerm), count: USER_TYPEAHEAD_SIZE },
+        { fetchPolicy }
+      );
+    });
+  };
+
+  const searchRef = useRef(search);
+  searchRef.current = search;
+
+  useEffect(() => {
+    if (debouncedTerm) {
+      searchRef.current(debouncedTerm, "store-or-network");
+    } else {
+      disposeQuery();
+      matches.current = [];
+    }
+  }, [debouncedTerm, disposeQuery]);
+
+  const select = (match: Match) => {
+    setTerm("");
+    setIsOpen(false);
+    navigate(`/users/${match.id}`);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    const count = matches.current.length;
+    if (e.key === "ArrowDown" && count > 0) {
+      e.preventDefault();
+      setIsOpen(true);
+      setActiveIndex((index) => (index + 1) % count);
+    } else if (e.key === "ArrowUp" && count > 0) {
+      e.preventDefault();
+      setActiveIndex((index) => (index <= 0 ? count - 1 : index - 1));
+    } else if (e.key === "Enter" && isOpen && matches.current[activeIndex]) {
+      e.preventDefault();
+      select(matches.current[activeIndex]);
+    } else if (e.key === "Escape") {
+      setIsOpen(false);
+    }
+  };
+
+  const showResults = isOpen && term.trim() !== "" && queryRef != null;
+
+  return (
+    <div className="typeahead">
+      <input
+        type="search"
+        className="typeahead-input"
+        placeholder={t("users.findPeople")}
+        role="combobox"
+        aria-label={t("users.findPeople")}
+        aria-autocomplete="list"
+        aria-expanded={showResults}
+        aria-controls={LISTBOX_ID}
+        aria-activedescendant={showResults && activeIndex >= 0 ? optionId(activeIndex) : undefined}
+        aria-busy={isPending}
+        value={term}
+        onChange={(e) => {
+          setTerm(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+      />
+      {showResults && (
+        <ul
+          id={LISTBOX_ID}
+          role="listbox"
+          aria-label={t("users.matchingUsers")}
+          className={`typeahead-results ${isPending ? "feed-pending" : ""}`}
+        >
+          <ErrorBoundary
+            onRetry={() => search(resultsTerm, "network-only")}
+            fallback={(fallback) => (
+              <li>
+                <ErrorPanel {...fallback} compact />
+              </li>
+            )}
+          >
+            <Suspense fallback={<li className="typeahead-empty">{t("users.searching")}</li>}>
+              <TypeaheadResults
+                queryRef={queryRef}
+                term={resultsTerm}
+                activeIndex={activeIndex}
+                matchesRef={matches}
+                onSelect={select}
+              />
+            </Suspense>
+          </ErrorBoundary>
+        </ul>
+      )}
+    </div>
+  );
+}
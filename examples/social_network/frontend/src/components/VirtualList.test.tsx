@@ -0,0 +1,79 @@
+import { act, fireEvent, screen } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { renderWithRelay } from "../test/relay";
+import { VirtualList } from "./VirtualList";
+
+const ROW_HEIGHT = 100;
+const rows = Array.from({ length: 100 }, (_, index) => `Row ${index}`);
+
+// jsdom doesn't lay anything out: make every row 100px tall and let the page
+// scroll by moving the list up
+let scrollY = 0;
+
+function scrollTo(y: number) {
+  act(() => {
+    scrollY = y;
+    fireEvent.scroll(window);
+  });
+}
+
+beforeEach(() => {
+  scrollY = 0;
+  vi.spyOn(window, "scrollY", "get").mockImplementation(() => scrollY);
+  vi.spyOn(window, "scrollTo").mockImplementation(((_: number, y: number) => {
+    scrollY = y;
+  }) as typeof window.scrollTo);
+  vi.spyOn(HTMLElement.prototype, "getBoundingClientRect").mockImplementation(function (this: HTMLElement) {
+    const height = this.classList.contains("virtual-row") ? ROW_HEIGHT : 0;
+    return { top: -scrollY, height } as DOMRect;
+  });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+function renderList(onEndReached?: () => void) {
+  return renderWithRelay(
+    <VirtualList
+      id="rows"
+      items={rows}
+      getKey={(row) => row}
+      renderItem={(row) => <p>{row}</p>}
+      estimatedHeight={ROW_HEIGHT}
+      onEndReached={onEndReached}
+    />
+  );
+}
+
+describe("VirtualList", () => {
+  it("renders only the rows near the viewport", () => {
+    renderList();
+    expect(screen.getByText("Row 0")).toBeInTheDocument();
+    expect(screen.queryByText("Row 50")).not.toBeInTheDocument();
+
+    scrollTo(5000);
+    expect(screen.queryByText("Row 0")).not.toBeInTheDocument();
+    expect(screen.getByText("Row 50")).toBeInTheDocument();
+  });
+
+  it("asks for more as the viewport nears the end", () => {
+    const onEndReached = vi.fn();
+    renderList(onEndReached);
+    expect(onEndReached).not.toHaveBeenCalled();
+
+    scrollTo(8500);
+    expect(onEndReached).toHaveBeenCalled();
+  });
+
+  it("restores the scroll position when its history entry is shown again", () => {
+    const { unmount } = renderList();
+    scrollTo(4000);
+    unmount();
+
+    scrollTo(0);
+    renderList();
+    expect(window.scrollTo).toHaveBeenCalledWith(0, 4000);
+    expect(screen.getByText("Row 40")).toBeInTheDocument();
+  });
+});
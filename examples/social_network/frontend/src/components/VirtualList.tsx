@@ -0,0 +1,182 @@
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
+import { useLocation } from "../router/Router";
+
+// Rows rendered beyond each edge of the viewport, in pixels
+const OVERSCAN_PX = 800;
+// How close to the last row the rendered rows get before asking for more
+const END_THRESHOLD_ROWS = 5;
+// Positions kept for going Back; older history entries are forgotten
+const MAX_SAVED_POSITIONS = 50;
+
+interface SavedPosition {
+  scrollY: number;
+  /** Measured row heights by key, so restored rows land where they were. */
+  heights: Map<string, number>;
+}
+
+const savedPositions = new Map<string, SavedPosition>();
+
+function claimPosition(storageKey: string): SavedPosition {
+  const position = savedPositions.get(storageKey) ?? { scrollY: 0, heights: new Map() };
+  // Re-insert so the most recently used positions are the ones kept
+  savedPositions.delete(storageKey);
+  savedPositions.set(storageKey, position);
+  if (savedPositions.size > MAX_SAVED_POSITIONS) {
+    savedPositions.delete(savedPositions.keys().next().value as string);
+  }
+  return position;
+}
+
+/** Index of the row containing `y`, given each row's top and the list's total height. */
+function rowAt(offsets: readonly number[], y: number): number {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (offsets[middle] <= y) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return Math.max(low, 0);
+}
+
+interface RowProps {
+  rowKey: string;
+  onMeasure: (key: string, height: number) => void;
+  children: React.ReactNode;
+}
+
+function VirtualRow({ rowKey, onMeasure, children }: RowProps) {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useLayoutEffect(() => {
+    const row = ref.current;
+    if (!row) return;
+
+    const measure = () => onMeasure(rowKey, row.getBoundingClientRect().height);
+    measure();
+    // Rows change height after rendering too, e.g. when media loads or comments open
+    if (typeof ResizeObserver === "undefined") return;
+    const observer = new ResizeObserver(measure);
+    observer.observe(row);
+    return () => observer.disconnect();
+  }, [rowKey, onMeasure]);
+
+  return (
+    <div ref={ref} className="virtual-row">
+      {children}
+    </div>
+  );
+}
+
+interface Props<T> {
+  items: readonly T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T) => React.ReactNode;
+  /** Height assumed for rows that haven't been rendered yet. */
+  estimatedHeight: number;
+  /** Called as the rendered rows near the end; omit when there's nothing more to load. */
+  onEndReached?: () => void;
+  /** Tells this list apart from others on the page when saving its scroll position. */
+  id: string;
+}
+
+/**
+ * Renders only the rows near the viewport of a window-scrolled list, with
+ * spacers standing in for the rest. Rows can be any height: each is measured
+ * once rendered and re-measured when it resizes. Going Back to a page
+ * restores the list's scroll position.
+ */
+export function VirtualList<T>({ items, getKey, renderItem, estimatedHeight, onEndReached, id }: Props<T>) {
+  const { key: locationKey } = useLocation();
+  const position = useMemo(() => claimPosition(`${locationKey}:${id}`), [locationKey, id]);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [measuredVersion, setMeasuredVersion] = useState(0);
+  const [range, setRange] = useState({ start: 0, end: 0 });
+
+  // offsets[i] is row i's top; the last entry is the list's total height
+  const offsets = useMemo(() => {
+    const result = [0];
+    items.forEach((item, index) => {
+      result.push(result[index] + (position.heights.get(getKey(item)) ?? estimatedHeight));
+    });
+    return result;
+    // getKey is usually an inline function; items and measurements are what matter
+  }, [items, position, estimatedHeight, measuredVersion]);
+  const offsetsRef = useRef(offsets);
+  offsetsRef.current = offsets;
+
+  const updateRange = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const rowOffsets = offsetsRef.current;
+    const viewportTop = -container.getBoundingClientRect().top;
+    const start = rowAt(rowOffsets, viewportTop - OVERSCAN_PX);
+    const end = Math.min(rowAt(rowOffsets, viewportTop + window.innerHeight + OVERSCAN_PX) + 1, rowOffsets.length - 1);
+    setRange((current) => (current.start === start && current.end === end ? current : { start, end }));
+  }, []);
+
+  const measure = useCallback(
+    (key: string, height: number) => {
+      if (position.heights.get(key) === height) return;
+      position.heights.set(key, height);
+      setMeasuredVersion((version) => version + 1);
+    },
+    [position]
+  );
+
+  useLayoutEffect(updateRange, [offsets, updateRange]);
+
+  // Restore where the list was scrolled to when this history entry was last shown
+  useLayoutEffect(() => {
+    if (position.scrollY > 0) {
+      window.scrollTo(0, position.scrollY);
+      updateRange();
+    }
+  }, [position, updateRange]);
+
+  useEffect(() => {
+    const handleScroll = () => {
+      position.scrollY = window.scrollY;
+      updateRange();
+    };
+    window.addEventListener("scroll", handleScroll, { passive: true });
+    window.addEventListener("resize", updateRange);
+    return () => {
+      window.removeEventListener("scroll", handleScroll);
+      window.removeEventListener("resize", updateRange);
+    };
+  }, [position, updateRange]);
+
+  const onEndReachedRef = useRef(onEndReached);
+  onEndReachedRef.current = onEndReached;
+  const canLoadMore = onEndReached !== undefined;
+
+  useEffect(() => {
+    if (canLoadMore && range.end >= items.length - END_THRESHOLD_ROWS) {
+      onEndReachedRef.current?.();
+    }
+  }, [canLoadMore, range.end, items.length]);
+
+  // The range trails a shrinking list by a render
+  const end = Math.min(range.end, items.length);
+  const start = Math.min(range.start, end);
+
+  return (
+    <div ref={containerRef}>
+      <div aria-hidden style={{ height: offsets[start] }} />
+      {items.slice(start, end).map((item) => {
+        const key = getKey(item);
+        return (
+          <VirtualRow key={key} rowKey={key} onMeasure={measure}>
+            {renderItem(item)}
+          </VirtualRow>
+        );
+      })}
+      <div aria-hidden style={{ height: offsets[offsets.length - 1] - offsets[end] }} />
+    </div>
+  );
+}
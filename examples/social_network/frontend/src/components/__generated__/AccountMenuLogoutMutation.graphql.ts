@@ -0,0 +1,63 @@
+/**
+ * @generated SignedSource<<1cedb82158b5c92c9cc77e4635f18859>>
+ * @relayHash 418526c5901f7fecc4fa4cec1e296335
+ * @lightSyntaxTransform
+ * @nogrep
+ */
+
+/* tslint:disable */
+/* eslint-disable */
+// @ts-nocheck
+
+// @relayRequestID f181de04c9e97d0ac857f1954faafda70b2fb52ee12b1101616c1d09dd8c4aab
+
+import { ConcreteRequest, Mutation } from 'relay-runtime';
+export type AccountMenuLogoutMutation$variables = Record<PropertyKey, never>;
+export type AccountMenuLogoutMutation$data = {
+  readonly logout: boolean;
+};
+export type AccountMenuLogoutMutation = {
+  response: AccountMenuLogoutMutation$data;
+  variables: AccountMenuLogoutMutation$variables;
+};
+
+const node: ConcreteRequest = (function(){
+var v0 = [
+  {
+    "alias": null,
+    "args": null,
+    "kind": "ScalarField",
+    "name": "logout",
+    "storageKey": null
+  }
+];
+return {
+  "fragment": {
+    "argumentDefinitions": [],
+    "kind": "Fragment",
+    "metadata": null,
+    "name": "AccountMenuLogoutMutation",
+    "selections": (v0/*: any*/),
+    "type": "Mutation",
+    "abstractKey": null
+  },
+  "kind": "Request",
+  "operation": {
+    "argumentDefinitions": [],
+    "kind": "Operation",
+    "name": "AccountMenuLogoutMutation",
+    "selections": (v0/*: any*/)
+  },
+  "params": {
+    "id": "f181de04c9e97d0ac857f1954faafda70b2fb52ee12b1101616c1d09dd8c4aab",
+    "metadata": {},
+    "name": "AccountMenuLogoutMutation",
+    "operationKind": "mutation",
+    "text": null
+  }
+};
+})();
+
+(node as any).hash = "e9c66f8d9d9050df379fafbe7c2d4295";
+
+export default node;
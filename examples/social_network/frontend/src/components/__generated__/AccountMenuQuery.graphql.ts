@@ -1,5 +1,6 @@
 /**
- * @generated SignedSource<<5d6a2253ed2dac3fa5da4c47f965830c>>
+ * @generated SignedSource<<4b119efcf4acf957caceebb1aac4ca3d>>
+ * @relayHash db2eea3123382cf1e9d0b697218139e2
  * @lightSyntaxTransform
  * @nogrep
  */
@@ -8,18 +9,20 @@
 /* eslint-disable */
 // @ts-nocheck
 
+// @relayRequestID 2b20b36f5a1c795240420f62d6696fb5320c4c124fee3a74fd398588bb24466d
+
 import { ConcreteRequest, Query } from 'relay-runtime';
-export type UserSelectorQuery$variables = Record<PropertyKey, never>;
-export type UserSelectorQuery$data = {
-  readonly users: ReadonlyArray<{
+export type AccountMenuQuery$variables = Record<PropertyKey, never>;
+export type AccountMenuQuery$data = {
+  readonly viewer: {
     readonly displayName: string | null | undefined;
     readonly id: string;
     readonly username: string;
-  }> | null | undefined;
+  } | null | undefined;
 };
-export type UserSelectorQuery = {
-  response: UserSelectorQuery$data;
-  variables: UserSelectorQuery$variables;
+export type AccountMenuQuery = {
+  response: AccountMenuQuery$data;
+  variables: AccountMenuQuery$variables;
 };
 
 const node: ConcreteRequest = (function(){
@@ -29,8 +32,8 @@ var v0 = [
     "args": null,
     "concreteType": "User",
     "kind": "LinkedField",
-    "name": "users",
-    "plural": true,
+    "name": "viewer",
+    "plural": false,
     "selections": [
       {
         "alias": null,
@@ -62,7 +65,7 @@ return {
     "argumentDefinitions": [],
     "kind": "Fragment",
     "metadata": null,
-    "name": "UserSelectorQuery",
+    "name": "AccountMenuQuery",
     "selections": (v0/*: any*/),
     "type": "Query",
     "abstractKey": null
@@ -71,20 +74,19 @@ return {
   "operation": {
     "argumentDefinitions": [],
     "kind": "Operation",
-    "name": "UserSelectorQuery",
+    "name": "AccountMenuQuery",
     "selections": (v0/*: any*/)
   },
   "params": {
-    "cacheID": "f0470f0b1c295c54e1a832b47ef9ff9a",
-    "id": null,
+    "id": "2b20b36f5a1c795240420f62d6696fb5320c4c124fee3a74fd398588bb24466d",
     "metadata": {},
-    "name": "UserSelectorQuery",
+    "name": "AccountMenuQuery",
     "operationKind": "query",
-    "text": "query UserSelectorQuery {\n  users {\n    id\n    username\n    displayName\n  }\n}\n"
+    "text": null
   }
 };
 })();
 
-(node as any).hash = "f4b5bbb8bfeed5bfd63a521995835378";
+(node as any).hash = "0f486b105eafcc2c35eb31dfe82e2a0a";
 
 export default node;
@@ -0,0 +1,98 @@
+/**
+ * @generated SignedSource<<57c8f7a5a1eb2888810ffc706b6a59b7>>
+ * @lightSyntaxTransform
+ * @nogrep
+ */
+
+/* tslint:disable */
+/* eslint-disable */
+// @ts-nocheck
+
+import { Fragment, ReaderFragment } from 'relay-runtime';
+import { FragmentRefs } from "relay-runtime";
+export type CommentThread_comment$data = {
+  readonly author: {
+    readonly displayName: string | null | undefined;
+    readonly id: string;
+    readonly username: string;
+  };
+  readonly body: string;
+  readonly id: string;
+  readonly insertedAt: string;
+  readonly " $fragmentSpreads": FragmentRefs<"LikeButton_comment">;
+  readonly " $fragmentType": "CommentThread_comment";
+};
+export type CommentThread_comment$key = {
+  readonly " $data"?: CommentThread_comment$data;
+  readonly " $fragmentSpreads": FragmentRefs<"CommentThread_comment">;
+};
+
+const node: ReaderFragment = (function(){
+var v0 = {
+  "alias": null,
+  "args": null,
+  "kind": "ScalarField",
+  "name": "id",
+  "storageKey": null
+};
+return {
+  "argumentDefinitions": [],
+  "kind": "Fragment",
+  "metadata": null,
+  "name": "CommentThread_comment",
+  "selections": [
+    (v0/*: any*/),
+    {
+      "alias": null,
+      "args": null,
+      "kind": "ScalarField",
+      "name": "body",
+      "storageKey": null
+    },
+    {
+      "alias": null,
+      "args": null,
+      "kind": "ScalarField",
+      "name": "insertedAt",
+      "storageKey": null
+    },
+    {
+      "alias": null,
+      "args": null,
+      "concreteType": "User",
+      "kind": "LinkedField",
+      "name": "author",
+      "plural": false,
+      "selections": [
+        (v0/*: any*/),
+        {
+          "alias": null,
+          "args": null,
+          "kind": "ScalarField",
+          "name": "username",
+          "storageKey": null
+        },
+        {
+          "alias": null,
+          "args": null,
+          "kind": "ScalarField",
+          "name": "displayName",
+          "storageKey": null
+        }
+      ],
+      "storageKey": null
+    },
+    {
+      "args": null,
+      "kind": "FragmentSpread",
+      "name": "LikeButton_comment"
+    }
+  ],
+  "type": "Comment",
+  "abstractKey": null
+};
+})();
+
+(node as any).hash = "8aab5d9c6f96db3d3b83009661a9068e";
+
+export default node;
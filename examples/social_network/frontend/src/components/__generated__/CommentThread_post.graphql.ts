@@ -0,0 +1,86 @@
+/**
+ * @generated SignedSource<<443ea686af6e6097e49496232d95f73f>>
+ * @lightSyntaxTransform
+ * @nogrep
+ */
+
+/* tslint:disable */
+/* eslint-disable */
+// @ts-nocheck
+
+import { Fragment, ReaderFragment } from 'relay-runtime';
+import { FragmentRefs } from "relay-runtime";
+export type CommentThread_post$data = {
+  readonly comments: ReadonlyArray<{
+    readonly id: string;
+    readonly parent: {
+      readonly id: string;
+    } | null | undefined;
+    readonly " $fragmentSpreads": FragmentRefs<"CommentThread_comment">;
+  }>;
+  readonly id: string;
+  readonly " $fragmentType": "CommentThread_post";
+};
+export type CommentThread_post$key = {
+  readonly " $data"?: CommentThread_post$data;
+  readonly " $fragmentSpreads": FragmentRefs<"CommentThread_post">;
+};
+
+const node: ReaderFragment = (function(){
+var v0 = {
+  "alias": null,
+  "args": null,
+  "kind": "ScalarField",
+  "name": "id",
+  "storageKey": null
+};
+return {
+  "argumentDefinitions": [],
+  "kind": "Fragment",
+  "metadata": null,
+  "name": "CommentThread_post",
+  "selections": [
+    (v0/*: any*/),
+    {
+      "kind": "RequiredField",
+      "field": {
+        "alias": null,
+        "args": null,
+        "concreteType": "Comment",
+        "kind": "LinkedField",
+        "name": "comments",
+        "plural": true,
+        "selections": [
+          (v0/*: any*/),
+          {
+            "alias": null,
+            "args": null,
+            "concreteType": "Comment",
+            "kind": "LinkedField",
+            "name": "parent",
+            "plural": false,
+            "selections": [
+              (v0/*: any*/)
+            ],
+            "storageKey": null
+          },
+          {
+            "args": null,
+            "kind": "FragmentSpread",
+            "name": "CommentThread_comment"
+          }
+        ],
+        "storageKey": null
+      },
+      "action": "THROW",
+      "path": "comments"
+    }
+  ],
+  "type": "Post",
+  "abstractKey": null
+};
+})();
+
+(node as any).hash = "8dfb7d9b30c6548534143bf9899154dc";
+
+export default node;
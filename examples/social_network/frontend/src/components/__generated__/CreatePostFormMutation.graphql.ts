@@ -1,5 +1,6 @@
 /**
- * @generated SignedSource<<db74b8c2aaa136257f7ac1d2c88f87ca>>
+ * @generated SignedSource<<3b202557cb99d100539b7387cbbba6fe>>
+ * @relayHash ee4eac2ef76843a65d8eb3e408089e29
  * @lightSyntaxTransform
  * @nogrep
  */
@@ -8,17 +9,20 @@
 /* eslint-disable */
 // @ts-nocheck
 
+// @relayRequestID a8c6be3958f6662ac0a39415a8a84d4066f69d3bedcc36c6121be9193c01b6fe
+
 import { ConcreteRequest, Mutation } from 'relay-runtime';
+import { FragmentRefs } from "relay-runtime";
 export type PostVisibility = "FRIENDS" | "PRIVATE" | "PUBLIC" | "%future added value";
 export type CreatePostFormMutation$variables = {
   body: string;
+  media?: unknown | null | undefined;
   visibility?: PostVisibility | null | undefined;
 };
 export type CreatePostFormMutation$data = {
   readonly createPost: {
-    readonly body: string;
     readonly id: string;
-    readonly visibility: PostVisibility | null | undefined;
+    readonly " $fragmentSpreads": FragmentRefs<"PostFeed_post">;
   } | null | undefined;
 };
 export type CreatePostFormMutation = {
@@ -27,91 +31,226 @@ export type CreatePostFormMutation = {
 };
 
 const node: ConcreteRequest = (function(){
-var v0 = [
+var v0 = {
+  "defaultValue": null,
+  "kind": "LocalArgument",
+  "name": "body"
+},
+v1 = {
+  "defaultValue": null,
+  "kind": "LocalArgument",
+  "name": "media"
+},
+v2 = {
+  "defaultValue": null,
+  "kind": "LocalArgument",
+  "name": "visibility"
+},
+v3 = [
+  {
+    "kind": "Variable",
+    "name": "body",
+    "variableName": "body"
+  },
   {
-    "defaultValue": null,
-    "kind": "LocalArgument",
-    "name": "body"
+    "kind": "Variable",
+    "name": "media",
+    "variableName": "media"
   },
   {
-    "defaultValue": null,
-    "kind": "LocalArgument",
-    "name": "visibility"
+    "kind": "Variable",
+    "name": "visibility",
+    "variableName": "visibility"
   }
 ],
-v1 = [
-  {
-    "alias": null,
-    "args": [
-      {
-        "kind": "Variable",
-        "name": "body",
-        "variableName": "body"
-      },
-      {
-        "kind": "Variable",
-        "name": "visibility",
-        "variableName": "visibility"
-      }
+v4 = {
+  "alias": null,
+  "args": null,
+  "kind": "ScalarField",
+  "name": "id",
+  "storageKey": null
+},
+v5 = {
+  "alias": null,
+  "args": null,
+  "kind": "ScalarField",
+  "name": "body",
+  "storageKey": null
+},
+v6 = {
+  "alias": null,
+  "args": null,
+  "kind": "ScalarField",
+  "name": "insertedAt",
+  "storageKey": null
+},
+v7 = {
+  "alias": null,
+  "args": null,
+  "concreteType": "User",
+  "kind": "LinkedField",
+  "name": "author",
+  "plural": false,
+  "selections": [
+    (v4/*: any*/),
+    {
+      "alias": null,
+      "args": null,
+      "kind": "ScalarField",
+      "name": "username",
+      "storageKey": null
+    },
+    {
+      "alias": null,
+      "args": null,
+      "kind": "ScalarField",
+      "name": "displayName",
+      "storageKey": null
+    }
+  ],
+  "storageKey": null
+},
+v8 = [
+  (v4/*: any*/)
+],
+v9 = {
+  "alias": null,
+  "args": null,
+  "concreteType": "Like",
+  "kind": "LinkedField",
+  "name": "likes",
+  "plural": true,
+  "selections": [
+    (v4/*: any*/),
+    {
+      "alias": null,
+      "args": null,
+      "concreteType": "User",
+      "kind": "LinkedField",
+      "name": "user",
+      "plural": false,
+      "selections": (v8/*: any*/),
+      "storageKey": null
+    }
+  ],
+  "storageKey": null
+};
+return {
+  "fragment": {
+    "argumentDefinitions": [
+      (v0/*: any*/),
+      (v1/*: any*/),
+      (v2/*: any*/)
     ],
-    "concreteType": "Post",
-    "kind": "LinkedField",
-    "name": "createPost",
-    "plural": false,
+    "kind": "Fragment",
+    "metadata": null,
+    "name": "CreatePostFormMutation",
     "selections": [
       {
         "alias": null,
-        "args": null,
-        "kind": "ScalarField",
-        "name": "id",
-        "storageKey": null
-      },
-      {
-        "alias": null,
-        "args": null,
-        "kind": "ScalarField",
-        "name": "body",
-        "storageKey": null
-      },
-      {
-        "alias": null,
-        "args": null,
-        "kind": "ScalarField",
-        "name": "visibility",
+        "args": (v3/*: any*/),
+        "concreteType": "Post",
+        "kind": "LinkedField",
+        "name": "createPost",
+        "plural": false,
+        "selections": [
+          (v4/*: any*/),
+          {
+            "args": [
+              {
+                "kind": "Literal",
+                "name": "deferDetails",
+                "value": false
+              }
+            ],
+            "kind": "FragmentSpread",
+            "name": "PostFeed_post"
+          }
+        ],
         "storageKey": null
       }
     ],
-    "storageKey": null
-  }
-];
-return {
-  "fragment": {
-    "argumentDefinitions": (v0/*: any*/),
-    "kind": "Fragment",
-    "metadata": null,
-    "name": "CreatePostFormMutation",
-    "selections": (v1/*: any*/),
     "type": "Mutation",
     "abstractKey": null
   },
   "kind": "Request",
   "operation": {
-    "argumentDefinitions": (v0/*: any*/),
+    "argumentDefinitions": [
+      (v0/*: any*/),
+      (v2/*: any*/),
+      (v1/*: any*/)
+    ],
     "kind": "Operation",
     "name": "CreatePostFormMutation",
-    "selections": (v1/*: any*/)
+    "selections": [
+      {
+        "alias": null,
+        "args": (v3/*: any*/),
+        "concreteType": "Post",
+        "kind": "LinkedField",
+        "name": "createPost",
+        "plural": false,
+        "selections": [
+          (v4/*: any*/),
+          (v5/*: any*/),
+          {
+            "alias": null,
+            "args": null,
+            "kind": "ScalarField",
+            "name": "mediaUrl",
+            "storageKey": null
+          },
+          {
+            "alias": null,
+            "args": null,
+            "kind": "ScalarField",
+            "name": "visibility",
+            "storageKey": null
+          },
+          (v6/*: any*/),
+          (v7/*: any*/),
+          {
+            "alias": null,
+            "args": null,
+            "concreteType": "Comment",
+            "kind": "LinkedField",
+            "name": "comments",
+            "plural": true,
+            "selections": [
+              (v4/*: any*/),
+              {
+                "alias": null,
+                "args": null,
+                "concreteType": "Comment",
+                "kind": "LinkedField",
+                "name": "parent",
+                "plural": false,
+                "selections": (v8/*: any*/),
+                "storageKey": null
+              },
+              (v5/*: any*/),
+              (v6/*: any*/),
+              (v7/*: any*/),
+              (v9/*: any*/)
+            ],
+            "storageKey": null
+          },
+          (v9/*: any*/)
+        ],
+        "storageKey": null
+      }
+    ]
   },
   "params": {
-    "cacheID": "b6a40d249ab336fa14266ef897ad54a9",
-    "id": null,
+    "id": "a8c6be3958f6662ac0a39415a8a84d4066f69d3bedcc36c6121be9193c01b6fe",
     "metadata": {},
     "name": "CreatePostFormMutation",
     "operationKind": "mutation",
-    "text": "mutation CreatePostFormMutation(\n  $body: String!\n  $visibility: PostVisibility\n) {\n  createPost(body: $body, visibility: $visibility) {\n    id\n    body\n    visibility\n  }\n}\n"
+    "text": null
   }
 };
 })();
 
-(node as any).hash = "fff9b248a389944c9ae413101a00e4c0";
+(node as any).hash = "747b1ad6225948c04a4a1b4fb8fe03a9";
 
 export default node;
@@ -1,5 +1,6 @@
 /**
- * @generated SignedSource<<ba6b0cc0ab16822533fe9abe9bea09cd>>
+ * @generated SignedSource<<d7e46ef4cdfee32c82b512f57c923db9>>
+ * @relayHash b781a19fc3be4c5260f9ff671ba12227
  * @lightSyntaxTransform
  * @nogrep
  */
@@ -8,10 +9,14 @@
 /* eslint-disable */
 // @ts-nocheck
 
+// @relayRequestID 74ed023f9006c72714664a9838ab17a4da40a252188d48689169e50a607e7597
+
 import { ConcreteRequest, Mutation } from 'relay-runtime';
 export type CreateUserFormMutation$variables = {
+  connections: ReadonlyArray<string>;
   displayName?: string | null | undefined;
   email: string;
+  password?: string | null | undefined;
   username: string;
 };
 export type CreateUserFormMutation$data = {
@@ -31,111 +36,153 @@ const node: ConcreteRequest = (function(){
 var v0 = {
   "defaultValue": null,
   "kind": "LocalArgument",
-  "name": "displayName"
+  "name": "connections"
 },
 v1 = {
   "defaultValue": null,
   "kind": "LocalArgument",
-  "name": "email"
+  "name": "displayName"
 },
 v2 = {
+  "defaultValue": null,
+  "kind": "LocalArgument",
+  "name": "email"
+},
+v3 = {
+  "defaultValue": null,
+  "kind": "LocalArgument",
+  "name": "password"
+},
+v4 = {
   "defaultValue": null,
   "kind": "LocalArgument",
   "name": "username"
 },
-v3 = [
+v5 = [
   {
-    "alias": null,
-    "args": [
-      {
-        "kind": "Variable",
-        "name": "displayName",
-        "variableName": "displayName"
-      },
-      {
-        "kind": "Variable",
-        "name": "email",
-        "variableName": "email"
-      },
-      {
-        "kind": "Variable",
-        "name": "username",
-        "variableName": "username"
-      }
-    ],
-    "concreteType": "User",
-    "kind": "LinkedField",
-    "name": "createUser",
-    "plural": false,
-    "selections": [
-      {
-        "alias": null,
-        "args": null,
-        "kind": "ScalarField",
-        "name": "id",
-        "storageKey": null
-      },
-      {
-        "alias": null,
-        "args": null,
-        "kind": "ScalarField",
-        "name": "email",
-        "storageKey": null
-      },
-      {
-        "alias": null,
-        "args": null,
-        "kind": "ScalarField",
-        "name": "username",
-        "storageKey": null
-      },
-      {
-        "alias": null,
-        "args": null,
-        "kind": "ScalarField",
-        "name": "displayName",
-        "storageKey": null
-      }
-    ],
-    "storageKey": null
+    "kind": "Variable",
+    "name": "displayName",
+    "variableName": "displayName"
+  },
+  {
+    "kind": "Variable",
+    "name": "email",
+    "variableName": "email"
+  },
+  {
+    "kind": "Variable",
+    "name": "password",
+    "variableName": "password"
+  },
+  {
+    "kind": "Variable",
+    "name": "username",
+    "variableName": "username"
   }
-];
+],
+v6 = {
+  "alias": null,
+  "args": (v5/*: any*/),
+  "concreteType": "User",
+  "kind": "LinkedField",
+  "name": "createUser",
+  "plural": false,
+  "selections": [
+    {
+      "alias": null,
+      "args": null,
+      "kind": "ScalarField",
+      "name": "id",
+      "storageKey": null
+    },
+    {
+      "alias": null,
+      "args": null,
+      "kind": "ScalarField",
+      "name": "email",
+      "storageKey": null
+    },
+    {
+      "alias": null,
+      "args": null,
+      "kind": "ScalarField",
+      "name": "username",
+      "storageKey": null
+    },
+    {
+      "alias": null,
+      "args": null,
+      "kind": "ScalarField",
+      "name": "displayName",
+      "storageKey": null
+    }
+  ],
+  "storageKey": null
+};
 return {
   "fragment": {
     "argumentDefinitions": [
       (v0/*: any*/),
       (v1/*: any*/),
-      (v2/*: any*/)
+      (v2/*: any*/),
+      (v3/*: any*/),
+      (v4/*: any*/)
     ],
     "kind": "Fragment",
     "metadata": null,
     "name": "CreateUserFormMutation",
-    "selections": (v3/*: any*/),
+    "selections": [
+      (v6/*: any*/)
+    ],
     "type": "Mutation",
     "abstractKey": null
   },
   "kind": "Request",
   "operation": {
     "argumentDefinitions": [
-      (v1/*: any*/),
       (v2/*: any*/),
+      (v4/*: any*/),
+      (v1/*: any*/),
+      (v3/*: any*/),
       (v0/*: any*/)
     ],
     "kind": "Operation",
     "name": "CreateUserFormMutation",
-    "selections": (v3/*: any*/)
+    "selections": [
+      (v6/*: any*/),
+      {
+        "alias": null,
+        "args": (v5/*: any*/),
+        "filters": null,
+        "handle": "appendNode",
+        "key": "",
+        "kind": "LinkedHandle",
+        "name": "createUser",
+        "handleArgs": [
+          {
+            "kind": "Variable",
+            "name": "connections",
+            "variableName": "connections"
+          },
+          {
+            "kind": "Literal",
+            "name": "edgeTypeName",
+            "value": "PeopleEdge"
+          }
+        ]
+      }
+    ]
   },
   "params": {
-    "cacheID": "39ac29025d734a88d45d841b3dd94880",
-    "id": null,
+    "id": "74ed023f9006c72714664a9838ab17a4da40a252188d48689169e50a607e7597",
     "metadata": {},
     "name": "CreateUserFormMutation",
     "operationKind": "mutation",
-    "text": "mutation CreateUserFormMutation(\n  $email: String!\n  $username: String!\n  $displayName: String\n) {\n  createUser(email: $email, username: $username, displayName: $displayName) {\n    id\n    email\n    username\n    displayName\n  }\n}\n"
+    "text": null
   }
 };
 })();
 
-(node as any).hash = "3d5f23983c0b94cfb68e2d2fbab7b858";
+(node as any).hash = "2f512fbe5b2511480a6018a24f2b6adb";
 
 export default node;
@@ -0,0 +1,116 @@
+/**
+ * @generated SignedSource<<d40296625c292dafbd8a3258e702b687>>
+ * @relayHash c2564791fefd77a55816cd01f08bedc0
+ * @lightSyntaxTransform
+ * @nogrep
+ */
+
+/* tslint:disable */
+/* eslint-disable */
+// @ts-nocheck
+
+// @relayRequestID 01337697243caaa3e092f969db72cf428a081f73184dab1258e983374ba58b75
+
+import { ConcreteRequest, Mutation } from 'relay-runtime';
+export type FriendshipStatus = "ACCEPTED" | "BLOCKED" | "PENDING" | "%future added value";
+export type FriendRequestInboxAcceptMutation$variables = {
+  friendshipId: string;
+};
+export type FriendRequestInboxAcceptMutation$data = {
+  readonly acceptFriendRequest: {
+    readonly id: string;
+    readonly status: FriendshipStatus;
+    readonly user: {
+      readonly id: string;
+    };
+  } | null | undefined;
+};
+export type FriendRequestInboxAcceptMutation = {
+  response: FriendRequestInboxAcceptMutation$data;
+  variables: FriendRequestInboxAcceptMutation$variables;
+};
+
+const node: ConcreteRequest = (function(){
+var v0 = [
+  {
+    "defaultValue": null,
+    "kind": "LocalArgument",
+    "name": "friendshipId"
+  }
+],
+v1 = {
+  "alias": null,
+  "args": null,
+  "kind": "ScalarField",
+  "name": "id",
+  "storageKey": null
+},
+v2 = [
+  {
+    "alias": null,
+    "args": [
+      {
+        "kind": "Variable",
+        "name": "friendshipId",
+        "variableName": "friendshipId"
+      }
+    ],
+    "concreteType": "Friendship",
+    "kind": "LinkedField",
+    "name": "acceptFriendRequest",
+    "plural": false,
+    "selections": [
+      (v1/*: any*/),
+      {
+        "alias": null,
+        "args": null,
+        "kind": "ScalarField",
+        "name": "status",
+        "storageKey": null
+      },
+      {
+        "alias": null,
+        "args": null,
+        "concreteType": "User",
+        "kind": "LinkedField",
+        "name": "user",
+        "plural": false,
+        "selections": [
+          (v1/*: any*/)
+        ],
+        "storageKey": null
+      }
+    ],
+    "storageKey": null
+  }
+];
+return {
+  "fragment": {
+    "argumentDefinitions": (v0/*: any*/),
+    "kind": "Fragment",
+    "metadata": null,
+    "name": "FriendRequestInboxAcceptMutation",
+    "selections": (v2/*: any*/),
+    "type": "Mutation",
+    "abstractKey": null
+  },
+  "kind": "Request",
+  "operation": {
+    "argumentDefinitions": (v0/*: any*/),
+    "kind": "Operation",
+    "name": "FriendRequestInboxAcceptMutation",
+    "selections": (v2/*: any*/)
+  },
+  "params": {
+    "id": "01337697243caaa3e092f969db72cf428a081f73184dab1258e983374ba58b75",
+    "metadata": {},
+    "name": "FriendRequestInboxAcceptMutation",
+    "operationKind": "mutation",
+    "text": null
+  }
+};
+})();
+
+(node as any).hash = "d67ade2b9656e6b24646f9dde7ea7ab9";
+
+export default node;
@@ -0,0 +1,91 @@
+/**
+ * @generated SignedSource<<1f214341080e504491f902bd1bc3ce61>>
+ * @relayHash 7b79868ab0d7eeeb9cfb55ee53e3e1e0
+ * @lightSyntaxTransform
+ * @nogrep
+ */
+
+/* tslint:disable */
+/* eslint-disable */
+// @ts-nocheck
+
+// @relayRequestID 755de667b6172436583d4a60f5139649b1ade44874dc67cbc2dcddb1ce1a329f
+
+import { ConcreteRequest, Mutation } from 'relay-runtime';
+export type FriendRequestInboxDeclineMutation$variables = {
+  friendshipId: string;
+};
+export type FriendRequestInboxDeclineMutation$data = {
+  readonly declineFriendRequest: {
+    readonly id: string;
+  } | null | undefined;
+};
+export type FriendRequestInboxDeclineMutation = {
+  response: FriendRequestInboxDeclineMutation$data;
+  variables: FriendRequestInboxDeclineMutation$variables;
+};
+
+const node: ConcreteRequest = (function(){
+var v0 = [
+  {
+    "defaultValue": null,
+    "kind": "LocalArgument",
+    "name": "friendshipId"
+  }
+],
+v1 = [
+  {
+    "alias": null,
+    "args": [
+      {
+        "kind": "Variable",
+        "name": "friendshipId",
+        "variableName": "friendshipId"
+      }
+    ],
+    "concreteType": "Friendship",
+    "kind": "LinkedField",
+    "name": "declineFriendRequest",
+    "plural": false,
+    "selections": [
+      {
+        "alias": null,
+        "args": null,
+        "kind": "ScalarField",
+        "name": "id",
+        "storageKey": null
+      }
+    ],
+    "storageKey": null
+  }
+];
+return {
+  "fragment": {
+    "argumentDefinitions": (v0/*: any*/),
+    "kind": "Fragment",
+    "metadata": null,
+    "name": "FriendRequestInboxDeclineMutation",
+    "selections": (v1/*: any*/),
+    "type": "Mutation",
+    "abstractKey": null
+  },
+  "kind": "Request",
+  "operation": {
+    "argumentDefinitions": (v0/*: any*/),
+    "kind": "Operation",
+    "name": "FriendRequestInboxDeclineMutation",
+    "selections": (v1/*: any*/)
+  },
+  "params": {
+    "id": "755de667b6172436583d4a60f5139649b1ade44874dc67cbc2dcddb1ce1a329f",
+    "metadata": {},
+    "name": "FriendRequestInboxDeclineMutation",
+    "operationKind": "mutation",
+    "text": null
+  }
+};
+})();
+
+(node as any).hash = "94bafb6936f96f6ce2805c97c0edb4d8";
+
+export default node;
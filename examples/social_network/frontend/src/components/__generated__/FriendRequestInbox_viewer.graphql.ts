@@ -0,0 +1,100 @@
+/**
+ * @generated SignedSource<<02ff0dcec75a704129de98014f80faf9>>
+ * @lightSyntaxTransform
+ * @nogrep
+ */
+
+/* tslint:disable */
+/* eslint-disable */
+// @ts-nocheck
+
+import { Fragment, ReaderFragment } from 'relay-runtime';
+export type FriendshipStatus = "ACCEPTED" | "BLOCKED" | "PENDING" | "%future added value";
+import { FragmentRefs } from "relay-runtime";
+export type FriendRequestInbox_viewer$data = {
+  readonly id: string;
+  readonly incomingFriendships: ReadonlyArray<{
+    readonly id: string;
+    readonly status: FriendshipStatus;
+    readonly user: {
+      readonly displayName: string | null | undefined;
+      readonly id: string;
+      readonly username: string;
+    };
+  }> | null | undefined;
+  readonly " $fragmentType": "FriendRequestInbox_viewer";
+};
+export type FriendRequestInbox_viewer$key = {
+  readonly " $data"?: FriendRequestInbox_viewer$data;
+  readonly " $fragmentSpreads": FragmentRefs<"FriendRequestInbox_viewer">;
+};
+
+const node: ReaderFragment = (function(){
+var v0 = {
+  "alias": null,
+  "args": null,
+  "kind": "ScalarField",
+  "name": "id",
+  "storageKey": null
+};
+return {
+  "argumentDefinitions": [],
+  "kind": "Fragment",
+  "metadata": null,
+  "name": "FriendRequestInbox_viewer",
+  "selections": [
+    (v0/*: any*/),
+    {
+      "alias": null,
+      "args": null,
+      "concreteType": "Friendship",
+      "kind": "LinkedField",
+      "name": "incomingFriendships",
+      "plural": true,
+      "selections": [
+        (v0/*: any*/),
+        {
+          "alias": null,
+          "args": null,
+          "kind": "ScalarField",
+          "name": "status",
+          "storageKey": null
+        },
+        {
+          "alias": null,
+          "args": null,
+          "concreteType": "User",
+          "kind": "LinkedField",
+          "name": "user",
+          "plural": false,
+          "selections": [
+            (v0/*: any*/),
+            {
+              "alias": null,
+              "args": null,
+              "kind": "ScalarField",
+              "name": "username",
+              "storageKey": null
+            },
+            {
+              "alias": null,
+              "args": null,
+              "kind": "ScalarField",
+              "name": "displayName",
+              "storageKey": null
+            }
+          ],
+          "storageKey": null
+        }
+      ],
+      "storageKey": null
+    }
+  ],
+  "type": "User",
+  "abstractKey": null
+};
+})();
+
+(node as any).hash = "74acfde7ab324a8b0a682cef9755ba4b";
+
+export default node;
@@ -0,0 +1,116 @@
+/**
+ * @generated SignedSource<<89b18739fb37375017f99f44b494aca5>>
+ * @relayHash 41beeaa6f7db7df3d945aa88d72097ec
+ * @lightSyntaxTransform
+ * @nogrep
+ */
+
+/* tslint:disable */
+/* eslint-disable */
+// @ts-nocheck
+
+// @relayRequestID 4466c6a8a2469b2847ebd2d8420c7b1a1463594098c86ccb02cb10d95471ca08
+
+import { ConcreteRequest, Mutation } from 'relay-runtime';
+export type FriendshipStatus = "ACCEPTED" | "BLOCKED" | "PENDING" | "%future added value";
+export type FriendshipActionsSendFriendRequestMutation$variables = {
+  friendId: string;
+};
+export type FriendshipActionsSendFriendRequestMutation$data = {
+  readonly sendFriendRequest: {
+    readonly friend: {
+      readonly id: string;
+    };
+    readonly id: string;
+    readonly status: FriendshipStatus;
+  } | null | undefined;
+};
+export type FriendshipActionsSendFriendRequestMutation = {
+  response: FriendshipActionsSendFriendRequestMutation$data;
+  variables: FriendshipActionsSendFriendRequestMutation$variables;
+};
+
+const node: ConcreteRequest = (function(){
+var v0 = [
+  {
+    "defaultValue": null,
+    "kind": "LocalArgument",
+    "name": "friendId"
+  }
+],
+v1 = {
+  "alias": null,
+  "args": null,
+  "kind": "ScalarField",
+  "name": "id",
+  "storageKey": null
+},
+v2 = [
+  {
+    "alias": null,
+    "args": [
+      {
+        "kind": "Variable",
+        "name": "friendId",
+        "variableName": "friendId"
+      }
+    ],
+    "concreteType": "Friendship",
+    "kind": "LinkedField",
+    "name": "sendFriendRequest",
+    "plural": false,
+    "selections": [
+      (v1/*: any*/),
+      {
+        "alias": null,
+        "args": null,
+        "kind": "ScalarField",
+        "name": "status",
+        "storageKey": null
+      },
+      {
+        "alias": null,
+        "args": null,
+        "concreteType": "User",
+        "kind": "LinkedField",
+        "name": "friend",
+        "plural": false,
+        "selections": [
+          (v1/*: any*/)
+        ],
+        "storageKey": null
+      }
+    ],
+    "storageKey": null
+  }
+];
+return {
+  "fragment": {
+    "argumentDefinitions": (v0/*: any*/),
+    "kind": "Fragment",
+    "metadata": null,
+    "name": "FriendshipActionsSendFriendRequestMutation",
+    "selections": (v2/*: any*/),
+    "type": "Mutation",
+    "abstractKey": null
+  },
+  "kind": "Request",
+  "operation": {
+    "argumentDefinitions": (v0/*: any*/),
+    "kind": "Operation",
+    "name": "FriendshipActionsSendFriendRequestMutation",
+    "selections": (v2/*: any*/)
+  },
+  "params": {
+    "id": "4466c6a8a2469b2847ebd2d8420c7b1a1463594098c86ccb02cb10d95471ca08",
+    "metadata": {},
+    "name": "FriendshipActionsSendFriendRequestMutation",
+    "operationKind": "mutation",
+    "text": null
+  }
+};
+})();
+
+(node as any).hash = "3fcdcec12db4acdcd8a456e2c97d71b4";
+
+export default node;
@@ -0,0 +1,116 @@
+/**
+ * @generated SignedSource<<744f80d9542f2dc97b2e03a6d1cd06dc>>
+ * @lightSyntaxTransform
+ * @nogrep
+ */
+
+/* tslint:disable */
+/* eslint-disable */
+// @ts-nocheck
+
+import { Fragment, ReaderFragment } from 'relay-runtime';
+export type FriendshipStatus = "ACCEPTED" | "BLOCKED" | "PENDING" | "%future added value";
+import { FragmentRefs } from "relay-runtime";
+export type FriendshipActions_viewer$data = {
+  readonly friendships: ReadonlyArray<{
+    readonly friend: {
+      readonly id: string;
+    };
+    readonly id: string;
+    readonly status: FriendshipStatus;
+  }> | null | undefined;
+  readonly id: string;
+  readonly incomingFriendships: ReadonlyArray<{
+    readonly id: string;
+    readonly status: FriendshipStatus;
+    readonly user: {
+      readonly id: string;
+    };
+  }> | null | undefined;
+  readonly " $fragmentType": "FriendshipActions_viewer";
+};
+export type FriendshipActions_viewer$key = {
+  readonly " $data"?: FriendshipActions_viewer$data;
+  readonly " $fragmentSpreads": FragmentRefs<"FriendshipActions_viewer">;
+};
+
+const node: ReaderFragment = (function(){
+var v0 = {
+  "alias": null,
+  "args": null,
+  "kind": "ScalarField",
+  "name": "id",
+  "storageKey": null
+},
+v1 = {
+  "alias": null,
+  "args": null,
+  "kind": "ScalarField",
+  "name": "status",
+  "storageKey": null
+},
+v2 = [
+  (v0/*: any*/)
+];
+return {
+  "argumentDefinitions": [],
+  "kind": "Fragment",
+  "metadata": null,
+  "name": "FriendshipActions_viewer",
+  "selections": [
+    (v0/*: any*/),
+    {
+      "alias": null,
+      "args": null,
+      "concreteType": "Friendship",
+      "kind": "LinkedField",
+      "name": "friendships",
+      "plural": true,
+      "selections": [
+        (v0/*: any*/),
+        (v1/*: any*/),
+        {
+          "alias": null,
+          "args": null,
+          "concreteType": "User",
+          "kind": "LinkedField",
+          "name": "friend",
+          "plural": false,
+          "selections": (v2/*: any*/),
+          "storageKey": null
+        }
+      ],
+      "storageKey": null
+    },
+    {
+      "alias": null,
+      "args": null,
+      "concreteType": "Friendship",
+      "kind": "LinkedField",
+      "name": "incomingFriendships",
+      "plural": true,
+      "selections": [
+        (v0/*: any*/),
+        (v1/*: any*/),
+        {
+          "alias": null,
+          "args": null,
+          "concreteType": "User",
+          "kind": "LinkedField",
+          "name": "user",
+          "plural": false,
+          "selections": (v2/*: any*/),
+          "storageKey": null
+        }
+      ],
+      "storageKey": null
+    }
+  ],
+  "type": "User",
+  "abstractKey": null
+};
+})();
+
+(node as any).hash = "adac9a472c1ea2703502d63905408b92";
+
+export default node;
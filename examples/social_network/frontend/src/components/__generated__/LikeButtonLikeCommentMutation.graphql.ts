@@ -0,0 +1,107 @@
+/**
+ * @generated SignedSource<<30ccb2fedff42fc7e2c551312daa6bbd>>
+ * @relayHash f40c295dffe001bb0ad7ad3814cfbe27
+ * @lightSyntaxTransform
+ * @nogrep
+ */
+
+/* tslint:disable */
+/* eslint-disable */
+// @ts-nocheck
+
+// @relayRequestID b7425f1fb2749ff48ec550ad2149413a03ace9f6bd4a1939ecbd456d6d6a6746
+
+import { ConcreteRequest, Mutation } from 'relay-runtime';
+export type LikeButtonLikeCommentMutation$variables = {
+  commentId: string;
+};
+export type LikeButtonLikeCommentMutation$data = {
+  readonly likeComment: {
+    readonly id: string;
+    readonly user: {
+      readonly id: string;
+    };
+  } | null | undefined;
+};
+export type LikeButtonLikeCommentMutation = {
+  response: LikeButtonLikeCommentMutation$data;
+  variables: LikeButtonLikeCommentMutation$variables;
+};
+
+const node: ConcreteRequest = (function(){
+var v0 = [
+  {
+    "defaultValue": null,
+    "kind": "LocalArgument",
+    "name": "commentId"
+  }
+],
+v1 = {
+  "alias": null,
+  "args": null,
+  "kind": "ScalarField",
+  "name": "id",
+  "storageKey": null
+},
+v2 = [
+  {
+    "alias": null,
+    "args": [
+      {
+        "kind": "Variable",
+        "name": "commentId",
+        "variableName": "commentId"
+      }
+    ],
+    "concreteType": "Like",
+    "kind": "LinkedField",
+    "name": "likeComment",
+    "plural": false,
+    "selections": [
+      (v1/*: any*/),
+      {
+        "alias": null,
+        "args": null,
+        "concreteType": "User",
+        "kind": "LinkedField",
+        "name": "user",
+        "plural": false,
+        "selections": [
+          (v1/*: any*/)
+        ],
+        "storageKey": null
+      }
+    ],
+    "storageKey": null
+  }
+];
+return {
+  "fragment": {
+    "argumentDefinitions": (v0/*: any*/),
+    "kind": "Fragment",
+    "metadata": null,
+    "name": "LikeButtonLikeCommentMutation",
+    "selections": (v2/*: any*/),
+    "type": "Mutation",
+    "abstractKey": null
+  },
+  "kind": "Request",
+  "operation": {
+    "argumentDefinitions": (v0/*: any*/),
+    "kind": "Operation",
+    "name": "LikeButtonLikeCommentMutation",
+    "selections": (v2/*: any*/)
+  },
+  "params": {
+    "id": "b7425f1fb2749ff48ec550ad2149413a03ace9f6bd4a1939ecbd456d6d6a6746",
+    "metadata": {},
+    "name": "LikeButtonLikeCommentMutation",
+    "operationKind": "mutation",
+    "text": null
+  }
+};
+})();
+
+(node as any).hash = "efccc6fc9914426f7fd5b1c5d4fbc48c";
+
+export default node;
@@ -0,0 +1,107 @@
+/**
+ * @generated SignedSource<<6b8a954857d01d01dc7f197bf75913ff>>
+ * @relayHash dc7a76e0493ca5d511449eb0d768c78e
+ * @lightSyntaxTransform
+ * @nogrep
+ */
+
+/* tslint:disable */
+/* eslint-disable */
+// @ts-nocheck
+
+// @relayRequestID 4f247997f8be6909558419fcd98e4291b77060bef5e0e30f0792c5fd3efb0d17
+
+import { ConcreteRequest, Mutation } from 'relay-runtime';
+export type LikeButtonLikePostMutation$variables = {
+  postId: string;
+};
+export type LikeButtonLikePostMutation$data = {
+  readonly likePost: {
+    readonly id: string;
+    readonly user: {
+      readonly id: string;
+    };
+  } | null | undefined;
+};
+export type LikeButtonLikePostMutation = {
+  response: LikeButtonLikePostMutation$data;
+  variables: LikeButtonLikePostMutation$variables;
+};
+
+const node: ConcreteRequest = (function(){
+var v0 = [
+  {
+    "defaultValue": null,
+    "kind": "LocalArgument",
+    "name": "postId"
+  }
+],
+v1 = {
+  "alias": null,
+  "args": null,
+  "kind": "ScalarField",
+  "name": "id",
+  "storageKey": null
+},
+v2 = [
+  {
+    "alias": null,
+    "args": [
+      {
+        "kind": "Variable",
+        "name": "postId",
+        "variableName": "postId"
+      }
+    ],
+    "concreteType": "Like",
+    "kind": "LinkedField",
+    "name": "likePost",
+    "plural": false,
+    "selections": [
+      (v1/*: any*/),
+      {
+        "alias": null,
+        "args": null,
+        "concreteType": "User",
+        "kind": "LinkedField",
+        "name": "user",
+        "plural": false,
+        "selections": [
+          (v1/*: any*/)
+        ],
+        "storageKey": null
+      }
+    ],
+    "storageKey": null
+  }
+];
+return {
+  "fragment": {
+    "argumentDefinitions": (v0/*: any*/),
+    "kind": "Fragment",
+    "metadata": null,
+    "name": "LikeButtonLikePostMutation",
+    "selections": (v2/*: any*/),
+    "type": "Mutation",
+    "abstractKey": null
+  },
+  "kind": "Request",
+  "operation": {
+    "argumentDefinitions": (v0/*: any*/),
+    "kind": "Operation",
+    "name": "LikeButtonLikePostMutation",
+    "selections": (v2/*: any*/)
+  },
+  "params": {
+    "id": "4f247997f8be6909558419fcd98e4291b77060bef5e0e30f0792c5fd3efb0d17",
+    "metadata": {},
+    "name": "LikeButtonLikePostMutation",
+    "operationKind": "mutation",
+    "text": null
+  }
+};
+})();
+
+(node as any).hash = "093635db583e5208a54a12f7fd405c7c";
+
+export default node;
@@ -0,0 +1,58 @@
+/**
+ * @generated SignedSource<<0eb40a9cade9c3fb8ce9ae9e693260b1>>
+ * @lightSyntaxTransform
+ * @nogrep
+ */
+
+/* tslint:disable */
+/* eslint-disable */
+// @ts-nocheck
+
+import { UpdatableQuery, ConcreteUpdatableQuery } from 'relay-runtime';
+export type LikeButtonViewerQuery$variables = Record<PropertyKey, never>;
+export type LikeButtonViewerQuery$data = {
+  get viewer(): {
+    readonly id: string;
+  } | null | undefined;
+  set viewer(value: null | undefined);
+};
+export type LikeButtonViewerQuery = {
+  response: LikeButtonViewerQuery$data;
+  variables: LikeButtonViewerQuery$variables;
+};
+
+const node: ConcreteUpdatableQuery = {
+  "fragment": {
+    "argumentDefinitions": [],
+    "kind": "Fragment",
+    "metadata": null,
+    "name": "LikeButtonViewerQuery",
+    "selections": [
+      {
+        "alias": null,
+        "args": null,
+        "concreteType": "User",
+        "kind": "LinkedField",
+        "name": "viewer",
+        "plural": false,
+        "selections": [
+          {
+            "alias": null,
+            "args": null,
+            "kind": "ScalarField",
+            "name": "id",
+            "storageKey": null
+          }
+        ],
+        "storageKey": null
+      }
+    ],
+    "type": "Query",
+    "abstractKey": null
+  },
+  "kind": "UpdatableQuery"
+};
+
+(node as any).hash = "3aff87b9f778197fbac3e51d2372b481";
+
+export default node;
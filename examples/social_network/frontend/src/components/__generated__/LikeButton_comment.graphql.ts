@@ -0,0 +1,75 @@
+/**
+ * @generated SignedSource<<600df007632c3156436a505305a99158>>
+ * @lightSyntaxTransform
+ * @nogrep
+ */
+
+/* tslint:disable */
+/* eslint-disable */
+// @ts-nocheck
+
+import { Fragment, ReaderFragment } from 'relay-runtime';
+import { FragmentRefs } from "relay-runtime";
+export type LikeButton_comment$data = {
+  readonly id: string;
+  readonly likes: ReadonlyArray<{
+    readonly id: string;
+    readonly user: {
+      readonly id: string;
+    };
+  }> | null | undefined;
+  readonly " $fragmentType": "LikeButton_comment";
+};
+export type LikeButton_comment$key = {
+  readonly " $data"?: LikeButton_comment$data;
+  readonly " $fragmentSpreads": FragmentRefs<"LikeButton_comment">;
+};
+
+const node: ReaderFragment = (function(){
+var v0 = {
+  "alias": null,
+  "args": null,
+  "kind": "ScalarField",
+  "name": "id",
+  "storageKey": null
+};
+return {
+  "argumentDefinitions": [],
+  "kind": "Fragment",
+  "metadata": null,
+  "name": "LikeButton_comment",
+  "selections": [
+    (v0/*: any*/),
+    {
+      "alias": null,
+      "args": null,
+      "concreteType": "Like",
+      "kind": "LinkedField",
+      "name": "likes",
+      "plural": true,
+      "selections": [
+        (v0/*: any*/),
+        {
+          "alias": null,
+          "args": null,
+          "concreteType": "User",
+          "kind": "LinkedField",
+          "name": "user",
+          "plural": false,
+          "selections": [
+            (v0/*: any*/)
+          ],
+          "storageKey": null
+        }
+      ],
+      "storageKey": null
+    }
+  ],
+  "type": "Comment",
+  "abstractKey": null
+};
+})();
+
+(node as any).hash = "9f26d332e1778a8d535d41cd78acddcb";
+
+export default node;
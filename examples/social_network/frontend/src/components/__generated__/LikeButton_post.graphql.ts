@@ -0,0 +1,75 @@
+/**
+ * @generated SignedSource<<fa254826e7694a538931d9664a0d5307>>
+ * @lightSyntaxTransform
+ * @nogrep
+ */
+
+/* tslint:disable */
+/* eslint-disable */
+// @ts-nocheck
+
+import { Fragment, ReaderFragment } from 'relay-runtime';
+import { FragmentRefs } from "relay-runtime";
+export type LikeButton_post$data = {
+  readonly id: string;
+  readonly likes: ReadonlyArray<{
+    readonly id: string;
+    readonly user: {
+      readonly id: string;
+    };
+  }> | null | undefined;
+  readonly " $fragmentType": "LikeButton_post";
+};
+export type LikeButton_post$key = {
+  readonly " $data"?: LikeButton_post$data;
+  readonly " $fragmentSpreads": FragmentRefs<"LikeButton_post">;
+};
+
+const node: ReaderFragment = (function(){
+var v0 = {
+  "alias": null,
+  "args": null,
+  "kind": "ScalarField",
+  "name": "id",
+  "storageKey": null
+};
+return {
+  "argumentDefinitions": [],
+  "kind": "Fragment",
+  "metadata": null,
+  "name": "LikeButton_post",
+  "selections": [
+    (v0/*: any*/),
+    {
+      "alias": null,
+      "args": null,
+      "concreteType": "Like",
+      "kind": "LinkedField",
+      "name": "likes",
+      "plural": true,
+      "selections": [
+        (v0/*: any*/),
+        {
+          "alias": null,
+          "args": null,
+          "concreteType": "User",
+          "kind": "LinkedField",
+          "name": "user",
+          "plural": false,
+          "selections": [
+            (v0/*: any*/)
+          ],
+          "storageKey": null
+        }
+      ],
+      "storageKey": null
+    }
+  ],
+  "type": "Post",
+  "abstractKey": null
+};
+})();
+
+(node as any).hash = "625321220dcb141c2cf367d3977500d4";
+
+export default node;
@@ -0,0 +1,428 @@
+/**
+ * @generated SignedSource<<eee2341474bf694fbdca5905ffe7caaf>>
+ * @relayHash 65d0c3ba614aec8511ab6ec7c30ba79a
+ * @lightSyntaxTransform
+ * @nogrep
+ */
+
+/* tslint:disable */
+/* eslint-disable */
+// @ts-nocheck
+
+// @relayRequestID fba68128935625ab5ede2a219fe765944b82c7661a238054ce104883b7561291
+
+import { ConcreteRequest, Query } from 'relay-runtime';
+import { FragmentRefs } from "relay-runtime";
+export type CqlSortDirection = "ASC" | "ASC_NULLS_FIRST" | "ASC_NULLS_LAST" | "DESC" | "DESC_NULLS_FIRST" | "DESC_NULLS_LAST" | "%future added value";
+export type PostVisibility = "FRIENDS" | "PRIVATE" | "PUBLIC" | "%future added value";
+export type CqlOrderPostInput = {
+  body?: CqlOrderStandardInput | null | undefined;
+  id?: CqlOrderStandardInput | null | undefined;
+  insertedAt?: CqlOrderStandardInput | null | undefined;
+  mediaUrl?: CqlOrderStandardInput | null | undefined;
+  updatedAt?: CqlOrderStandardInput | null | undefined;
+  visibility?: CqlOrderStandardInput | null | undefined;
+};
+export type CqlOrderStandardInput = {
+  direction: CqlSortDirection;
+};
+export type CqlFilterPostInput = {
+  _and?: ReadonlyArray<CqlFilterPostInput | null | undefined> | null | undefined;
+  _not?: CqlFilterPostInput | null | undefined;
+  _or?: ReadonlyArray<CqlFilterPostInput | null | undefined> | null | undefined;
+  author?: CqlFilterUserInput | null | undefined;
+  body?: CqlOpStringInput | null | undefined;
+  id?: CqlOpIdInput | null | undefined;
+  insertedAt?: CqlOpNaiveDateTimeInput | null | undefined;
+  mediaUrl?: CqlOpStringInput | null | undefined;
+  updatedAt?: CqlOpNaiveDateTimeInput | null | undefined;
+  visibility?: CqlEnumPostVisibilityInput | null | undefined;
+};
+export type CqlOpIdInput = {
+  _eq?: string | null | undefined;
+  _in?: ReadonlyArray<string | null | undefined> | null | undefined;
+  _isNull?: boolean | null | undefined;
+  _ne?: string | null | undefined;
+  _neq?: string | null | undefined;
+  _nin?: ReadonlyArray<string | null | undefined> | null | undefined;
+};
+export type CqlOpStringInput = {
+  _contains?: string | null | undefined;
+  _endsWith?: string | null | undefined;
+  _eq?: string | null | undefined;
+  _gt?: string | null | undefined;
+  _gte?: string | null | undefined;
+  _icontains?: string | null | undefined;
+  _iendsWith?: string | null | undefined;
+  _ilike?: string | null | undefined;
+  _in?: ReadonlyArray<string | null | undefined> | null | undefined;
+  _isNull?: boolean | null | undefined;
+  _istartsWith?: string | null | undefined;
+  _like?: string | null | undefined;
+  _lt?: string | null | undefined;
+  _lte?: string | null | undefined;
+  _ne?: string | null | undefined;
+  _neq?: string | null | undefined;
+  _nilike?: string | null | undefined;
+  _nin?: ReadonlyArray<string | null | undefined> | null | undefined;
+  _nlike?: string | null | undefined;
+  _startsWith?: string | null | undefined;
+};
+export type CqlEnumPostVisibilityInput = {
+  _eq?: PostVisibility | null | undefined;
+  _in?: ReadonlyArray<PostVisibility> | null | undefined;
+  _isNull?: boolean | null | undefined;
+  _ne?: PostVisibility | null | undefined;
+  _neq?: PostVisibility | null | undefined;
+  _nin?: ReadonlyArray<PostVisibility> | null | undefined;
+};
+export type CqlOpNaiveDateTimeInput = {
+  _between?: ReadonlyArray<string> | null | undefined;
+  _eq?: string | null | undefined;
+  _gt?: string | null | undefined;
+  _gte?: string | null | undefined;
+  _in?: ReadonlyArray<string | null | undefined> | null | undefined;
+  _isNull?: boolean | null | undefined;
+  _lt?: string | null | undefined;
+  _lte?: string | null | undefined;
+  _ne?: string | null | undefined;
+  _neq?: string | null | undefined;
+  _nin?: ReadonlyArray<string | null | undefined> | null | undefined;
+};
+export type CqlFilterUserInput = {
+  _and?: ReadonlyArray<CqlFilterUserInput | null | undefined> | null | undefined;
+  _not?: CqlFilterUserInput | null | undefined;
+  _or?: ReadonlyArray<CqlFilterUserInput | null | undefined> | null | undefined;
+  displayName?: CqlOpStringInput | null | undefined;
+  email?: CqlOpStringInput | null | undefined;
+  id?: CqlOpIdInput | null | undefined;
+  insertedAt?: CqlOpNaiveDateTimeInput | null | undefined;
+  username?: CqlOpStringInput | null | undefined;
+};
+export type PostFeedPaginationQuery$variables = {
+  count?: number | null | undefined;
+  cursor?: string | null | undefined;
+  orderBy?: ReadonlyArray<CqlOrderPostInput | null | undefined> | null | undefined;
+  where?: CqlFilterPostInput | null | undefined;
+};
+export type PostFeedPaginationQuery$data = {
+  readonly " $fragmentSpreads": FragmentRefs<"PostFeed_query">;
+};
+export type PostFeedPaginationQuery = {
+  response: PostFeedPaginationQuery$data;
+  variables: PostFeedPaginationQuery$variables;
+};
+
+const node: ConcreteRequest = (function(){
+var v0 = [
+  {
+    "defaultValue": 10,
+    "kind": "LocalArgument",
+    "name": "count"
+  },
+  {
+    "defaultValue": null,
+    "kind": "LocalArgument",
+    "name": "cursor"
+  },
+  {
+    "defaultValue": null,
+    "kind": "LocalArgument",
+    "name": "orderBy"
+  },
+  {
+    "defaultValue": null,
+    "kind": "LocalArgument",
+    "name": "where"
+  }
+],
+v1 = {
+  "kind": "Variable",
+  "name": "orderBy",
+  "variableName": "orderBy"
+},
+v2 = {
+  "kind": "Variable",
+  "name": "where",
+  "variableName": "where"
+},
+v3 = [
+  {
+    "kind": "Variable",
+    "name": "after",
+    "variableName": "cursor"
+  },
+  {
+    "kind": "Variable",
+    "name": "first",
+    "variableName": "count"
+  },
+  (v1/*: any*/),
+  (v2/*: any*/)
+],
+v4 = {
+  "alias": null,
+  "args": null,
+  "kind": "ScalarField",
+  "name": "id",
+  "storageKey": null
+},
+v5 = {
+  "alias": null,
+  "args": null,
+  "kind": "ScalarField",
+  "name": "body",
+  "storageKey": null
+},
+v6 = {
+  "alias": null,
+  "args": null,
+  "kind": "ScalarField",
+  "name": "insertedAt",
+  "storageKey": null
+},
+v7 = {
+  "alias": null,
+  "args": null,
+  "concreteType": "User",
+  "kind": "LinkedField",
+  "name": "author",
+  "plural": false,
+  "selections": [
+    (v4/*: any*/),
+    {
+      "alias": null,
+      "args": null,
+      "kind": "ScalarField",
+      "name": "username",
+      "storageKey": null
+    },
+    {
+      "alias": null,
+      "args": null,
+      "kind": "ScalarField",
+      "name": "displayName",
+      "storageKey": null
+    }
+  ],
+  "storageKey": null
+},
+v8 = [
+  (v4/*: any*/)
+],
+v9 = {
+  "alias": null,
+  "args": null,
+  "concreteType": "Like",
+  "kind": "LinkedField",
+  "name": "likes",
+  "plural": true,
+  "selections": [
+    (v4/*: any*/),
+    {
+      "alias": null,
+      "args": null,
+      "concreteType": "User",
+      "kind": "LinkedField",
+      "name": "user",
+      "plural": false,
+      "selections": (v8/*: any*/),
+      "storageKey": null
+    }
+  ],
+  "storageKey": null
+};
+return {
+  "fragment": {
+    "argumentDefinitions": (v0/*: any*/),
+    "kind": "Fragment",
+    "metadata": null,
+    "name": "PostFeedPaginationQuery",
+    "selections": [
+      {
+        "args": [
+          {
+            "kind": "Variable",
+            "name": "count",
+            "variableName": "count"
+          },
+          {
+            "kind": "Variable",
+            "name": "cursor",
+            "variableName": "cursor"
+          },
+          (v1/*: any*/),
+          (v2/*: any*/)
+        ],
+        "kind": "FragmentSpread",
+        "name": "PostFeed_query"
+      }
+    ],
+    "type": "Query",
+    "abstractKey": null
+  },
+  "kind": "Request",
+  "operation": {
+    "argumentDefinitions": (v0/*: any*/),
+    "kind": "Operation",
+    "name": "PostFeedPaginationQuery",
+    "selections": [
+      {
+        "alias": null,
+        "args": (v3/*: any*/),
+        "concreteType": "FeedConnection",
+        "kind": "LinkedField",
+        "name": "feed",
+        "plural": false,
+        "selections": [
+          {
+            "alias": null,
+            "args": null,
+            "kind": "ScalarField",
+            "name": "totalCount",
+            "storageKey": null
+          },
+          {
+            "alias": null,
+            "args": null,
+            "concreteType": "FeedEdge",
+            "kind": "LinkedField",
+            "name": "edges",
+            "plural": true,
+            "selections": [
+              {
+                "alias": null,
+                "args": null,
+                "concreteType": "Post",
+                "kind": "LinkedField",
+                "name": "node",
+                "plural": false,
+                "selections": [
+                  (v4/*: any*/),
+                  (v5/*: any*/),
+                  {
+                    "alias": null,
+                    "args": null,
+                    "kind": "ScalarField",
+                    "name": "mediaUrl",
+                    "storageKey": null
+                  },
+                  {
+                    "alias": null,
+                    "args": null,
+                    "kind": "ScalarField",
+                    "name": "visibility",
+                    "storageKey": null
+                  },
+                  (v6/*: any*/),
+                  (v7/*: any*/),
+                  {
+                    "if": null,
+                    "kind": "Defer",
+                    "label": "PostFeed_post$defer$PostFeed_details",
+                    "selections": [
+                      (v4/*: any*/),
+                      {
+                        "alias": null,
+                        "args": null,
+                        "concreteType": "Comment",
+                        "kind": "LinkedField",
+                        "name": "comments",
+                        "plural": true,
+                        "selections": [
+                          (v4/*: any*/),
+                          {
+                            "alias": null,
+                            "args": null,
+                            "concreteType": "Comment",
+                            "kind": "LinkedField",
+                            "name": "parent",
+                            "plural": false,
+                            "selections": (v8/*: any*/),
+                            "storageKey": null
+                          },
+                          (v5/*: any*/),
+                          (v6/*: any*/),
+                          (v7/*: any*/),
+                          (v9/*: any*/)
+                        ],
+                        "storageKey": null
+                      },
+                      (v9/*: any*/)
+                    ]
+                  },
+                  {
+                    "alias": null,
+                    "args": null,
+                    "kind": "ScalarField",
+                    "name": "__typename",
+                    "storageKey": null
+                  }
+                ],
+                "storageKey": null
+              },
+              {
+                "alias": null,
+                "args": null,
+                "kind": "ScalarField",
+                "name": "cursor",
+                "storageKey": null
+              }
+            ],
+            "storageKey": null
+          },
+          {
+            "alias": null,
+            "args": null,
+            "concreteType": "PageInfo",
+            "kind": "LinkedField",
+            "name": "pageInfo",
+            "plural": false,
+            "selections": [
+              {
+                "alias": null,
+                "args": null,
+                "kind": "ScalarField",
+                "name": "endCursor",
+                "storageKey": null
+              },
+              {
+                "alias": null,
+                "args": null,
+                "kind": "ScalarField",
+                "name": "hasNextPage",
+                "storageKey": null
+              }
+            ],
+            "storageKey": null
+          }
+        ],
+        "storageKey": null
+      },
+      {
+        "alias": null,
+        "args": (v3/*: any*/),
+        "filters": [
+          "where",
+          "orderBy"
+        ],
+        "handle": "connection",
+        "key": "PostFeed_feed",
+        "kind": "LinkedHandle",
+        "name": "feed"
+      }
+    ]
+  },
+  "params": {
+    "id": "fba68128935625ab5ede2a219fe765944b82c7661a238054ce104883b7561291",
+    "metadata": {},
+    "name": "PostFeedPaginationQuery",
+    "operationKind": "query",
+    "text": null
+  }
+};
+})();
+
+(node as any).hash = "0faeb3f370009b96a831d74d8c18ace9";
+
+export default node;
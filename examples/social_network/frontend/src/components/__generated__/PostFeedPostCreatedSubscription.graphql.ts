@@ -0,0 +1,211 @@
+/**
+ * @generated SignedSource<<22a14dcce5bc158b1dfb06243bc81424>>
+ * @relayHash afeb0d68cb72a47d4d7b3261af2ab58e
+ * @lightSyntaxTransform
+ * @nogrep
+ */
+
+/* tslint:disable */
+/* eslint-disable */
+// @ts-nocheck
+
+// @relayRequestID a0fc44bccdfffa5dc56309d2315ac763107d9ee58f1060496e0ef09199d16fea
+
+import { ConcreteRequest, GraphQLSubscription } from 'relay-runtime';
+import { FragmentRefs } from "relay-runtime";
+export type PostFeedPostCreatedSubscription$variables = Record<PropertyKey, never>;
+export type PostFeedPostCreatedSubscription$data = {
+  readonly postCreated: {
+    readonly id: string;
+    readonly " $fragmentSpreads": FragmentRefs<"PostFeed_post">;
+  } | null | undefined;
+};
+export type PostFeedPostCreatedSubscription = {
+  response: PostFeedPostCreatedSubscription$data;
+  variables: PostFeedPostCreatedSubscription$variables;
+};
+
+const node: ConcreteRequest = (function(){
+var v0 = {
+  "alias": null,
+  "args": null,
+  "kind": "ScalarField",
+  "name": "id",
+  "storageKey": null
+},
+v1 = {
+  "alias": null,
+  "args": null,
+  "kind": "ScalarField",
+  "name": "body",
+  "storageKey": null
+},
+v2 = {
+  "alias": null,
+  "args": null,
+  "kind": "ScalarField",
+  "name": "insertedAt",
+  "storageKey": null
+},
+v3 = {
+  "alias": null,
+  "args": null,
+  "concreteType": "User",
+  "kind": "LinkedField",
+  "name": "author",
+  "plural": false,
+  "selections": [
+    (v0/*: any*/),
+    {
+      "alias": null,
+      "args": null,
+      "kind": "ScalarField",
+      "name": "username",
+      "storageKey": null
+    },
+    {
+      "alias": null,
+      "args": null,
+      "kind": "ScalarField",
+      "name": "displayName",
+      "storageKey": null
+    }
+  ],
+  "storageKey": null
+},
+v4 = [
+  (v0/*: any*/)
+],
+v5 = {
+  "alias": null,
+  "args": null,
+  "concreteType": "Like",
+  "kind": "LinkedField",
+  "name": "likes",
+  "plural": true,
+  "selections": [
+    (v0/*: any*/),
+    {
+      "alias": null,
+      "args": null,
+      "concreteType": "User",
+      "kind": "LinkedField",
+      "name": "user",
+      "plural": false,
+      "selections": (v4/*: any*/),
+      "storageKey": null
+    }
+  ],
+  "storageKey": null
+};
+return {
+  "fragment": {
+    "argumentDefinitions": [],
+    "kind": "Fragment",
+    "metadata": null,
+    "name": "PostFeedPostCreatedSubscription",
+    "selections": [
+      {
+        "alias": null,
+        "args": null,
+        "concreteType": "Post",
+        "kind": "LinkedField",
+        "name": "postCreated",
+        "plural": false,
+        "selections": [
+          (v0/*: any*/),
+          {
+            "args": [
+              {
+                "kind": "Literal",
+                "name": "deferDetails",
+                "value": false
+              }
+            ],
+            "kind": "FragmentSpread",
+            "name": "PostFeed_post"
+          }
+        ],
+        "storageKey": null
+      }
+    ],
+    "type": "Subscription",
+    "abstractKey": null
+  },
+  "kind": "Request",
+  "operation": {
+    "argumentDefinitions": [],
+    "kind": "Operation",
+    "name": "PostFeedPostCreatedSubscription",
+    "selections": [
+      {
+        "alias": null,
+        "args": null,
+        "concreteType": "Post",
+        "kind": "LinkedField",
+        "name": "postCreated",
+        "plural": false,
+        "selections": [
+          (v0/*: any*/),
+          (v1/*: any*/),
+          {
+            "alias": null,
+            "args": null,
+            "kind": "ScalarField",
+            "name": "mediaUrl",
+            "storageKey": null
+          },
+          {
+            "alias": null,
+            "args": null,
+            "kind": "ScalarField",
+            "name": "visibility",
+            "storageKey": null
+          },
+          (v2/*: any*/),
+          (v3/*: any*/),
+          {
+            "alias": null,
+            "args": null,
+            "concreteType": "Comment",
+            "kind": "LinkedField",
+            "name": "comments",
+            "plural": true,
+            "selections": [
+              (v0/*: any*/),
+              {
+                "alias": null,
+                "args": null,
+                "concreteType": "Comment",
+                "kind": "LinkedField",
+                "name": "parent",
+                "plural": false,
+                "selections": (v4/*: any*/),
+                "storageKey": null
+              },
+              (v1/*: any*/),
+              (v2/*: any*/),
+              (v3/*: any*/),
+              (v5/*: any*/)
+            ],
+            "storageKey": null
+          },
+          (v5/*: any*/)
+        ],
+        "storageKey": null
+      }
+    ]
+  },
+  "params": {
+    "id": "a0fc44bccdfffa5dc56309d2315ac763107d9ee58f1060496e0ef09199d16fea",
+    "metadata": {},
+    "name": "PostFeedPostCreatedSubscription",
+    "operationKind": "subscription",
+    "text": null
+  }
+};
+})();
+
+(node as any).hash = "12749311d76d9f27b0458a810810a072";
+
+export default node;
@@ -1,5 +1,6 @@
 /**
- * @generated SignedSource<<33afcc37e4045e0dda89d9bfaee6509f>>
+ * @generated SignedSource<<3146f28c6b5f243719e646a5d85e0b8a>>
+ * @relayHash a983698bbc06f288313ed11ddae86460
  * @lightSyntaxTransform
  * @nogrep
  */
@@ -8,21 +9,104 @@
 /* eslint-disable */
 // @ts-nocheck
 
+// @relayRequestID 4adfb66029ceaad2729b75cd3f5cb4e5b833bd22fc5c8607efcf7a7ab3f6f51c
+
 import { ConcreteRequest, Query } from 'relay-runtime';
+import { FragmentRefs } from "relay-runtime";
+export type CqlSortDirection = "ASC" | "ASC_NULLS_FIRST" | "ASC_NULLS_LAST" | "DESC" | "DESC_NULLS_FIRST" | "DESC_NULLS_LAST" | "%future added value";
 export type PostVisibility = "FRIENDS" | "PRIVATE" | "PUBLIC" | "%future added value";
-export type PostFeedQuery$variables = Record<PropertyKey, never>;
+export type CqlFilterPostInput = {
+  _and?: ReadonlyArray<CqlFilterPostInput | null | undefined> | null | undefined;
+  _not?: CqlFilterPostInput | null | undefined;
+  _or?: ReadonlyArray<CqlFilterPostInput | null | undefined> | null | undefined;
+  author?: CqlFilterUserInput | null | undefined;
+  body?: CqlOpStringInput | null | undefined;
+  id?: CqlOpIdInput | null | undefined;
+  insertedAt?: CqlOpNaiveDateTimeInput | null | undefined;
+  mediaUrl?: CqlOpStringInput | null | undefined;
+  updatedAt?: CqlOpNaiveDateTimeInput | null | undefined;
+  visibility?: CqlEnumPostVisibilityInput | null | undefined;
+};
+export type CqlOpIdInput = {
+  _eq?: string | null | undefined;
+  _in?: ReadonlyArray<string | null | undefined> | null | undefined;
+  _isNull?: boolean | null | undefined;
+  _ne?: string | null | undefined;
+  _neq?: string | null | undefined;
+  _nin?: ReadonlyArray<string | null | undefined> | null | undefined;
+};
+export type CqlOpStringInput = {
+  _contains?: string | null | undefined;
+  _endsWith?: string | null | undefined;
+  _eq?: string | null | undefined;
+  _gt?: string | null | undefined;
+  _gte?: string | null | undefined;
+  _icontains?: string | null | undefined;
+  _iendsWith?: string | null | undefined;
+  _ilike?: string | null | undefined;
+  _in?: ReadonlyArray<string | null | undefined> | null | undefined;
+  _isNull?: boolean | null | undefined;
+  _istartsWith?: string | null | undefined;
+  _like?: string | null | undefined;
+  _lt?: string | null | undefined;
+  _lte?: string | null | undefined;
+  _ne?: string | null | undefined;
+  _neq?: string | null | undefined;
+  _nilike?: string | null | undefined;
+  _nin?: ReadonlyArray<string | null | undefined> | null | undefined;
+  _nlike?: string | null | undefined;
+  _startsWith?: string | null | undefined;
+};
+export type CqlEnumPostVisibilityInput = {
+  _eq?: PostVisibility | null | undefined;
+  _in?: ReadonlyArray<PostVisibility> | null | undefined;
+  _isNull?: boolean | null | undefined;
+  _ne?: PostVisibility | null | undefined;
+  _neq?: PostVisibility | null | undefined;
+  _nin?: ReadonlyArray<PostVisibility> | null | undefined;
+};
+export type CqlOpNaiveDateTimeInput = {
+  _between?: ReadonlyArray<string> | null | undefined;
+  _eq?: string | null | undefined;
+  _gt?: string | null | undefined;
+  _gte?: string | null | undefined;
+  _in?: ReadonlyArray<string | null | undefined> | null | undefined;
+  _isNull?: boolean | null | undefined;
+  _lt?: string | null | undefined;
+  _lte?: string | null | undefined;
+  _ne?: string | null | undefined;
+  _neq?: string | null | undefined;
+  _nin?: ReadonlyArray<string | null | undefined> | null | undefined;
+};
+export type CqlFilterUserInput = {
+  _and?: ReadonlyArray<CqlFilterUserInput | null | undefined> | null | undefined;
+  _not?: CqlFilterUserInput | null | undefined;
+  _or?: ReadonlyArray<CqlFilterUserInput | null | undefined> | null | undefined;
+  displayName?: CqlOpStringInput | null | undefined;
+  email?: CqlOpStringInput | null | undefined;
+  id?: CqlOpIdInput | null | undefined;
+  insertedAt?: CqlOpNaiveDateTimeInput | null | undefined;
+  username?: CqlOpStringInput | null | undefined;
+};
+export type CqlOrderPostInput = {
+  body?: CqlOrderStandardInput | null | undefined;
+  id?: CqlOrderStandardInput | null | undefined;
+  insertedAt?: CqlOrderStandardInput | null | undefined;
+  mediaUrl?: CqlOrderStandardInput | null | undefined;
+  updatedAt?: CqlOrderStandardInput | null | undefined;
+  visibility?: CqlOrderStandardInput | null | undefined;
+};
+export type CqlOrderStandardInput = {
+  direction: CqlSortDirection;
+};
+export type PostFeedQuery$variables = {
+  count: number;
+  cursor?: string | null | undefined;
+  orderBy?: ReadonlyArray<CqlOrderPostInput | null | undefined> | null | undefined;
+  where?: CqlFilterPostInput | null | undefined;
+};
 export type PostFeedQuery$data = {
-  readonly posts: ReadonlyArray<{
-    readonly author: {
-      readonly displayName: string | null | undefined;
-      readonly id: string;
-      readonly username: string;
-    };
-    readonly body: string;
-    readonly id: string;
-    readonly insertedAt: any;
-    readonly visibility: PostVisibility | null | undefined;
-  }> | null | undefined;
+  readonly " $fragmentSpreads": FragmentRefs<"PostFeed_query">;
 };
 export type PostFeedQuery = {
   response: PostFeedQuery$data;
@@ -31,101 +115,322 @@ export type PostFeedQuery = {
 
 const node: ConcreteRequest = (function(){
 var v0 = {
+  "defaultValue": null,
+  "kind": "LocalArgument",
+  "name": "count"
+},
+v1 = {
+  "defaultValue": null,
+  "kind": "LocalArgument",
+  "name": "cursor"
+},
+v2 = {
+  "defaultValue": null,
+  "kind": "LocalArgument",
+  "name": "orderBy"
+},
+v3 = {
+  "defaultValue": null,
+  "kind": "LocalArgument",
+  "name": "where"
+},
+v4 = {
+  "kind": "Variable",
+  "name": "orderBy",
+  "variableName": "orderBy"
+},
+v5 = {
+  "kind": "Variable",
+  "name": "where",
+  "variableName": "where"
+},
+v6 = [
+  {
+    "kind": "Variable",
+    "name": "after",
+    "variableName": "cursor"
+  },
+  {
+    "kind": "Variable",
+    "name": "first",
+    "variableName": "count"
+  },
+  (v4/*: any*/),
+  (v5/*: any*/)
+],
+v7 = {
   "alias": null,
   "args": null,
   "kind": "ScalarField",
   "name": "id",
   "storageKey": null
 },
-v1 = [
-  {
-    "alias": null,
-    "args": null,
-    "concreteType": "Post",
-    "kind": "LinkedField",
-    "name": "posts",
-    "plural": true,
-    "selections": [
+v8 = {
+  "alias": null,
+  "args": null,
+  "kind": "ScalarField",
+  "name": "body",
+  "storageKey": null
+},
+v9 = {
+  "alias": null,
+  "args": null,
+  "kind": "ScalarField",
+  "name": "insertedAt",
+  "storageKey": null
+},
+v10 = {
+  "alias": null,
+  "args": null,
+  "concreteType": "User",
+  "kind": "LinkedField",
+  "name": "author",
+  "plural": false,
+  "selections": [
+    (v7/*: any*/),
+    {
+      "alias": null,
+      "args": null,
+      "kind": "ScalarField",
+      "name": "username",
+      "storageKey": null
+    },
+    {
+      "alias": null,
+      "args": null,
+      "kind": "ScalarField",
+      "name": "displayName",
+      "storageKey": null
+    }
+  ],
+  "storageKey": null
+},
+v11 = [
+  (v7/*: any*/)
+],
+v12 = {
+  "alias": null,
+  "args": null,
+  "concreteType": "Like",
+  "kind": "LinkedField",
+  "name": "likes",
+  "plural": true,
+  "selections": [
+    (v7/*: any*/),
+    {
+      "alias": null,
+      "args": null,
+      "concreteType": "User",
+      "kind": "LinkedField",
+      "name": "user",
+      "plural": false,
+      "selections": (v11/*: any*/),
+      "storageKey": null
+    }
+  ],
+  "storageKey": null
+};
+return {
+  "fragment": {
+    "argumentDefinitions": [
       (v0/*: any*/),
+      (v1/*: any*/),
+      (v2/*: any*/),
+      (v3/*: any*/)
+    ],
+    "kind": "Fragment",
+    "metadata": null,
+    "name": "PostFeedQuery",
+    "selections": [
       {
-        "alias": null,
-        "args": null,
-        "kind": "ScalarField",
-        "name": "body",
-        "storageKey": null
-      },
-      {
-        "alias": null,
-        "args": null,
-        "kind": "ScalarField",
-        "name": "visibility",
-        "storageKey": null
-      },
-      {
-        "alias": null,
-        "args": null,
-        "kind": "ScalarField",
-        "name": "insertedAt",
-        "storageKey": null
-      },
+        "args": [
+          {
+            "kind": "Variable",
+            "name": "count",
+            "variableName": "count"
+          },
+          {
+            "kind": "Variable",
+            "name": "cursor",
+            "variableName": "cursor"
+          },
+          (v4/*: any*/),
+          (v5/*: any*/)
+        ],
+        "kind": "FragmentSpread",
+        "name": "PostFeed_query"
+      }
+    ],
+    "type": "Query",
+    "abstractKey": null
+  },
+  "kind": "Request",
+  "operation": {
+    "argumentDefinitions": [
+      (v0/*: any*/),
+      (v1/*: any*/),
+      (v3/*: any*/),
+      (v2/*: any*/)
+    ],
+    "kind": "Operation",
+    "name": "PostFeedQuery",
+    "selections": [
       {
         "alias": null,
-        "args": null,
-        "concreteType": "User",
+        "args": (v6/*: any*/),
+        "concreteType": "FeedConnection",
         "kind": "LinkedField",
-        "name": "author",
+        "name": "feed",
         "plural": false,
         "selections": [
-          (v0/*: any*/),
           {
             "alias": null,
             "args": null,
             "kind": "ScalarField",
-            "name": "username",
+            "name": "totalCount",
             "storageKey": null
           },
           {
             "alias": null,
             "args": null,
-            "kind": "ScalarField",
-            "name": "displayName",
+            "concreteType": "FeedEdge",
+            "kind": "LinkedField",
+            "name": "edges",
+            "plural": true,
+            "selections": [
+              {
+                "alias": null,
+                "args": null,
+                "concreteType": "Post",
+                "kind": "LinkedField",
+                "name": "node",
+                "plural": false,
+                "selections": [
+                  (v7/*: any*/),
+                  (v8/*: any*/),
+                  {
+                    "alias": null,
+                    "args": null,
+                    "kind": "ScalarField",
+                    "name": "mediaUrl",
+                    "storageKey": null
+                  },
+                  {
+                    "alias": null,
+                    "args": null,
+                    "kind": "ScalarField",
+                    "name": "visibility",
+                    "storageKey": null
+                  },
+                  (v9/*: any*/),
+                  (v10/*: any*/),
+                  {
+                    "if": null,
+                    "kind": "Defer",
+                    "label": "PostFeed_post$defer$PostFeed_details",
+                    "selections": [
+                      (v7/*: any*/),
+                      {
+                        "alias": null,
+                        "args": null,
+                        "concreteType": "Comment",
+                        "kind": "LinkedField",
+                        "name": "comments",
+                        "plural": true,
+                        "selections": [
+                          (v7/*: any*/),
+                          {
+                            "alias": null,
+                            "args": null,
+                            "concreteType": "Comment",
+                            "kind": "LinkedField",
+                            "name": "parent",
+                            "plural": false,
+                            "selections": (v11/*: any*/),
+                            "storageKey": null
+                          },
+                          (v8/*: any*/),
+                          (v9/*: any*/),
+                          (v10/*: any*/),
+                          (v12/*: any*/)
+                        ],
+                        "storageKey": null
+                      },
+                      (v12/*: any*/)
+                    ]
+                  },
+                  {
+                    "alias": null,
+                    "args": null,
+                    "kind": "ScalarField",
+                    "name": "__typename",
+                    "storageKey": null
+                  }
+                ],
+                "storageKey": null
+              },
+              {
+                "alias": null,
+                "args": null,
+                "kind": "ScalarField",
+                "name": "cursor",
+                "storageKey": null
+              }
+            ],
+            "storageKey": null
+          },
+          {
+            "alias": null,
+            "args": null,
+            "concreteType": "PageInfo",
+            "kind": "LinkedField",
+            "name": "pageInfo",
+            "plural": false,
+            "selections": [
+              {
+                "alias": null,
+                "args": null,
+                "kind": "ScalarField",
+                "name": "endCursor",
+                "storageKey": null
+              },
+              {
+                "alias": null,
+                "args": null,
+                "kind": "ScalarField",
+                "name": "hasNextPage",
+                "storageKey": null
+              }
+            ],
             "storageKey": null
           }
         ],
         "storageKey": null
+      },
+      {
+        "alias": null,
+        "args": (v6/*: any*/),
+        "filters": [
+          "where",
+          "orderBy"
+        ],
+        "handle": "connection",
+        "key": "PostFeed_feed",
+        "kind": "LinkedHandle",
+        "name": "feed"
       }
-    ],
-    "storageKey": null
-  }
-];
-return {
-  "fragment": {
-    "argumentDefinitions": [],
-    "kind": "Fragment",
-    "metadata": null,
-    "name": "PostFeedQuery",
-    "selections": (v1/*: any*/),
-    "type": "Query",
-    "abstractKey": null
-  },
-  "kind": "Request",
-  "operation": {
-    "argumentDefinitions": [],
-    "kind": "Operation",
-    "name": "PostFeedQuery",
-    "selections": (v1/*: any*/)
+    ]
   },
   "params": {
-    "cacheID": "111743ef3a7d13b6b4810946ca0a0804",
-    "id": null,
+    "id": "4adfb66029ceaad2729b75cd3f5cb4e5b833bd22fc5c8607efcf7a7ab3f6f51c",
     "metadata": {},
     "name": "PostFeedQuery",
     "operationKind": "query",
-    "text": "query PostFeedQuery {\n  posts {\n    id\n    body\n    visibility\n    insertedAt\n    author {\n      id\n      username\n      displayName\n    }\n  }\n}\n"
+    "text": null
   }
 };
 })();
 
-(node as any).hash = "260ded6a51f9abd3519e47f9b55484d5";
+(node as any).hash = "544ea06c9f8369918dcc02c9b16d3849";
 
 export default node;
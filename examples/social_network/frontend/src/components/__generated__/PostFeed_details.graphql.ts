@@ -0,0 +1,71 @@
+/**
+ * @generated SignedSource<<b246c0a58869ea6fbca6f9fdb3db2fb5>>
+ * @lightSyntaxTransform
+ * @nogrep
+ */
+
+/* tslint:disable */
+/* eslint-disable */
+// @ts-nocheck
+
+import { Fragment, ReaderFragment } from 'relay-runtime';
+import { FragmentRefs } from "relay-runtime";
+export type PostFeed_details$data = {
+  readonly comments: ReadonlyArray<{
+    readonly id: string;
+  }> | null | undefined;
+  readonly id: string;
+  readonly " $fragmentSpreads": FragmentRefs<"CommentThread_post" | "LikeButton_post">;
+  readonly " $fragmentType": "PostFeed_details";
+};
+export type PostFeed_details$key = {
+  readonly " $data"?: PostFeed_details$data;
+  readonly " $fragmentSpreads": FragmentRefs<"PostFeed_details">;
+};
+
+const node: ReaderFragment = (function(){
+var v0 = {
+  "alias": null,
+  "args": null,
+  "kind": "ScalarField",
+  "name": "id",
+  "storageKey": null
+};
+return {
+  "argumentDefinitions": [],
+  "kind": "Fragment",
+  "metadata": null,
+  "name": "PostFeed_details",
+  "selections": [
+    (v0/*: any*/),
+    {
+      "alias": null,
+      "args": null,
+      "concreteType": "Comment",
+      "kind": "LinkedField",
+      "name": "comments",
+      "plural": true,
+      "selections": [
+        (v0/*: any*/)
+      ],
+      "storageKey": null
+    },
+    {
+      "args": null,
+      "kind": "FragmentSpread",
+      "name": "CommentThread_post"
+    },
+    {
+      "args": null,
+      "kind": "FragmentSpread",
+      "name": "LikeButton_post"
+    }
+  ],
+  "type": "Post",
+  "abstractKey": null
+};
+})();
+
+(node as any).hash = "5555bda96d6dc6e7d3b470b0ddcd2c45";
+
+export default node;
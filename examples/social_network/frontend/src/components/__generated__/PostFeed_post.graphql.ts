@@ -0,0 +1,126 @@
+/**
+ * @generated SignedSource<<4f15d42439f166ee07dadf34e77c5edd>>
+ * @lightSyntaxTransform
+ * @nogrep
+ */
+
+/* tslint:disable */
+/* eslint-disable */
+// @ts-nocheck
+
+import { Fragment, ReaderFragment } from 'relay-runtime';
+export type PostVisibility = "FRIENDS" | "PRIVATE" | "PUBLIC" | "%future added value";
+import { FragmentRefs } from "relay-runtime";
+export type PostFeed_post$data = {
+  readonly author: {
+    readonly displayName: string | null | undefined;
+    readonly id: string;
+    readonly username: string;
+  };
+  readonly body: string;
+  readonly id: string;
+  readonly insertedAt: string;
+  readonly mediaUrl: string | null | undefined;
+  readonly visibility: PostVisibility | null | undefined;
+  readonly " $fragmentSpreads": FragmentRefs<"PostFeed_details">;
+  readonly " $fragmentType": "PostFeed_post";
+};
+export type PostFeed_post$key = {
+  readonly " $data"?: PostFeed_post$data;
+  readonly " $fragmentSpreads": FragmentRefs<"PostFeed_post">;
+};
+
+const node: ReaderFragment = (function(){
+var v0 = {
+  "alias": null,
+  "args": null,
+  "kind": "ScalarField",
+  "name": "id",
+  "storageKey": null
+};
+return {
+  "argumentDefinitions": [
+    {
+      "defaultValue": true,
+      "kind": "LocalArgument",
+      "name": "deferDetails"
+    }
+  ],
+  "kind": "Fragment",
+  "metadata": null,
+  "name": "PostFeed_post",
+  "selections": [
+    (v0/*: any*/),
+    {
+      "alias": null,
+      "args": null,
+      "kind": "ScalarField",
+      "name": "body",
+      "storageKey": null
+    },
+    {
+      "alias": null,
+      "args": null,
+      "kind": "ScalarField",
+      "name": "mediaUrl",
+      "storageKey": null
+    },
+    {
+      "alias": null,
+      "args": null,
+      "kind": "ScalarField",
+      "name": "visibility",
+      "storageKey": null
+    },
+    {
+      "alias": null,
+      "args": null,
+      "kind": "ScalarField",
+      "name": "insertedAt",
+      "storageKey": null
+    },
+    {
+      "alias": null,
+      "args": null,
+      "concreteType": "User",
+      "kind": "LinkedField",
+      "name": "author",
+      "plural": false,
+      "selections": [
+        (v0/*: any*/),
+        {
+          "alias": null,
+          "args": null,
+          "kind": "ScalarField",
+          "name": "username",
+          "storageKey": null
+        },
+        {
+          "alias": null,
+          "args": null,
+          "kind": "ScalarField",
+          "name": "displayName",
+          "storageKey": null
+        }
+      ],
+      "storageKey": null
+    },
+    {
+      "kind": "Defer",
+      "selections": [
+        {
+          "args": null,
+          "kind": "FragmentSpread",
+          "name": "PostFeed_details"
+        }
+      ]
+    }
+  ],
+  "type": "Post",
+  "abstractKey": null
+};
+})();
+
+(node as any).hash = "c50311d09a7a25b9a7e36aadafa09b9b";
+
+export default node;
@@ -0,0 +1,296 @@
+/**
+ * @generated SignedSource<<b10439ddb23c6a037e6942c7922d6cf3>>
+ * @relayHash 29583a7f00cbd4a8a3996db60e424786
+ * @lightSyntaxTransform
+ * @nogrep
+ */
+
+/* tslint:disable */
+/* eslint-disable */
+// @ts-nocheck
+
+// @relayRequestID 4a83d748add99df8fb90d9513db58ca76150c06f5a5d1d13ae48a324a6de2c44
+
+import { ConcreteRequest, Query } from 'relay-runtime';
+import { FragmentRefs } from "relay-runtime";
+export type CqlFilterUserInput = {
+  _and?: ReadonlyArray<CqlFilterUserInput | null | undefined> | null | undefined;
+  _not?: CqlFilterUserInput | null | undefined;
+  _or?: ReadonlyArray<CqlFilterUserInput | null | undefined> | null | undefined;
+  displayName?: CqlOpStringInput | null | undefined;
+  email?: CqlOpStringInput | null | undefined;
+  id?: CqlOpIdInput | null | undefined;
+  insertedAt?: CqlOpNaiveDateTimeInput | null | undefined;
+  username?: CqlOpStringInput | null | undefined;
+};
+export type CqlOpIdInput = {
+  _eq?: string | null | undefined;
+  _in?: ReadonlyArray<string | null | undefined> | null | undefined;
+  _isNull?: boolean | null | undefined;
+  _ne?: string | null | undefined;
+  _neq?: string | null | undefined;
+  _nin?: ReadonlyArray<string | null | undefined> | null | undefined;
+};
+export type CqlOpStringInput = {
+  _contains?: string | null | undefined;
+  _endsWith?: string | null | undefined;
+  _eq?: string | null | undefined;
+  _gt?: string | null | undefined;
+  _gte?: string | null | undefined;
+  _icontains?: string | null | undefined;
+  _iendsWith?: string | null | undefined;
+  _ilike?: string | null | undefined;
+  _in?: ReadonlyArray<string | null | undefined> | null | undefined;
+  _isNull?: boolean | null | undefined;
+  _istartsWith?: string | null | undefined;
+  _like?: string | null | undefined;
+  _lt?: string | null | undefined;
+  _lte?: string | null | undefined;
+  _ne?: string | null | undefined;
+  _neq?: string | null | undefined;
+  _nilike?: string | null | undefined;
+  _nin?: ReadonlyArray<string | null | undefined> | null | undefined;
+  _nlike?: string | null | undefined;
+  _startsWith?: string | null | undefined;
+};
+export type CqlOpNaiveDateTimeInput = {
+  _between?: ReadonlyArray<string> | null | undefined;
+  _eq?: string | null | undefined;
+  _gt?: string | null | undefined;
+  _gte?: string | null | undefined;
+  _in?: ReadonlyArray<string | null | undefined> | null | undefined;
+  _isNull?: boolean | null | undefined;
+  _lt?: string | null | undefined;
+  _lte?: string | null | undefined;
+  _ne?: string | null | undefined;
+  _neq?: string | null | undefined;
+  _nin?: ReadonlyArray<string | null | undefined> | null | undefined;
+};
+export type UserListPaginationQuery$variables = {
+  count?: number | null | undefined;
+  cursor?: string | null | undefined;
+  where?: CqlFilterUserInput | null | undefined;
+};
+export type UserListPaginationQuery$data = {
+  readonly " $fragmentSpreads": FragmentRefs<"UserList_query">;
+};
+export type UserListPaginationQuery = {
+  response: UserListPaginationQuery$data;
+  variables: UserListPaginationQuery$variables;
+};
+
+const node: ConcreteRequest = (function(){
+var v0 = [
+  {
+    "defaultValue": 20,
+    "kind": "LocalArgument",
+    "name": "count"
+  },
+  {
+    "defaultValue": null,
+    "kind": "LocalArgument",
+    "name": "cursor"
+  },
+  {
+    "defaultValue": null,
+    "kind": "LocalArgument",
+    "name": "where"
+  }
+],
+v1 = {
+  "kind": "Variable",
+  "name": "where",
+  "variableName": "where"
+},
+v2 = [
+  {
+    "kind": "Variable",
+    "name": "after",
+    "variableName": "cursor"
+  },
+  {
+    "kind": "Variable",
+    "name": "first",
+    "variableName": "count"
+  },
+  (v1/*: any*/)
+];
+return {
+  "fragment": {
+    "argumentDefinitions": (v0/*: any*/),
+    "kind": "Fragment",
+    "metadata": null,
+    "name": "UserListPaginationQuery",
+    "selections": [
+      {
+        "args": [
+          {
+            "kind": "Variable",
+            "name": "count",
+            "variableName": "count"
+          },
+          {
+            "kind": "Variable",
+            "name": "cursor",
+            "variableName": "cursor"
+          },
+          (v1/*: any*/)
+        ],
+        "kind": "FragmentSpread",
+        "name": "UserList_query"
+      }
+    ],
+    "type": "Query",
+    "abstractKey": null
+  },
+  "kind": "Request",
+  "operation": {
+    "argumentDefinitions": (v0/*: any*/),
+    "kind": "Operation",
+    "name": "UserListPaginationQuery",
+    "selections": [
+      {
+        "alias": null,
+        "args": (v2/*: any*/),
+        "concreteType": "PeopleConnection",
+        "kind": "LinkedField",
+        "name": "people",
+        "plural": false,
+        "selections": [
+          {
+            "alias": null,
+            "args": null,
+            "kind": "ScalarField",
+            "name": "totalCount",
+            "storageKey": null
+          },
+          {
+            "alias": null,
+            "args": null,
+            "concreteType": "PeopleEdge",
+            "kind": "LinkedField",
+            "name": "edges",
+            "plural": true,
+            "selections": [
+              {
+                "alias": null,
+                "args": null,
+                "concreteType": "User",
+                "kind": "LinkedField",
+                "name": "node",
+                "plural": false,
+                "selections": [
+                  {
+                    "alias": null,
+                    "args": null,
+                    "kind": "ScalarField",
+                    "name": "id",
+                    "storageKey": null
+                  },
+                  {
+                    "alias": null,
+                    "args": null,
+                    "kind": "ScalarField",
+                    "name": "email",
+                    "storageKey": null
+                  },
+                  {
+                    "alias": null,
+                    "args": null,
+                    "kind": "ScalarField",
+                    "name": "username",
+                    "storageKey": null
+                  },
+                  {
+                    "alias": null,
+                    "args": null,
+                    "kind": "ScalarField",
+                    "name": "displayName",
+                    "storageKey": null
+                  },
+                  {
+                    "alias": null,
+                    "args": null,
+                    "kind": "ScalarField",
+                    "name": "__typename",
+                    "storageKey": null
+                  }
+                ],
+                "storageKey": null
+              },
+              {
+                "alias": null,
+                "args": null,
+                "kind": "ScalarField",
+                "name": "cursor",
+                "storageKey": null
+              }
+            ],
+            "storageKey": null
+          },
+          {
+            "alias": null,
+            "args": null,
+            "concreteType": "PageInfo",
+            "kind": "LinkedField",
+            "name": "pageInfo",
+            "plural": false,
+            "selections": [
+              {
+                "alias": null,
+                "args": null,
+                "kind": "ScalarField",
+                "name": "endCursor",
+                "storageKey": null
+              },
+              {
+                "alias": null,
+                "args": null,
+                "kind": "ScalarField",
+                "name": "hasNextPage",
+                "storageKey": null
+              }
+            ],
+            "storageKey": null
+          },
+          {
+            "kind": "ClientExtension",
+            "selections": [
+              {
+                "alias": null,
+                "args": null,
+                "kind": "ScalarField",
+                "name": "__id",
+                "storageKey": null
+              }
+            ]
+          }
+        ],
+        "storageKey": null
+      },
+      {
+        "alias": null,
+        "args": (v2/*: any*/),
+        "filters": [
+          "where"
+        ],
+        "handle": "connection",
+        "key": "UserList_people",
+        "kind": "LinkedHandle",
+        "name": "people"
+      }
+    ]
+  },
+  "params": {
+    "id": "4a83d748add99df8fb90d9513db58ca76150c06f5a5d1d13ae48a324a6de2c44",
+    "metadata": {},
+    "name": "UserListPaginationQuery",
+    "operationKind": "query",
+    "text": null
+  }
+};
+})();
+
+(node as any).hash = "251c0d13332f38be81ca0d1c8371ca50";
+
+export default node;
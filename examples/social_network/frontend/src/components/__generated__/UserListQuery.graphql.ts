@@ -1,5 +1,6 @@
 /**
- * @generated SignedSource<<efdeeaf46fdce9e886d76d5d39e1b7ac>>
+ * @generated SignedSource<<27ac1f60455f1ed39ad8131aa570f9bd>>
+ * @relayHash b402cdeed842404f99631a49ef4a606b
  * @lightSyntaxTransform
  * @nogrep
  */
@@ -8,15 +9,73 @@
 /* eslint-disable */
 // @ts-nocheck
 
+// @relayRequestID 8c4df1f7f17d0e0144bb0973950a0b82dc9e105dacd0b7b04771c447757a2951
+
 import { ConcreteRequest, Query } from 'relay-runtime';
-export type UserListQuery$variables = Record<PropertyKey, never>;
+import { FragmentRefs } from "relay-runtime";
+export type CqlFilterUserInput = {
+  _and?: ReadonlyArray<CqlFilterUserInput | null | undefined> | null | undefined;
+  _not?: CqlFilterUserInput | null | undefined;
+  _or?: ReadonlyArray<CqlFilterUserInput | null | undefined> | null | undefined;
+  displayName?: CqlOpStringInput | null | undefined;
+  email?: CqlOpStringInput | null | undefined;
+  id?: CqlOpIdInput | null | undefined;
+  insertedAt?: CqlOpNaiveDateTimeInput | null | undefined;
+  username?: CqlOpStringInput | null | undefined;
+};
+export type CqlOpIdInput = {
+  _eq?: string | null | undefined;
+  _in?: ReadonlyArray<string | null | undefined> | null | undefined;
+  _isNull?: boolean | null | undefined;
+  _ne?: string | null | undefined;
+  _neq?: string | null | undefined;
+  _nin?: ReadonlyArray<string | null | undefined> | null | undefined;
+};
+export type CqlOpStringInput = {
+  _contains?: string | null | undefined;
+  _endsWith?: string | null | undefined;
+  _eq?: string | null | undefined;
+  _gt?: string | null | undefined;
+  _gte?: string | null | undefined;
+  _icontains?: string | null | undefined;
+  _iendsWith?: string | null | undefined;
+  _ilike?: string | null | undefined;
+  _in?: ReadonlyArray<string | null | undefined> | null | undefined;
+  _isNull?: boolean | null | undefined;
+  _istartsWith?: string | null | undefined;
+  _like?: string | null | undefined;
+  _lt?: string | null | undefined;
+  _lte?: string | null | undefined;
+  _ne?: string | null | undefined;
+  _neq?: string | null | undefined;
+  _nilike?: string | null | undefined;
+  _nin?: ReadonlyArray<string | null | undefined> | null | undefined;
+  _nlike?: string | null | undefined;
+  _startsWith?: string | null | undefined;
+};
+export type CqlOpNaiveDateTimeInput = {
+  _between?: ReadonlyArray<string> | null | undefined;
+  _eq?: string | null | undefined;
+  _gt?: string | null | undefined;
+  _gte?: string | null | undefined;
+  _in?: ReadonlyArray<string | null | undefined> | null | undefined;
+  _isNull?: boolean | null | undefined;
+  _lt?: string | null | undefined;
+  _lte?: string | null | undefined;
+  _ne?: string | null | undefined;
+  _neq?: string | null | undefined;
+  _nin?: ReadonlyArray<string | null | undefined> | null | undefined;
+};
+export type UserListQuery$variables = {
+  count: number;
+  cursor?: string | null | undefined;
+  where?: CqlFilterUserInput | null | undefined;
+};
 export type UserListQuery$data = {
-  readonly users: ReadonlyArray<{
-    readonly displayName: string | null | undefined;
-    readonly email: string;
-    readonly id: string;
-    readonly username: string;
-  }> | null | undefined;
+  readonly viewer: {
+    readonly " $fragmentSpreads": FragmentRefs<"FriendRequestInbox_viewer" | "FriendshipActions_viewer">;
+  } | null | undefined;
+  readonly " $fragmentSpreads": FragmentRefs<"UserList_query">;
 };
 export type UserListQuery = {
   response: UserListQuery$data;
@@ -26,73 +85,310 @@ export type UserListQuery = {
 const node: ConcreteRequest = (function(){
 var v0 = [
   {
-    "alias": null,
-    "args": null,
-    "concreteType": "User",
-    "kind": "LinkedField",
-    "name": "users",
-    "plural": true,
+    "defaultValue": null,
+    "kind": "LocalArgument",
+    "name": "count"
+  },
+  {
+    "defaultValue": null,
+    "kind": "LocalArgument",
+    "name": "cursor"
+  },
+  {
+    "defaultValue": null,
+    "kind": "LocalArgument",
+    "name": "where"
+  }
+],
+v1 = {
+  "kind": "Variable",
+  "name": "where",
+  "variableName": "where"
+},
+v2 = {
+  "alias": null,
+  "args": null,
+  "kind": "ScalarField",
+  "name": "id",
+  "storageKey": null
+},
+v3 = {
+  "alias": null,
+  "args": null,
+  "kind": "ScalarField",
+  "name": "status",
+  "storageKey": null
+},
+v4 = {
+  "alias": null,
+  "args": null,
+  "kind": "ScalarField",
+  "name": "username",
+  "storageKey": null
+},
+v5 = {
+  "alias": null,
+  "args": null,
+  "kind": "ScalarField",
+  "name": "displayName",
+  "storageKey": null
+},
+v6 = [
+  {
+    "kind": "Variable",
+    "name": "after",
+    "variableName": "cursor"
+  },
+  {
+    "kind": "Variable",
+    "name": "first",
+    "variableName": "count"
+  },
+  (v1/*: any*/)
+];
+return {
+  "fragment": {
+    "argumentDefinitions": (v0/*: any*/),
+    "kind": "Fragment",
+    "metadata": null,
+    "name": "UserListQuery",
     "selections": [
       {
         "alias": null,
         "args": null,
-        "kind": "ScalarField",
-        "name": "id",
+        "concreteType": "User",
+        "kind": "LinkedField",
+        "name": "viewer",
+        "plural": false,
+        "selections": [
+          {
+            "args": null,
+            "kind": "FragmentSpread",
+            "name": "FriendshipActions_viewer"
+          },
+          {
+            "args": null,
+            "kind": "FragmentSpread",
+            "name": "FriendRequestInbox_viewer"
+          }
+        ],
         "storageKey": null
       },
+      {
+        "args": [
+          {
+            "kind": "Variable",
+            "name": "count",
+            "variableName": "count"
+          },
+          {
+            "kind": "Variable",
+            "name": "cursor",
+            "variableName": "cursor"
+          },
+          (v1/*: any*/)
+        ],
+        "kind": "FragmentSpread",
+        "name": "UserList_query"
+      }
+    ],
+    "type": "Query",
+    "abstractKey": null
+  },
+  "kind": "Request",
+  "operation": {
+    "argumentDefinitions": (v0/*: any*/),
+    "kind": "Operation",
+    "name": "UserListQuery",
+    "selections": [
       {
         "alias": null,
         "args": null,
-        "kind": "ScalarField",
-        "name": "email",
+        "concreteType": "User",
+        "kind": "LinkedField",
+        "name": "viewer",
+        "plural": false,
+        "selections": [
+          (v2/*: any*/),
+          {
+            "alias": null,
+            "args": null,
+            "concreteType": "Friendship",
+            "kind": "LinkedField",
+            "name": "friendships",
+            "plural": true,
+            "selections": [
+              (v2/*: any*/),
+              (v3/*: any*/),
+              {
+                "alias": null,
+                "args": null,
+                "concreteType": "User",
+                "kind": "LinkedField",
+                "name": "friend",
+                "plural": false,
+                "selections": [
+                  (v2/*: any*/)
+                ],
+                "storageKey": null
+              }
+            ],
+            "storageKey": null
+          },
+          {
+            "alias": null,
+            "args": null,
+            "concreteType": "Friendship",
+            "kind": "LinkedField",
+            "name": "incomingFriendships",
+            "plural": true,
+            "selections": [
+              (v2/*: any*/),
+              (v3/*: any*/),
+              {
+                "alias": null,
+                "args": null,
+                "concreteType": "User",
+                "kind": "LinkedField",
+                "name": "user",
+                "plural": false,
+                "selections": [
+                  (v2/*: any*/),
+                  (v4/*: any*/),
+                  (v5/*: any*/)
+                ],
+                "storageKey": null
+              }
+            ],
+            "storageKey": null
+          }
+        ],
         "storageKey": null
       },
       {
         "alias": null,
-        "args": null,
-        "kind": "ScalarField",
-        "name": "username",
+        "args": (v6/*: any*/),
+        "concreteType": "PeopleConnection",
+        "kind": "LinkedField",
+        "name": "people",
+        "plural": false,
+        "selections": [
+          {
+            "alias": null,
+            "args": null,
+            "kind": "ScalarField",
+            "name": "totalCount",
+            "storageKey": null
+          },
+          {
+            "alias": null,
+            "args": null,
+            "concreteType": "PeopleEdge",
+            "kind": "LinkedField",
+            "name": "edges",
+            "plural": true,
+            "selections": [
+              {
+                "alias": null,
+                "args": null,
+                "concreteType": "User",
+                "kind": "LinkedField",
+                "name": "node",
+                "plural": false,
+                "selections": [
+                  (v2/*: any*/),
+                  {
+                    "alias": null,
+                    "args": null,
+                    "kind": "ScalarField",
+                    "name": "email",
+                    "storageKey": null
+                  },
+                  (v4/*: any*/),
+                  (v5/*: any*/),
+                  {
+                    "alias": null,
+                    "args": null,
+                    "kind": "ScalarField",
+                    "name": "__typename",
+                    "storageKey": null
+                  }
+                ],
+                "storageKey": null
+              },
+              {
+                "alias": null,
+                "args": null,
+                "kind": "ScalarField",
+                "name": "cursor",
+                "storageKey": null
+              }
+            ],
+            "storageKey": null
+          },
+          {
+            "alias": null,
+            "args": null,
+            "concreteType": "PageInfo",
+            "kind": "LinkedField",
+            "name": "pageInfo",
+            "plural": false,
+            "selections": [
+              {
+                "alias": null,
+                "args": null,
+                "kind": "ScalarField",
+                "name": "endCursor",
+                "storageKey": null
+              },
+              {
+                "alias": null,
+                "args": null,
+                "kind": "ScalarField",
+                "name": "hasNextPage",
+                "storageKey": null
+              }
+            ],
+            "storageKey": null
+          },
+          {
+            "kind": "ClientExtension",
+            "selections": [
+              {
+                "alias": null,
+                "args": null,
+                "kind": "ScalarField",
+                "name": "__id",
+                "storageKey": null
+              }
+            ]
+          }
+        ],
         "storageKey": null
       },
       {
         "alias": null,
-        "args": null,
-        "kind": "ScalarField",
-        "name": "displayName",
-        "storageKey": null
+        "args": (v6/*: any*/),
+        "filters": [
+          "where"
+        ],
+        "handle": "connection",
+        "key": "UserList_people",
+        "kind": "LinkedHandle",
+        "name": "people"
       }
-    ],
-    "storageKey": null
-  }
-];
-return {
-  "fragment": {
-    "argumentDefinitions": [],
-    "kind": "Fragment",
-    "metadata": null,
-    "name": "UserListQuery",
-    "selections": (v0/*: any*/),
-    "type": "Query",
-    "abstractKey": null
-  },
-  "kind": "Request",
-  "operation": {
-    "argumentDefinitions": [],
-    "kind": "Operation",
-    "name": "UserListQuery",
-    "selections": (v0/*: any*/)
+    ]
   },
   "params": {
-    "cacheID": "d01cb19374ed9f96676a752f872b12c0",
-    "id": null,
+    "id": "8c4df1f7f17d0e0144bb0973950a0b82dc9e105dacd0b7b04771c447757a2951",
     "metadata": {},
     "name": "UserListQuery",
     "operationKind": "query",
-    "text": "query UserListQuery {\n  users {\n    id\n    email\n    username\n    displayName\n  }\n}\n"
+    "text": null
   }
 };
 })();
 
-(node as any).hash = "db3f396c23b55342ce3b6d3a720f1d10";
+(node as any).hash = "d5da2dd082161931c9e1f8105022e3b0";
 
 export default node;
@@ -0,0 +1,79 @@
+/**
+ * @generated SignedSource<<5309bbb8899aeac2c60e38bdf769456a>>
+ * @lightSyntaxTransform
+ * @nogrep
+ */
+
+/* tslint:disable */
+/* eslint-disable */
+// @ts-nocheck
+
+import { Fragment, ReaderFragment } from 'relay-runtime';
+import { FragmentRefs } from "relay-runtime";
+export type UserProfile_friends$data = {
+  readonly friends: ReadonlyArray<{
+    readonly avatarUrl: string | null | undefined;
+    readonly displayName: string | null | undefined;
+    readonly id: string;
+    readonly username: string;
+  }> | null | undefined;
+  readonly " $fragmentType": "UserProfile_friends";
+};
+export type UserProfile_friends$key = {
+  readonly " $data"?: UserProfile_friends$data;
+  readonly " $fragmentSpreads": FragmentRefs<"UserProfile_friends">;
+};
+
+const node: ReaderFragment = {
+  "argumentDefinitions": [],
+  "kind": "Fragment",
+  "metadata": null,
+  "name": "UserProfile_friends",
+  "selections": [
+    {
+      "alias": null,
+      "args": null,
+      "concreteType": "User",
+      "kind": "LinkedField",
+      "name": "friends",
+      "plural": true,
+      "selections": [
+        {
+          "alias": null,
+          "args": null,
+          "kind": "ScalarField",
+          "name": "id",
+          "storageKey": null
+        },
+        {
+          "alias": null,
+          "args": null,
+          "kind": "ScalarField",
+          "name": "username",
+          "storageKey": null
+        },
+        {
+          "alias": null,
+          "args": null,
+          "kind": "ScalarField",
+          "name": "displayName",
+          "storageKey": null
+        },
+        {
+          "alias": null,
+          "args": null,
+          "kind": "ScalarField",
+          "name": "avatarUrl",
+          "storageKey": null
+        }
+      ],
+      "storageKey": null
+    }
+  ],
+  "type": "User",
+  "abstractKey": null
+};
+
+(node as any).hash = "1d9abeebf1c4a705999ef599e42a25c1";
+
+export default node;
@@ -0,0 +1,128 @@
+/**
+ * @generated SignedSource<<8a7f1c3ba0802487c95267a3c9f28db7>>
+ * @lightSyntaxTransform
+ * @nogrep
+ */
+
+/* tslint:disable */
+/* eslint-disable */
+// @ts-nocheck
+
+import { ReaderFragment, RefetchableFragment } from 'relay-runtime';
+import { FragmentRefs } from "relay-runtime";
+export type UserProfile_user$data = {
+  readonly avatarUrl: string | null | undefined;
+  readonly bio: string | null | undefined;
+  readonly displayName: string | null | undefined;
+  readonly id: string;
+  readonly posts: ReadonlyArray<{
+    readonly id: string;
+    readonly " $fragmentSpreads": FragmentRefs<"PostFeed_post">;
+  }> | null | undefined;
+  readonly username: string;
+  readonly " $fragmentSpreads": FragmentRefs<"UserProfile_friends">;
+  readonly " $fragmentType": "UserProfile_user";
+};
+export type UserProfile_user$key = {
+  readonly " $data"?: UserProfile_user$data;
+  readonly " $fragmentSpreads": FragmentRefs<"UserProfile_user">;
+};
+
+import UserProfileRefetchQuery_graphql from './UserProfileRefetchQuery.graphql';
+
+const node: ReaderFragment = (function(){
+var v0 = {
+  "alias": null,
+  "args": null,
+  "kind": "ScalarField",
+  "name": "id",
+  "storageKey": null
+};
+return {
+  "argumentDefinitions": [],
+  "kind": "Fragment",
+  "metadata": {
+    "refetch": {
+      "connection": null,
+      "fragmentPathInResult": [
+        "node"
+      ],
+      "operation": UserProfileRefetchQuery_graphql,
+      "identifierInfo": {
+        "identifierField": "id",
+        "identifierQueryVariableName": "id"
+      }
+    }
+  },
+  "name": "UserProfile_user",
+  "selections": [
+    (v0/*: any*/),
+    {
+      "alias": null,
+      "args": null,
+      "kind": "ScalarField",
+      "name": "username",
+      "storageKey": null
+    },
+    {
+      "alias": null,
+      "args": null,
+      "kind": "ScalarField",
+      "name": "displayName",
+      "storageKey": null
+    },
+    {
+      "alias": null,
+      "args": null,
+      "kind": "ScalarField",
+      "name": "bio",
+      "storageKey": null
+    },
+    {
+      "alias": null,
+      "args": null,
+      "kind": "ScalarField",
+      "name": "avatarUrl",
+      "storageKey": null
+    },
+    {
+      "kind": "Stream",
+      "selections": [
+        {
+          "alias": null,
+          "args": null,
+          "concreteType": "Post",
+          "kind": "LinkedField",
+          "name": "posts",
+          "plural": true,
+          "selections": [
+            (v0/*: any*/),
+            {
+              "args": null,
+              "kind": "FragmentSpread",
+              "name": "PostFeed_post"
+            }
+          ],
+          "storageKey": null
+        }
+      ]
+    },
+    {
+      "kind": "Defer",
+      "selections": [
+        {
+          "args": null,
+          "kind": "FragmentSpread",
+          "name": "UserProfile_friends"
+        }
+      ]
+    }
+  ],
+  "type": "User",
+  "abstractKey": null
+};
+})();
+
+(node as any).hash = "873a57f2a1da81a6b43d3f75631d2a5f";
+
+export default node;
@@ -0,0 +1,201 @@
+/**
+ * @generated SignedSource<<7ef894afde2ac0c0d4956075b87a7e86>>
+ * @relayHash 43450e2d758e36f1905439c3317d8964
+ * @lightSyntaxTransform
+ * @nogrep
+ */
+
+/* tslint:disable */
+/* eslint-disable */
+// @ts-nocheck
+
+// @relayRequestID d205368a27a8a16b576ad5060aaee23b2406f7637b4dc8f4fc8cc2ff7672eb5b
+
+import { ConcreteRequest, Query } from 'relay-runtime';
+export type CqlFilterUserInput = {
+  _and?: ReadonlyArray<CqlFilterUserInput | null | undefined> | null | undefined;
+  _not?: CqlFilterUserInput | null | undefined;
+  _or?: ReadonlyArray<CqlFilterUserInput | null | undefined> | null | undefined;
+  displayName?: CqlOpStringInput | null | undefined;
+  email?: CqlOpStringInput | null | undefined;
+  id?: CqlOpIdInput | null | undefined;
+  insertedAt?: CqlOpNaiveDateTimeInput | null | undefined;
+  username?: CqlOpStringInput | null | undefined;
+};
+export type CqlOpIdInput = {
+  _eq?: string | null | undefined;
+  _in?: ReadonlyArray<string | null | undefined> | null | undefined;
+  _isNull?: boolean | null | undefined;
+  _ne?: string | null | undefined;
+  _neq?: string | null | undefined;
+  _nin?: ReadonlyArray<string | null | undefined> | null | undefined;
+};
+export type CqlOpStringInput = {
+  _contains?: string | null | undefined;
+  _endsWith?: string | null | undefined;
+  _eq?: string | null | undefined;
+  _gt?: string | null | undefined;
+  _gte?: string | null | undefined;
+  _icontains?: string | null | undefined;
+  _iendsWith?: string | null | undefined;
+  _ilike?: string | null | undefined;
+  _in?: ReadonlyArray<string | null | undefined> | null | undefined;
+  _isNull?: boolean | null | undefined;
+  _istartsWith?: string | null | undefined;
+  _like?: string | null | undefined;
+  _lt?: string | null | undefined;
+  _lte?: string | null | undefined;
+  _ne?: string | null | undefined;
+  _neq?: string | null | undefined;
+  _nilike?: string | null | undefined;
+  _nin?: ReadonlyArray<string | null | undefined> | null | undefined;
+  _nlike?: string | null | undefined;
+  _startsWith?: string | null | undefined;
+};
+export type CqlOpNaiveDateTimeInput = {
+  _between?: ReadonlyArray<string> | null | undefined;
+  _eq?: string | null | undefined;
+  _gt?: string | null | undefined;
+  _gte?: string | null | undefined;
+  _in?: ReadonlyArray<string | null | undefined> | null | undefined;
+  _isNull?: boolean | null | undefined;
+  _lt?: string | null | undefined;
+  _lte?: string | null | undefined;
+  _ne?: string | null | undefined;
+  _neq?: string | null | undefined;
+  _nin?: ReadonlyArray<string | null | undefined> | null | undefined;
+};
+export type UserTypeaheadQuery$variables = {
+  count: number;
+  where?: CqlFilterUserInput | null | undefined;
+};
+export type UserTypeaheadQuery$data = {
+  readonly people: {
+    readonly edges: ReadonlyArray<{
+      readonly node: {
+        readonly displayName: string | null | undefined;
+        readonly id: string;
+        readonly username: string;
+      } | null | undefined;
+    } | null | undefined> | null | undefined;
+  } | null | undefined;
+};
+export type UserTypeaheadQuery = {
+  response: UserTypeaheadQuery$data;
+  variables: UserTypeaheadQuery$variables;
+};
+
+const node: ConcreteRequest = (function(){
+var v0 = {
+  "defaultValue": null,
+  "kind": "LocalArgument",
+  "name": "count"
+},
+v1 = {
+  "defaultValue": null,
+  "kind": "LocalArgument",
+  "name": "where"
+},
+v2 = [
+  {
+    "alias": null,
+    "args": [
+      {
+        "kind": "Variable",
+        "name": "first",
+        "variableName": "count"
+      },
+      {
+        "kind": "Variable",
+        "name": "where",
+        "variableName": "where"
+      }
+    ],
+    "concreteType": "PeopleConnection",
+    "kind": "LinkedField",
+    "name": "people",
+    "plural": false,
+    "selections": [
+      {
+        "alias": null,
+        "args": null,
+        "concreteType": "PeopleEdge",
+        "kind": "LinkedField",
+        "name": "edges",
+        "plural": true,
+        "selections": [
+          {
+            "alias": null,
+            "args": null,
+            "concreteType": "User",
+            "kind": "LinkedField",
+            "name": "node",
+            "plural": false,
+            "selections": [
+              {
+                "alias": null,
+                "args": null,
+                "kind": "ScalarField",
+                "name": "id",
+                "storageKey": null
+              },
+              {
+                "alias": null,
+                "args": null,
+                "kind": "ScalarField",
+                "name": "username",
+                "storageKey": null
+              },
+              {
+                "alias": null,
+                "args": null,
+                "kind": "ScalarField",
+                "name": "displayName",
+                "storageKey": null
+              }
+            ],
+            "storageKey": null
+          }
+        ],
+        "storageKey": null
+      }
+    ],
+    "storageKey": null
+  }
+];
+return {
+  "fragment": {
+    "argumentDefinitions": [
+      (v0/*: any*/),
+      (v1/*: any*/)
+    ],
+    "kind": "Fragment",
+    "metadata": null,
+    "name": "UserTypeaheadQuery",
+    "selections": (v2/*: any*/),
+    "type": "Query",
+    "abstractKey": null
+  },
+  "kind": "Request",
+  "operation": {
+    "argumentDefinitions": [
+      (v1/*: any*/),
+      (v0/*: any*/)
+    ],
+    "kind": "Operation",
+    "name": "UserTypeaheadQuery",
+    "selections": (v2/*: any*/)
+  },
+  "params": {
+    "id": "d205368a27a8a16b576ad5060aaee23b2406f7637b4dc8f4fc8cc2ff7672eb5b",
+    "metadata": {},
+    "name": "UserTypeaheadQuery",
+    "operationKind": "query",
+    "text": null
+  }
+};
+})();
+
+(node as any).hash = "5c019b2a6f1dc160965a7a60f3121599";
+
+export default node;
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { matchesCqlFilter } from "../cql/filter";
+import { feedQueryVariables, readFeedScope } from "./feedFilters";
+
+const BODY_FILTER = JSON.stringify({ c: "_and", n: [["body", "_icontains", "hello"]] });
+
+describe("feed scopes", () => {
+  it("only lets logged-in users pick the friends and mine scopes", () => {
+    expect(readFeedScope(new URLSearchParams("scope=public"), null)).toBe("public");
+    expect(readFeedScope(new URLSearchParams("scope=mine"), null)).toBe("all");
+    expect(readFeedScope(new URLSearchParams("scope=mine"), "7")).toBe("mine");
+    expect(readFeedScope(new URLSearchParams("scope=bogus"), "7")).toBe("all");
+  });
+
+  it("narrows the feed by visibility or author", () => {
+    expect(feedQueryVariables(new URLSearchParams(), "7").where).toBeNull();
+    expect(feedQueryVariables(new URLSearchParams("scope=friends"), "7").where).toEqual({
+      visibility: { _eq: "FRIENDS" },
+    });
+    expect(feedQueryVariables(new URLSearchParams("scope=mine"), "7").where).toEqual({
+      author: { id: { _eq: "7" } },
+    });
+  });
+
+  it("combines the scope with the builder's filter", () => {
+    const params = new URLSearchParams({ scope: "public", filter: BODY_FILTER });
+
+    expect(feedQueryVariables(params, null).where).toEqual({
+      _and: [{ body: { _icontains: "hello" } }, { visibility: { _eq: "PUBLIC" } }],
+    });
+  });
+});
+
+describe("matchesCqlFilter", () => {
+  const post = { body: "Hello there", visibility: "PUBLIC", author: { id: "7", username: "alice" } };
+  const read = (path: readonly string[]) =>
+    path.reduce<unknown>((value, key) => (value as Record<string, unknown> | undefined)?.[key], post);
+  const matches = (search: string, viewerId: string | null = "7") =>
+    matchesCqlFilter(feedQueryVariables(new URLSearchParams(search), viewerId).where, read);
+
+  it("matches posts against the feed's scope and filter", () => {
+    expect(matches("")).toBe(true);
+    expect(matches("scope=mine")).toBe(true);
+    expect(matches("scope=mine", "8")).toBe(false);
+    expect(matches("scope=friends")).toBe(false);
+    expect(matches(new URLSearchParams({ scope: "public", filter: BODY_FILTER }).toString())).toBe(true);
+  });
+
+  it("supports the builder's operators and leaves unknown ones unmatched", () => {
+    expect(matchesCqlFilter({ body: { _ilike: "hel%th_re" } }, read)).toBe(true);
+    expect(matchesCqlFilter({ author: { username: { _in: ["bob", "carol"] } } }, read)).toBe(false);
+    expect(matchesCqlFilter({ _or: [{ body: { _istartsWith: "bye" } }, { visibility: { _neq: "PRIVATE" } }] }, read)).toBe(
+      true
+    );
+    expect(matchesCqlFilter({ body: { _similarTo: "Hello%" } }, read)).toBe(false);
+  });
+});
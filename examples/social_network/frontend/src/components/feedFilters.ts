@@ -0,0 +1,118 @@
+import {
+  decodeFilter,
+  decodeSort,
+  toCqlFilter,
+  toCqlOrder,
+  type CqlSchema,
+} from "../cql/filter";
+import type { MessageKey } from "../i18n/catalog";
+import type {
+  CqlFilterPostInput,
+  CqlOrderPostInput,
+  PostFeedQuery,
+} from "./__generated__/PostFeedQuery.graphql";
+import { FEED_PAGE_SIZE } from "./pageSizes";
+
+export const POST_FILTER_SCHEMA: CqlSchema<CqlFilterPostInput, CqlOrderPostInput> = {
+  filterFields: [
+    { path: "body", label: "feed.filter.body", scalar: "string" },
+    { path: "author.username", label: "feed.filter.authorUsername", scalar: "string" },
+    { path: "author.displayName", label: "feed.filter.authorName", scalar: "string" },
+    {
+      path: "visibility",
+      label: "feed.filter.visibility",
+      scalar: "enum",
+      values: ["PUBLIC", "FRIENDS", "PRIVATE"],
+      valueLabels: {
+        PUBLIC: "feed.filter.visibility.PUBLIC",
+        FRIENDS: "feed.filter.visibility.FRIENDS",
+        PRIVATE: "feed.filter.visibility.PRIVATE",
+      },
+    },
+    { path: "insertedAt", label: "feed.filter.insertedAt", scalar: "datetime" },
+    { path: "id", label: "feed.filter.id", scalar: "id" },
+  ],
+  orderFields: [
+    { name: "insertedAt", label: "feed.filter.insertedAt" },
+    { name: "updatedAt", label: "feed.filter.updatedAt" },
+    { name: "body", label: "feed.filter.body" },
+    { name: "visibility", label: "feed.filter.visibility" },
+  ],
+  defaultSortLabel: "feed.filter.defaultSort",
+};
+
+/**
+ * Which posts the feed shows, kept in the `scope` query param. The server
+ * already hides posts the viewer can't see; scopes narrow that down further.
+ */
+export type FeedScope = "all" | "public" | "friends" | "mine";
+
+export interface FeedScopeSpec {
+  scope: FeedScope;
+  label: MessageKey;
+  description: MessageKey;
+  /** Only offered to logged-in users. */
+  requiresViewer: boolean;
+}
+
+export const FEED_SCOPES: readonly FeedScopeSpec[] = [
+  { scope: "all", label: "feed.scope.all", description: "feed.scope.all.description", requiresViewer: false },
+  {
+    scope: "public",
+    label: "feed.scope.public",
+    description: "feed.scope.public.description",
+    requiresViewer: false,
+  },
+  {
+    scope: "friends",
+    label: "feed.scope.friends",
+    description: "feed.scope.friends.description",
+    requiresViewer: true,
+  },
+  { scope: "mine", label: "feed.scope.mine", description: "feed.scope.mine.description", requiresViewer: true },
+];
+
+/** The feed's scope at the given URL; anonymous visitors only get the public ones. */
+export function readFeedScope(searchParams: URLSearchParams, viewerId: string | null): FeedScope {
+  const spec = FEED_SCOPES.find(({ scope }) => scope === searchParams.get("scope"));
+  return spec && (viewerId || !spec.requiresViewer) ? spec.scope : "all";
+}
+
+function scopeFilter(scope: FeedScope, viewerId: string | null): CqlFilterPostInput | null {
+  switch (scope) {
+    case "public":
+      return { visibility: { _eq: "PUBLIC" } };
+    case "friends":
+      return { visibility: { _eq: "FRIENDS" } };
+    case "mine":
+      return viewerId ? { author: { id: { _eq: viewerId } } } : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Decodes the feed's `filter` and `sort` query params. They live in the URL
+ * so filtered views can be bookmarked and shared.
+ */
+export function readFeedFilters(searchParams: URLSearchParams) {
+  return {
+    filter: decodeFilter(searchParams.get("filter"), POST_FILTER_SCHEMA),
+    sort: decodeSort(searchParams.get("sort"), POST_FILTER_SCHEMA),
+  };
+}
+
+/** Variables for `PostFeedQuery` at the given URL: the builder's filter within the scope. */
+export function feedQueryVariables(
+  searchParams: URLSearchParams,
+  viewerId: string | null
+): PostFeedQuery["variables"] {
+  const { filter, sort } = readFeedFilters(searchParams);
+  const where = toCqlFilter(filter, POST_FILTER_SCHEMA);
+  const scope = scopeFilter(readFeedScope(searchParams, viewerId), viewerId);
+  return {
+    count: FEED_PAGE_SIZE,
+    where: where && scope ? { _and: [where, scope] } : where ?? scope,
+    orderBy: toCqlOrder(sort, POST_FILTER_SCHEMA),
+  };
+}
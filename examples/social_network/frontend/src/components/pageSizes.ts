@@ -0,0 +1,5 @@
+// Page sizes shared by the paginated components and the routes that preload
+// their first page.
+export const FEED_PAGE_SIZE = 10;
+export const USER_LIST_PAGE_SIZE = 20;
+export const USER_TYPEAHEAD_SIZE = 8;
@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { userSearchFilter } from "./userSearch";
+
+describe("userSearchFilter", () => {
+  it("matches names anywhere, ignoring case", () => {
+    expect(userSearchFilter("  ali ")).toEqual({
+      _or: [{ username: { _ilike: "%ali%" } }, { displayName: { _ilike: "%ali%" } }],
+    });
+    expect(userSearchFilter("   ")).toBeNull();
+  });
+
+  it("sends the term unescaped, since SQLite's LIKE has no escape character", () => {
+    expect(userSearchFilter("ada_l")).toMatchObject({
+      _or: [{ username: { _ilike: "%ada_l%" } }, expect.anything()],
+    });
+  });
+
+  it("never filters on email, which only admins may", () => {
+    expect(userSearchFilter("alice@example.com")).toEqual({
+      _or: [{ username: { _ilike: "%alice@example.com%" } }, { displayName: { _ilike: "%alice@example.com%" } }],
+    });
+  });
+});
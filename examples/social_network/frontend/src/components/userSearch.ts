@@ -0,0 +1,35 @@
+import { useEffect, useState } from "react";
+import type { CqlFilterUserInput } from "./__generated__/UserListQuery.graphql";
+
+/** How long typing must pause before a search is sent. */
+export const USER_SEARCH_DEBOUNCE_MS = 250;
+
+/**
+ * The `people(where:)` filter for a search box: username or display name
+ * containing `term`, case-insensitively. Never email: the server rejects
+ * filters on fields the viewer can't read. `null` for a blank term, i.e.
+ * everyone.
+ *
+ * The term isn't escaped: the example's SQLite `_ilike` has no escape
+ * character, so a backslash would be matched literally. A `_` or `%` the
+ * user types acts as a wildcard, which only ever finds more people.
+ */
+export function userSearchFilter(term: string): CqlFilterUserInput | null {
+  const trimmed = term.trim();
+  if (!trimmed) return null;
+
+  const contains = { _ilike: `%${trimmed}%` };
+  return { _or: [{ username: contains }, { displayName: contains }] };
+}
+
+/** `value`, once it has stopped changing for `delayMs`. */
+export function useDebouncedValue<T>(value: T, delayMs: number = USER_SEARCH_DEBOUNCE_MS): T {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timeout = window.setTimeout(() => setDebounced(value), delayMs);
+    return () => window.clearTimeout(timeout);
+  }, [value, delayMs]);
+
+  return debounced;
+}
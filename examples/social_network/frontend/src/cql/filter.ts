@@ -0,0 +1,398 @@
+/**
+ * Editable model of a CQL `where`/`orderBy` pair.
+ *
+ * The builder UI edits a tree of groups and conditions; `toCqlFilter` and
+ * `toCqlOrder` turn that tree into the `CqlFilter{Type}Input` and
+ * `CqlOrder{Type}Input` objects GreenFairy generates for a type, and the
+ * `encode`/`decode` helpers give it a compact, URL-safe form.
+ */
+
+import type { MessageKey } from "../i18n/catalog";
+import { toNaiveDateTime } from "../relay/naiveDateTime";
+
+export type CqlScalar = "id" | "string" | "datetime" | "enum";
+
+export type Combinator = "_and" | "_or";
+
+export type SortDirection = "ASC" | "DESC";
+
+// Fields of a CQL filter input, minus the `_and`/`_or`/`_not` combinators
+type FilterKeys<T> = Exclude<Extract<keyof T, string>, "_and" | "_or" | "_not">;
+
+/**
+ * Dotted paths to filterable fields, following association filters one level
+ * deep, e.g. `body` or `author.username` for `CqlFilterPostInput`.
+ */
+export type FilterPath<TFilter> = {
+  [K in FilterKeys<TFilter>]: "_and" extends keyof NonNullable<TFilter[K]>
+    ? `${K}.${FilterKeys<NonNullable<TFilter[K]>>}`
+    : K;
+}[FilterKeys<TFilter>];
+
+export interface CqlFieldSpec<TFilter> {
+  path: FilterPath<TFilter>;
+  label: MessageKey;
+  scalar: CqlScalar;
+  /** Allowed values, for enum fields. */
+  values?: readonly string[];
+  /** How each allowed value is shown; values without one show as they are. */
+  valueLabels?: Readonly<Record<string, MessageKey>>;
+}
+
+export interface CqlOrderFieldSpec<TOrder> {
+  name: Extract<keyof TOrder, string>;
+  label: MessageKey;
+}
+
+/** Which fields of a type can be filtered and sorted on, and how. */
+export interface CqlSchema<TFilter, TOrder> {
+  filterFields: readonly CqlFieldSpec<TFilter>[];
+  orderFields: readonly CqlOrderFieldSpec<TOrder>[];
+  /** Describes the order used when no sort is chosen, e.g. "newest first". */
+  defaultSortLabel: MessageKey;
+}
+
+/** How an operator's value is entered and sent. */
+export type OperatorArity = "value" | "list" | "range" | "boolean";
+
+export interface OperatorSpec {
+  op: string;
+  label: MessageKey;
+  arity: OperatorArity;
+}
+
+const EQUALITY: readonly OperatorSpec[] = [
+  { op: "_eq", label: "filters.op.is", arity: "value" },
+  { op: "_neq", label: "filters.op.isNot", arity: "value" },
+  { op: "_in", label: "filters.op.isOneOf", arity: "list" },
+  { op: "_nin", label: "filters.op.isNoneOf", arity: "list" },
+];
+
+const IS_NULL: OperatorSpec = { op: "_isNull", label: "filters.op.isEmpty", arity: "boolean" };
+
+/** Operators offered per scalar, in picker order. The first is the default. */
+export const OPERATORS: Record<CqlScalar, readonly OperatorSpec[]> = {
+  id: [...EQUALITY, IS_NULL],
+  enum: [...EQUALITY, IS_NULL],
+  string: [
+    { op: "_icontains", label: "filters.op.contains", arity: "value" },
+    { op: "_istartsWith", label: "filters.op.startsWith", arity: "value" },
+    { op: "_iendsWith", label: "filters.op.endsWith", arity: "value" },
+    { op: "_ilike", label: "filters.op.matches", arity: "value" },
+    ...EQUALITY,
+    IS_NULL,
+  ],
+  datetime: [
+    { op: "_gte", label: "filters.op.onOrAfter", arity: "value" },
+    { op: "_lt", label: "filters.op.before", arity: "value" },
+    { op: "_between", label: "filters.op.between", arity: "range" },
+    { op: "_eq", label: "filters.op.is", arity: "value" },
+    IS_NULL,
+  ],
+};
+
+export function operatorSpec(scalar: CqlScalar, op: string): OperatorSpec | undefined {
+  return OPERATORS[scalar].find((spec) => spec.op === op);
+}
+
+export interface FilterCondition {
+  kind: "condition";
+  id: string;
+  field: string;
+  operator: string;
+  /** Raw input; lists and ranges are comma separated. */
+  value: string;
+}
+
+export interface FilterGroup {
+  kind: "group";
+  id: string;
+  combinator: Combinator;
+  children: FilterNode[];
+}
+
+export type FilterNode = FilterCondition | FilterGroup;
+
+export interface SortRule {
+  field: string;
+  direction: SortDirection;
+}
+
+let nextNodeId = 0;
+
+function nodeId() {
+  nextNodeId += 1;
+  return `cql-${nextNodeId}`;
+}
+
+export function emptyGroup(combinator: Combinator = "_and"): FilterGroup {
+  return { kind: "group", id: nodeId(), combinator, children: [] };
+}
+
+export function newCondition<TFilter>(field: CqlFieldSpec<TFilter>): FilterCondition {
+  return {
+    kind: "condition",
+    id: nodeId(),
+    field: field.path,
+    operator: OPERATORS[field.scalar][0].op,
+    value: field.values?.[0] ?? "",
+  };
+}
+
+function splitList(value: string) {
+  return value
+    .split(",")
+    .map((part) => part.trim())
+    .filter((part) => part !== "");
+}
+
+// `datetime-local` inputs hold the viewer's wall-clock time; NaiveDateTime is UTC
+function coerceScalar(scalar: CqlScalar, value: string) {
+  if (scalar === "datetime" && /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2})?$/.test(value)) {
+    const local = new Date(value);
+    if (!Number.isNaN(local.getTime())) return toNaiveDateTime(local);
+  }
+  return value;
+}
+
+function conditionValue(scalar: CqlScalar, arity: OperatorArity, raw: string): unknown {
+  switch (arity) {
+    case "boolean":
+      return raw === "true";
+    case "list": {
+      const values = splitList(raw).map((v) => coerceScalar(scalar, v));
+      return values.length > 0 ? values : undefined;
+    }
+    case "range": {
+      const values = splitList(raw).map((v) => coerceScalar(scalar, v));
+      return values.length === 2 ? values : undefined;
+    }
+    default:
+      return raw.trim() === "" ? undefined : coerceScalar(scalar, raw.trim());
+  }
+}
+
+function conditionToCql<TFilter, TOrder>(
+  condition: FilterCondition,
+  schema: CqlSchema<TFilter, TOrder>
+): Record<string, unknown> | null {
+  const field = schema.filterFields.find((f) => f.path === condition.field);
+  const spec = field && operatorSpec(field.scalar, condition.operator);
+  if (!field || !spec) return null;
+
+  const value = conditionValue(field.scalar, spec.arity, condition.value);
+  if (value === undefined) return null;
+
+  // `author.username` becomes { author: { username: { _op: value } } }
+  return field.path
+    .split(".")
+    .reduceRight<Record<string, unknown>>((inner, key) => ({ [key]: inner }), {
+      [spec.op]: value,
+    });
+}
+
+function nodeToCql<TFilter, TOrder>(
+  node: FilterNode,
+  schema: CqlSchema<TFilter, TOrder>
+): Record<string, unknown> | null {
+  if (node.kind === "condition") return conditionToCql(node, schema);
+
+  const children = node.children
+    .map((child) => nodeToCql(child, schema))
+    .filter((child): child is Record<string, unknown> => child !== null);
+
+  if (children.length === 0) return null;
+  if (children.length === 1) return children[0];
+  return { [node.combinator]: children };
+}
+
+/**
+ * Builds the `where` argument for a filter tree. Incomplete conditions are
+ * skipped; returns `null` when nothing is left to filter on.
+ */
+export function toCqlFilter<TFilter, TOrder>(
+  group: FilterGroup,
+  schema: CqlSchema<TFilter, TOrder>
+): TFilter | null {
+  return nodeToCql(group, schema) as TFilter | null;
+}
+
+/** Builds the `orderBy` argument, or `null` to keep the server's default. */
+export function toCqlOrder<TFilter, TOrder>(
+  sort: readonly SortRule[],
+  schema: CqlSchema<TFilter, TOrder>
+): TOrder[] | null {
+  const rules = sort.filter((rule) => schema.orderFields.some((f) => f.name === rule.field));
+  if (rules.length === 0) return null;
+  return rules.map((rule) => ({ [rule.field]: { direction: rule.direction } }) as TOrder);
+}
+
+// Orders two scalars of the same kind; null when they can't be compared
+function compare(actual: unknown, expected: unknown): number | null {
+  if (typeof actual === "number" && typeof expected === "number") return actual - expected;
+  // NaiveDateTime strings compare in time order
+  if (typeof actual === "string" && typeof expected === "string") {
+    return actual < expected ? -1 : actual > expected ? 1 : 0;
+  }
+  return null;
+}
+
+// `%` matches any run of characters and `_` any one character
+function likePattern(pattern: string): RegExp {
+  const source = pattern
+    .replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+    .replace(/%/g, ".*")
+    .replace(/_/g, ".");
+  return new RegExp(`^${source}$`, "is");
+}
+
+function matchesOperator(op: string, expected: unknown, actual: unknown): boolean {
+  const text = (value: unknown) => String(value).toLowerCase();
+  const order = compare(actual, expected);
+
+  switch (op) {
+    case "_eq":
+      return actual === expected;
+    case "_neq":
+      return actual !== expected;
+    case "_in":
+      return Array.isArray(expected) && expected.includes(actual);
+    case "_nin":
+      return Array.isArray(expected) && !expected.includes(actual);
+    case "_isNull":
+      return (actual == null) === expected;
+    case "_icontains":
+      return actual != null && text(actual).includes(text(expected));
+    case "_istartsWith":
+      return actual != null && text(actual).startsWith(text(expected));
+    case "_iendsWith":
+      return actual != null && text(actual).endsWith(text(expected));
+    case "_ilike":
+      return actual != null && likePattern(text(expected)).test(text(actual));
+    case "_gt":
+      return order !== null && order > 0;
+    case "_gte":
+      return order !== null && order >= 0;
+    case "_lt":
+      return order !== null && order < 0;
+    case "_lte":
+      return order !== null && order <= 0;
+    case "_between": {
+      if (!Array.isArray(expected) || expected.length !== 2) return false;
+      const [low, high] = [compare(actual, expected[0]), compare(actual, expected[1])];
+      return low !== null && high !== null && low >= 0 && high <= 0;
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Whether a record satisfies a CQL `where`, for placing a record the server
+ * pushed (e.g. through a subscription) without refetching. `read` returns
+ * the record's value at a field path such as `["author", "username"]`.
+ * Unknown operators never match, so a record is left out of a filtered list
+ * rather than shown where it doesn't belong.
+ */
+export function matchesCqlFilter(
+  where: unknown,
+  read: (path: readonly string[]) => unknown,
+  path: readonly string[] = []
+): boolean {
+  if (!where || typeof where !== "object") return true;
+
+  return Object.entries(where).every(([key, value]) => {
+    if (value == null) return true;
+    switch (key) {
+      case "_and":
+        return Array.isArray(value) && value.every((child) => matchesCqlFilter(child, read, path));
+      case "_or":
+        return Array.isArray(value) && value.some((child) => matchesCqlFilter(child, read, path));
+      case "_not":
+        return !matchesCqlFilter(value, read, path);
+      default:
+        return key.startsWith("_")
+          ? matchesOperator(key, value, read(path))
+          : matchesCqlFilter(value, read, [...path, key]);
+    }
+  });
+}
+
+// Compact URL form: groups are { c: combinator, n: children } and conditions
+// are [field, operator, value] tuples. Ids are local and not serialized.
+type EncodedNode = { c: Combinator; n: EncodedNode[] } | [string, string, string];
+
+function encodeNode(node: FilterNode): EncodedNode {
+  if (node.kind === "condition") return [node.field, node.operator, node.value];
+  return { c: node.combinator, n: node.children.map(encodeNode) };
+}
+
+function decodeNode<TFilter, TOrder>(
+  encoded: unknown,
+  schema: CqlSchema<TFilter, TOrder>
+): FilterNode | null {
+  if (Array.isArray(encoded)) {
+    const [field, operator, value] = encoded;
+    const spec = schema.filterFields.find((f) => f.path === field);
+    if (!spec || typeof value !== "string" || !operatorSpec(spec.scalar, operator)) return null;
+    return { kind: "condition", id: nodeId(), field, operator, value };
+  }
+
+  if (encoded && typeof encoded === "object") {
+    const { c, n } = encoded as { c?: unknown; n?: unknown };
+    if ((c !== "_and" && c !== "_or") || !Array.isArray(n)) return null;
+    return {
+      kind: "group",
+      id: nodeId(),
+      combinator: c,
+      children: n
+        .map((child) => decodeNode(child, schema))
+        .filter((child): child is FilterNode => child !== null),
+    };
+  }
+
+  return null;
+}
+
+/** Serializes a filter tree for a query string; `null` when it is empty. */
+export function encodeFilter(group: FilterGroup): string | null {
+  return group.children.length === 0 ? null : JSON.stringify(encodeNode(group));
+}
+
+/**
+ * Parses `encodeFilter` output, dropping anything the schema doesn't know so
+ * hand-edited or stale URLs degrade to a smaller filter instead of failing.
+ */
+export function decodeFilter<TFilter, TOrder>(
+  raw: string | null,
+  schema: CqlSchema<TFilter, TOrder>
+): FilterGroup {
+  if (!raw) return emptyGroup();
+
+  try {
+    const node = decodeNode(JSON.parse(raw), schema);
+    return node?.kind === "group" ? node : emptyGroup();
+  } catch {
+    return emptyGroup();
+  }
+}
+
+/** Serializes sort rules as `field.asc,field.desc`; `null` when empty. */
+export function encodeSort(sort: readonly SortRule[]): string | null {
+  if (sort.length === 0) return null;
+  return sort.map((rule) => `${rule.field}.${rule.direction.toLowerCase()}`).join(",");
+}
+
+export function decodeSort<TFilter, TOrder>(
+  raw: string | null,
+  schema: CqlSchema<TFilter, TOrder>
+): SortRule[] {
+  if (!raw) return [];
+
+  return raw.split(",").flatMap((part) => {
+    const [field, direction] = part.split(".");
+    if (!schema.orderFields.some((f) => f.name === field)) return [];
+    if (direction !== "asc" && direction !== "desc") return [];
+    return [{ field, direction: direction === "asc" ? "ASC" : "DESC" } as SortRule];
+  });
+}
@@ -0,0 +1,29 @@
+import React from "react";
+import { errorId } from "./useForm";
+
+interface Props {
+  /** The id of the control inside; also names its error message. */
+  name: string;
+  label: string;
+  required?: boolean;
+  error?: string;
+  children: React.ReactNode;
+}
+
+/** A labelled form control with its validation message underneath. */
+export function FormField({ name, label, required = false, error, children }: Props) {
+  return (
+    <div className={`form-group ${error ? "form-group-invalid" : ""}`}>
+      <label htmlFor={name}>
+        {label}
+        {required && " *"}
+      </label>
+      {children}
+      {error && (
+        <p className="field-error" id={errorId(name)}>
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
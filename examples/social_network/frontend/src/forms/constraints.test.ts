@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { rulesFor } from "./constraints";
+import { validate } from "./validators";
+
+describe("rulesFor", () => {
+  const rules = rulesFor<{ username: string; bio: string }>(
+    { username: { required: true, format: "^[a-z]+$", minLength: 2, maxLength: 4 }, bio: { maxLength: 3 } },
+    { username: { required: "createUser.usernameRequired" } }
+  );
+  const errors = (username: string, bio = "") => validate({ username, bio }, rules);
+
+  it("checks required, then format, then length", () => {
+    expect(errors("")).toEqual({ username: { key: "createUser.usernameRequired" } });
+    expect(errors("A")).toEqual({ username: { key: "forms.format" } });
+    expect(errors("a")).toEqual({ username: { key: "forms.minLength", values: { min: 2 } } });
+    expect(errors("abcde", "long")).toEqual({
+      username: { key: "forms.maxLength", values: { max: 4 } },
+      bio: { key: "forms.maxLength", values: { max: 3 } },
+    });
+    expect(errors("abc")).toEqual({});
+  });
+});
@@ -0,0 +1,45 @@
+import type { MessageKey } from "../i18n/catalog";
+import constraints from "./constraints.json";
+import { maxLength, minLength, pattern, required, type FieldRules, type Validator } from "./validators";
+
+/** What a mutation's changeset requires of one argument. */
+export interface FieldConstraints {
+  required?: boolean;
+  /** A regular expression the value must match. */
+  format?: string;
+  minLength?: number;
+  maxLength?: number;
+}
+
+/**
+ * The changeset validations behind each form's mutation, per argument.
+ * `constraints.json` is written by the backend
+ * (`mix social_network.export_constraints`) and its tests fail when the file
+ * no longer matches the changesets.
+ */
+export const MUTATION_CONSTRAINTS: Record<keyof typeof constraints, Record<string, FieldConstraints>> = constraints;
+
+/** Messages to use instead of the generic `forms.*` ones, per constraint. */
+export type ConstraintMessages = { [C in keyof FieldConstraints]?: MessageKey };
+
+/**
+ * Rules checking `fields` against their constraints: required first, then
+ * format, then length. `messages` words the failures for particular fields.
+ */
+export function rulesFor<TValues>(
+  fields: { [K in keyof TValues]?: FieldConstraints },
+  messages: { [K in keyof TValues]?: ConstraintMessages } = {}
+): FieldRules<TValues> {
+  const rules: FieldRules<TValues> = {};
+  for (const name of Object.keys(fields) as (keyof TValues)[]) {
+    const { required: isRequired, format, minLength: min, maxLength: max } = fields[name] ?? {};
+    const keys = messages[name] ?? {};
+    const fieldRules: Validator[] = [];
+    if (isRequired) fieldRules.push(required(keys.required));
+    if (format != null) fieldRules.push(pattern(new RegExp(format), keys.format));
+    if (min != null) fieldRules.push(minLength(min, keys.minLength));
+    if (max != null) fieldRules.push(maxLength(max, keys.maxLength));
+    rules[name] = fieldRules;
+  }
+  return rules;
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { AuthError, NetworkError, ValidationError } from "../relay/errors";
+import { mapServerErrors } from "./serverErrors";
+
+const changesetError = (field: string, message: string) => ({
+  message,
+  path: ["createUser"],
+  extensions: { code: "VALIDATION_FAILED", field },
+});
+
+describe("mapServerErrors", () => {
+  it("puts changeset errors on the fields they name", () => {
+    const error = new ValidationError("invalid", [
+      changesetError("username", "username has already been taken"),
+      changesetError("displayName", "display name should be at most 80 character(s)"),
+    ]);
+
+    expect(mapServerErrors(error, ["email", "username", "displayName"])).toEqual({
+      fields: {
+        username: "username has already been taken",
+        displayName: "display name should be at most 80 character(s)",
+      },
+      form: null,
+    });
+  });
+
+  it("keeps the first message when a field has several", () => {
+    const error = new ValidationError("invalid", [
+      changesetError("username", "username is too short"),
+      changesetError("username", "username is invalid"),
+    ]);
+
+    expect(mapServerErrors(error, ["username"]).fields).toEqual({ username: "username is too short" });
+  });
+
+  it("reports errors for fields the form doesn't show at form level", () => {
+    const error = new ValidationError("invalid", [
+      changesetError("bio", "bio is too long"),
+      { message: "Argument \"email\" has invalid value" },
+    ]);
+
+    expect(mapServerErrors(error, ["email"])).toEqual({
+      fields: {},
+      form: 'bio is too long; Argument "email" has invalid value',
+    });
+  });
+
+  it("describes non-validation failures", () => {
+    expect(mapServerErrors(new AuthError("Not authenticated"), ["body"])).toEqual({
+      fields: {},
+      form: "You need to be logged in to do that.",
+    });
+    expect(mapServerErrors(new NetworkError("offline", { retryable: true }), ["body"]).form).toBe(
+      "Couldn't reach the server. Check your connection and try again."
+    );
+  });
+});
@@ -0,0 +1,41 @@
+import type { Translate } from "../i18n/catalog";
+import { describeError, ValidationError } from "../relay/errors";
+
+export interface MappedErrors {
+  /** Messages for known fields, keyed by GraphQL argument name. */
+  fields: Record<string, string>;
+  /** Everything that doesn't belong to a known field, or null. */
+  form: string | null;
+}
+
+/**
+ * Splits a failed mutation's errors between fields and the form. The server
+ * tags changeset errors with `extensions.field` (see the ChangesetErrors
+ * middleware). Validation errors for fields the form doesn't show, and all
+ * other failures (auth, network, ...), become the form-level message,
+ * described with `t`.
+ */
+export function mapServerErrors(
+  error: unknown,
+  fieldNames: readonly string[],
+  t?: Translate
+): MappedErrors {
+  if (!(error instanceof ValidationError)) {
+    return { fields: {}, form: describeError(error, t) };
+  }
+
+  const fields: Record<string, string> = {};
+  const unplaced: string[] = [];
+  for (const payload of error.errors) {
+    const field = payload.extensions?.field;
+    if (typeof field === "string" && fieldNames.includes(field)) {
+      fields[field] ??= payload.message;
+    } else {
+      unplaced.push(payload.message);
+    }
+  }
+
+  if (unplaced.length > 0) return { fields, form: unplaced.join("; ") };
+  if (Object.keys(fields).length === 0) return { fields, form: describeError(error, t) };
+  return { fields, form: null };
+}
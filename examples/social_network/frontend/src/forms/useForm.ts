@@ -0,0 +1,128 @@
+import React, { useState } from "react";
+import { useI18n } from "../i18n/I18nProvider";
+import { mapServerErrors } from "./serverErrors";
+import { validate, type FieldRules, type ValidationMessage } from "./validators";
+
+type FieldElement = HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement;
+
+/** Props to spread onto an input, textarea or select. */
+export interface FieldProps {
+  id: string;
+  name: string;
+  value: string;
+  onChange: (e: React.ChangeEvent<FieldElement>) => void;
+  onBlur: () => void;
+  "aria-invalid": boolean;
+  "aria-describedby": string | undefined;
+}
+
+export interface Form<TValues> {
+  values: TValues;
+  /** Errors that don't belong to one field, e.g. a network failure. */
+  formError: string | null;
+  /** The message to show under a field, if any. */
+  errorFor: (name: string) => string | undefined;
+  field: (name: keyof TValues & string) => FieldProps;
+  setValue: (name: keyof TValues & string, value: string) => void;
+  /** For inputs the form doesn't hold a value for, like a file picker. */
+  setFieldError: (name: string, message: string | null) => void;
+  /** Validates everything, then calls `onValid` if nothing failed. */
+  handleSubmit: (onValid: (values: TValues) => void) => (e: React.FormEvent) => void;
+  /** Shows a failed mutation's errors next to the fields they are about. */
+  setServerErrors: (error: unknown) => void;
+  reset: () => void;
+}
+
+/** The id `FormField` gives a field's error message. */
+export function errorId(name: string) {
+  return `${name}-error`;
+}
+
+/**
+ * Form state with client-side validation and server error mapping. A field's
+ * client-side error shows once it has been blurred or the form submitted;
+ * an error from the server shows until that field is edited.
+ * `otherFields` names fields outside `values` (e.g. uploads) that server
+ * errors may be reported for.
+ */
+export function useForm<TValues extends Record<string, string>>(
+  initialValues: TValues,
+  rules: FieldRules<TValues>,
+  otherFields: readonly string[] = []
+): Form<TValues> {
+  const [initial] = useState(initialValues);
+  const [values, setValues] = useState(initialValues);
+  const [touched, setTouched] = useState<Record<string, boolean>>({});
+  const [submitted, setSubmitted] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [formError, setFormError] = useState<string | null>(null);
+  const { t } = useI18n();
+
+  const clientErrors: Record<string, ValidationMessage | undefined> = validate(values, rules);
+
+  const errorFor = (name: string) => {
+    const message = (touched[name] || submitted) && clientErrors[name];
+    return (message && t(message.key, message.values)) || fieldErrors[name];
+  };
+
+  const setFieldError = (name: string, message: string | null) => {
+    setFieldErrors(({ [name]: _previous, ...rest }) => (message ? { ...rest, [name]: message } : rest));
+  };
+
+  const setValue = (name: keyof TValues & string, value: string) => {
+    setValues((current) => ({ ...current, [name]: value }));
+    setFieldError(name, null);
+  };
+
+  const field = (name: keyof TValues & string): FieldProps => {
+    const invalid = Boolean(errorFor(name));
+    return {
+      id: name,
+      name,
+      value: values[name],
+      onChange: (e) => setValue(name, e.target.value),
+      onBlur: () => setTouched((current) => ({ ...current, [name]: true })),
+      "aria-invalid": invalid,
+      "aria-describedby": invalid ? errorId(name) : undefined,
+    };
+  };
+
+  const handleSubmit = (onValid: (values: TValues) => void) => (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitted(true);
+    setFormError(null);
+
+    const firstInvalid = Object.keys(values).find((name) => clientErrors[name]);
+    if (firstInvalid) {
+      document.getElementById(firstInvalid)?.focus();
+      return;
+    }
+    onValid(values);
+  };
+
+  const setServerErrors = (error: unknown) => {
+    const { fields, form } = mapServerErrors(error, [...Object.keys(values), ...otherFields], t);
+    setFieldErrors(fields);
+    setFormError(form);
+  };
+
+  const reset = () => {
+    setValues(initial);
+    setTouched({});
+    setSubmitted(false);
+    setFieldErrors({});
+    setFormError(null);
+  };
+
+  return {
+    values,
+    formError,
+    errorFor,
+    field,
+    setValue,
+    setFieldError,
+    handleSubmit,
+    setServerErrors,
+    reset,
+  };
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { email, maxLength, minLength, pattern, required, validate } from "./validators";
+
+describe("validators", () => {
+  it("only `required` rejects empty values", () => {
+    expect(required()("  ")).toEqual({ key: "forms.required" });
+    expect(email()("")).toBeNull();
+    expect(pattern(/^\d+$/)("")).toBeNull();
+    expect(minLength(8)("")).toBeNull();
+  });
+
+  it("checks email, pattern and length rules", () => {
+    expect(email()("alice@example")).toEqual({ key: "forms.email" });
+    expect(email()("alice@example.com")).toBeNull();
+    expect(pattern(/^\d+$/, "createUser.usernamePattern")("12a")).toEqual({ key: "createUser.usernamePattern" });
+    expect(minLength(3)("ab")).toEqual({ key: "forms.minLength", values: { min: 3 } });
+    expect(maxLength(3)("abcd")).toEqual({ key: "forms.maxLength", values: { max: 3 } });
+    expect(maxLength(3)("abc")).toBeNull();
+  });
+});
+
+describe("validate", () => {
+  it("reports the first failing rule per field and skips valid fields", () => {
+    const errors = validate(
+      { email: "", username: "ok", bio: "" },
+      {
+        email: [required("createUser.emailRequired"), email()],
+        username: [required(), minLength(2)],
+      }
+    );
+
+    expect(errors).toEqual({ email: { key: "createUser.emailRequired" } });
+  });
+});
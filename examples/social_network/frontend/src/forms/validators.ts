@@ -0,0 +1,65 @@
+import type { MessageKey } from "../i18n/catalog";
+import type { MessageValues } from "../i18n/messageFormat";
+
+/**
+ * Client-side field checks. Each form's rules come from its mutation's
+ * changeset (see `constraints.ts`), so most mistakes are caught before a
+ * round trip; the server stays the authority and its errors are mapped back
+ * onto fields by `serverErrors.ts`.
+ */
+
+/** A catalog message for an invalid field, translated when it's shown. */
+export interface ValidationMessage {
+  key: MessageKey;
+  values?: MessageValues;
+}
+
+/** Returns a message when `value` is invalid, otherwise null. */
+export type Validator = (value: string) => ValidationMessage | null;
+
+export type FieldRules<TValues> = { [K in keyof TValues]?: readonly Validator[] };
+
+export type FieldErrors<TValues> = { [K in keyof TValues]?: ValidationMessage };
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** For non-null arguments. The other validators accept empty values. */
+export function required(key: MessageKey = "forms.required"): Validator {
+  return (value) => (value.trim() === "" ? { key } : null);
+}
+
+export function email(key: MessageKey = "forms.email"): Validator {
+  return (value) => (value === "" || EMAIL_PATTERN.test(value) ? null : { key });
+}
+
+export function pattern(regex: RegExp, key: MessageKey = "forms.format"): Validator {
+  return (value) => (value === "" || regex.test(value) ? null : { key });
+}
+
+/** `key`'s message gets the limit as `min`. */
+export function minLength(min: number, key: MessageKey = "forms.minLength"): Validator {
+  return (value) => (value === "" || value.length >= min ? null : { key, values: { min } });
+}
+
+/** `key`'s message gets the limit as `max`. */
+export function maxLength(max: number, key: MessageKey = "forms.maxLength"): Validator {
+  return (value) => (value.length <= max ? null : { key, values: { max } });
+}
+
+/** The first failing rule's message for each invalid field. */
+export function validate<TValues extends Record<string, string>>(
+  values: TValues,
+  rules: FieldRules<TValues>
+): FieldErrors<TValues> {
+  const errors: FieldErrors<TValues> = {};
+  for (const name of Object.keys(rules) as (keyof TValues)[]) {
+    for (const rule of rules[name] ?? []) {
+      const message = rule(values[name]);
+      if (message) {
+        errors[name] = message;
+        break;
+      }
+    }
+  }
+  return errors;
+}
@@ -0,0 +1,125 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from "react";
+import {
+  createTranslator,
+  DEFAULT_CATALOG,
+  DEFAULT_LOCALE,
+  isLocale,
+  loadCatalog,
+  negotiateLocale,
+  type Catalog,
+  type Locale,
+  type Translate,
+} from "./catalog";
+
+const STORAGE_KEY = "social-network.locale";
+
+export interface LoadedLocale {
+  locale: Locale;
+  catalog: Catalog;
+}
+
+export interface I18nContextValue {
+  /** BCP 47 tag for Intl formatters, e.g. dates. */
+  locale: Locale;
+  t: Translate;
+  /** Loads `locale`'s catalog, then switches to it and remembers the choice. */
+  setLocale: (locale: Locale) => Promise<void>;
+  /** The locale being switched to while its catalog loads. */
+  pendingLocale: Locale | null;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+// Storage can be unavailable, e.g. blocked by privacy settings; the choice
+// is then only kept until the page is reloaded
+function storedLocale(): string | null {
+  try {
+    return window.localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+function storeLocale(locale: Locale) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, locale);
+  } catch {
+    // Not remembered, see storedLocale
+  }
+}
+
+/** The locale chosen with the switcher, else the browser's best match. */
+export function preferredLocale(): Locale {
+  const stored = storedLocale();
+  return isLocale(stored) ? stored : negotiateLocale(navigator.languages ?? [navigator.language]);
+}
+
+export const DEFAULT_LOADED_LOCALE: LoadedLocale = { locale: DEFAULT_LOCALE, catalog: DEFAULT_CATALOG };
+
+/**
+ * The preferred locale with its catalog, for the first render, so that
+ * users of other languages don't see the English UI flash by. Falls back
+ * to English if the catalog can't be loaded.
+ */
+export async function loadInitialLocale(): Promise<LoadedLocale> {
+  try {
+    const locale = preferredLocale();
+    return { locale, catalog: await loadCatalog(locale) };
+  } catch {
+    return DEFAULT_LOADED_LOCALE;
+  }
+}
+
+interface Props {
+  children: React.ReactNode;
+  /** Defaults to English. */
+  initial?: LoadedLocale;
+}
+
+/**
+ * Provides the UI's messages. Switching locale keeps the current messages on
+ * screen until the new catalog has loaded, and a switch superseded by
+ * another before its catalog arrives is dropped.
+ */
+export function I18nProvider({ children, initial }: Props) {
+  const [current, setCurrent] = useState<LoadedLocale>(initial ?? DEFAULT_LOADED_LOCALE);
+  const [pendingLocale, setPendingLocale] = useState<Locale | null>(null);
+  const latestRequest = useRef<Locale | null>(null);
+
+  useEffect(() => {
+    document.documentElement.lang = current.locale;
+  }, [current.locale]);
+
+  const setLocale = useCallback(async (locale: Locale) => {
+    latestRequest.current = locale;
+    setPendingLocale(locale);
+    try {
+      const catalog = await loadCatalog(locale);
+      if (latestRequest.current !== locale) return;
+      storeLocale(locale);
+      setCurrent({ locale, catalog });
+    } finally {
+      if (latestRequest.current === locale) setPendingLocale(null);
+    }
+  }, []);
+
+  const value = useMemo(
+    () => ({
+      locale: current.locale,
+      t: createTranslator(current.locale, current.catalog),
+      setLocale,
+      pendingLocale,
+    }),
+    [current, setLocale, pendingLocale]
+  );
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export function useI18n(): I18nContextValue {
+  const i18n = useContext(I18nContext);
+  if (!i18n) {
+    throw new Error("useI18n must be used within an I18nProvider");
+  }
+  return i18n;
+}
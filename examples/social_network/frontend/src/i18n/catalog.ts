@@ -0,0 +1,81 @@
+import en from "./messages/en.json";
+import { formatMessage, formatMessageToParts, type MessageValues } from "./messageFormat";
+
+/**
+ * Message catalogs are flat JSON files in `messages/`, one per locale, with
+ * ICU MessageFormat strings (see `messageFormat.ts`). English is the source
+ * catalog: it is bundled, defines the keys, and fills in for anything another
+ * catalog lacks. The others are loaded on demand. `npm run i18n:check`
+ * reports keys a catalog is missing.
+ */
+export type Catalog = Record<string, string>;
+
+export type MessageKey = keyof typeof en;
+
+export interface Translate {
+  (key: MessageKey, values?: MessageValues): string;
+  /** The message in pieces, for values that aren't text, e.g. links. */
+  parts: <T>(key: MessageKey, values?: Record<string, T>) => (string | T)[];
+}
+
+export const DEFAULT_LOCALE = "en";
+
+export const DEFAULT_CATALOG: Catalog = en;
+
+export const LOCALES = {
+  en: { name: "English", load: async () => DEFAULT_CATALOG },
+  es: { name: "Español", load: () => import("./messages/es.json").then((module) => module.default) },
+} satisfies Record<string, { name: string; load: () => Promise<Catalog> }>;
+
+export type Locale = keyof typeof LOCALES;
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === "string" && Object.keys(LOCALES).includes(value);
+}
+
+/** The first of the browser's preferred languages we have a catalog for. */
+export function negotiateLocale(preferred: readonly string[]): Locale {
+  for (const tag of preferred) {
+    const language = tag.toLowerCase().split("-")[0];
+    if (isLocale(language)) return language;
+  }
+  return DEFAULT_LOCALE;
+}
+
+const loading = new Map<Locale, Promise<Catalog>>();
+
+/** Fetches `locale`'s catalog once; later calls share the same promise. */
+export function loadCatalog(locale: Locale): Promise<Catalog> {
+  let catalog = loading.get(locale);
+  if (!catalog) {
+    catalog = LOCALES[locale].load();
+    // Let a failed load be retried
+    catalog.catch(() => loading.delete(locale));
+    loading.set(locale, catalog);
+  }
+  return catalog;
+}
+
+const reportedMissing = new Set<string>();
+
+/** Looks messages up in `catalog`, falling back to English for keys it lacks. */
+export function createTranslator(locale: Locale, catalog: Catalog): Translate {
+  const lookup = (key: MessageKey): [string, string] => {
+    const message = catalog[key];
+    if (message !== undefined) return [locale, message];
+
+    if (import.meta.env.DEV && !reportedMissing.has(`${locale}:${key}`)) {
+      reportedMissing.add(`${locale}:${key}`);
+      console.warn(`Missing "${locale}" translation for "${key}"; using English`);
+    }
+    return [DEFAULT_LOCALE, en[key]];
+  };
+
+  const t = (key: MessageKey, values?: MessageValues) => formatMessage(...lookup(key), values);
+  t.parts = <T>(key: MessageKey, values?: Record<string, T>) =>
+    formatMessageToParts(...lookup(key), values) as (string | T)[];
+  return t;
+}
+
+/** English messages, for code that runs outside the I18nProvider. */
+export const defaultTranslate = createTranslator(DEFAULT_LOCALE, en);
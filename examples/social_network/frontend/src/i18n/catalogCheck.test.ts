@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { checkCatalog, checkSource } from "./catalogCheck";
+
+const SOURCE = {
+  "feed.title": "Feed",
+  "post.likes": "{count, plural, one {# like} other {# likes}}",
+  "users.noMatches": "No users match “{term}”.",
+};
+
+describe("checkCatalog", () => {
+  it("flags keys without a translation and keys English no longer has", () => {
+    const report = checkCatalog(SOURCE, {
+      "feed.title": "Publicaciones",
+      "users.noMatches": "Ningún usuario coincide con «{term}».",
+      "feed.subtitle": "Lo último",
+    });
+
+    expect(report).toEqual({ untranslated: ["post.likes"], stale: ["feed.subtitle"], problems: [] });
+  });
+
+  it("flags translations that won't format like the source", () => {
+    const report = checkCatalog(SOURCE, {
+      "feed.title": "Publicaciones",
+      "post.likes": "{count} me gusta",
+      "users.noMatches": "Ningún usuario coincide con «{query}».",
+    });
+
+    expect(report.problems).toEqual([
+      "post.likes: uses count (argument) instead of count (plural)",
+      "users.noMatches: uses query (argument) instead of term (argument)",
+    ]);
+  });
+
+  it("reports invalid ICU syntax", () => {
+    expect(checkSource({ ...SOURCE, "post.comments": "{count, plural, one {# comment}}" })).toEqual([
+      expect.stringMatching(/^post\.comments: Missing the required "other" case/),
+    ]);
+  });
+});
@@ -0,0 +1,62 @@
+import type { Catalog } from "./catalog";
+import { messageArguments, validateMessage } from "./messageFormat";
+
+/**
+ * Compares a translation catalog with the English source catalog; run for
+ * every catalog by `messages.test.ts` (`npm run i18n:check`).
+ */
+
+export interface CatalogReport {
+  /** Keys in the source catalog without a translation; these show in English. */
+  untranslated: string[];
+  /** Keys the source catalog no longer has. */
+  stale: string[];
+  /** Translations that won't format like the source, e.g. a renamed argument. */
+  problems: string[];
+}
+
+function syntaxProblem(key: string, message: string): string | null {
+  try {
+    validateMessage(message);
+    return null;
+  } catch (error) {
+    return `${key}: ${(error as Error).message}`;
+  }
+}
+
+function describeArguments(message: string): string {
+  const args = [...messageArguments(message)].map(([name, kind]) => `${name} (${kind})`);
+  return args.sort().join(", ") || "none";
+}
+
+/** Syntax errors in the source catalog itself. */
+export function checkSource(source: Catalog): string[] {
+  return Object.entries(source).flatMap(([key, message]) => syntaxProblem(key, message) ?? []);
+}
+
+export function checkCatalog(source: Catalog, catalog: Catalog): CatalogReport {
+  const report: CatalogReport = { untranslated: [], stale: [], problems: [] };
+
+  for (const [key, sourceMessage] of Object.entries(source)) {
+    const message = catalog[key];
+    if (message === undefined) {
+      report.untranslated.push(key);
+      continue;
+    }
+
+    const problem = syntaxProblem(key, message);
+    if (problem) {
+      report.problems.push(problem);
+      continue;
+    }
+
+    const expected = describeArguments(sourceMessage);
+    const actual = describeArguments(message);
+    if (syntaxProblem(key, sourceMessage) === null && expected !== actual) {
+      report.problems.push(`${key}: uses ${actual} instead of ${expected}`);
+    }
+  }
+
+  report.stale = Object.keys(catalog).filter((key) => !(key in source));
+  return report;
+}
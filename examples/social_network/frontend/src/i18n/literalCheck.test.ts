@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { findLiterals } from "./literalCheck";
+
+describe("findLiterals", () => {
+  it("flags JSX text, rendered strings and readable attributes", () => {
+    const source = `
+      export function Form({ busy }: { busy: boolean }) {
+        return (
+          <form aria-label="Sign up">
+            <h2>Create account</h2>
+            <input placeholder={busy ? "Wait..." : t("form.name")} />
+            <button>{busy ? "Saving..." : t("form.save")}</button>
+          </form>
+        );
+      }
+    `;
+
+    expect(findLiterals("Form.tsx", source)).toEqual([
+      "Form.tsx:4: Sign up",
+      "Form.tsx:5: Create account",
+      "Form.tsx:6: Wait...",
+      "Form.tsx:7: Saving...",
+    ]);
+  });
+
+  it("allows catalog messages, symbols and attributes nobody reads", () => {
+    const source = `
+      const view = (
+        <div className="card" data-testid="card">
+          {t("card.title")} · <button aria-label={t("card.close")}>✕</button>
+        </div>
+      );
+    `;
+
+    expect(findLiterals("Card.tsx", source)).toEqual([]);
+  });
+});
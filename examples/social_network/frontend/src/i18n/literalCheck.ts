@@ -0,0 +1,67 @@
+import ts from "typescript";
+
+/**
+ * Finds UI text written into components instead of the message catalogs,
+ * like ESLint's `react/jsx-no-literals`; run over every component by
+ * `messages.test.ts` (`npm run i18n:check`). Reported: JSX text, string
+ * literals rendered as children, and literals given to attributes people
+ * read. Text without letters, e.g. "✕" or "·", is allowed.
+ */
+
+// Attributes whose value is shown or read out to the user
+const TEXT_ATTRIBUTES = new Set(["aria-label", "alt", "label", "placeholder", "title"]);
+
+const hasWords = (text: string) => /\p{L}/u.test(text);
+
+// The literals an expression can evaluate to, e.g. both branches of `a ? "x" : "y"`
+function literalsOf(expression: ts.Expression): ts.Node[] {
+  if (ts.isStringLiteral(expression) || ts.isNoSubstitutionTemplateLiteral(expression)) return [expression];
+  if (ts.isTemplateExpression(expression)) {
+    return [expression.head, ...expression.templateSpans.map((span) => span.literal)];
+  }
+  if (ts.isParenthesizedExpression(expression)) return literalsOf(expression.expression);
+  if (ts.isConditionalExpression(expression)) {
+    return [...literalsOf(expression.whenTrue), ...literalsOf(expression.whenFalse)];
+  }
+  if (ts.isBinaryExpression(expression)) {
+    const operator = expression.operatorToken.kind;
+    if (operator === ts.SyntaxKind.AmpersandAmpersandToken) return literalsOf(expression.right);
+    if (operator === ts.SyntaxKind.BarBarToken || operator === ts.SyntaxKind.QuestionQuestionToken) {
+      return [...literalsOf(expression.left), ...literalsOf(expression.right)];
+    }
+  }
+  return [];
+}
+
+function literalText(node: ts.Node): string {
+  return ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node) || ts.isTemplateLiteralToken(node)
+    ? node.text
+    : node.getText();
+}
+
+/** Each hard-coded text in `source`, as `file:line: text`. */
+export function findLiterals(fileName: string, source: string): string[] {
+  const file = ts.createSourceFile(fileName, source, ts.ScriptTarget.Latest, true, ts.ScriptKind.TSX);
+  const found: string[] = [];
+
+  const report = (node: ts.Node, text: string) => {
+    if (!hasWords(text)) return;
+    const { line } = file.getLineAndCharacterOfPosition(node.getStart(file));
+    found.push(`${fileName}:${line + 1}: ${text.trim()}`);
+  };
+
+  const visit = (node: ts.Node) => {
+    if (ts.isJsxText(node)) {
+      report(node, node.text);
+    } else if (ts.isJsxExpression(node) && node.expression && !ts.isJsxAttribute(node.parent)) {
+      literalsOf(node.expression).forEach((literal) => report(literal, literalText(literal)));
+    } else if (ts.isJsxAttribute(node) && TEXT_ATTRIBUTES.has(node.name.getText(file)) && node.initializer) {
+      const value = ts.isJsxExpression(node.initializer) ? node.initializer.expression : node.initializer;
+      if (value) literalsOf(value).forEach((literal) => report(literal, literalText(literal)));
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  visit(file);
+  return found;
+}
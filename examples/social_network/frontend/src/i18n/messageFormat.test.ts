@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { formatMessage, formatMessageToParts, MessageSyntaxError } from "./messageFormat";
+
+const LIKES = "{count, plural, =0 {No likes yet} one {# like} other {# likes}}";
+
+describe("formatMessage", () => {
+  it("picks the plural case for the locale, with exact matches first", () => {
+    expect(formatMessage("en", LIKES, { count: 0 })).toBe("No likes yet");
+    expect(formatMessage("en", LIKES, { count: 1 })).toBe("1 like");
+    expect(formatMessage("en", LIKES, { count: 1234 })).toBe("1,234 likes");
+    expect(formatMessage("es", "{n, plural, one {# comentario} other {# comentarios}}", { n: 1234 })).toBe(
+      "1234 comentarios"
+    );
+  });
+
+  it("formats numbers, dates and selections", () => {
+    expect(formatMessage("en", "{p, number, percent} done", { p: 0.42 })).toBe("42% done");
+    expect(formatMessage("de", "{n, number}", { n: 1234.5 })).toBe("1.234,5");
+    expect(formatMessage("en", "{d, date, long}", { d: new Date(2024, 2, 10) })).toBe("March 10, 2024");
+    expect(formatMessage("en", "{who, select, self {You} other {{who}}} liked it", { who: "self" })).toBe(
+      "You liked it"
+    );
+    expect(formatMessage("en", "{who, select, self {You} other {{who}}} liked it", { who: "Ana" })).toBe(
+      "Ana liked it"
+    );
+  });
+
+  it("reads apostrophes as ICU does", () => {
+    expect(formatMessage("en", "You haven't posted")).toBe("You haven't posted");
+    expect(formatMessage("en", "'{literal}' and it''s {x}", { x: 1 })).toBe("{literal} and it's 1");
+  });
+
+  it("leaves missing values visible", () => {
+    expect(formatMessage("en", "Hello, {name}!")).toBe("Hello, {name}!");
+  });
+
+  it("rejects malformed messages", () => {
+    expect(() => formatMessage("en", "{count, plural, one {# like}}")).toThrow(MessageSyntaxError);
+    expect(() => formatMessage("en", "Unclosed {name")).toThrow(MessageSyntaxError);
+    expect(() => formatMessage("en", "{n, currency}")).toThrow('Unknown argument type "currency"');
+  });
+});
+
+describe("formatMessageToParts", () => {
+  it("keeps non-text values as they are", () => {
+    const link = { type: "a" };
+    expect(formatMessageToParts("en", "Built with {link}, {n, number} times", { link, n: 2 })).toEqual([
+      "Built with ",
+      link,
+      ", 2 times",
+    ]);
+  });
+});
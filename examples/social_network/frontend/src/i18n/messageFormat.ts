@@ -0,0 +1,288 @@
+/**
+ * A small ICU MessageFormat implementation, enough for the catalogs in
+ * `messages/`: `{name}`, `{n, number}` (optionally `integer` or `percent`),
+ * `{d, date}` (optionally `short`, `medium`, `long` or `full`), and
+ * `{n, plural, ...}` / `{x, select, ...}` with `=N` cases and `#`.
+ * Apostrophes quote syntax as in ICU: `'{'` is a literal brace and `''`
+ * an apostrophe; any other apostrophe is just text.
+ */
+
+export class MessageSyntaxError extends Error {
+  constructor(message: string, readonly source: string) {
+    super(`${message} in "${source}"`);
+    this.name = "MessageSyntaxError";
+  }
+}
+
+type Part =
+  | string
+  | { type: "pound" }
+  | { type: "argument"; name: string }
+  | { type: "number"; name: string; style: string | null }
+  | { type: "date"; name: string; style: string | null }
+  | { type: "plural" | "select"; name: string; options: Record<string, Part[]> };
+
+export type ArgumentKind = "argument" | "number" | "date" | "plural" | "select";
+
+/** A message's values by argument name. Anything else in them is rendered as-is. */
+export type MessageValues = Record<string, unknown>;
+
+const NUMBER_STYLES = ["integer", "percent"];
+const DATE_STYLES = ["short", "medium", "long", "full"];
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly source: string) {}
+
+  parse(): Part[] {
+    const parts = this.parseMessage(false);
+    if (this.index < this.source.length) this.fail("Unmatched }");
+    return parts;
+  }
+
+  private fail(message: string): never {
+    throw new MessageSyntaxError(message, this.source);
+  }
+
+  private parseMessage(inPlural: boolean): Part[] {
+    const parts: Part[] = [];
+    let text = "";
+    const flush = () => {
+      if (text) parts.push(text);
+      text = "";
+    };
+
+    while (this.index < this.source.length) {
+      const char = this.source[this.index];
+      if (char === "}") break;
+
+      if (char === "{") {
+        flush();
+        parts.push(this.parseArgument());
+      } else if (char === "#" && inPlural) {
+        flush();
+        parts.push({ type: "pound" });
+        this.index++;
+      } else if (char === "'") {
+        text += this.parseApostrophe(inPlural);
+      } else {
+        text += char;
+        this.index++;
+      }
+    }
+
+    flush();
+    return parts;
+  }
+
+  private parseApostrophe(inPlural: boolean): string {
+    const next = this.source[this.index + 1];
+    if (next === "'") {
+      this.index += 2;
+      return "'";
+    }
+    if (next !== "{" && next !== "}" && !(next === "#" && inPlural)) {
+      this.index++;
+      return "'";
+    }
+
+    // Quoted literal text, up to the next lone apostrophe
+    let text = "";
+    this.index++;
+    while (this.index < this.source.length) {
+      if (this.source.startsWith("''", this.index)) {
+        text += "'";
+        this.index += 2;
+      } else if (this.source[this.index] === "'") {
+        this.index++;
+        return text;
+      } else {
+        text += this.source[this.index++];
+      }
+    }
+    return text;
+  }
+
+  private skipWhitespace() {
+    while (/\s/.test(this.source[this.index] ?? "")) this.index++;
+  }
+
+  private parseWord(): string {
+    this.skipWhitespace();
+    const match = /^[^\s{},#']+/.exec(this.source.slice(this.index));
+    if (!match) this.fail(`Expected a name at ${this.index}`);
+    this.index += match[0].length;
+    this.skipWhitespace();
+    return match[0];
+  }
+
+  private expect(char: string) {
+    if (this.source[this.index] !== char) this.fail(`Expected "${char}" at ${this.index}`);
+    this.index++;
+  }
+
+  private parseArgument(): Part {
+    this.expect("{");
+    const name = this.parseWord();
+
+    if (this.source[this.index] === "}") {
+      this.index++;
+      return { type: "argument", name };
+    }
+
+    this.expect(",");
+    const type = this.parseWord();
+
+    if (type === "plural" || type === "select") {
+      this.expect(",");
+      const options = this.parseOptions(type === "plural");
+      this.expect("}");
+      return { type, name, options };
+    }
+
+    if (type === "number" || type === "date") {
+      let style: string | null = null;
+      if (this.source[this.index] === ",") {
+        this.index++;
+        style = this.parseWord();
+        const styles = type === "number" ? NUMBER_STYLES : DATE_STYLES;
+        if (!styles.includes(style)) this.fail(`Unknown ${type} style "${style}"`);
+      }
+      this.expect("}");
+      return { type, name, style };
+    }
+
+    return this.fail(`Unknown argument type "${type}"`);
+  }
+
+  private parseOptions(isPlural: boolean): Record<string, Part[]> {
+    const options: Record<string, Part[]> = {};
+    this.skipWhitespace();
+    while (this.index < this.source.length && this.source[this.index] !== "}") {
+      const selector = this.parseWord();
+      this.expect("{");
+      options[selector] = this.parseMessage(isPlural);
+      this.expect("}");
+      this.skipWhitespace();
+    }
+    if (!options.other) this.fail("Missing the required \"other\" case");
+    return options;
+  }
+}
+
+const cache = new Map<string, Part[]>();
+
+function parse(message: string): Part[] {
+  let parts = cache.get(message);
+  if (!parts) {
+    parts = new Parser(message).parse();
+    cache.set(message, parts);
+  }
+  return parts;
+}
+
+/** Throws a MessageSyntaxError if `message` isn't valid. */
+export function validateMessage(message: string) {
+  parse(message);
+}
+
+/**
+ * Each argument `message` refers to, with how it is used. An argument used
+ * in several ways is listed with the last.
+ */
+export function messageArguments(message: string): Map<string, ArgumentKind> {
+  const found = new Map<string, ArgumentKind>();
+  const visit = (parts: Part[]) => {
+    for (const part of parts) {
+      if (typeof part === "string" || part.type === "pound") continue;
+      found.set(part.name, part.type);
+      if (part.type === "plural" || part.type === "select") {
+        Object.values(part.options).forEach(visit);
+      }
+    }
+  };
+  visit(parse(message));
+  return found;
+}
+
+function formatParts(
+  parts: Part[],
+  locale: string,
+  values: MessageValues,
+  plural: number | null,
+  out: unknown[]
+) {
+  for (const part of parts) {
+    if (typeof part === "string") {
+      out.push(part);
+      continue;
+    }
+    if (part.type === "pound") {
+      out.push(new Intl.NumberFormat(locale).format(plural ?? 0));
+      continue;
+    }
+
+    const value = values[part.name];
+    switch (part.type) {
+      case "argument":
+        out.push(value === undefined ? `{${part.name}}` : value);
+        break;
+      case "number":
+        out.push(
+          new Intl.NumberFormat(locale, {
+            maximumFractionDigits: part.style === "integer" ? 0 : undefined,
+            style: part.style === "percent" ? "percent" : undefined,
+          }).format(Number(value))
+        );
+        break;
+      case "date":
+        out.push(
+          new Intl.DateTimeFormat(locale, {
+            dateStyle: (part.style ?? "medium") as Intl.DateTimeFormatOptions["dateStyle"],
+          }).format(value instanceof Date ? value : new Date(Number(value)))
+        );
+        break;
+      case "plural": {
+        const count = Number(value);
+        const options =
+          part.options[`=${count}`] ??
+          part.options[new Intl.PluralRules(locale).select(count)] ??
+          part.options.other;
+        formatParts(options, locale, values, count, out);
+        break;
+      }
+      case "select":
+        formatParts(part.options[String(value)] ?? part.options.other, locale, values, plural, out);
+        break;
+    }
+  }
+}
+
+/**
+ * The pieces of `message` with `values` filled in, for values that aren't
+ * text (e.g. React elements). Adjacent text is joined.
+ */
+export function formatMessageToParts(
+  locale: string,
+  message: string,
+  values: MessageValues = {}
+): unknown[] {
+  const out: unknown[] = [];
+  formatParts(parse(message), locale, values, null, out);
+
+  return out.reduce<unknown[]>((joined, part) => {
+    const last = joined.length - 1;
+    if (typeof part === "string" && typeof joined[last] === "string") {
+      joined[last] += part;
+    } else {
+      joined.push(part);
+    }
+    return joined;
+  }, []);
+}
+
+/** `message` with `values` filled in, formatted for `locale`. */
+export function formatMessage(locale: string, message: string, values: MessageValues = {}): string {
+  return formatMessageToParts(locale, message, values).map(String).join("");
+}
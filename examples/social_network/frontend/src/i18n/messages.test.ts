@@ -0,0 +1,49 @@
+import { describe, expect, it, vi } from "vitest";
+import { createTranslator, DEFAULT_CATALOG, DEFAULT_LOCALE, LOCALES, type Catalog } from "./catalog";
+import { checkCatalog, checkSource } from "./catalogCheck";
+import { findLiterals } from "./literalCheck";
+
+// Every catalog file, including any not registered in LOCALES yet
+const catalogs = import.meta.glob<Catalog>("./messages/*.json", { eager: true, import: "default" });
+
+const translations = Object.entries(catalogs)
+  .map(([path, catalog]) => [path.replace(/^.*\/(.+)\.json$/, "$1"), catalog] as const)
+  .filter(([locale]) => locale !== DEFAULT_LOCALE);
+
+// Every component; tests and the dev-only network inspector may use English
+const components = import.meta.glob<string>(
+  ["../**/*.tsx", "!../**/*.test.tsx", "!../test/**", "!../components/NetworkInspector.tsx"],
+  { eager: true, query: "?raw", import: "default" }
+);
+
+describe("message catalogs", () => {
+  it("has valid English messages", () => {
+    expect(checkSource(DEFAULT_CATALOG)).toEqual([]);
+  });
+
+  it.each(translations)("has every message translated for %s", (locale, catalog) => {
+    expect(locale in LOCALES, `${locale}.json isn't registered in LOCALES`).toBe(true);
+    expect(checkCatalog(DEFAULT_CATALOG, catalog)).toEqual({ untranslated: [], stale: [], problems: [] });
+  });
+});
+
+describe("createTranslator", () => {
+  it("falls back to English, warning once per missing key however often it renders", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const t = createTranslator("es", {});
+
+    for (let render = 0; render < 3; render++) {
+      expect(t("nav.feed")).toBe(DEFAULT_CATALOG["nav.feed"]);
+      t("nav.users");
+    }
+    expect(warn).toHaveBeenCalledTimes(2);
+    expect(warn).toHaveBeenCalledWith('Missing "es" translation for "nav.feed"; using English');
+  });
+});
+
+describe("components", () => {
+  it("take their text from the message catalogs", () => {
+    const literals = Object.entries(components).flatMap(([path, source]) => findLiterals(path.slice(3), source));
+    expect(literals).toEqual([]);
+  });
+});
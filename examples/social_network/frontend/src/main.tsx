@@ -1,13 +1,32 @@
 import React from "react";
 import ReactDOM from "react-dom/client";
-import { RelayEnvironmentProvider } from "react-relay";
 import App from "./App";
-import { environment } from "./relay/environment";
+import { AuthProvider } from "./auth/AuthProvider";
+import { ToastProvider } from "./components/Toast";
+import { DEFAULT_LOADED_LOCALE, I18nProvider, loadInitialLocale, type LoadedLocale } from "./i18n/I18nProvider";
+import { RouterProvider } from "./router/Router";
+import { routes } from "./routes";
 
-ReactDOM.createRoot(document.getElementById("root")!).render(
-  <React.StrictMode>
-    <RelayEnvironmentProvider environment={environment}>
-      <App />
-    </RelayEnvironmentProvider>
-  </React.StrictMode>
-);
+const root = ReactDOM.createRoot(document.getElementById("root")!);
+
+function render(initial: LoadedLocale) {
+  root.render(
+    <React.StrictMode>
+      <I18nProvider initial={initial}>
+        <ToastProvider>
+          <AuthProvider>
+            <RouterProvider routes={routes}>
+              <App />
+            </RouterProvider>
+          </AuthProvider>
+        </ToastProvider>
+      </I18nProvider>
+    </React.StrictMode>
+  );
+}
+
+// Wait for the user's catalog so the first paint is in their language, and
+// render in English rather than not at all if that fails
+loadInitialLocale()
+  .catch(() => DEFAULT_LOADED_LOCALE)
+  .then(render);
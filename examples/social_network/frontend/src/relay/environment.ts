@@ -3,41 +3,82 @@ import {
   Network,
   RecordSource,
   Store,
-  FetchFunction,
+  SubscribeFunction,
+  Observable,
 } from "relay-runtime";
+import { createInspectorLog } from "./inspector";
+import { checkSession, createFetchFn, type FetchOptions } from "./network";
+import { queryText } from "./persistedQueries";
+import { AbsintheSocket } from "./socket";
 
-// Store current user ID for demo authentication
-let currentUserId: string | null = null;
+const BATCHING_STORAGE_KEY = "social-network.batching";
 
-export const setCurrentUserId = (userId: string | null) => {
-  currentUserId = userId;
-};
+// Batched requests are harder to read in the browser's network tab. Turn
+// batching off with VITE_GRAPHQL_BATCHING=false at build time, or by setting
+// localStorage["social-network.batching"] = "off" and reloading.
+function batchingEnabled(): boolean {
+  if (import.meta.env.VITE_GRAPHQL_BATCHING === "false") return false;
+  try {
+    return window.localStorage.getItem(BATCHING_STORAGE_KEY) !== "off";
+  } catch {
+    return true;
+  }
+}
 
-export const getCurrentUserId = () => currentUserId;
+export interface EnvironmentOptions extends Pick<FetchOptions, "token" | "onUnauthorized"> {
+  /** Whose session `token` is, for the network inspector; null when anonymous. */
+  userId: string | null;
+}
 
-const fetchFn: FetchFunction = async (request, variables) => {
-  const headers: Record<string, string> = {
-    "Content-Type": "application/json",
-  };
+export interface RelayClient {
+  environment: Environment;
+  socket: AbsintheSocket;
+}
 
-  // Add user ID header for demo authentication
-  if (currentUserId) {
-    headers["X-User-ID"] = currentUserId;
-  }
+/**
+ * Builds an environment for one identity. Each login or logout gets a new
+ * one, so the store never holds records fetched as somebody else.
+ */
+export function createEnvironment({ token, onUnauthorized, userId }: EnvironmentOptions): RelayClient {
+  const fetchFn = createFetchFn({ token, onUnauthorized, batching: batchingEnabled() });
 
-  const response = await fetch("/api/graphql", {
-    method: "POST",
-    headers,
-    body: JSON.stringify({
-      query: request.text,
-      variables,
-    }),
+  // Subscriptions go over the Absinthe socket; the token travels as a connect
+  // param since browsers cannot set headers on WebSocket requests. A refused
+  // token signs out the same way a 401 over HTTP does.
+  const socket = new AbsintheSocket({
+    url: "/socket/websocket",
+    params: () => ({ token }),
+    checkSession: () => checkSession({ token, onUnauthorized }),
   });
 
-  return response.json();
-};
+  const subscribeFn: SubscribeFunction = (request, variables) =>
+    Observable.create((sink) => {
+      let unsubscribe: (() => void) | null = null;
+      let disposed = false;
+
+      queryText(request).then(
+        (text) => {
+          if (disposed) return;
+          unsubscribe = socket.subscribe(text, variables, {
+            next: (result) => sink.next(result),
+            error: (error) => sink.error(error),
+          });
+        },
+        (error) => sink.error(error)
+      );
+
+      return () => {
+        disposed = true;
+        unsubscribe?.();
+      };
+    });
+
+  const environment = new Environment({
+    network: Network.create(fetchFn, subscribeFn),
+    store: new Store(new RecordSource()),
+    // Feeds the dev-only network inspector
+    log: import.meta.env.DEV ? createInspectorLog(userId) : null,
+  });
 
-export const environment = new Environment({
-  network: Network.create(fetchFn),
-  store: new Store(new RecordSource()),
-});
+  return { environment, socket };
+}
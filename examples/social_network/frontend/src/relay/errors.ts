@@ -0,0 +1,105 @@
+import { defaultTranslate, type Translate } from "../i18n/catalog";
+
+/** An entry of a GraphQL response's `errors` array, as Absinthe sends it. */
+export interface GraphQLErrorPayload {
+  message: string;
+  path?: ReadonlyArray<string | number>;
+  locations?: ReadonlyArray<{ line: number; column: number }>;
+  extensions?: { code?: string; [key: string]: unknown };
+}
+
+/**
+ * - `network`: no usable response (offline, timeout, 5xx, non-JSON body)
+ * - `auth`: not logged in, or the session was rejected
+ * - `validation`: the server refused the document or its input
+ * - `resolver`: a resolver returned an error
+ */
+export type ErrorKind = "network" | "auth" | "validation" | "resolver";
+
+/** Base class for every error the network layer hands to Relay. */
+export abstract class GraphQLClientError extends Error {
+  abstract readonly kind: ErrorKind;
+  /** The GraphQL errors behind this one; empty for transport failures. */
+  readonly errors: readonly GraphQLErrorPayload[];
+
+  constructor(message: string, errors: readonly GraphQLErrorPayload[] = []) {
+    super(message);
+    this.name = new.target.name;
+    this.errors = errors;
+  }
+}
+
+interface NetworkErrorOptions {
+  status?: number;
+  /** Whether sending the same request again may succeed. */
+  retryable: boolean;
+  timedOut?: boolean;
+}
+
+export class NetworkError extends GraphQLClientError {
+  readonly kind = "network";
+  readonly status: number | undefined;
+  readonly retryable: boolean;
+  readonly timedOut: boolean;
+
+  constructor(message: string, { status, retryable, timedOut = false }: NetworkErrorOptions) {
+    super(message);
+    this.status = status;
+    this.retryable = retryable;
+    this.timedOut = timedOut;
+  }
+}
+
+export class AuthError extends GraphQLClientError {
+  readonly kind = "auth";
+}
+
+export class ValidationError extends GraphQLClientError {
+  readonly kind = "validation";
+}
+
+export class ResolverError extends GraphQLClientError {
+  readonly kind = "resolver";
+}
+
+const AUTH_CODES = new Set(["UNAUTHENTICATED", "SESSION_EXPIRED", "FORBIDDEN"]);
+const VALIDATION_CODES = new Set(["BAD_USER_INPUT", "VALIDATION_FAILED", "GRAPHQL_VALIDATION_FAILED"]);
+
+/**
+ * Turns a response's `errors` array into a single typed error. Absinthe
+ * reports document errors (parse, unknown fields, bad variables) without a
+ * `path`; anything with a `path` came from a resolver.
+ */
+export function errorFromGraphQL(errors: readonly GraphQLErrorPayload[]): GraphQLClientError {
+  const message = errors.map((error) => error.message).join("; ") || "Unknown GraphQL error";
+  const codes = errors.map((error) => error.extensions?.code);
+
+  if (codes.some((code) => code && AUTH_CODES.has(code))) {
+    return new AuthError(message, errors);
+  }
+  if (codes.some((code) => code && VALIDATION_CODES.has(code)) || errors.every((error) => !error.path)) {
+    return new ValidationError(message, errors);
+  }
+  return new ResolverError(message, errors);
+}
+
+/**
+ * A message suitable for showing the user, whatever was thrown. Messages
+ * from the server are passed through as they are; only the client's own
+ * are translated with `t`.
+ */
+export function describeError(error: unknown, t: Translate = defaultTranslate): string {
+  if (error instanceof NetworkError) {
+    if (error.timedOut) return t("errors.timedOut");
+    if (error.status && error.status >= 500) return t("errors.serverError");
+    return t("errors.unreachable");
+  }
+  if (error instanceof AuthError) {
+    const expired = error.errors.some((payload) => payload.extensions?.code === "SESSION_EXPIRED");
+    return t(expired ? "errors.sessionExpired" : "errors.unauthenticated");
+  }
+  if (error instanceof GraphQLClientError) {
+    return error.message;
+  }
+  return error instanceof Error && error.message ? error.message : t("errors.unknown");
+}
@@ -0,0 +1,7 @@
+/**
+ * The example's types expose plain database ids, but `node(id:)` expects
+ * GreenFairy's Base64 `Type:id` global ids. Encode before querying `node`.
+ */
+export function toGlobalId(typeName: string, id: string): string {
+  return btoa(`${typeName}:${id}`);
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { NetworkError } from "./errors";
+import { multipartBoundary, readMultipart, toRelayResponses } from "./incremental";
+
+function streamOf(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+}
+
+// Framed like the mock backend's responses: each part is followed by its delimiter
+const part = (body: unknown) => `\r\nContent-Type: application/json; charset=utf-8\r\n\r\n${JSON.stringify(body)}\r\n---`;
+
+async function readAll(chunks: string[]) {
+  const parts = [];
+  for await (const body of readMultipart(streamOf(chunks), "-")) parts.push(body);
+  return parts;
+}
+
+describe("multipartBoundary", () => {
+  it("reads the boundary of a multipart/mixed response", () => {
+    expect(multipartBoundary('multipart/mixed; boundary="graphql"; deferSpec=20220824')).toBe("graphql");
+    expect(multipartBoundary("multipart/mixed")).toBe("-");
+    expect(multipartBoundary("application/json")).toBeNull();
+  });
+});
+
+describe("readMultipart", () => {
+  it("yields each part, however the body is split into chunks", async () => {
+    const body = "\r\n---" + part({ data: { a: 1 }, hasNext: true }) + part({ hasNext: false }) + "--\r\n";
+    const expected = [{ data: { a: 1 }, hasNext: true }, { hasNext: false }];
+
+    expect(await readAll([body])).toEqual(expected);
+    expect(await readAll(body.match(/[\s\S]{1,7}/g) ?? [])).toEqual(expected);
+  });
+
+  it("yields a part as soon as its delimiter arrives", async () => {
+    const encoder = new TextEncoder();
+    // Stays open, like a response whose next part is still being resolved
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode("\r\n---" + part({ data: { a: 1 }, hasNext: true })));
+      },
+    });
+
+    const parts = readMultipart(body, "-");
+    expect(await parts.next()).toEqual({ done: false, value: { data: { a: 1 }, hasNext: true } });
+    await parts.return(undefined);
+  });
+
+  it("fails when the body ends before the closing delimiter", async () => {
+    await expect(readAll(["\r\n---" + part({ data: {}, hasNext: true })])).rejects.toBeInstanceOf(NetworkError);
+  });
+});
+
+describe("toRelayResponses", () => {
+  it("gives each deferred fragment and streamed item its own response", () => {
+    const responses = toRelayResponses({
+      incremental: [
+        { data: { friends: [] }, path: ["viewer"], label: "UserProfile_user$defer$UserProfile_friends" },
+        { items: [{ id: "3" }, { id: "4" }], path: ["viewer", "posts", 2], label: "UserProfile_user$stream$UserProfile_posts" },
+      ],
+      hasNext: false,
+    });
+
+    expect(responses).toEqual([
+      expect.objectContaining({ data: { friends: [] }, path: ["viewer"], label: "UserProfile_user$defer$UserProfile_friends" }),
+      { data: { id: "3" }, path: ["viewer", "posts", 2], label: "UserProfile_user$stream$UserProfile_posts" },
+      { data: { id: "4" }, path: ["viewer", "posts", 3], label: "UserProfile_user$stream$UserProfile_posts" },
+    ]);
+  });
+});
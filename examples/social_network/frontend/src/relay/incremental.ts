@@ -0,0 +1,117 @@
+import type { GraphQLResponse } from "relay-runtime";
+import { NetworkError, type GraphQLErrorPayload } from "./errors";
+
+/**
+ * Incremental delivery: operations using @defer or @stream can be answered
+ * as a multipart/mixed response whose parts arrive as the server resolves
+ * them (the `deferSpec=20220824` format). The first part is an ordinary
+ * response with `hasNext: true`; each later part lists `incremental`
+ * results, until one has `hasNext: false`.
+ */
+
+/** Sent with requests that may be answered incrementally. */
+export const INCREMENTAL_ACCEPT = "multipart/mixed; deferSpec=20220824, application/json";
+
+type ResponsePath = Array<string | number>;
+
+/** A deferred fragment's data (`data`) or a streamed list's next items (`items`). */
+export interface IncrementalResult {
+  data?: Record<string, unknown> | null;
+  items?: unknown[];
+  /** For `items`, the path ends with the index of the first item. */
+  path: ResponsePath;
+  label?: string;
+  errors?: GraphQLErrorPayload[];
+  extensions?: Record<string, unknown>;
+}
+
+export interface SubsequentPayload {
+  incremental?: IncrementalResult[];
+  hasNext: boolean;
+  extensions?: Record<string, unknown>;
+}
+
+/** The boundary of a multipart/mixed response, or null for any other content type. */
+export function multipartBoundary(contentType: string | null): string | null {
+  if (!contentType || !/^multipart\/mixed\b/i.test(contentType)) return null;
+  return /boundary="?([^";]+)"?/i.exec(contentType)?.[1] ?? "-";
+}
+
+function parsePart(part: string): unknown {
+  // Headers, a blank line, then the JSON body
+  const separator = part.indexOf("\r\n\r\n");
+  const body = separator === -1 ? part : part.slice(separator + 4);
+  try {
+    return JSON.parse(body);
+  } catch {
+    throw new NetworkError("Unexpected part in incremental response", { retryable: false });
+  }
+}
+
+/**
+ * Yields each part of a multipart/mixed body, parsed as JSON, as soon as the
+ * delimiter after it has arrived. Stops at the closing delimiter; a body
+ * that ends before it is an error.
+ */
+export async function* readMultipart(
+  body: ReadableStream<Uint8Array>,
+  boundary: string
+): AsyncGenerator<unknown> {
+  const delimiter = `\r\n--${boundary}`;
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  // The leading CRLF lets a delimiter at the very start match like the rest
+  let buffer = "\r\n";
+  let started = false;
+
+  try {
+    for (;;) {
+      let index: number;
+      while ((index = buffer.indexOf(delimiter)) !== -1) {
+        const part = buffer.slice(0, index);
+        buffer = buffer.slice(index + delimiter.length);
+        // Anything before the first delimiter is preamble
+        if (started) yield parsePart(part);
+        started = true;
+      }
+      if (started && buffer.startsWith("--")) return;
+
+      const { done, value } = await reader.read();
+      if (done) {
+        throw new NetworkError("The incremental response ended early", { retryable: false });
+      }
+      buffer += decoder.decode(value, { stream: true });
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+}
+
+/**
+ * Relay takes each deferred fragment and each streamed item as a response
+ * of its own, with the `label` and `path` it belongs at.
+ */
+export function toRelayResponses(payload: SubsequentPayload): GraphQLResponse[] {
+  const responses: GraphQLResponse[] = [];
+
+  for (const { data, items, path, label, errors, extensions } of payload.incremental ?? []) {
+    if (label == null) continue;
+
+    if (items) {
+      const listPath = path.slice(0, -1);
+      const start = Number(path[path.length - 1]);
+      items.forEach((item, offset) => {
+        responses.push({
+          data: item as Record<string, unknown>,
+          label,
+          path: [...listPath, start + offset],
+          ...(offset === 0 && errors ? { errors } : {}),
+        } as GraphQLResponse);
+      });
+    } else {
+      responses.push({ data: data ?? null, label, path, errors, extensions } as GraphQLResponse);
+    }
+  }
+
+  return responses;
+}
@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { LogEvent, RequestParameters } from "relay-runtime";
+import { ResolverError } from "./errors";
+import { clearInspector, createInspectorLog, getInspectorState, readComplexity } from "./inspector";
+
+const params = {
+  id: "abc123",
+  name: "FeedQuery",
+  operationKind: "query",
+  text: null,
+  metadata: {},
+  cacheID: "abc123",
+} as RequestParameters;
+
+// The recorder only reads the fields below, so events are built loosely
+const event = (fields: Record<string, unknown>) => fields as unknown as LogEvent;
+
+const tooComplex = {
+  message: "Query is too complex",
+  extensions: {
+    code: "QUERY_TOO_COMPLEX",
+    complexity_score: 1200,
+    limit: 1000,
+    cost: 340,
+    suggestions: ["Reduce `first` on feed"],
+  },
+};
+
+beforeEach(clearInspector);
+
+describe("createInspectorLog", () => {
+  it("records an operation from start to completion", () => {
+    const log = createInspectorLog("7");
+    log(event({ name: "network.start", networkRequestId: 1, params, variables: { first: 10 } }));
+
+    expect(getInspectorState().operations[0]).toMatchObject({
+      id: 1,
+      name: "FeedQuery",
+      kind: "query",
+      variables: { first: 10 },
+      userId: "7",
+      status: "pending",
+    });
+
+    const response = { data: { feed: null }, errors: [{ message: "Boom", path: ["feed"] }] };
+    log(event({ name: "network.next", networkRequestId: 1, response }));
+    log(event({ name: "network.complete", networkRequestId: 1 }));
+
+    const [operation] = getInspectorState().operations;
+    expect(operation.status).toBe("done");
+    expect(operation.durationMs).toEqual(expect.any(Number));
+    expect(operation.responseCount).toBe(1);
+    expect(operation.responseBytes).toBe(JSON.stringify(response).length);
+    expect(operation.errors).toEqual([{ message: "Boom", path: ["feed"] }]);
+  });
+
+  it("keeps the errors and complexity of a rejected request", () => {
+    const log = createInspectorLog(null);
+    log(event({ name: "network.start", networkRequestId: 2, params, variables: {} }));
+    log(event({ name: "network.error", networkRequestId: 2, error: new ResolverError("Too complex", [tooComplex]) }));
+
+    const [operation] = getInspectorState().operations;
+    expect(operation).toMatchObject({ status: "error", failure: "Too complex", userId: null });
+    expect(operation.errors).toEqual([tooComplex]);
+    expect(operation.complexity).toEqual({
+      score: 1200,
+      limit: 1000,
+      cost: 340,
+      suggestions: ["Reduce `first` on feed"],
+    });
+  });
+
+  it("marks abandoned requests as cancelled", () => {
+    const log = createInspectorLog(null);
+    log(event({ name: "network.start", networkRequestId: 3, params, variables: {} }));
+    log(event({ name: "network.unsubscribe", networkRequestId: 3 }));
+
+    expect(getInspectorState().operations[0].status).toBe("cancelled");
+  });
+
+  it("records store updates that changed something", () => {
+    const log = createInspectorLog(null);
+    const sourceOperation = { request: { node: { params } } };
+    log(event({ name: "store.notify.complete", updatedRecordIDs: new Set(), sourceOperation }));
+    log(event({ name: "store.notify.complete", updatedRecordIDs: new Set(["client:root", "Post:1"]), sourceOperation }));
+
+    expect(getInspectorState().storeUpdates).toEqual([
+      expect.objectContaining({ kind: "notify", operationName: "FeedQuery", recordIds: ["client:root", "Post:1"] }),
+    ]);
+  });
+});
+
+describe("readComplexity", () => {
+  it("reads complexity from response extensions", () => {
+    expect(readComplexity([], { complexity: { complexity_score: 12, limit: 1000 } })).toEqual({
+      score: 12,
+      limit: 1000,
+      cost: null,
+      suggestions: [],
+    });
+  });
+
+  it("returns null when the server reported none", () => {
+    expect(readComplexity([{ message: "Nope", extensions: { code: "FORBIDDEN" } }], {})).toBeNull();
+  });
+});
@@ -0,0 +1,231 @@
+import type {
+  GraphQLSingularResponse,
+  LogEvent,
+  LogFunction,
+  RequestParameters,
+  Variables,
+} from "relay-runtime";
+import { GraphQLClientError, type GraphQLErrorPayload } from "./errors";
+
+/**
+ * Records what the Relay environments send and what they do with the
+ * answers, for the dev-only network inspector. Fed by each environment's
+ * `log` hook: `network.*` events become operations, `store.*` events become
+ * store updates. Only the most recent entries are kept.
+ */
+
+const MAX_OPERATIONS = 200;
+const MAX_STORE_UPDATES = 200;
+
+export type OperationStatus = "pending" | "done" | "error" | "cancelled";
+
+/** What GreenFairy's QueryComplexity middleware reports about a query. */
+export interface QueryComplexity {
+  score: number | null;
+  limit: number | null;
+  cost: number | null;
+  suggestions: string[];
+}
+
+export interface InspectedOperation {
+  id: number;
+  name: string;
+  kind: RequestParameters["operationKind"];
+  /** The request as Relay issued it, for replaying. */
+  params: RequestParameters;
+  variables: Variables;
+  /** Who the request was sent as: a user id, or null when anonymous. */
+  userId: string | null;
+  startedAt: number;
+  durationMs: number | null;
+  status: OperationStatus;
+  /** Subscriptions get one response per event. */
+  responseCount: number;
+  /** Size of the JSON responses, in bytes. */
+  responseBytes: number;
+  errors: GraphQLErrorPayload[];
+  /** Why the request failed, when it did. */
+  failure: string | null;
+  complexity: QueryComplexity | null;
+  /** The latest response's `extensions`. */
+  extensions: Record<string, unknown> | null;
+}
+
+export interface StoreUpdate {
+  id: number;
+  at: number;
+  kind: "optimistic" | "notify" | "gc";
+  /** The operation whose data this was, if Relay knows. */
+  operationName: string | null;
+  /** Records that changed, or for `gc` the records still retained. */
+  recordIds: string[];
+}
+
+export interface InspectorState {
+  operations: readonly InspectedOperation[];
+  storeUpdates: readonly StoreUpdate[];
+}
+
+let state: InspectorState = { operations: [], storeUpdates: [] };
+const listeners = new Set<() => void>();
+let nextStoreUpdateId = 0;
+
+function setState(next: InspectorState) {
+  state = next;
+  listeners.forEach((listener) => listener());
+}
+
+/** For useSyncExternalStore. */
+export function subscribeToInspector(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function getInspectorState(): InspectorState {
+  return state;
+}
+
+export function clearInspector() {
+  setState({ operations: [], storeUpdates: [] });
+}
+
+function updateOperation(id: number, update: (operation: InspectedOperation) => InspectedOperation) {
+  setState({
+    ...state,
+    operations: state.operations.map((operation) => (operation.id === id ? update(operation) : operation)),
+  });
+}
+
+function addStoreUpdate(update: Omit<StoreUpdate, "id" | "at">) {
+  const entry = { ...update, id: ++nextStoreUpdateId, at: Date.now() };
+  setState({ ...state, storeUpdates: [entry, ...state.storeUpdates].slice(0, MAX_STORE_UPDATES) });
+}
+
+function numberOrNull(value: unknown): number | null {
+  return typeof value === "number" ? value : null;
+}
+
+/**
+ * Complexity from a rejected query's error (`QUERY_TOO_COMPLEX`) or from
+ * the response's `extensions.complexity`, whichever is present.
+ */
+export function readComplexity(
+  errors: readonly GraphQLErrorPayload[],
+  extensions?: Record<string, unknown> | null
+): QueryComplexity | null {
+  const sources = [...errors.map((error) => error.extensions), extensions?.complexity];
+  const source = sources.find(
+    (candidate): candidate is Record<string, unknown> =>
+      typeof candidate === "object" && candidate !== null && "complexity_score" in candidate
+  );
+  if (!source) return null;
+
+  return {
+    score: numberOrNull(source.complexity_score),
+    limit: numberOrNull(source.limit),
+    cost: numberOrNull(source.cost),
+    suggestions: Array.isArray(source.suggestions) ? source.suggestions.map(String) : [],
+  };
+}
+
+function errorsOf(response: GraphQLSingularResponse): GraphQLErrorPayload[] {
+  return "errors" in response ? ((response.errors ?? []) as GraphQLErrorPayload[]) : [];
+}
+
+function responseBytes(response: unknown): number {
+  return new TextEncoder().encode(JSON.stringify(response)).length;
+}
+
+/**
+ * A `log` function for an environment acting as `userId`. Relay numbers
+ * network requests across all environments, so the ids stay unique when
+ * logging in swaps environments.
+ */
+export function createInspectorLog(userId: string | null): LogFunction {
+  const started = new Map<number, number>();
+
+  const finish = (networkRequestId: number, status: OperationStatus, failure: unknown = null) => {
+    const startedAt = started.get(networkRequestId);
+    if (startedAt === undefined) return;
+    started.delete(networkRequestId);
+
+    // Errors that reject a request (e.g. a mutation's) never arrive as a response
+    const rejected = failure instanceof GraphQLClientError ? failure.errors : [];
+    updateOperation(networkRequestId, (operation) => ({
+      ...operation,
+      status,
+      durationMs: performance.now() - startedAt,
+      failure: failure instanceof Error ? failure.message : null,
+      errors: rejected.length > 0 ? [...rejected] : operation.errors,
+      complexity: readComplexity(rejected) ?? operation.complexity,
+    }));
+  };
+
+  return (event: LogEvent) => {
+    switch (event.name) {
+      case "network.start": {
+        started.set(event.networkRequestId, performance.now());
+        const operation: InspectedOperation = {
+          id: event.networkRequestId,
+          name: event.params.name,
+          kind: event.params.operationKind,
+          params: event.params,
+          variables: event.variables,
+          userId,
+          startedAt: Date.now(),
+          durationMs: null,
+          status: "pending",
+          responseCount: 0,
+          responseBytes: 0,
+          errors: [],
+          failure: null,
+          complexity: null,
+          extensions: null,
+        };
+        setState({ ...state, operations: [operation, ...state.operations].slice(0, MAX_OPERATIONS) });
+        break;
+      }
+      case "network.next": {
+        const responses = Array.isArray(event.response) ? event.response : [event.response];
+        updateOperation(event.networkRequestId, (operation) => ({
+          ...operation,
+          responseCount: operation.responseCount + responses.length,
+          responseBytes: operation.responseBytes + responseBytes(event.response),
+          errors: [...operation.errors, ...responses.flatMap(errorsOf)],
+          complexity:
+            responses
+              .map((response) => readComplexity(errorsOf(response), response.extensions))
+              .find(Boolean) ?? operation.complexity,
+          extensions: responses[responses.length - 1]?.extensions ?? operation.extensions,
+        }));
+        break;
+      }
+      case "network.complete":
+        finish(event.networkRequestId, "done");
+        break;
+      case "network.error":
+        finish(event.networkRequestId, "error", event.error);
+        break;
+      case "network.unsubscribe":
+        finish(event.networkRequestId, "cancelled");
+        break;
+      case "store.publish":
+        if (event.optimistic) {
+          addStoreUpdate({ kind: "optimistic", operationName: null, recordIds: event.source.getRecordIDs() });
+        }
+        break;
+      case "store.notify.complete":
+        if (event.updatedRecordIDs.size > 0) {
+          addStoreUpdate({
+            kind: "notify",
+            operationName: event.sourceOperation?.request.node.params.name ?? null,
+            recordIds: [...event.updatedRecordIDs],
+          });
+        }
+        break;
+      case "store.gc":
+        addStoreUpdate({ kind: "gc", operationName: null, recordIds: [...event.references] });
+        break;
+    }
+  };
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatAbsolute,
+  formatRelative,
+  parseNaiveDateTime,
+  toNaiveDateTime,
+} from "./naiveDateTime";
+
+const utc = (value: string) => new Date(`${value}Z`);
+
+describe("parseNaiveDateTime", () => {
+  it("reads values as UTC regardless of the local time zone", () => {
+    expect(parseNaiveDateTime("2024-03-10T06:30:00")?.toISOString()).toBe("2024-03-10T06:30:00.000Z");
+  });
+
+  it("accepts microseconds and omitted seconds", () => {
+    expect(parseNaiveDateTime("2024-03-10T06:30:00.123456")?.toISOString()).toBe("2024-03-10T06:30:00.123Z");
+    expect(parseNaiveDateTime("2024-03-10T06:30")?.toISOString()).toBe("2024-03-10T06:30:00.000Z");
+  });
+
+  it("rejects offsets and impossible dates", () => {
+    expect(parseNaiveDateTime("2024-03-10T06:30:00Z")).toBeNull();
+    expect(parseNaiveDateTime("2023-02-29T00:00:00")).toBeNull();
+    expect(parseNaiveDateTime("yesterday")).toBeNull();
+  });
+
+  it("round-trips through toNaiveDateTime", () => {
+    const date = parseNaiveDateTime("2024-02-29T23:59:59");
+    expect(date && toNaiveDateTime(date)).toBe("2024-02-29T23:59:59");
+  });
+});
+
+describe("formatRelative", () => {
+  const options = { locale: "en-US", timeZone: "UTC" };
+
+  it("counts elapsed time within a day", () => {
+    const now = utc("2024-05-01T12:00:00");
+    expect(formatRelative(utc("2024-05-01T11:59:30"), now, options)).toBe("now");
+    expect(formatRelative(utc("2024-05-01T11:55:00"), now, options)).toBe("5 minutes ago");
+    expect(formatRelative(utc("2024-05-01T09:00:00"), now, options)).toBe("3 hours ago");
+  });
+
+  it("treats timestamps slightly in the future as now", () => {
+    expect(formatRelative(utc("2024-05-01T12:00:05"), utc("2024-05-01T12:00:00"), options)).toBe("now");
+  });
+
+  it("counts calendar days across the spring-forward DST change", () => {
+    const options = { locale: "en-US", timeZone: "America/New_York" };
+    // Noon EST on Friday to noon EDT on Sunday is only 47 hours
+    expect(formatRelative(utc("2024-03-08T17:00:00"), utc("2024-03-10T16:00:00"), options)).toBe(
+      "2 days ago"
+    );
+  });
+
+  it("counts calendar days across the fall-back DST change", () => {
+    const options = { locale: "en-US", timeZone: "America/New_York" };
+    // 23:30 EDT Saturday to 23:45 EST Sunday spans a 25-hour day
+    expect(formatRelative(utc("2024-11-03T03:30:00"), utc("2024-11-04T04:45:00"), options)).toBe(
+      "yesterday"
+    );
+  });
+
+  it("counts days on the viewer's calendar, not UTC's", () => {
+    const then = utc("2024-01-01T14:00:00");
+    const now = utc("2024-01-03T16:00:00");
+    expect(formatRelative(then, now, { locale: "en-US", timeZone: "UTC" })).toBe("2 days ago");
+    expect(formatRelative(then, now, { locale: "en-US", timeZone: "Asia/Tokyo" })).toBe("3 days ago");
+  });
+
+  it("does not call a day across a month boundary a month", () => {
+    expect(formatRelative(utc("2024-01-31T12:00:00"), utc("2024-02-01T13:00:00"), options)).toBe(
+      "yesterday"
+    );
+  });
+
+  it("only counts a month once the day of the month is reached", () => {
+    const then = utc("2024-01-31T12:00:00");
+    expect(formatRelative(then, utc("2024-02-29T12:00:00"), options)).toBe("4 weeks ago");
+    expect(formatRelative(then, utc("2024-03-01T12:00:00"), options)).toBe("last month");
+    expect(formatRelative(utc("2023-12-20T12:00:00"), utc("2024-01-20T12:00:00"), options)).toBe(
+      "last month"
+    );
+  });
+
+  it("switches to years after twelve months", () => {
+    const now = utc("2024-03-01T12:00:00");
+    expect(formatRelative(utc("2023-03-02T12:00:00"), now, options)).toBe("11 months ago");
+    expect(formatRelative(utc("2023-03-01T12:00:00"), now, options)).toBe("last year");
+  });
+
+  it("uses the requested locale", () => {
+    expect(
+      formatRelative(utc("2024-05-01T11:55:00"), utc("2024-05-01T12:00:00"), {
+        locale: "de-DE",
+        timeZone: "UTC",
+      })
+    ).toBe("vor 5 Minuten");
+  });
+});
+
+describe("formatAbsolute", () => {
+  // ICU separates the time and day period with a narrow no-break space
+  const normalize = (value: string) => value.replace(/\s/g, " ");
+
+  it("renders the date in the viewer's time zone", () => {
+    const date = utc("2024-07-04T16:05:00");
+    expect(normalize(formatAbsolute(date, { locale: "en-US", timeZone: "America/New_York" }))).toBe(
+      "Jul 4, 2024, 12:05 PM EDT"
+    );
+    expect(normalize(formatAbsolute(date, { locale: "en-US", timeZone: "Asia/Tokyo" }))).toBe(
+      "Jul 5, 2024, 1:05 AM GMT+9"
+    );
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Absinthe's `NaiveDateTime` is an ISO 8601 timestamp without an offset,
+ * e.g. "2024-03-10T06:30:00" or "2024-03-10T06:30:00.123456". The server
+ * stores and sends UTC, but `Date` reads offset-less strings as local time,
+ * so values must go through `parseNaiveDateTime` rather than `new Date`.
+ */
+export type NaiveDateTime = string;
+
+const NAIVE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d+))?)?$/;
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/** Reads a NaiveDateTime as UTC. Returns null for anything else. */
+export function parseNaiveDateTime(value: NaiveDateTime): Date | null {
+  const match = NAIVE_PATTERN.exec(value);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second = "0", fraction = ""] = match;
+  const ms = Number(fraction.padEnd(3, "0").slice(0, 3));
+  const time = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second, ms);
+  const date = new Date(time);
+
+  // Date.UTC rolls over out-of-range parts ("02-30" becomes March 2nd)
+  return date.getUTCMonth() === +month - 1 && date.getUTCDate() === +day ? date : null;
+}
+
+/** Formats a Date as a UTC NaiveDateTime with second precision. */
+export function toNaiveDateTime(date: Date): NaiveDateTime {
+  return date.toISOString().slice(0, 19);
+}
+
+export interface DisplayOptions {
+  /** BCP 47 locale; the viewer's own when omitted. */
+  locale?: string;
+  /** IANA time zone; the viewer's own when omitted. */
+  timeZone?: string;
+}
+
+/** The full date and time in the viewer's locale and time zone, e.g. for tooltips. */
+export function formatAbsolute(date: Date, { locale, timeZone }: DisplayOptions = {}): string {
+  return new Intl.DateTimeFormat(locale, {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone,
+    timeZoneName: "short",
+  }).format(date);
+}
+
+// Year, month and day of `date` on the wall calendar of `timeZone`
+function calendarDate(date: Date, timeZone: string | undefined) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    timeZone,
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value);
+  return { year: part("year"), month: part("month"), day: part("day") };
+}
+
+/**
+ * Whole calendar days from `from` to `to` in `timeZone`. Counting dates
+ * rather than elapsed hours keeps 23- and 25-hour DST days at one day, and
+ * makes Monday 23:00 → Wednesday 01:00 "2 days ago" rather than one.
+ */
+function calendarDaysBetween(from: Date, to: Date, timeZone: string | undefined) {
+  const a = calendarDate(from, timeZone);
+  const b = calendarDate(to, timeZone);
+  return Math.round(
+    (Date.UTC(b.year, b.month - 1, b.day) - Date.UTC(a.year, a.month - 1, a.day)) / DAY
+  );
+}
+
+// Whole calendar months from `from` to `to`; Jan 31 → Feb 28 is not yet a month
+function calendarMonthsBetween(from: Date, to: Date, timeZone: string | undefined) {
+  const a = calendarDate(from, timeZone);
+  const b = calendarDate(to, timeZone);
+  const months = (b.year - a.year) * 12 + (b.month - a.month);
+  return b.day < a.day ? months - 1 : months;
+}
+
+/**
+ * "now", "5 minutes ago", "yesterday", "3 weeks ago", ... Anything
+ * under a day counts elapsed time; longer spans count calendar days and
+ * months in the viewer's time zone. Timestamps slightly ahead of `now`
+ * (clock skew between client and server) read as "now".
+ */
+export function formatRelative(
+  date: Date,
+  now: Date,
+  { locale, timeZone }: DisplayOptions = {}
+): string {
+  const rtf = new Intl.RelativeTimeFormat(locale, { numeric: "auto" });
+  const elapsed = Math.max(0, now.getTime() - date.getTime());
+
+  if (elapsed < MINUTE) return rtf.format(0, "second");
+  if (elapsed < HOUR) return rtf.format(-Math.floor(elapsed / MINUTE), "minute");
+  if (elapsed < DAY) return rtf.format(-Math.floor(elapsed / HOUR), "hour");
+
+  const days = Math.max(1, calendarDaysBetween(date, now, timeZone));
+  if (days < 7) return rtf.format(-days, "day");
+
+  const months = calendarMonthsBetween(date, now, timeZone);
+  if (months < 1) return rtf.format(-Math.floor(days / 7), "week");
+  if (months < 12) return rtf.format(-months, "month");
+  return rtf.format(-Math.floor(months / 12), "year");
+}
+
+/**
+ * How often a live `formatRelative` label should re-render: every few
+ * seconds while it counts minutes, rarely once it counts days.
+ */
+export function refreshInterval(date: Date, now: Date): number {
+  const elapsed = now.getTime() - date.getTime();
+  if (elapsed < HOUR) return 15 * SECOND;
+  if (elapsed < DAY) return MINUTE;
+  return HOUR;
+}
@@ -0,0 +1,649 @@
+import {
+  Observable,
+  type FetchFunction,
+  type GraphQLResponse,
+  type RequestParameters,
+  type UploadableMap,
+  type Variables,
+} from "relay-runtime";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AuthError, describeError, NetworkError, ResolverError, ValidationError } from "./errors";
+import { checkSession, createFetchFn, type FetchOptions } from "./network";
+import { trackUploadProgress } from "./uploadProgress";
+
+const fetchMock = vi.fn<typeof fetch>();
+
+beforeEach(() => {
+  vi.stubGlobal("fetch", fetchMock);
+});
+
+afterEach(() => {
+  fetchMock.mockReset();
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+});
+
+function operation(
+  name: string,
+  { kind = "query", id = null }: { kind?: "query" | "mutation"; id?: string | null } = {}
+): RequestParameters {
+  return {
+    cacheID: name,
+    id,
+    text: `${kind} ${name} { viewer { id } }`,
+    name,
+    operationKind: kind,
+    metadata: {},
+  } as RequestParameters;
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+}
+
+function fetchFnWith(options: Partial<FetchOptions> = {}): FetchFunction {
+  return createFetchFn({ token: null, onUnauthorized: () => {}, batching: false, ...options });
+}
+
+// Resolves with everything the request emitted, or rejects with its error
+function collect(
+  fetchFn: FetchFunction,
+  request: RequestParameters,
+  variables: Variables = {},
+  uploadables?: UploadableMap
+) {
+  return new Promise<GraphQLResponse[]>((resolve, reject) => {
+    const responses: GraphQLResponse[] = [];
+    Observable.from(fetchFn(request, variables, {}, uploadables)).subscribe({
+      next: (response) => responses.push(response),
+      error: reject,
+      complete: () => resolve(responses),
+    });
+  });
+}
+
+function run(
+  options: Partial<FetchOptions>,
+  request: RequestParameters,
+  variables: Variables = {},
+  uploadables?: UploadableMap
+): Promise<GraphQLResponse[]> {
+  return collect(fetchFnWith(options), request, variables, uploadables);
+}
+
+// The body of the `call`th request sent
+function sentBody(call = 0): unknown {
+  return JSON.parse(String(fetchMock.mock.calls[call][1]?.body));
+}
+
+// A fetch that never answers, failing only when aborted
+function hangingFetch(_url: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+  return new Promise((_resolve, reject) => {
+    init?.signal?.addEventListener("abort", () => reject(new DOMException("Aborted", "AbortError")));
+  });
+}
+
+// A fetch answered by calling `answer`, for checking what happens meanwhile
+function pendingFetch() {
+  let answer: (response: Response) => void = () => {};
+  fetchMock.mockImplementation(
+    (url, init) =>
+      new Promise((resolve, reject) => {
+        answer = resolve;
+        void hangingFetch(url, init).catch(reject);
+      })
+  );
+  return { answer: (response: Response) => answer(response) };
+}
+
+// Stands in for XMLHttpRequest, which multipart uploads use; `sent` holds
+// each request sent, for the test to answer
+class FakeXHR {
+  static sent: FakeXHR[] = [];
+
+  method = "";
+  url = "";
+  headers: Record<string, string> = {};
+  body: FormData | null = null;
+  aborted = false;
+  status = 0;
+  responseText = "";
+  upload: { onprogress: ((event: Partial<ProgressEvent>) => void) | null } = { onprogress: null };
+  onload: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  onabort: (() => void) | null = null;
+  onloadend: (() => void) | null = null;
+
+  open(method: string, url: string) {
+    this.method = method;
+    this.url = url;
+  }
+
+  setRequestHeader(name: string, value: string) {
+    this.headers[name] = value;
+  }
+
+  send(body: FormData) {
+    this.body = body;
+    FakeXHR.sent.push(this);
+  }
+
+  abort() {
+    this.aborted = true;
+    this.onabort?.();
+    this.onloadend?.();
+  }
+
+  progress(loaded: number, total: number) {
+    this.upload.onprogress?.({ lengthComputable: true, loaded, total });
+  }
+
+  respond(status: number, body: unknown) {
+    this.status = status;
+    this.responseText = JSON.stringify(body);
+    this.onload?.();
+    this.onloadend?.();
+  }
+
+  fail() {
+    this.onerror?.();
+    this.onloadend?.();
+  }
+}
+
+// The abort listeners added to signals and not yet removed
+function trackAbortListeners() {
+  const active = new Set<unknown>();
+  const add = EventTarget.prototype.addEventListener;
+  const remove = EventTarget.prototype.removeEventListener;
+  vi.spyOn(EventTarget.prototype, "addEventListener").mockImplementation(function (this: EventTarget, ...args) {
+    if (this instanceof AbortSignal && args[0] === "abort") active.add(args[1]);
+    add.apply(this, args);
+  });
+  vi.spyOn(EventTarget.prototype, "removeEventListener").mockImplementation(function (this: EventTarget, ...args) {
+    if (this instanceof AbortSignal && args[0] === "abort") active.delete(args[1]);
+    remove.apply(this, args);
+  });
+  return active;
+}
+
+describe("createFetchFn", () => {
+  it("sends the operation with the session token", async () => {
+    fetchMock.mockResolvedValue(json({ data: { viewer: { id: "1" } } }));
+
+    const responses = await run({ token: "secret" }, operation("ViewerQuery"), { first: 2 });
+
+    expect(responses).toEqual([{ data: { viewer: { id: "1" } }, extensions: { is_final: true } }]);
+    expect(sentBody()).toEqual({ query: "query ViewerQuery { viewer { id } }", variables: { first: 2 } });
+    expect(fetchMock.mock.calls[0][1]?.headers).toMatchObject({ Authorization: "Bearer secret" });
+  });
+
+  describe("retries", () => {
+    it("retries a query after a server error, backing off between attempts", async () => {
+      vi.useFakeTimers();
+      vi.spyOn(Math, "random").mockReturnValue(1);
+      fetchMock
+        .mockResolvedValueOnce(json({}, 503))
+        .mockResolvedValueOnce(json({}, 502))
+        .mockResolvedValueOnce(json({ data: { viewer: null } }));
+
+      const result = run({}, operation("ViewerQuery"));
+
+      await vi.advanceTimersByTimeAsync(0);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(299);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(599);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+
+      await expect(result).resolves.toEqual([{ data: { viewer: null }, extensions: { is_final: true } }]);
+    });
+
+    it("gives up after maxRetries", async () => {
+      vi.spyOn(Math, "random").mockReturnValue(0);
+      fetchMock.mockImplementation(async () => json({}, 500));
+
+      const error = await run({ maxRetries: 2 }, operation("ViewerQuery")).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(NetworkError);
+      expect(error).toMatchObject({ status: 500, retryable: true });
+      expect(describeError(error)).toBe("The server ran into a problem. Please try again.");
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it("never retries a mutation, which may have been applied", async () => {
+      fetchMock.mockResolvedValue(json({}, 503));
+
+      await expect(run({}, operation("LikeMutation", { kind: "mutation" }))).rejects.toBeInstanceOf(NetworkError);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("doesn't retry a client error", async () => {
+      fetchMock.mockResolvedValue(new Response("Bad Request", { status: 400 }));
+
+      await expect(run({}, operation("ViewerQuery"))).rejects.toMatchObject({ status: 400, retryable: false });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("batching", () => {
+    const batchReply = () =>
+      json([{ payload: { data: { viewer: { id: "1" } } } }, { payload: { data: { node: null } } }]);
+
+    it("sends queries issued in the same tick as one request and splits the answer", async () => {
+      fetchMock.mockResolvedValue(batchReply());
+      const fetchFn = fetchFnWith({ batching: true });
+
+      const results = await Promise.all([
+        collect(fetchFn, operation("ViewerQuery")),
+        collect(fetchFn, operation("NodeQuery"), { id: "2" }),
+      ]);
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(sentBody()).toEqual([
+        { query: "query ViewerQuery { viewer { id } }", variables: {} },
+        { query: "query NodeQuery { viewer { id } }", variables: { id: "2" } },
+      ]);
+      expect(results).toEqual([
+        [{ data: { viewer: { id: "1" } }, extensions: { is_final: true } }],
+        [{ data: { node: null }, extensions: { is_final: true } }],
+      ]);
+    });
+
+    it("sends each query on its own when batching is off", async () => {
+      fetchMock.mockImplementation(async () => json({ data: { viewer: null } }));
+      const fetchFn = fetchFnWith();
+
+      await Promise.all([collect(fetchFn, operation("ViewerQuery")), collect(fetchFn, operation("NodeQuery"))]);
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(sentBody(0)).toMatchObject({ query: "query ViewerQuery { viewer { id } }" });
+      expect(sentBody(1)).toMatchObject({ query: "query NodeQuery { viewer { id } }" });
+    });
+
+    it("keeps the batch going when one of its queries is disposed", async () => {
+      const { answer } = pendingFetch();
+      const fetchFn = fetchFnWith({ batching: true });
+      const disposed = Observable.from(fetchFn(operation("ViewerQuery"), {}, {})).subscribe({});
+      const kept = collect(fetchFn, operation("NodeQuery"));
+
+      await vi.waitFor(() => expect(fetchMock).toHaveBeenCalled());
+      disposed.unsubscribe();
+      expect(fetchMock.mock.calls[0][1]?.signal?.aborted).toBe(false);
+      answer(batchReply());
+
+      await expect(kept).resolves.toEqual([{ data: { node: null }, extensions: { is_final: true } }]);
+    });
+
+    it("leaves no abort listeners behind once the batch is answered", async () => {
+      const active = trackAbortListeners();
+      fetchMock.mockResolvedValue(batchReply());
+      const fetchFn = fetchFnWith({ batching: true });
+
+      await Promise.all([collect(fetchFn, operation("ViewerQuery")), collect(fetchFn, operation("NodeQuery"))]);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(active.size).toBe(0);
+    });
+  });
+
+  describe("in-flight de-duplication", () => {
+    it("shares an identical query in flight, whatever the order of its variables", async () => {
+      fetchMock.mockImplementation(async () => json({ data: { viewer: null } }));
+      const fetchFn = fetchFnWith();
+
+      const [first, second] = await Promise.all([
+        collect(fetchFn, operation("ViewerQuery"), { first: 2, after: "x" }),
+        collect(fetchFn, operation("ViewerQuery"), { after: "x", first: 2 }),
+      ]);
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(second).toEqual(first);
+    });
+
+    it("sends queries with different variables separately", async () => {
+      fetchMock.mockImplementation(async () => json({ data: { viewer: null } }));
+      const fetchFn = fetchFnWith();
+
+      await Promise.all([
+        collect(fetchFn, operation("ViewerQuery"), { first: 2 }),
+        collect(fetchFn, operation("ViewerQuery"), { first: 3 }),
+      ]);
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it("keeps the shared request going until its last subscriber leaves", async () => {
+      const { answer } = pendingFetch();
+      const fetchFn = fetchFnWith();
+      const leaving = Observable.from(fetchFn(operation("ViewerQuery"), {}, {})).subscribe({});
+      const staying = collect(fetchFn, operation("ViewerQuery"));
+
+      await vi.waitFor(() => expect(fetchMock).toHaveBeenCalled());
+      leaving.unsubscribe();
+      expect(fetchMock.mock.calls[0][1]?.signal?.aborted).toBe(false);
+      answer(json({ data: { viewer: null } }));
+
+      await expect(staying).resolves.toEqual([{ data: { viewer: null }, extensions: { is_final: true } }]);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("never shares a mutation", async () => {
+      fetchMock.mockImplementation(async () => json({ data: { likePost: null } }));
+      const fetchFn = fetchFnWith();
+      const like = operation("LikeMutation", { kind: "mutation" });
+
+      await Promise.all([collect(fetchFn, like, { postId: "1" }), collect(fetchFn, like, { postId: "1" })]);
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("uploads", () => {
+    const createPost = operation("CreatePostMutation", { kind: "mutation" });
+    const variables = { input: { body: "Look at this" } };
+    const file = new File(["png"], "cat.png", { type: "image/png" });
+
+    beforeEach(() => {
+      FakeXHR.sent = [];
+      vi.stubGlobal("XMLHttpRequest", FakeXHR);
+    });
+
+    // The upload sent once the request gets going
+    async function sentUpload(): Promise<FakeXHR> {
+      await vi.waitFor(() => expect(FakeXHR.sent).toHaveLength(1));
+      return FakeXHR.sent[0];
+    }
+
+    it("sends a mutation with files as multipart form data, naming each file's part in its variable", async () => {
+      const result = run({ token: "secret" }, createPost, variables, { media: file });
+      const xhr = await sentUpload();
+
+      expect(xhr).toMatchObject({ method: "POST", url: "/api/graphql", headers: { Authorization: "Bearer secret" } });
+      expect(xhr.body?.get("query")).toBe(createPost.text);
+      expect(JSON.parse(String(xhr.body?.get("variables")))).toEqual({ ...variables, media: "media" });
+      expect(xhr.body?.get("media")).toMatchObject({ name: "cat.png", type: "image/png" });
+
+      xhr.respond(200, { data: { createPost: { id: "1" } } });
+      await expect(result).resolves.toEqual([{ data: { createPost: { id: "1" } }, extensions: { is_final: true } }]);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("reports upload progress to whoever tracks the file", async () => {
+      const listener = vi.fn();
+      const untrack = trackUploadProgress(file, listener);
+      const result = run({}, createPost, variables, { media: file });
+      const xhr = await sentUpload();
+
+      xhr.progress(512, 2048);
+      untrack();
+      xhr.progress(2048, 2048);
+      xhr.respond(200, { data: { createPost: null } });
+      await result;
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith({ loaded: 512, total: 2048 });
+    });
+
+    it("aborts the upload when the request is disposed", async () => {
+      const error = vi.fn();
+      const subscription = Observable.from(fetchFnWith()(createPost, variables, {}, { media: file })).subscribe({
+        error,
+      });
+      const xhr = await sentUpload();
+
+      subscription.unsubscribe();
+
+      expect(xhr.aborted).toBe(true);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(error).not.toHaveBeenCalled();
+    });
+
+    it("reports a failed upload as a network error without retrying", async () => {
+      const result = run({}, createPost, variables, { media: file }).catch((e: unknown) => e);
+      (await sentUpload()).fail();
+
+      await expect(result).resolves.toMatchObject({ kind: "network", message: "Upload failed", retryable: false });
+      expect(FakeXHR.sent).toHaveLength(1);
+    });
+
+    it("maps the upload's response like any other", async () => {
+      const onUnauthorized = vi.fn();
+      const result = run({ onUnauthorized }, createPost, variables, { media: file }).catch((e: unknown) => e);
+      (await sentUpload()).respond(401, { errors: [{ message: "Expired", extensions: { code: "SESSION_EXPIRED" } }] });
+
+      await expect(result).resolves.toBeInstanceOf(AuthError);
+      expect(onUnauthorized).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("timeouts and aborts", () => {
+    it("times out each attempt", async () => {
+      vi.useFakeTimers();
+      fetchMock.mockImplementation(hangingFetch);
+
+      const result = run({ timeoutMs: 1000, maxRetries: 0 }, operation("ViewerQuery")).catch((e: unknown) => e);
+      await vi.advanceTimersByTimeAsync(1000);
+      const error = await result;
+
+      expect(error).toBeInstanceOf(NetworkError);
+      expect(error).toMatchObject({ timedOut: true, retryable: true });
+      expect(describeError(error)).toBe("The server took too long to respond. Please try again.");
+    });
+
+    it("aborts the fetch when the request is disposed", async () => {
+      fetchMock.mockImplementation(hangingFetch);
+      const fetchFn = fetchFnWith();
+      const error = vi.fn();
+
+      const subscription = Observable.from(fetchFn(operation("ViewerQuery"), {}, {})).subscribe({ error });
+      await vi.waitFor(() => expect(fetchMock).toHaveBeenCalled());
+      subscription.unsubscribe();
+
+      expect(fetchMock.mock.calls[0][1]?.signal?.aborted).toBe(true);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(error).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("errors", () => {
+    it("reports an expired session and signs out", async () => {
+      const onUnauthorized = vi.fn();
+      fetchMock.mockResolvedValue(
+        json(
+          { errors: [{ message: "Invalid or expired session token", extensions: { code: "SESSION_EXPIRED" } }] },
+          401
+        )
+      );
+
+      const error = await run({ onUnauthorized }, operation("ViewerQuery")).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(AuthError);
+      expect(describeError(error)).toBe("Your session has expired. Please log in again.");
+      expect(onUnauthorized).toHaveBeenCalledTimes(1);
+    });
+
+    it("treats a 401 without GraphQL errors, e.g. from a proxy, as an expired session", async () => {
+      fetchMock.mockResolvedValue(new Response("Unauthorized", { status: 401 }));
+
+      const error = await run({}, operation("ViewerQuery")).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(AuthError);
+      expect(describeError(error)).toBe("Your session has expired. Please log in again.");
+    });
+
+    it("reports a body that isn't JSON as a network error", async () => {
+      fetchMock.mockResolvedValue(new Response("<html>Gateway</html>", { status: 200 }));
+
+      await expect(run({}, operation("ViewerQuery"))).rejects.toMatchObject({
+        kind: "network",
+        message: "Unexpected response from server (HTTP 200)",
+      });
+    });
+
+    it.each([
+      ["a document error", { message: 'Unknown field "nope"' }, ValidationError],
+      [
+        "bad input",
+        { message: "Body is too long", path: ["createPost"], extensions: { code: "BAD_USER_INPUT" } },
+        ValidationError,
+      ],
+      ["a resolver error", { message: "Post not found", path: ["createComment"] }, ResolverError],
+      [
+        "a missing login",
+        { message: "Log in first", path: ["createPost"], extensions: { code: "UNAUTHENTICATED" } },
+        AuthError,
+      ],
+    ])("maps %s in a mutation's errors to its error class", async (_name, payload, errorClass) => {
+      fetchMock.mockResolvedValue(json({ data: { createPost: null }, errors: [payload] }));
+
+      const error = await run({}, operation("CreatePostMutation", { kind: "mutation" })).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(errorClass);
+      expect(error).toMatchObject({ message: payload.message, errors: [payload] });
+    });
+
+    it("passes a query's partial data through with its errors", async () => {
+      const body = {
+        data: { viewer: { id: "1", friends: null } },
+        errors: [{ message: "Friends unavailable", path: ["viewer", "friends"] }],
+      };
+      fetchMock.mockResolvedValue(json(body));
+
+      await expect(run({}, operation("ViewerQuery"))).resolves.toEqual([{ ...body, extensions: { is_final: true } }]);
+    });
+
+    it("rejects a query whose errors left no data", async () => {
+      fetchMock.mockResolvedValue(json({ data: null, errors: [{ message: "Boom", path: ["viewer"] }] }));
+
+      await expect(run({}, operation("ViewerQuery"))).rejects.toBeInstanceOf(ResolverError);
+    });
+  });
+
+  describe("persisted queries", () => {
+    const unknownDocument = { errors: [{ message: "No query document supplied" }] };
+
+    it("sends the persisted id instead of the text", async () => {
+      fetchMock.mockResolvedValue(json({ data: { viewer: null } }));
+
+      await run({}, operation("ViewerQuery", { id: "known-id" }), { first: 2 });
+
+      expect(sentBody()).toEqual({ id: "known-id", variables: { first: 2 } });
+    });
+
+    it("falls back to the text once the server doesn't know the id, and sends the text from then on", async () => {
+      const request = operation("ViewerQuery", { id: "unknown-id" });
+      fetchMock
+        .mockResolvedValueOnce(json(unknownDocument))
+        .mockImplementation(async () => json({ data: { viewer: null } }));
+
+      await expect(run({}, request)).resolves.toEqual([{ data: { viewer: null }, extensions: { is_final: true } }]);
+      expect(sentBody(0)).toEqual({ id: "unknown-id", variables: {} });
+      expect(sentBody(1)).toEqual({ query: request.text, variables: {} });
+
+      await run({}, request);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect(sentBody(2)).toEqual({ query: request.text, variables: {} });
+    });
+
+    it("falls back for a mutation too, which the server never ran", async () => {
+      const request = operation("LikeMutation", { kind: "mutation", id: "unknown-mutation-id" });
+      fetchMock
+        .mockResolvedValueOnce(json(unknownDocument))
+        .mockResolvedValueOnce(json({ data: { likePost: null } }));
+
+      await expect(run({}, request)).resolves.toHaveLength(1);
+      expect(sentBody(1)).toEqual({ query: request.text, variables: {} });
+    });
+
+    it("reports other errors without data as they are", async () => {
+      fetchMock.mockResolvedValue(json({ errors: [{ message: "Cannot query field \"nope\"" }] }));
+
+      await expect(run({}, operation("ViewerQuery", { id: "other-id" }))).rejects.toBeInstanceOf(ValidationError);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  // Only the mock backend streams; the Phoenix app answers these operations
+  // in one response (see SocialNetworkWeb.IncrementalDeliveryTest)
+  describe("incremental delivery", () => {
+    const deferred = { data: { id: "1" }, path: ["viewer"], label: "Profile$defer$Friends" };
+
+    function multipart(parts: unknown[]): Response {
+      const body = parts
+        .map((part) => `\r\n---\r\nContent-Type: application/json; charset=utf-8\r\n\r\n${JSON.stringify(part)}`)
+        .join("");
+      return new Response(`${body}\r\n-----\r\n`, {
+        headers: { "Content-Type": 'multipart/mixed; boundary="-"; deferSpec=20220824' },
+      });
+    }
+
+    it("accepts a multipart answer for a request sent on its own", async () => {
+      fetchMock.mockResolvedValue(json({ data: { viewer: null } }));
+
+      await run({}, operation("ViewerQuery"));
+
+      const headers = new Headers(fetchMock.mock.calls[0][1]?.headers);
+      expect(headers.get("Accept")).toBe("multipart/mixed; deferSpec=20220824, application/json");
+    });
+
+    it("hands the first part to Relay, then each deferred result as it arrives", async () => {
+      fetchMock.mockResolvedValue(
+        multipart([
+          { data: { viewer: { id: "1" } }, hasNext: true },
+          { incremental: [deferred], hasNext: false },
+        ])
+      );
+
+      await expect(run({}, operation("ViewerQuery"))).resolves.toEqual([
+        { data: { viewer: { id: "1" } }, hasNext: true },
+        expect.objectContaining(deferred),
+      ]);
+    });
+
+    it("treats a single JSON answer, as the Phoenix app sends, as final", async () => {
+      fetchMock.mockResolvedValue(json({ data: { viewer: { id: "1", friends: [] } } }));
+
+      await expect(run({}, operation("ViewerQuery"))).resolves.toEqual([
+        { data: { viewer: { id: "1", friends: [] } }, extensions: { is_final: true } },
+      ]);
+    });
+
+    it("fails when the connection closes before the last part", async () => {
+      fetchMock.mockResolvedValue(
+        new Response(
+          `\r\n---\r\n\r\n${JSON.stringify({ data: { viewer: { id: "1" } }, hasNext: true })}\r\n---`,
+          { headers: { "Content-Type": "multipart/mixed" } }
+        )
+      );
+
+      await expect(run({}, operation("ViewerQuery"))).rejects.toBeInstanceOf(NetworkError);
+    });
+  });
+});
+
+describe("checkSession", () => {
+  it("signs out and reports a token the server rejects", async () => {
+    const expired = { errors: [{ message: "Expired", extensions: { code: "SESSION_EXPIRED" } }] };
+    fetchMock.mockResolvedValue(json(expired, 401));
+    const onUnauthorized = vi.fn();
+
+    await expect(checkSession({ token: "stale", onUnauthorized })).resolves.toBe(false);
+    expect(onUnauthorized).toHaveBeenCalledTimes(1);
+    expect(new Headers(fetchMock.mock.calls[0][1]?.headers).get("Authorization")).toBe("Bearer stale");
+  });
+
+  it("accepts the session when the server does, or can't be reached", async () => {
+    const onUnauthorized = vi.fn();
+    fetchMock.mockResolvedValueOnce(json({ data: { viewer: { id: "1" } } }));
+    fetchMock.mockRejectedValueOnce(new TypeError("Failed to fetch"));
+
+    await expect(checkSession({ token: "good", onUnauthorized })).resolves.toBe(true);
+    await expect(checkSession({ token: "good", onUnauthorized })).resolves.toBe(true);
+    expect(onUnauthorized).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,577 @@
+import {
+  Observable,
+  type FetchFunction,
+  type GraphQLResponse,
+  type RequestParameters,
+  type UploadableMap,
+  type Variables,
+} from "relay-runtime";
+import {
+  AuthError,
+  errorFromGraphQL,
+  GraphQLClientError,
+  NetworkError,
+  type GraphQLErrorPayload,
+} from "./errors";
+import {
+  INCREMENTAL_ACCEPT,
+  multipartBoundary,
+  readMultipart,
+  toRelayResponses,
+  type SubsequentPayload,
+} from "./incremental";
+import {
+  isUnknownDocumentResponse,
+  markUnknown,
+  persistedId,
+  queryText,
+  usesIncrementalDelivery,
+} from "./persistedQueries";
+import { reportUploadProgress } from "./uploadProgress";
+
+const GRAPHQL_URL = "/api/graphql";
+
+const DEFAULT_TIMEOUT_MS = 15_000;
+const DEFAULT_MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 300;
+// Keeps one slow operation from holding up too many others
+const MAX_BATCH_SIZE = 10;
+
+export interface FetchOptions {
+  /** Session token sent as a bearer token, or `null` to browse anonymously. */
+  token: string | null;
+  /** Called when the server rejects `token` (expired or revoked). */
+  onUnauthorized: () => void;
+  /** Per-attempt timeout. */
+  timeoutMs?: number;
+  /** Extra attempts for queries that fail with a retryable network error. */
+  maxRetries?: number;
+  /** Coalesce queries issued in the same tick into one batched request. */
+  batching?: boolean;
+}
+
+interface GraphQLResponseBody {
+  data?: Record<string, unknown> | null;
+  errors?: GraphQLErrorPayload[];
+  extensions?: Record<string, unknown>;
+}
+
+/** One operation as sent to Absinthe: `id` or `query`, plus `variables`. */
+type OperationPayload = Record<string, unknown>;
+
+interface Reply<T = GraphQLResponseBody> {
+  /** The whole response, or the first part of an incremental one. */
+  body: T;
+  /** The rest of an incremental response, as it arrives; null otherwise. */
+  subsequent: AsyncIterable<SubsequentPayload> | null;
+}
+
+type Post = (body: OperationPayload | OperationPayload[], signal: AbortSignal) => Promise<Reply<unknown>>;
+
+type Send = (payload: OperationPayload, signal: AbortSignal) => Promise<Reply>;
+
+// Exponential backoff with full jitter: 0-300ms, 0-600ms, 0-1200ms...
+function backoffMs(attempt: number): number {
+  return Math.random() * BASE_BACKOFF_MS * 2 ** attempt;
+}
+
+// The errors of a 401's body. A 401 without them (e.g. from a proxy) still
+// means the session was rejected.
+function unauthorizedErrors(text: string): GraphQLErrorPayload[] {
+  try {
+    const { errors } = JSON.parse(text) as { errors?: GraphQLErrorPayload[] };
+    if (Array.isArray(errors) && errors.length > 0) return errors;
+  } catch {
+    // Not JSON; fall through
+  }
+  return [{ message: "Session expired", extensions: { code: "SESSION_EXPIRED" } }];
+}
+
+function abortError(): DOMException {
+  return new DOMException("The request was aborted", "AbortError");
+}
+
+function delay(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      window.clearTimeout(timeout);
+      reject(abortError());
+    };
+    const timeout = window.setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+interface QueuedOperation {
+  payload: OperationPayload;
+  signal: AbortSignal;
+  resolve: (reply: Reply) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Queues operations until the current task ends, then sends them as one
+ * request in Absinthe's batch format: a JSON array of operations, answered
+ * by an array of `{ payload }` in the same order. Operations using @defer or
+ * @stream are sent on their own, since a batch is answered all at once.
+ */
+function createBatcher(post: Post): Send {
+  let queue: QueuedOperation[] = [];
+
+  const sendBatch = (operations: QueuedOperation[]) => {
+    if (operations.length === 1) {
+      const [operation] = operations;
+      post(operation.payload, operation.signal).then(
+        (reply) => operation.resolve(reply as Reply),
+        operation.reject
+      );
+      return;
+    }
+
+    // The shared request is only cancelled once every operation in it is
+    const controller = new AbortController();
+    let remaining = operations.length;
+    const removeListeners = operations.map((operation) => {
+      const onAbort = () => {
+        operation.reject(abortError());
+        if (--remaining === 0) controller.abort();
+      };
+      operation.signal.addEventListener("abort", onAbort, { once: true });
+      return () => operation.signal.removeEventListener("abort", onAbort);
+    });
+    // An operation's signal outlives its batch (it covers retries too), so
+    // the listeners go as soon as the batch is answered
+    const settle = () => removeListeners.forEach((remove) => remove());
+
+    post(
+      operations.map((operation) => operation.payload),
+      controller.signal
+    ).then(
+      ({ body: results }) => {
+        settle();
+        const valid =
+          Array.isArray(results) &&
+          results.length === operations.length &&
+          results.every((result) => result?.payload);
+        if (!valid) {
+          const error = new NetworkError("Malformed batch response", { retryable: false });
+          operations.forEach((operation) => operation.reject(error));
+          return;
+        }
+        operations.forEach((operation, i) => operation.resolve({ body: results[i].payload, subsequent: null }));
+      },
+      (error) => {
+        settle();
+        operations.forEach((operation) => operation.reject(error));
+      }
+    );
+  };
+
+  const flush = async () => {
+    const queued = queue;
+    queue = [];
+
+    // Only worth finding out when there is a batch to keep them out of
+    const incremental =
+      queued.length > 1
+        ? await Promise.all(queued.map(({ payload }) => usesIncrementalDelivery(payload).catch(() => false)))
+        : [];
+    const operations: QueuedOperation[] = [];
+    queued.forEach((operation, i) => {
+      if (operation.signal.aborted) return;
+      if (incremental[i]) {
+        sendBatch([operation]);
+      } else {
+        operations.push(operation);
+      }
+    });
+
+    for (let i = 0; i < operations.length; i += MAX_BATCH_SIZE) {
+      sendBatch(operations.slice(i, i + MAX_BATCH_SIZE));
+    }
+  };
+
+  return (payload, signal) =>
+    new Promise((resolve, reject) => {
+      queue.push({ payload, signal, resolve, reject });
+      if (queue.length === 1) window.setTimeout(() => void flush(), 0);
+    });
+}
+
+// JSON with every object's keys sorted, so variables that only differ in
+// key order give the same de-dup key
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, nested: unknown) =>
+    nested && typeof nested === "object" && !Array.isArray(nested)
+      ? Object.fromEntries(Object.entries(nested).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+      : nested
+  );
+}
+
+interface InFlightRequest {
+  /** Responses so far, replayed to subscribers that join late. */
+  responses: GraphQLResponse[];
+  listeners: Set<(response: GraphQLResponse) => void>;
+  /** Settles once the last response has arrived, or the request failed. */
+  done: Promise<void>;
+  controller: AbortController;
+  subscribers: number;
+}
+
+/**
+ * Builds the Relay fetch function. Every failure reaches Relay as a
+ * `GraphQLClientError` subclass:
+ *
+ * - Operations are sent by persisted id (see `persistedQueries.ts`).
+ * - Queries issued in the same tick share one batched request, unless
+ *   `batching` is off; an identical query already in flight is reused
+ *   rather than sent again.
+ * - Queries are retried with backoff on retryable network errors; mutations
+ *   are never retried since they may have been applied.
+ * - Mutations with `uploadables` are sent as multipart form data (see
+ *   `postMultipart`) and report progress through `uploadProgress.ts`.
+ * - Each attempt times out after `timeoutMs`. Disposing the Relay request
+ *   (e.g. navigating away) aborts the in-flight fetch once nothing else is
+ *   waiting on it.
+ * - A query with `errors` and partial `data` is passed through so the
+ *   components can render what loaded; fields that failed come back null.
+ *   Without `data`, or for a mutation, the errors reject the request.
+ * - Requests sent on their own accept incremental delivery (see
+ *   `incremental.ts`), so fragments marked @defer and lists marked @stream
+ *   arrive after the rest. A server that ignores the directives answers in
+ *   one response, which Relay is told holds everything.
+ */
+export function createFetchFn({
+  token,
+  onUnauthorized,
+  timeoutMs = DEFAULT_TIMEOUT_MS,
+  maxRetries = DEFAULT_MAX_RETRIES,
+  batching = true,
+}: FetchOptions): FetchFunction {
+  const authHeaders = (): Record<string, string> => (token ? { Authorization: `Bearer ${token}` } : {});
+
+  // Turns a completed HTTP response into its JSON body or the matching error
+  const readResponse = (status: number, text: string): unknown => {
+    if (status === 401) {
+      onUnauthorized();
+      const errors = unauthorizedErrors(text);
+      throw new AuthError(errors.map((error) => error.message).join("; "), errors);
+    }
+
+    const retryable = status >= 500 || status === 429;
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch {
+      throw new NetworkError(`Unexpected response from server (HTTP ${status})`, { status, retryable });
+    }
+
+    if (retryable) {
+      throw new NetworkError(`Server error (HTTP ${status})`, { status, retryable });
+    }
+
+    return json;
+  };
+
+  // A single HTTP request, for one operation or a batch. A multipart/mixed
+  // answer resolves with its first part and streams the rest.
+  const post: Post = async (payload, signal) => {
+    // Aborts this attempt on timeout as well as when the caller aborts
+    const controller = new AbortController();
+    let timedOut = false;
+    const timeout = window.setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const forwardAbort = () => controller.abort();
+    signal.addEventListener("abort", forwardAbort);
+    const release = () => {
+      window.clearTimeout(timeout);
+      signal.removeEventListener("abort", forwardAbort);
+    };
+    const failure = () => {
+      if (signal.aborted) return abortError();
+      return new NetworkError(timedOut ? "Request timed out" : "Network request failed", {
+        retryable: true,
+        timedOut,
+      });
+    };
+
+    let response: Response;
+    try {
+      response = await fetch(GRAPHQL_URL, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          // A batch is answered all at once
+          Accept: Array.isArray(payload) ? "application/json" : INCREMENTAL_ACCEPT,
+          ...authHeaders(),
+        },
+        body: JSON.stringify(payload),
+        signal: controller.signal,
+      });
+    } catch {
+      release();
+      throw failure();
+    }
+
+    const boundary = response.ok ? multipartBoundary(response.headers.get("Content-Type")) : null;
+    if (boundary && response.body) {
+      const parts = readMultipart(response.body, boundary);
+      let first: IteratorResult<unknown>;
+      try {
+        first = await parts.next();
+      } catch (error) {
+        release();
+        throw error instanceof NetworkError ? error : failure();
+      }
+      if (first.done) {
+        release();
+        throw new NetworkError("The server sent an empty response", { retryable: false });
+      }
+      // The timeout covers the wait for the first part; the rest take as long as they take
+      window.clearTimeout(timeout);
+
+      const subsequent = async function* () {
+        try {
+          for await (const part of parts) yield part as SubsequentPayload;
+        } catch (error) {
+          if (signal.aborted) throw abortError();
+          throw error instanceof NetworkError
+            ? error
+            : new NetworkError("The connection closed before the response was complete", { retryable: false });
+        } finally {
+          release();
+        }
+      };
+      return { body: first.value, subsequent: subsequent() };
+    }
+
+    let text: string;
+    try {
+      text = await response.text();
+    } catch {
+      throw failure();
+    } finally {
+      release();
+    }
+
+    return { body: readResponse(response.status, text), subsequent: null };
+  };
+
+  /**
+   * Sends one operation with files in Absinthe.Plug's multipart format: each
+   * uploadable is a part named after its key, and the variable of the same
+   * name holds that part name for the `Upload` scalar to look up. Uses XHR
+   * because fetch can't report upload progress, and has no timeout since a
+   * large file can legitimately take minutes; aborting `signal` cancels it.
+   */
+  const postMultipart = (
+    { variables, ...operation }: OperationPayload,
+    uploadables: UploadableMap,
+    signal: AbortSignal
+  ) =>
+    new Promise<unknown>((resolve, reject) => {
+      if (signal.aborted) {
+        reject(abortError());
+        return;
+      }
+
+      const form = new FormData();
+      const fileVariables = Object.fromEntries(Object.keys(uploadables).map((name) => [name, name]));
+      Object.entries(operation).forEach(([name, value]) => form.append(name, String(value)));
+      form.append("variables", JSON.stringify({ ...(variables as Variables), ...fileVariables }));
+      Object.entries(uploadables).forEach(([name, file]) => form.append(name, file));
+
+      const xhr = new XMLHttpRequest();
+      const onAbort = () => xhr.abort();
+      signal.addEventListener("abort", onAbort, { once: true });
+
+      xhr.open("POST", GRAPHQL_URL);
+      Object.entries(authHeaders()).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+      xhr.upload.onprogress = (e) => {
+        if (e.lengthComputable) reportUploadProgress(uploadables, { loaded: e.loaded, total: e.total });
+      };
+      xhr.onload = () => {
+        try {
+          resolve(readResponse(xhr.status, xhr.responseText));
+        } catch (error) {
+          reject(error);
+        }
+      };
+      xhr.onerror = () => reject(new NetworkError("Upload failed", { retryable: false }));
+      xhr.onabort = () => reject(abortError());
+      xhr.onloadend = () => signal.removeEventListener("abort", onAbort);
+      xhr.send(form);
+    });
+
+  const sendAlone: Send = async (payload, signal) => (await post(payload, signal)) as Reply;
+  const sendBatched = batching ? createBatcher(post) : sendAlone;
+
+  const execute = async (
+    request: RequestParameters,
+    variables: Variables,
+    uploadables: UploadableMap | null | undefined,
+    signal: AbortSignal,
+    emit: (response: GraphQLResponse) => void
+  ): Promise<void> => {
+    const isQuery = request.operationKind === "query";
+    // Mutations go alone so they are never held up behind, or reordered
+    // with, a batch of queries
+    let send = isQuery ? sendBatched : sendAlone;
+    if (uploadables && Object.keys(uploadables).length > 0) {
+      send = async (payload, signal) => ({
+        body: (await postMultipart(payload, uploadables, signal)) as GraphQLResponseBody,
+        subsequent: null,
+      });
+    }
+
+    const sendWithRetries = async (payload: OperationPayload) => {
+      for (let tries = 0; ; tries++) {
+        try {
+          return await send({ ...payload, variables }, signal);
+        } catch (error) {
+          const canRetry = isQuery && error instanceof NetworkError && error.retryable;
+          if (!canRetry || tries >= maxRetries) throw error;
+          await delay(backoffMs(tries), signal);
+        }
+      }
+    };
+
+    // Send the persisted id, falling back to the full text once if the
+    // server doesn't recognise it
+    let reply: Reply | null = null;
+    const id = persistedId(request);
+    if (id) {
+      reply = await sendWithRetries({ id });
+      if (isUnknownDocumentResponse(reply.body)) {
+        markUnknown(id);
+        reply = null;
+      }
+    }
+    reply ??= await sendWithRetries({ query: await queryText(request) });
+
+    const { body, subsequent } = reply;
+    const { data, errors } = body;
+    if (errors?.length && (data == null || !isQuery)) {
+      throw errorFromGraphQL(errors);
+    }
+    if (data == null) {
+      throw new NetworkError("The server returned no data", { retryable: false });
+    }
+
+    if (!subsequent) {
+      // Everything arrived at once, including any @defer fragments the
+      // server didn't defer; without `is_final` Relay would keep waiting
+      emit({ ...body, extensions: { ...body.extensions, is_final: true } } as GraphQLResponse);
+      return;
+    }
+
+    emit(body as GraphQLResponse);
+    for await (const payload of subsequent) {
+      toRelayResponses(payload).forEach(emit);
+    }
+  };
+
+  const inFlight = new Map<string, InFlightRequest>();
+
+  return (request, variables, _cacheConfig, uploadables) =>
+    Observable.create<GraphQLResponse>((sink) => {
+      // Mutations have side effects, so only queries are shared
+      const key =
+        request.operationKind === "query"
+          ? stableStringify([request.id ?? request.text, variables])
+          : null;
+
+      let entry = key ? inFlight.get(key) : undefined;
+      if (!entry) {
+        const controller = new AbortController();
+        const responses: GraphQLResponse[] = [];
+        const listeners = new Set<(response: GraphQLResponse) => void>();
+        const created: InFlightRequest = {
+          responses,
+          listeners,
+          done: execute(request, variables, uploadables, controller.signal, (response) => {
+            responses.push(response);
+            listeners.forEach((listener) => listener(response));
+          }),
+          controller,
+          subscribers: 0,
+        };
+        if (key) {
+          inFlight.set(key, created);
+          const forget = () => {
+            controller.signal.removeEventListener("abort", forget);
+            if (inFlight.get(key) === created) inFlight.delete(key);
+          };
+          created.done.then(forget, forget);
+          controller.signal.addEventListener("abort", forget);
+        }
+        entry = created;
+      }
+
+      const shared = entry;
+      shared.subscribers += 1;
+      let active = true;
+
+      shared.responses.forEach((response) => sink.next(response));
+      const listener = (response: GraphQLResponse) => {
+        if (active) sink.next(response);
+      };
+      shared.listeners.add(listener);
+
+      shared.done.then(
+        () => {
+          if (active) sink.complete();
+        },
+        (error) => {
+          // Nobody is listening once the request was disposed
+          if (!active || shared.controller.signal.aborted) return;
+          sink.error(
+            error instanceof GraphQLClientError
+              ? error
+              : new NetworkError(String(error), { retryable: false })
+          );
+        }
+      );
+
+      return () => {
+        active = false;
+        shared.listeners.delete(listener);
+        shared.subscribers -= 1;
+        if (shared.subscribers === 0) shared.controller.abort();
+      };
+    });
+}
+
+/**
+ * Whether the server still accepts `token`, for the socket, which can't see
+ * why a handshake was refused. A rejected token goes through
+ * `onUnauthorized` like any other 401. Tokens are checked before the
+ * document is, so any document will do. A request that fails says nothing
+ * about the session and counts as accepted.
+ */
+export async function checkSession({
+  token,
+  onUnauthorized,
+}: Pick<FetchOptions, "token" | "onUnauthorized">): Promise<boolean> {
+  if (!token) return true;
+
+  let response: Response;
+  try {
+    response = await fetch(GRAPHQL_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+      body: JSON.stringify({ query: "query SessionCheck { viewer { id } }" }),
+    });
+  } catch {
+    return true;
+  }
+  if (response.status !== 401) return true;
+
+  onUnauthorized();
+  return false;
+}
@@ -0,0 +1,66 @@
+import type { RequestParameters } from "relay-runtime";
+
+/**
+ * relay-compiler persists every operation to `persisted_queries.json` and
+ * leaves only its `id` in the artifacts. Requests send that id; the text is
+ * needed only to fall back when the server doesn't know an id (e.g. it was
+ * deployed before the frontend), for subscriptions, since Absinthe's socket
+ * doesn't consult document providers, and to keep operations using @defer or
+ * @stream out of batches. The manifest is a separate chunk, downloaded the
+ * first time any of these happens.
+ */
+let manifest: Promise<Record<string, string>> | null = null;
+
+function loadManifest(): Promise<Record<string, string>> {
+  manifest ??= import("../../persisted_queries.json").then((module) => module.default);
+  return manifest;
+}
+
+/** The full document text for a request, from the artifact or the manifest. */
+export async function queryText(request: RequestParameters): Promise<string> {
+  if (request.text != null) return request.text;
+  const text = request.id != null ? (await loadManifest())[request.id] : undefined;
+  if (text == null) {
+    throw new Error(`No persisted document for ${request.name} (${request.id ?? "no id"})`);
+  }
+  return text;
+}
+
+const INCREMENTAL_DIRECTIVE = /@(defer|stream)\b/;
+
+/**
+ * Whether an operation payload's document uses @defer or @stream. For a
+ * persisted id this needs the manifest, so the batcher asks only when there
+ * is more than one operation to batch.
+ */
+export async function usesIncrementalDelivery({ id, query }: { id?: unknown; query?: unknown }): Promise<boolean> {
+  if (typeof query === "string") return INCREMENTAL_DIRECTIVE.test(query);
+  if (typeof id !== "string") return false;
+  return INCREMENTAL_DIRECTIVE.test((await loadManifest())[id] ?? "");
+}
+
+// Ids the server has rejected once; later requests send the text straight away
+const unknownIds = new Set<string>();
+
+/** The id to send instead of the document text, if the server should know it. */
+export function persistedId(request: RequestParameters): string | null {
+  return request.id != null && !unknownIds.has(request.id) ? request.id : null;
+}
+
+export function markUnknown(id: string) {
+  unknownIds.add(id);
+}
+
+/**
+ * Absinthe.Plug answers an id no document provider recognises with this
+ * input error and no data.
+ */
+export function isUnknownDocumentResponse(response: {
+  data?: unknown;
+  errors?: ReadonlyArray<{ message: string }>;
+}): boolean {
+  return (
+    response.data == null &&
+    (response.errors ?? []).some((error) => /no query document supplied/i.test(error.message))
+  );
+}
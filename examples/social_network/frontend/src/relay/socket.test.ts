@@ -0,0 +1,299 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AuthError } from "./errors";
+import { AbsintheSocket, type AbsintheSocketOptions, type SubscriptionObserver, type WebSocketLike } from "./socket";
+
+const CONTROL = "__absinthe__:control";
+const QUERY = "subscription PostAdded { postAdded { id } }";
+
+type SentFrame = [string | null, string | null, string, string, unknown];
+
+// Stands in for the browser WebSocket; `opened` holds every connection made
+class FakeSocket implements WebSocketLike {
+  static opened: FakeSocket[] = [];
+
+  readyState = 0;
+  onopen: ((event: unknown) => void) | null = null;
+  onclose: ((event: unknown) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  sent: SentFrame[] = [];
+  closed = false;
+
+  constructor(readonly url: string) {
+    FakeSocket.opened.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data) as SentFrame);
+  }
+
+  close() {
+    this.closed = true;
+    this.drop();
+  }
+
+  open() {
+    this.readyState = 1;
+    this.onopen?.({});
+  }
+
+  // The server or network closing the connection
+  drop() {
+    this.readyState = 3;
+    this.onclose?.({});
+  }
+
+  receive(data: unknown) {
+    this.onmessage?.({ data: typeof data === "string" ? data : JSON.stringify(data) });
+  }
+
+  /** The frames sent for `event`, oldest first. */
+  sentFor(event: string): SentFrame[] {
+    return this.sent.filter((frame) => frame[3] === event);
+  }
+
+  reply([joinRef, ref, topic]: SentFrame, status: string, response: unknown = {}) {
+    this.receive([joinRef, ref, topic, "phx_reply", { status, response }]);
+  }
+}
+
+const latest = () => FakeSocket.opened[FakeSocket.opened.length - 1];
+
+function observer() {
+  return { next: vi.fn<SubscriptionObserver["next"]>(), error: vi.fn<SubscriptionObserver["error"]>() };
+}
+
+function createSocket(options: Partial<AbsintheSocketOptions> = {}) {
+  return new AbsintheSocket({
+    url: "/socket/websocket",
+    params: () => ({ token: "secret", locale: null }),
+    transport: FakeSocket,
+    reconnectAfterMs: () => 100,
+    ...options,
+  });
+}
+
+// Opens the latest connection and accepts its join
+function connect(): FakeSocket {
+  const ws = latest();
+  ws.open();
+  ws.reply(ws.sentFor("phx_join")[0], "ok");
+  return ws;
+}
+
+// Accepts the `n`th document pushed on `ws` as subscription `id`
+function accept(ws: FakeSocket, id: string, n = 0) {
+  ws.reply(ws.sentFor("doc")[n], "ok", { subscriptionId: id });
+}
+
+beforeEach(() => {
+  FakeSocket.opened = [];
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("AbsintheSocket", () => {
+  it("connects with the params, joins the control channel, then pushes the document", () => {
+    const socket = createSocket();
+    socket.subscribe(QUERY, { first: 1 }, observer());
+
+    const ws = latest();
+    const url = new URL(ws.url);
+    expect(url.protocol).toBe("ws:");
+    expect(url.pathname).toBe("/socket/websocket");
+    expect(Object.fromEntries(url.searchParams)).toEqual({ token: "secret", vsn: "2.0.0" });
+
+    ws.open();
+    expect(ws.sent).toEqual([["1", "1", CONTROL, "phx_join", {}]]);
+
+    ws.reply(ws.sent[0], "ok");
+    expect(ws.sent[1]).toEqual(["1", "2", CONTROL, "doc", { query: QUERY, variables: { first: 1 } }]);
+  });
+
+  it("pushes later documents straight away once joined", () => {
+    const socket = createSocket();
+    socket.subscribe(QUERY, {}, observer());
+    const ws = connect();
+
+    socket.subscribe(QUERY, { postId: "2" }, observer());
+
+    expect(ws.sentFor("doc").map(([, , , , payload]) => payload)).toEqual([
+      { query: QUERY, variables: {} },
+      { query: QUERY, variables: { postId: "2" } },
+    ]);
+    expect(FakeSocket.opened).toHaveLength(1);
+  });
+
+  it("routes each result to the subscription its topic names", () => {
+    const socket = createSocket();
+    const first = observer();
+    const second = observer();
+    socket.subscribe(QUERY, { postId: "1" }, first);
+    socket.subscribe(QUERY, { postId: "2" }, second);
+    const ws = connect();
+    accept(ws, "sub-1", 0);
+    accept(ws, "sub-2", 1);
+
+    ws.receive([null, null, "sub-2", "subscription:data", { result: { data: { postAdded: { id: "9" } } } }]);
+
+    expect(second.next).toHaveBeenCalledWith({ data: { postAdded: { id: "9" } } });
+    expect(first.next).not.toHaveBeenCalled();
+  });
+
+  it("ignores frames it can't read", () => {
+    const socket = createSocket();
+    const subscriber = observer();
+    socket.subscribe(QUERY, {}, subscriber);
+    const ws = connect();
+    accept(ws, "sub-1");
+
+    ws.receive("not json");
+    ws.receive({ not: "a frame" });
+    ws.receive([null, null, "sub-1", "subscription:data", { result: "nonsense" }]);
+
+    expect(subscriber.next).not.toHaveBeenCalled();
+    expect(subscriber.error).not.toHaveBeenCalled();
+  });
+
+  it("reports a document the server rejects", () => {
+    const socket = createSocket();
+    const subscriber = observer();
+    socket.subscribe(QUERY, {}, subscriber);
+    const ws = connect();
+
+    ws.reply(ws.sentFor("doc")[0], "error", { errors: [{ message: "Cannot query field" }, { message: "Log in" }] });
+
+    expect(subscriber.error).toHaveBeenCalledWith(new Error("Cannot query field, Log in"));
+  });
+
+  it("falls back to a generic message when a rejection carries no errors", () => {
+    const socket = createSocket();
+    const subscriber = observer();
+    socket.subscribe(QUERY, {}, subscriber);
+    const ws = connect();
+
+    ws.reply(ws.sentFor("doc")[0], "error", "closed");
+
+    expect(subscriber.error).toHaveBeenCalledWith(new Error("Subscription was rejected by the server"));
+  });
+
+  it("unsubscribes on the server, even when the document hadn't been answered yet", () => {
+    const socket = createSocket();
+    const stopFirst = socket.subscribe(QUERY, { postId: "1" }, observer());
+    const stopSecond = socket.subscribe(QUERY, { postId: "2" }, observer());
+    const ws = connect();
+    accept(ws, "sub-1", 0);
+
+    stopFirst();
+    stopSecond();
+    accept(ws, "sub-2", 1);
+
+    expect(ws.sentFor("unsubscribe").map(([, , , , payload]) => payload)).toEqual([
+      { subscriptionId: "sub-1" },
+      { subscriptionId: "sub-2" },
+    ]);
+  });
+
+  it("reconnects after the connection drops and rejoins every active subscription", () => {
+    vi.useFakeTimers();
+    const socket = createSocket();
+    const kept = observer();
+    socket.subscribe(QUERY, { postId: "1" }, kept);
+    const stop = socket.subscribe(QUERY, { postId: "2" }, observer());
+    const first = connect();
+    accept(first, "sub-1", 0);
+    accept(first, "sub-2", 1);
+    stop();
+
+    first.drop();
+    vi.advanceTimersByTime(99);
+    expect(FakeSocket.opened).toHaveLength(1);
+    vi.advanceTimersByTime(1);
+    expect(FakeSocket.opened).toHaveLength(2);
+
+    const second = connect();
+    expect(second.sentFor("doc").map(([, , , , payload]) => payload)).toEqual([
+      { query: QUERY, variables: { postId: "1" } },
+    ]);
+    accept(second, "sub-3");
+
+    // Results for the old connection's ids no longer arrive anywhere
+    second.receive([null, null, "sub-1", "subscription:data", { result: { data: { postAdded: null } } }]);
+    second.receive([null, null, "sub-3", "subscription:data", { result: { data: { postAdded: { id: "5" } } } }]);
+    expect(kept.next).toHaveBeenCalledTimes(1);
+    expect(kept.next).toHaveBeenCalledWith({ data: { postAdded: { id: "5" } } });
+  });
+
+  it("closes a connection whose join is refused, then tries again", () => {
+    vi.useFakeTimers();
+    const socket = createSocket();
+    socket.subscribe(QUERY, {}, observer());
+    const ws = latest();
+    ws.open();
+
+    ws.reply(ws.sentFor("phx_join")[0], "error", { reason: "unauthorized" });
+
+    expect(ws.closed).toBe(true);
+    expect(ws.sentFor("doc")).toEqual([]);
+    vi.advanceTimersByTime(100);
+    expect(FakeSocket.opened).toHaveLength(2);
+  });
+
+  it("stops reconnecting and fails its subscriptions once the server refuses the session", async () => {
+    vi.useFakeTimers();
+    const checkSession = vi.fn(async () => false);
+    const socket = createSocket({ checkSession });
+    const subscriber = observer();
+    socket.subscribe(QUERY, {}, subscriber);
+
+    // A refused handshake: closed without ever opening
+    latest().drop();
+    await vi.runAllTimersAsync();
+
+    expect(checkSession).toHaveBeenCalledTimes(1);
+    expect(subscriber.error).toHaveBeenCalledWith(expect.any(AuthError));
+    expect(FakeSocket.opened).toHaveLength(1);
+  });
+
+  it("keeps reconnecting when the session is fine and the server was just unreachable", async () => {
+    vi.useFakeTimers();
+    const checkSession = vi.fn(async () => true);
+    const socket = createSocket({ checkSession });
+    const subscriber = observer();
+    socket.subscribe(QUERY, {}, subscriber);
+
+    latest().drop();
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(FakeSocket.opened).toHaveLength(2);
+    expect(subscriber.error).not.toHaveBeenCalled();
+  });
+
+  it("doesn't ask about the session when an open connection drops", async () => {
+    vi.useFakeTimers();
+    const checkSession = vi.fn(async () => false);
+    const socket = createSocket({ checkSession });
+    socket.subscribe(QUERY, {}, observer());
+
+    connect().drop();
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(checkSession).not.toHaveBeenCalled();
+    expect(FakeSocket.opened).toHaveLength(2);
+  });
+
+  it("stays closed after disconnect", () => {
+    vi.useFakeTimers();
+    const socket = createSocket();
+    socket.subscribe(QUERY, {}, observer());
+    const ws = connect();
+
+    socket.disconnect();
+    vi.advanceTimersByTime(60_000);
+
+    expect(ws.closed).toBe(true);
+    expect(FakeSocket.opened).toHaveLength(1);
+  });
+});
@@ -0,0 +1,382 @@
+// Minimal client for Absinthe subscriptions over a Phoenix channel socket.
+//
+// Speaks the Phoenix V2 JSON serializer: every frame is an array of
+// [joinRef, ref, topic, event, payload]. Subscriptions are started by pushing
+// a "doc" to the "__absinthe__:control" channel; results then arrive as
+// "subscription:data" events on a topic named after the subscription id.
+import type { GraphQLResponse } from "relay-runtime";
+import { AuthError } from "./errors";
+
+const CONTROL_TOPIC = "__absinthe__:control";
+const PHOENIX_TOPIC = "phoenix";
+
+type Frame = [string | null, string | null, string, string, unknown];
+
+/** A `phx_reply` payload; `response` is whatever the channel answered with. */
+interface Reply {
+  status: string;
+  response: unknown;
+}
+
+/**
+ * The subset of the browser WebSocket API the client relies on. Tests can
+ * pass an in-process stand-in implementing this shape as `transport`.
+ */
+export interface WebSocketLike {
+  readonly readyState: number;
+  onopen: ((event: unknown) => void) | null;
+  onclose: ((event: unknown) => void) | null;
+  onerror: ((event: unknown) => void) | null;
+  onmessage: ((event: { data: unknown }) => void) | null;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+}
+
+export interface SubscriptionObserver {
+  next: (result: GraphQLResponse) => void;
+  error: (error: Error) => void;
+}
+
+export interface AbsintheSocketOptions {
+  /** Socket endpoint, e.g. "/socket/websocket". Relative URLs use the page host. */
+  url: string;
+  /** Connect params, re-evaluated on every (re)connect. */
+  params?: () => Record<string, string | null | undefined>;
+  /** WebSocket constructor; defaults to the global WebSocket. */
+  transport?: new (url: string) => WebSocketLike;
+  heartbeatIntervalMs?: number;
+  /** Delay before reconnect attempt number `tries` (1-based). */
+  reconnectAfterMs?: (tries: number) => number;
+  /**
+   * Asked when a connection closes without ever opening, which is all a
+   * browser sees of a refused handshake. Resolving false means the server
+   * no longer accepts the session: the socket stops reconnecting and fails
+   * every subscription with an AuthError.
+   */
+  checkSession?: () => Promise<boolean>;
+}
+
+interface Operation {
+  query: string;
+  variables: Record<string, unknown>;
+  observer: SubscriptionObserver;
+  subscriptionId: string | null;
+}
+
+const OPEN = 1;
+
+const defaultReconnectAfterMs = (tries: number) =>
+  [1000, 2000, 5000, 10000][tries - 1] ?? 10000;
+
+export class AbsintheSocket {
+  private readonly options: Required<Omit<AbsintheSocketOptions, "params" | "checkSession">> &
+    Pick<AbsintheSocketOptions, "params" | "checkSession">;
+  private ws: WebSocketLike | null = null;
+  private ref = 0;
+  private controlJoinRef: string | null = null;
+  private joined = false;
+  private manuallyClosed = false;
+  private reconnectTries = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private pendingHeartbeatRef: string | null = null;
+  private readonly replies = new Map<string, (reply: Reply) => void>();
+  private readonly operations = new Set<Operation>();
+  private readonly operationsById = new Map<string, Operation>();
+
+  constructor(options: AbsintheSocketOptions) {
+    this.options = {
+      transport: globalThis.WebSocket as unknown as new (url: string) => WebSocketLike,
+      heartbeatIntervalMs: 30000,
+      reconnectAfterMs: defaultReconnectAfterMs,
+      ...options,
+    };
+  }
+
+  /**
+   * Starts a subscription and returns a function that stops it. The socket
+   * connects lazily on the first subscription and, after a dropped
+   * connection, resubscribes every operation that is still active.
+   */
+  subscribe(
+    query: string,
+    variables: Record<string, unknown>,
+    observer: SubscriptionObserver
+  ): () => void {
+    const operation: Operation = { query, variables, observer, subscriptionId: null };
+    this.operations.add(operation);
+
+    if (this.joined) {
+      this.pushDoc(operation);
+    } else {
+      this.connect();
+    }
+
+    return () => this.unsubscribe(operation);
+  }
+
+  /** Closes the socket for good; active subscriptions are dropped. */
+  disconnect() {
+    this.manuallyClosed = true;
+    this.clearTimers();
+    this.operations.clear();
+    this.operationsById.clear();
+    this.ws?.close(1000, "client disconnect");
+    this.ws = null;
+  }
+
+  /**
+   * Drops the current connection and reconnects immediately, resubscribing
+   * active operations. Used when the connect params change.
+   */
+  reconnect() {
+    if (!this.ws) return;
+    const ws = this.ws;
+    this.handleClose(ws);
+    ws.close(1000, "reconnect");
+    this.connect();
+  }
+
+  private connect() {
+    if (this.ws) return;
+
+    this.manuallyClosed = false;
+    const ws = new this.options.transport(this.endpointUrl());
+    this.ws = ws;
+    let opened = false;
+
+    ws.onopen = () => {
+      opened = true;
+      this.reconnectTries = 0;
+      this.joinControlChannel();
+      this.startHeartbeat();
+    };
+    ws.onmessage = (event) => {
+      const frame = parseFrame(event.data);
+      if (frame) this.handleFrame(frame);
+    };
+    ws.onclose = () => {
+      if (this.ws !== ws) return;
+      this.handleClose(ws);
+      if (opened || !this.options.checkSession) {
+        this.scheduleReconnect();
+        return;
+      }
+      this.options.checkSession().then(
+        (valid) => (valid ? this.scheduleReconnect() : this.refuse()),
+        () => this.scheduleReconnect()
+      );
+    };
+    ws.onerror = () => {
+      // A close event always follows; reconnecting is handled there.
+    };
+  }
+
+  private endpointUrl(): string {
+    const base =
+      typeof window !== "undefined" ? window.location.href : "http://localhost/";
+    const url = new URL(this.options.url, base);
+    url.protocol = url.protocol === "https:" ? "wss:" : url.protocol === "http:" ? "ws:" : url.protocol;
+
+    const params = this.options.params?.() ?? {};
+    for (const [key, value] of Object.entries(params)) {
+      if (value != null) url.searchParams.set(key, value);
+    }
+    url.searchParams.set("vsn", "2.0.0");
+
+    return url.toString();
+  }
+
+  private joinControlChannel() {
+    const joinRef = this.nextRef();
+    this.controlJoinRef = joinRef;
+
+    this.send([joinRef, joinRef, CONTROL_TOPIC, "phx_join", {}], ({ status }) => {
+      if (status !== "ok") {
+        this.ws?.close(1000, "join failed");
+        return;
+      }
+      this.joined = true;
+      this.operations.forEach((operation) => this.pushDoc(operation));
+    });
+  }
+
+  private pushDoc(operation: Operation) {
+    const payload = { query: operation.query, variables: operation.variables };
+
+    this.send(
+      [this.controlJoinRef, this.nextRef(), CONTROL_TOPIC, "doc", payload],
+      ({ status, response }) => {
+        const subscriptionId = status === "ok" ? subscriptionIdOf(response) : null;
+        if (!this.operations.has(operation)) {
+          // Unsubscribed before the server answered.
+          if (subscriptionId) this.pushUnsubscribe(subscriptionId);
+          return;
+        }
+
+        if (subscriptionId) {
+          operation.subscriptionId = subscriptionId;
+          this.operationsById.set(subscriptionId, operation);
+        } else {
+          this.operations.delete(operation);
+          operation.observer.error(new Error(describeErrors(response)));
+        }
+      }
+    );
+  }
+
+  private unsubscribe(operation: Operation) {
+    if (!this.operations.delete(operation)) return;
+
+    if (operation.subscriptionId) {
+      this.operationsById.delete(operation.subscriptionId);
+      if (this.joined) this.pushUnsubscribe(operation.subscriptionId);
+    }
+  }
+
+  private pushUnsubscribe(subscriptionId: string) {
+    this.send([
+      this.controlJoinRef,
+      this.nextRef(),
+      CONTROL_TOPIC,
+      "unsubscribe",
+      { subscriptionId },
+    ]);
+  }
+
+  private handleFrame([, ref, topic, event, payload]: Frame) {
+    if (event === "phx_reply" && ref) {
+      const callback = this.replies.get(ref);
+      this.replies.delete(ref);
+      if (isReply(payload)) callback?.(payload);
+      return;
+    }
+
+    if (event === "subscription:data") {
+      const result = isRecord(payload) ? payload.result : undefined;
+      if (isGraphQLResponse(result)) this.operationsById.get(topic)?.observer.next(result);
+      return;
+    }
+
+    if (topic === CONTROL_TOPIC && (event === "phx_error" || event === "phx_close")) {
+      this.ws?.close(1000, "control channel closed");
+    }
+  }
+
+  private handleClose(ws: WebSocketLike) {
+    ws.onopen = ws.onclose = ws.onerror = ws.onmessage = null;
+    this.ws = null;
+    this.joined = false;
+    this.controlJoinRef = null;
+    this.replies.clear();
+    this.clearTimers();
+
+    // Server-side subscription ids die with the connection; operations stay
+    // registered and are pushed again after the next successful join.
+    this.operationsById.clear();
+    this.operations.forEach((operation) => {
+      operation.subscriptionId = null;
+    });
+  }
+
+  // The server refused the session: retrying can't help
+  private refuse() {
+    if (this.manuallyClosed) return;
+    const operations = [...this.operations];
+    this.disconnect();
+    const error = new AuthError("Session expired", [
+      { message: "Session expired", extensions: { code: "SESSION_EXPIRED" } },
+    ]);
+    operations.forEach((operation) => operation.observer.error(error));
+  }
+
+  private scheduleReconnect() {
+    if (this.manuallyClosed || this.ws || this.operations.size === 0) return;
+
+    this.reconnectTries += 1;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, this.options.reconnectAfterMs(this.reconnectTries));
+  }
+
+  private startHeartbeat() {
+    this.heartbeatTimer = setInterval(() => {
+      if (this.pendingHeartbeatRef) {
+        // The previous heartbeat was never acknowledged: the connection is dead.
+        this.pendingHeartbeatRef = null;
+        this.ws?.close(1000, "heartbeat timeout");
+        return;
+      }
+
+      const ref = this.nextRef();
+      this.pendingHeartbeatRef = ref;
+      this.send([null, ref, PHOENIX_TOPIC, "heartbeat", {}], () => {
+        if (this.pendingHeartbeatRef === ref) this.pendingHeartbeatRef = null;
+      });
+    }, this.options.heartbeatIntervalMs);
+  }
+
+  private clearTimers() {
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.heartbeatTimer = null;
+    this.reconnectTimer = null;
+    this.pendingHeartbeatRef = null;
+  }
+
+  private send(
+    frame: Frame,
+    onReply?: (reply: Reply) => void
+  ) {
+    if (!this.ws || this.ws.readyState !== OPEN) return;
+    if (onReply && frame[1]) this.replies.set(frame[1], onReply);
+    this.ws.send(JSON.stringify(frame));
+  }
+
+  private nextRef(): string {
+    this.ref += 1;
+    return String(this.ref);
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+// A frame as the V2 serializer sends it, or null for anything else
+function parseFrame(data: unknown): Frame | null {
+  if (typeof data !== "string") return null;
+  let frame: unknown;
+  try {
+    frame = JSON.parse(data);
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(frame) || frame.length !== 5) return null;
+  const [joinRef, ref, topic, event, payload]: unknown[] = frame;
+  const isRef = (value: unknown): value is string | null => value === null || typeof value === "string";
+  if (!isRef(joinRef) || !isRef(ref) || typeof topic !== "string" || typeof event !== "string") return null;
+  return [joinRef, ref, topic, event, payload];
+}
+
+function isReply(value: unknown): value is Reply {
+  return isRecord(value) && typeof value.status === "string";
+}
+
+function isGraphQLResponse(value: unknown): value is GraphQLResponse {
+  return isRecord(value) && ("data" in value || Array.isArray(value.errors));
+}
+
+function subscriptionIdOf(response: unknown): string | null {
+  return isRecord(response) && typeof response.subscriptionId === "string" ? response.subscriptionId : null;
+}
+
+function describeErrors(response: unknown): string {
+  const errors: unknown[] = isRecord(response) && Array.isArray(response.errors) ? response.errors : [];
+  const messages = errors.map((error) => (isRecord(error) ? error.message : null));
+  if (messages.some((message) => typeof message === "string")) {
+    return messages.filter((message) => typeof message === "string").join(", ");
+  }
+  return "Subscription was rejected by the server";
+}
@@ -0,0 +1,28 @@
+import type { UploadableMap } from "relay-runtime";
+
+export interface UploadProgress {
+  /** Bytes of the request body sent so far. */
+  loaded: number;
+  total: number;
+}
+
+type Listener = (progress: UploadProgress) => void;
+
+const listeners = new WeakMap<File | Blob, Listener>();
+
+/**
+ * Relay has no channel for upload progress, so a component registers the
+ * file it is about to pass in `uploadables` and the network layer reports
+ * progress for whichever request carries it. Returns an unsubscribe.
+ */
+export function trackUploadProgress(file: File | Blob, listener: Listener): () => void {
+  listeners.set(file, listener);
+  return () => {
+    if (listeners.get(file) === listener) listeners.delete(file);
+  };
+}
+
+/** Called by the network layer while a multipart request is being sent. */
+export function reportUploadProgress(uploadables: UploadableMap, progress: UploadProgress) {
+  Object.values(uploadables).forEach((file) => listeners.get(file)?.(progress));
+}
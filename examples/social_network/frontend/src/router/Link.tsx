@@ -0,0 +1,49 @@
+import React from "react";
+import { useRouter } from "./Router";
+
+interface Props extends Omit<React.AnchorHTMLAttributes<HTMLAnchorElement>, "href"> {
+  to: string;
+}
+
+/**
+ * An anchor that navigates client-side. Hovering or focusing it preloads the
+ * target route's code and queries so the click usually renders immediately.
+ */
+export function Link({ to, onClick, onMouseEnter, onFocus, ...rest }: Props) {
+  const { navigate, preload } = useRouter();
+
+  const handleClick = (e: React.MouseEvent<HTMLAnchorElement>) => {
+    onClick?.(e);
+    // Leave new-tab and modified clicks to the browser
+    if (
+      e.defaultPrevented ||
+      e.button !== 0 ||
+      rest.target === "_blank" ||
+      e.metaKey ||
+      e.ctrlKey ||
+      e.shiftKey ||
+      e.altKey
+    ) {
+      return;
+    }
+
+    e.preventDefault();
+    navigate(to);
+  };
+
+  return (
+    <a
+      {...rest}
+      href={to}
+      onClick={handleClick}
+      onMouseEnter={(e) => {
+        onMouseEnter?.(e);
+        preload(to);
+      }}
+      onFocus={(e) => {
+        onFocus?.(e);
+        preload(to);
+      }}
+    />
+  );
+}
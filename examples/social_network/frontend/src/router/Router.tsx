@@ -0,0 +1,308 @@
+import React, {
+  createContext,
+  lazy,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useTransition,
+} from "react";
+import { useRelayEnvironment, type PreloadedQuery } from "react-relay";
+import type { Environment, OperationType } from "relay-runtime";
+import { AuthContext } from "../auth/AuthProvider";
+import { matchRoute, type RouteParams } from "./matchRoute";
+
+// How long a hover-preloaded route is kept around waiting for the click
+const PRELOAD_TTL_MS = 30_000;
+
+export type RouteQueries = Record<string, PreloadedQuery<OperationType>>;
+
+export interface RouteComponentProps<TQueries> {
+  params: RouteParams;
+  queries: TQueries;
+}
+
+export interface LazyRouteComponent<P> {
+  Component: React.LazyExoticComponent<React.ComponentType<P>>;
+  /** Starts downloading the component's chunk; safe to call repeatedly. */
+  preload: () => Promise<unknown>;
+}
+
+/** Code-splits a route component so its chunk can be fetched ahead of render. */
+export function lazyRoute<P>(load: () => Promise<React.ComponentType<P>>): LazyRouteComponent<P> {
+  let promise: Promise<{ default: React.ComponentType<P> }> | null = null;
+  const preload = () => (promise ??= load().then((Component) => ({ default: Component })));
+  return { Component: lazy(preload), preload };
+}
+
+export interface PrepareContext {
+  environment: Environment;
+  params: RouteParams;
+  searchParams: URLSearchParams;
+  /** The logged-in user's id, for queries scoped to the viewer. */
+  viewerId: string | null;
+  /** `network-only` when the route is reloaded to retry after an error. */
+  fetchPolicy: "store-or-network" | "network-only";
+}
+
+/**
+ * A route renders `component` with the queries `prepare` starts loading.
+ * `prepare` runs before the component's code or data is needed (on
+ * navigation, or on link hover) so neither waits on the other.
+ */
+export interface RouteDefinition<TQueries extends RouteQueries = RouteQueries> {
+  path: string;
+  component: LazyRouteComponent<RouteComponentProps<TQueries>>;
+  prepare?: (context: PrepareContext) => TQueries;
+}
+
+/** Erases a route's query types so differently-typed routes share one table. */
+export function defineRoute<TQueries extends RouteQueries>(
+  route: RouteDefinition<TQueries>
+): RouteDefinition {
+  return route as unknown as RouteDefinition;
+}
+
+export interface RouteLocation {
+  pathname: string;
+  search: string;
+  /** Identifies the history entry, so going Back returns to the same key. */
+  key: string;
+}
+
+interface RouteEntry {
+  location: RouteLocation;
+  route: RouteDefinition;
+  params: RouteParams;
+  queries: RouteQueries;
+}
+
+function currentUrl() {
+  return `${window.location.pathname}${window.location.search}`;
+}
+
+function createKey() {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+/** The current history entry's key, assigning one if it has none yet. */
+function currentKey(): string {
+  const state: unknown = window.history.state;
+  if (typeof state === "object" && state !== null && "key" in state && typeof state.key === "string") {
+    return state.key;
+  }
+
+  const key = createKey();
+  window.history.replaceState({ key }, "");
+  return key;
+}
+
+function prepareEntry(
+  environment: Environment,
+  viewerId: string | null,
+  routes: readonly RouteDefinition[],
+  url: string,
+  key: string,
+  fetchPolicy: PrepareContext["fetchPolicy"] = "store-or-network"
+): RouteEntry {
+  const { pathname, search } = new URL(url, window.location.origin);
+  const match = matchRoute(routes, pathname);
+  if (!match) {
+    throw new Error(`No route matches ${pathname}; add a "*" route as a fallback`);
+  }
+
+  match.route.component.preload();
+  const queries =
+    match.route.prepare?.({
+      environment,
+      params: match.params,
+      searchParams: new URLSearchParams(search),
+      viewerId,
+      fetchPolicy,
+    }) ?? {};
+
+  return { location: { pathname, search, key }, route: match.route, params: match.params, queries };
+}
+
+/** Hover-preloaded entries get their history entry's key once navigated to. */
+function withKey(entry: RouteEntry, key: string): RouteEntry {
+  return { ...entry, location: { ...entry.location, key } };
+}
+
+function disposeEntry(entry: RouteEntry) {
+  Object.values(entry.queries).forEach((query) => query.dispose());
+}
+
+interface NavigateOptions {
+  replace?: boolean;
+}
+
+interface RouterContextValue {
+  entry: RouteEntry;
+  navigate: (to: string, options?: NavigateOptions) => void;
+  preload: (to: string) => void;
+  /** Prepares the current route again, refetching queries that failed. */
+  reload: () => void;
+  isNavigating: boolean;
+}
+
+const RouterContext = createContext<RouterContextValue | null>(null);
+
+interface Props {
+  routes: readonly RouteDefinition[];
+  children: React.ReactNode;
+}
+
+/**
+ * Owns the current location and the preloaded queries for it. Navigation is
+ * a transition: the previous route stays on screen until the next route's
+ * code and data are ready.
+ */
+export function RouterProvider({ routes, children }: Props) {
+  const environment = useRelayEnvironment();
+  // AuthProvider remounts everything below it when the user changes
+  const viewerId = useContext(AuthContext)?.userId ?? null;
+  const [entry, setEntry] = useState(() =>
+    prepareEntry(environment, viewerId, routes, currentUrl(), currentKey())
+  );
+  const [isNavigating, startTransition] = useTransition();
+  const preloaded = useRef(new Map<string, { entry: RouteEntry; timeout: number }>());
+
+  const takePreloaded = useCallback((url: string) => {
+    const cached = preloaded.current.get(url);
+    if (!cached) return null;
+    window.clearTimeout(cached.timeout);
+    preloaded.current.delete(url);
+    return cached.entry;
+  }, []);
+
+  const clearPreloaded = useCallback(() => {
+    preloaded.current.forEach(({ entry: cached, timeout }) => {
+      window.clearTimeout(timeout);
+      disposeEntry(cached);
+    });
+    preloaded.current.clear();
+  }, []);
+
+  const preload = useCallback(
+    (to: string) => {
+      if (preloaded.current.has(to) || to === currentUrl()) return;
+
+      const next = prepareEntry(environment, viewerId, routes, to, "");
+      const timeout = window.setTimeout(() => {
+        if (takePreloaded(to)) disposeEntry(next);
+      }, PRELOAD_TTL_MS);
+      preloaded.current.set(to, { entry: next, timeout });
+    },
+    [environment, viewerId, routes, takePreloaded]
+  );
+
+  const navigate = useCallback(
+    (to: string, { replace = false }: NavigateOptions = {}) => {
+      const key = createKey();
+      const preloadedEntry = takePreloaded(to);
+      const next = preloadedEntry
+        ? withKey(preloadedEntry, key)
+        : prepareEntry(environment, viewerId, routes, to, key);
+      if (replace) {
+        window.history.replaceState({ key }, "", to);
+      } else {
+        window.history.pushState({ key }, "", to);
+      }
+      startTransition(() => setEntry(next));
+    },
+    [environment, viewerId, routes, takePreloaded]
+  );
+
+  const reload = useCallback(() => {
+    const next = prepareEntry(environment, viewerId, routes, currentUrl(), currentKey(), "network-only");
+    startTransition(() => setEntry(next));
+  }, [environment, viewerId, routes]);
+
+  useEffect(() => {
+    const handlePopState = () => {
+      const url = currentUrl();
+      const key = currentKey();
+      const preloadedEntry = takePreloaded(url);
+      const next = preloadedEntry
+        ? withKey(preloadedEntry, key)
+        : prepareEntry(environment, viewerId, routes, url, key);
+      startTransition(() => setEntry(next));
+    };
+    window.addEventListener("popstate", handlePopState);
+    return () => window.removeEventListener("popstate", handlePopState);
+  }, [environment, viewerId, routes, takePreloaded]);
+
+  // Drop hover-preloaded routes that were never visited
+  useEffect(() => clearPreloaded, [clearPreloaded]);
+
+  // Release the previous route's queries once the next one has committed
+  const committed = useRef(entry);
+  useEffect(() => {
+    const previous = committed.current;
+    committed.current = entry;
+    if (previous !== entry) disposeEntry(previous);
+  }, [entry]);
+
+  const value = useMemo(
+    () => ({ entry, navigate, preload, reload, isNavigating }),
+    [entry, navigate, preload, reload, isNavigating]
+  );
+
+  return <RouterContext.Provider value={value}>{children}</RouterContext.Provider>;
+}
+
+export function useRouter() {
+  const router = useContext(RouterContext);
+  if (!router) {
+    throw new Error("useRouter must be used within a RouterProvider");
+  }
+  return router;
+}
+
+export function useLocation(): RouteLocation {
+  return useRouter().entry.location;
+}
+
+/**
+ * Reads and writes the current query string. Updates navigate to the same
+ * path, so the route re-prepares its queries with the new params.
+ */
+export function useSearchParams(): [
+  URLSearchParams,
+  (updates: Record<string, string | null>) => void,
+] {
+  const { entry, navigate } = useRouter();
+  const { pathname, search } = entry.location;
+  const params = useMemo(() => new URLSearchParams(search), [search]);
+
+  const update = useCallback(
+    (updates: Record<string, string | null>) => {
+      const next = new URLSearchParams(search);
+      for (const [name, value] of Object.entries(updates)) {
+        if (value === null) {
+          next.delete(name);
+        } else {
+          next.set(name, value);
+        }
+      }
+
+      const query = next.toString();
+      const nextSearch = query ? `?${query}` : "";
+      if (nextSearch !== search) navigate(`${pathname}${nextSearch}`);
+    },
+    [navigate, pathname, search]
+  );
+
+  return [params, update];
+}
+
+/** Renders the current route's component with its preloaded queries. */
+export function RouteRenderer() {
+  const { entry } = useRouter();
+  const { Component } = entry.route.component;
+
+  return <Component key={entry.route.path} params={entry.params} queries={entry.queries} />;
+}
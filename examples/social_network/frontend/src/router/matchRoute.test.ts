@@ -0,0 +1,15 @@
+import { describe, expect, it } from "vitest";
+import { matchPath, matchRoute } from "./matchRoute";
+
+const routes = [{ path: "/" }, { path: "/users/:username" }, { path: "*" }];
+
+describe("matchRoute", () => {
+  it("decodes params", () => {
+    expect(matchPath("/users/:username", "/users/ada%20l")).toEqual({ username: "ada l" });
+  });
+
+  it("falls through to * for a param that isn't valid percent-encoding", () => {
+    expect(matchPath("/users/:username", "/users/%E0")).toBeNull();
+    expect(matchRoute(routes, "/users/%E0")).toEqual({ route: { path: "*" }, params: {} });
+  });
+});
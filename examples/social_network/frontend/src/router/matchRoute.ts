@@ -0,0 +1,51 @@
+/**
+ * Path matching for the route table. Patterns are literal segments plus
+ * `:name` params, e.g. `/users/:id`; `*` matches anything.
+ */
+
+export type RouteParams = Record<string, string>;
+
+export function matchPath(pattern: string, pathname: string): RouteParams | null {
+  if (pattern === "*") return {};
+
+  const patternSegments = pattern.split("/").filter(Boolean);
+  const pathSegments = pathname.split("/").filter(Boolean);
+  if (patternSegments.length !== pathSegments.length) return null;
+
+  const params: RouteParams = {};
+  for (let i = 0; i < patternSegments.length; i++) {
+    const expected = patternSegments[i];
+    const actual = pathSegments[i];
+
+    if (expected.startsWith(":")) {
+      const value = decodeSegment(actual);
+      // A malformed escape such as `%E0` names nothing, so falls through to `*`
+      if (value === null) return null;
+      params[expected.slice(1)] = value;
+    } else if (expected !== actual) {
+      return null;
+    }
+  }
+
+  return params;
+}
+
+function decodeSegment(segment: string): string | null {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return null;
+  }
+}
+
+/** Returns the first route whose path matches, with its params. */
+export function matchRoute<TRoute extends { path: string }>(
+  routes: readonly TRoute[],
+  pathname: string
+): { route: TRoute; params: RouteParams } | null {
+  for (const route of routes) {
+    const params = matchPath(route.path, pathname);
+    if (params) return { route, params };
+  }
+  return null;
+}
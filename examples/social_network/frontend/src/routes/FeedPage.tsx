@@ -0,0 +1,16 @@
+import type { PreloadedQuery } from "react-relay";
+import type { RouteComponentProps } from "../router/Router";
+import { CreatePostForm } from "../components/CreatePostForm";
+import { PostFeed } from "../components/PostFeed";
+import type { PostFeedQuery } from "../components/__generated__/PostFeedQuery.graphql";
+
+type Props = RouteComponentProps<{ feed: PreloadedQuery<PostFeedQuery> }>;
+
+export function FeedPage({ queries }: Props) {
+  return (
+    <div className="feed-container">
+      <CreatePostForm />
+      <PostFeed queryRef={queries.feed} />
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import React, { useState } from "react";
+import { graphql, useMutation } from "react-relay";
+import { useAuth } from "../auth/AuthProvider";
+import type { MessageKey } from "../i18n/catalog";
+import { useI18n } from "../i18n/I18nProvider";
+import { describeError } from "../relay/errors";
+import { Link } from "../router/Link";
+import { useSearchParams } from "../router/Router";
+import type { LoginPageMutation } from "./__generated__/LoginPageMutation.graphql";
+
+const mutation = graphql`
+  mutation LoginPageMutation($email: String!, $password: String!) {
+    login(email: $email, password: $password) {
+      token
+      expiresAt
+      user {
+        id
+      }
+    }
+  }
+`;
+
+const NOTICES: Partial<Record<string, MessageKey>> = {
+  expired: "login.notice.expired",
+  "signed-out": "login.notice.signedOut",
+};
+
+// Only follow same-origin paths, never `//evil.example` or absolute URLs
+function safeRedirect(next: string | null): string {
+  return next && next.startsWith("/") && !next.startsWith("//") ? next : "/";
+}
+
+export function LoginPage() {
+  const { t } = useI18n();
+  const { session, signIn } = useAuth();
+  const [searchParams] = useSearchParams();
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const [commit, isInFlight] = useMutation<LoginPageMutation>(mutation);
+
+  const notice = NOTICES[searchParams.get("reason") ?? ""];
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    commit({
+      variables: { email, password },
+      onCompleted: ({ login }) => {
+        if (!login) return;
+        signIn(
+          { token: login.token, userId: login.user.id, expiresAt: login.expiresAt },
+          safeRedirect(searchParams.get("next"))
+        );
+      },
+      onError: (err) => {
+        setError(describeError(err, t));
+      },
+    });
+  };
+
+  if (session) {
+    return (
+      <div className="card login-card">
+        <h2>{t("login.logIn")}</h2>
+        <p>
+          {t.parts("login.alreadyLoggedIn", {
+            feedLink: (
+              <Link key="feedLink" to="/">
+                {t("login.goToFeed")}
+              </Link>
+            ),
+          })}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="card login-card">
+      <h2>{t("login.logIn")}</h2>
+      {notice && <div className="info-message">{t(notice)}</div>}
+      {error && <div className="error-message">{error}</div>}
+      <form onSubmit={handleSubmit}>
+        <div className="form-group">
+          <label htmlFor="login-email">{t("login.email")}</label>
+          <input
+            id="login-email"
+            type="email"
+            autoComplete="username"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            required
+          />
+        </div>
+        <div className="form-group">
+          <label htmlFor="login-password">{t("login.password")}</label>
+          <input
+            id="login-password"
+            type="password"
+            autoComplete="current-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+          />
+        </div>
+        <button type="submit" className="btn btn-primary" disabled={isInFlight}>
+          {isInFlight ? t("login.loggingIn") : t("login.logIn")}
+        </button>
+      </form>
+      <p className="login-hint">
+        {t.parts("login.hint", {
+          usersLink: (
+            <Link key="usersLink" to="/users">
+              {t("login.usersPage")}
+            </Link>
+          ),
+        })}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+import { useI18n } from "../i18n/I18nProvider";
+import { Link } from "../router/Link";
+
+export function NotFoundPage() {
+  const { t } = useI18n();
+
+  return (
+    <div className="card">
+      <div className="empty-state">
+        <div className="empty-state-icon">🔍</div>
+        <p>{t("notFound.message")}</p>
+        <Link to="/">{t("notFound.backToFeed")}</Link>
+      </div>
+    </div>
+  );
+}
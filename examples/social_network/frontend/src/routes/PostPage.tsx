@@ -0,0 +1,30 @@
+import { graphql, usePreloadedQuery, type PreloadedQuery } from "react-relay";
+import type { RouteComponentProps } from "../router/Router";
+import { PostCard } from "../components/PostFeed";
+import { NotFoundPage } from "./NotFoundPage";
+import type { PostPageQuery } from "./__generated__/PostPageQuery.graphql";
+
+const query = graphql`
+  query PostPageQuery($id: ID!) {
+    post(id: $id) {
+      id
+      ...PostFeed_post
+    }
+  }
+`;
+
+type Props = RouteComponentProps<{ post: PreloadedQuery<PostPageQuery> }>;
+
+export function PostPage({ queries }: Props) {
+  const { post } = usePreloadedQuery(query, queries.post);
+
+  if (!post) {
+    return <NotFoundPage />;
+  }
+
+  return (
+    <div className="feed-container">
+      <PostCard post={post} defaultShowComments />
+    </div>
+  );
+}
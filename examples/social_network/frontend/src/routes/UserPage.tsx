@@ -0,0 +1,32 @@
+import { graphql, usePreloadedQuery, type PreloadedQuery } from "react-relay";
+import type { RouteComponentProps } from "../router/Router";
+import { UserProfile } from "../components/UserProfile";
+import { NotFoundPage } from "./NotFoundPage";
+import type { UserPageQuery } from "./__generated__/UserPageQuery.graphql";
+
+const query = graphql`
+  query UserPageQuery($id: ID!) {
+    node(id: $id) {
+      __typename
+      ... on User {
+        ...UserProfile_user
+      }
+    }
+    viewer {
+      ...FriendshipActions_viewer
+    }
+  }
+`;
+
+type Props = RouteComponentProps<{ user: PreloadedQuery<UserPageQuery> }>;
+
+export function UserPage({ queries }: Props) {
+  const { node, viewer } = usePreloadedQuery(query, queries.user);
+
+  // `node` may resolve to something other than a user for a hand-typed URL
+  if (node?.__typename !== "User") {
+    return <NotFoundPage />;
+  }
+
+  return <UserProfile user={node} viewer={viewer} />;
+}
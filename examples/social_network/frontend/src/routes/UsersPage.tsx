@@ -0,0 +1,14 @@
+import type { PreloadedQuery } from "react-relay";
+import type { RouteComponentProps } from "../router/Router";
+import { UserList } from "../components/UserList";
+import type { UserListQuery } from "../components/__generated__/UserListQuery.graphql";
+
+type Props = RouteComponentProps<{ users: PreloadedQuery<UserListQuery> }>;
+
+export function UsersPage({ queries }: Props) {
+  return (
+    <div className="users-container">
+      <UserList queryRef={queries.users} />
+    </div>
+  );
+}
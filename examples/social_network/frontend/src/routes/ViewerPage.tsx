@@ -0,0 +1,36 @@
+import { graphql, usePreloadedQuery, type PreloadedQuery } from "react-relay";
+import { loginPath } from "../auth/AuthProvider";
+import { useI18n } from "../i18n/I18nProvider";
+import { Link } from "../router/Link";
+import type { RouteComponentProps } from "../router/Router";
+import { UserProfile } from "../components/UserProfile";
+import type { ViewerPageQuery } from "./__generated__/ViewerPageQuery.graphql";
+
+const query = graphql`
+  query ViewerPageQuery {
+    viewer {
+      ...UserProfile_user
+      ...FriendshipActions_viewer
+    }
+  }
+`;
+
+type Props = RouteComponentProps<{ viewer: PreloadedQuery<ViewerPageQuery> }>;
+
+export function ViewerPage({ queries }: Props) {
+  const { t } = useI18n();
+  const { viewer } = usePreloadedQuery(query, queries.viewer);
+
+  if (!viewer) {
+    return (
+      <div className="card">
+        <div className="empty-state">
+          <p>{t("profile.logInToSee")}</p>
+          <Link to={loginPath()}>{t("login.logIn")}</Link>
+        </div>
+      </div>
+    );
+  }
+
+  return <UserProfile user={viewer} viewer={viewer} />;
+}
@@ -0,0 +1,131 @@
+/**
+ * @generated SignedSource<<7c0df8389ec5784473dd334f44915a51>>
+ * @relayHash f1730dabe706b2ef37c37c29a92733aa
+ * @lightSyntaxTransform
+ * @nogrep
+ */
+
+/* tslint:disable */
+/* eslint-disable */
+// @ts-nocheck
+
+// @relayRequestID 0bdcd987b442e1333755e149eca7df1b04d166dc59d0650240bf11d2d49fc33c
+
+import { ConcreteRequest, Mutation } from 'relay-runtime';
+export type LoginPageMutation$variables = {
+  email: string;
+  password: string;
+};
+export type LoginPageMutation$data = {
+  readonly login: {
+    readonly expiresAt: string;
+    readonly token: string;
+    readonly user: {
+      readonly id: string;
+    };
+  } | null | undefined;
+};
+export type LoginPageMutation = {
+  response: LoginPageMutation$data;
+  variables: LoginPageMutation$variables;
+};
+
+const node: ConcreteRequest = (function(){
+var v0 = [
+  {
+    "defaultValue": null,
+    "kind": "LocalArgument",
+    "name": "email"
+  },
+  {
+    "defaultValue": null,
+    "kind": "LocalArgument",
+    "name": "password"
+  }
+],
+v1 = [
+  {
+    "alias": null,
+    "args": [
+      {
+        "kind": "Variable",
+        "name": "email",
+        "variableName": "email"
+      },
+      {
+        "kind": "Variable",
+        "name": "password",
+        "variableName": "password"
+      }
+    ],
+    "concreteType": "AuthSession",
+    "kind": "LinkedField",
+    "name": "login",
+    "plural": false,
+    "selections": [
+      {
+        "alias": null,
+        "args": null,
+        "kind": "ScalarField",
+        "name": "token",
+        "storageKey": null
+      },
+      {
+        "alias": null,
+        "args": null,
+        "kind": "ScalarField",
+        "name": "expiresAt",
+        "storageKey": null
+      },
+      {
+        "alias": null,
+        "args": null,
+        "concreteType": "User",
+        "kind": "LinkedField",
+        "name": "user",
+        "plural": false,
+        "selections": [
+          {
+            "alias": null,
+            "args": null,
+            "kind": "ScalarField",
+            "name": "id",
+            "storageKey": null
+          }
+        ],
+        "storageKey": null
+      }
+    ],
+    "storageKey": null
+  }
+];
+return {
+  "fragment": {
+    "argumentDefinitions": (v0/*: any*/),
+    "kind": "Fragment",
+    "metadata": null,
+    "name": "LoginPageMutation",
+    "selections": (v1/*: any*/),
+    "type": "Mutation",
+    "abstractKey": null
+  },
+  "kind": "Request",
+  "operation": {
+    "argumentDefinitions": (v0/*: any*/),
+    "kind": "Operation",
+    "name": "LoginPageMutation",
+    "selections": (v1/*: any*/)
+  },
+  "params": {
+    "id": "0bdcd987b442e1333755e149eca7df1b04d166dc59d0650240bf11d2d49fc33c",
+    "metadata": {},
+    "name": "LoginPageMutation",
+    "operationKind": "mutation",
+    "text": null
+  }
+};
+})();
+
+(node as any).hash = "99676ea27efacd171c0775b1c33f47be";
+
+export default node;
@@ -0,0 +1,89 @@
+import { loadQuery } from "react-relay";
+import {
+  defineRoute,
+  lazyRoute,
+  type RouteComponentProps,
+  type RouteDefinition,
+} from "../router/Router";
+import { feedQueryVariables } from "../components/feedFilters";
+import { USER_LIST_PAGE_SIZE } from "../components/pageSizes";
+import { toGlobalId } from "../relay/globalId";
+import PostFeedQueryNode, {
+  type PostFeedQuery,
+} from "../components/__generated__/PostFeedQuery.graphql";
+import UserListQueryNode, {
+  type UserListQuery,
+} from "../components/__generated__/UserListQuery.graphql";
+import UserPageQueryNode, { type UserPageQuery } from "./__generated__/UserPageQuery.graphql";
+import ViewerPageQueryNode, { type ViewerPageQuery } from "./__generated__/ViewerPageQuery.graphql";
+import PostPageQueryNode, { type PostPageQuery } from "./__generated__/PostPageQuery.graphql";
+
+/**
+ * The app's routes, matched in order. Route components are code-split; the
+ * compiled query artifacts are imported directly so `prepare` can start the
+ * fetch without waiting for the component's chunk.
+ */
+export const routes: RouteDefinition[] = [
+  defineRoute({
+    path: "/",
+    component: lazyRoute(() => import("./FeedPage").then((m) => m.FeedPage)),
+    prepare: ({ environment, searchParams, viewerId, fetchPolicy }) => ({
+      feed: loadQuery<PostFeedQuery>(
+        environment,
+        PostFeedQueryNode,
+        feedQueryVariables(searchParams, viewerId),
+        { fetchPolicy }
+      ),
+    }),
+  }),
+  defineRoute({
+    path: "/users",
+    component: lazyRoute(() => import("./UsersPage").then((m) => m.UsersPage)),
+    prepare: ({ environment, fetchPolicy }) => ({
+      users: loadQuery<UserListQuery>(
+        environment,
+        UserListQueryNode,
+        { count: USER_LIST_PAGE_SIZE },
+        { fetchPolicy }
+      ),
+    }),
+  }),
+  defineRoute({
+    path: "/users/:id",
+    component: lazyRoute(() => import("./UserPage").then((m) => m.UserPage)),
+    prepare: ({ environment, params, fetchPolicy }) => ({
+      user: loadQuery<UserPageQuery>(
+        environment,
+        UserPageQueryNode,
+        { id: toGlobalId("User", params.id) },
+        { fetchPolicy }
+      ),
+    }),
+  }),
+  defineRoute({
+    path: "/me",
+    component: lazyRoute(() => import("./ViewerPage").then((m) => m.ViewerPage)),
+    prepare: ({ environment, fetchPolicy }) => ({
+      viewer: loadQuery<ViewerPageQuery>(environment, ViewerPageQueryNode, {}, { fetchPolicy }),
+    }),
+  }),
+  defineRoute({
+    path: "/posts/:id",
+    component: lazyRoute(() => import("./PostPage").then((m) => m.PostPage)),
+    prepare: ({ environment, params, fetchPolicy }) => ({
+      post: loadQuery<PostPageQuery>(environment, PostPageQueryNode, { id: params.id }, { fetchPolicy }),
+    }),
+  }),
+  defineRoute({
+    path: "/login",
+    component: lazyRoute<RouteComponentProps<Record<string, never>>>(() =>
+      import("./LoginPage").then((m) => m.LoginPage)
+    ),
+  }),
+  defineRoute({
+    path: "*",
+    component: lazyRoute<RouteComponentProps<Record<string, never>>>(() =>
+      import("./NotFoundPage").then((m) => m.NotFoundPage)
+    ),
+  }),
+];
@@ -0,0 +1,161 @@
+import React, { Suspense } from "react";
+import { act, render } from "@testing-library/react";
+import { RelayEnvironmentProvider } from "react-relay";
+import type { GraphQLSingularResponse, OperationDescriptor } from "relay-runtime";
+import { createMockEnvironment, MockPayloadGenerator, type MockEnvironment } from "relay-test-utils";
+import { buildSchema, getNamedType, isEnumType, isObjectType, type GraphQLNamedType } from "graphql";
+import { vi } from "vitest";
+import { AuthContext, type AuthContextValue } from "../auth/AuthProvider";
+import { ErrorBoundary, ErrorPanel } from "../components/ErrorBoundary";
+import { ToastProvider } from "../components/Toast";
+import { I18nProvider, type LoadedLocale } from "../i18n/I18nProvider";
+import { defineRoute, lazyRoute, RouterProvider, type RouteComponentProps } from "../router/Router";
+import schemaSource from "../../schema.graphql?raw";
+
+type MockResolvers = MockPayloadGenerator.MockResolvers;
+
+const schema = buildSchema(schemaSource);
+
+/** The NaiveDateTime every generated record gets unless a resolver says otherwise. */
+export const MOCK_TIMESTAMP = "2024-01-15T12:00:00";
+
+// MockPayloadGenerator only sees the operation, not the schema, so it fills
+// every scalar with a placeholder string. Give enums, booleans, numbers and
+// timestamps values of the right type instead.
+function mockScalar(type: GraphQLNamedType): unknown {
+  if (isEnumType(type)) return type.getValues()[0].value;
+  switch (type.name) {
+    case "NaiveDateTime":
+      return MOCK_TIMESTAMP;
+    case "Boolean":
+      return false;
+    case "Int":
+      return 42;
+    case "Float":
+      return 4.2;
+    default:
+      return undefined;
+  }
+}
+
+const schemaDefaults = new Map<string, Record<string, unknown>>();
+for (const type of Object.values(schema.getTypeMap())) {
+  if (!isObjectType(type) || type.name.startsWith("__")) continue;
+  const defaults: Record<string, unknown> = {};
+  for (const field of Object.values(type.getFields())) {
+    const value = mockScalar(getNamedType(field.type));
+    if (value !== undefined) defaults[field.name] = value;
+  }
+  schemaDefaults.set(type.name, defaults);
+}
+
+/**
+ * Resolves `operation` with MockPayloadGenerator, using `schema.graphql` for
+ * scalar and enum defaults. `resolvers` override fields per type as usual,
+ * e.g. `{ Post: () => ({ body: "Hello" }) }`.
+ */
+export function mockPayload(operation: OperationDescriptor, resolvers: MockResolvers = {}) {
+  return MockPayloadGenerator.generate(operation, withSchemaDefaults(resolvers));
+}
+
+/**
+ * Like `mockPayload`, but without the deferred fragments, as the first part
+ * of an incremental response. The generator's own deferred payloads have the
+ * wrong paths inside lists, so tests send those themselves.
+ */
+export function mockInitialPayload(operation: OperationDescriptor, resolvers: MockResolvers = {}) {
+  // Missing from @types/relay-test-utils
+  const { generateWithDefer } = MockPayloadGenerator as unknown as {
+    generateWithDefer: (
+      operation: OperationDescriptor,
+      resolvers: MockResolvers,
+      options: { generateDeferredPayload: boolean }
+    ) => GraphQLSingularResponse[];
+  };
+  return generateWithDefer(operation, withSchemaDefaults(resolvers), { generateDeferredPayload: true })[0];
+}
+
+function withSchemaDefaults(resolvers: MockResolvers): MockResolvers {
+  const merged: MockResolvers = {};
+  for (const typeName of new Set([...schemaDefaults.keys(), ...Object.keys(resolvers)])) {
+    merged[typeName] = (context, generateId) => ({
+      ...schemaDefaults.get(typeName),
+      ...(resolvers[typeName]?.(context, generateId) as object | undefined),
+    });
+  }
+  return merged;
+}
+
+// Both helpers match by request rather than by operation: loadQuery sends the
+// variables it was given, without the defaults the operation fills in, so the
+// mock's own *MostRecentOperation helpers can't find preloaded queries.
+
+/** Answers the most recent pending operation with generated data. */
+export function resolveMostRecent(environment: MockEnvironment, resolvers?: MockResolvers) {
+  const operation = environment.mock.getMostRecentOperation();
+  act(() => {
+    environment.mock.resolve(operation.request.node, mockPayload(operation, resolvers));
+  });
+}
+
+/** Fails the most recent pending operation with `error`. */
+export function rejectMostRecent(environment: MockEnvironment, error: Error) {
+  const operation = environment.mock.getMostRecentOperation();
+  act(() => {
+    environment.mock.reject(operation.request.node, error);
+  });
+}
+
+/**
+ * Keeps React's "The above error occurred" logging out of the test output
+ * for a test that expects the error boundary to catch something.
+ */
+export function silenceRenderErrors() {
+  vi.spyOn(console, "error").mockImplementation(() => {});
+}
+
+// PostFeed and friends read search params and render Links, so they need a
+// router; no route ever renders here
+const TEST_ROUTES = [
+  defineRoute({ path: "*", component: lazyRoute<RouteComponentProps<{}>>(async () => () => null) }),
+];
+
+interface RenderOptions {
+  /** Render as this logged-in user, or anonymously when null. */
+  userId?: string | null;
+  environment?: MockEnvironment;
+  /** The UI language and its catalog; English by default. */
+  i18n?: LoadedLocale;
+}
+
+/**
+ * Renders `ui` inside the app's providers with a Relay mock environment,
+ * a Suspense fallback ("Loading...") and an error boundary showing ErrorPanel.
+ */
+export function renderWithRelay(ui: React.ReactElement, options: RenderOptions = {}) {
+  const { userId = null, environment = createMockEnvironment(), i18n } = options;
+  const auth: AuthContextValue = {
+    session: userId ? { token: "test-token", userId, expiresAt: "2099-01-01T00:00:00" } : null,
+    userId,
+    signIn: vi.fn(),
+    signOut: vi.fn(),
+  };
+
+  const result = render(
+    <I18nProvider initial={i18n}>
+      <ToastProvider>
+        <AuthContext.Provider value={auth}>
+          <RelayEnvironmentProvider environment={environment}>
+            <RouterProvider routes={TEST_ROUTES}>
+              <ErrorBoundary fallback={(props) => <ErrorPanel {...props} />}>
+                <Suspense fallback={<div>Loading...</div>}>{ui}</Suspense>
+              </ErrorBoundary>
+            </RouterProvider>
+          </RelayEnvironmentProvider>
+        </AuthContext.Provider>
+      </ToastProvider>
+    </I18nProvider>
+  );
+
+  return { ...result, environment, auth };
+}
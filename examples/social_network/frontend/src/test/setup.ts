@@ -0,0 +1,13 @@
+import "@testing-library/jest-dom/vitest";
+import { cleanup } from "@testing-library/react";
+import { afterEach, vi } from "vitest";
+
+// relay-test-utils spies on environment methods with the global `jest.fn`
+Object.assign(globalThis, { jest: vi });
+
+afterEach(() => {
+  cleanup();
+  vi.restoreAllMocks();
+  window.localStorage.clear();
+  window.history.replaceState(null, "", "/");
+});
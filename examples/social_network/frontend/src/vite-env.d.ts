@@ -0,0 +1,10 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Set to "false" to send every GraphQL operation in its own request. */
+  readonly VITE_GRAPHQL_BATCHING?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
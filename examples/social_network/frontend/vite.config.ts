@@ -1,16 +1,34 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
 import relay from "vite-plugin-relay";
+import { mockBackend } from "./mock/plugin";
 
-export default defineConfig({
-  plugins: [relay, react()],
+// Forwards API, media and subscription traffic to the Phoenix app
+const phoenixProxy = {
+  "/api": {
+    target: "http://localhost:4000",
+    changeOrigin: true,
+  },
+  "/uploads": {
+    target: "http://localhost:4000",
+    changeOrigin: true,
+  },
+  "/socket": {
+    target: "ws://localhost:4000",
+    ws: true,
+  },
+};
+
+// `vite --mode mock` serves all of it from mock/ instead (see mock/plugin.ts)
+export default defineConfig(({ mode }) => ({
+  plugins: [relay, react(), ...(mode === "mock" ? [mockBackend()] : [])],
+  test: {
+    environment: "jsdom",
+    setupFiles: ["./src/test/setup.ts"],
+  },
   server: {
     port: 3000,
-    proxy: {
-      "/api": {
-        target: "http://localhost:4000",
-        changeOrigin: true,
-      },
-    },
+    proxy: mode === "mock" ? undefined : phoenixProxy,
   },
-});
+}));
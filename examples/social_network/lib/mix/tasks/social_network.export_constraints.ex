@@ -0,0 +1,20 @@
+defmodule Mix.Tasks.SocialNetwork.ExportConstraints do
+  @shortdoc "Writes the forms' validation constraints for the frontend"
+  @moduledoc """
+  Writes `SocialNetworkWeb.GraphQL.FormConstraints` to
+  `frontend/src/forms/constraints.json`. Run it after changing a changeset
+  validation that a form mirrors.
+
+      mix social_network.export_constraints
+  """
+  use Mix.Task
+
+  alias SocialNetworkWeb.GraphQL.FormConstraints
+
+  @impl true
+  def run(_args) do
+    Mix.Task.run("compile")
+    File.write!(FormConstraints.json_path(), FormConstraints.to_json())
+    Mix.shell().info("Wrote #{Path.relative_to_cwd(FormConstraints.json_path())}")
+  end
+end
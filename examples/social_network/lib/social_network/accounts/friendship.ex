@@ -1,6 +1,7 @@
 defmodule SocialNetwork.Accounts.Friendship do
   use Ecto.Schema
   import Ecto.Changeset
+  import Ecto.Query
 
   schema "friendships" do
     field :status, Ecto.Enum, values: [:pending, :accepted, :blocked], default: :pending
@@ -19,6 +20,17 @@ defmodule SocialNetwork.Accounts.Friendship do
     |> unique_constraint([:user_id, :friend_id], name: :friendships_unique_pair)
   end
 
+  @doc """
+  A query for the ids of `user_id`'s accepted friends, whichever of the two
+  sent the request.
+  """
+  def friend_ids(user_id) do
+    from(f in __MODULE__,
+      where: f.status == :accepted and (f.user_id == ^user_id or f.friend_id == ^user_id),
+      select: fragment("CASE WHEN ? = ? THEN ? ELSE ? END", f.user_id, ^user_id, f.friend_id, f.user_id)
+    )
+  end
+
   # Prevent users from friending themselves
   defp validate_not_self_friendship(changeset) do
     user_id = get_field(changeset, :user_id)
@@ -0,0 +1,40 @@
+defmodule SocialNetwork.Accounts.Password do
+  @moduledoc """
+  PBKDF2-SHA256 password hashing using only `:crypto`, so the example needs no
+  native hashing dependency. Hashes are stored as
+  `pbkdf2_sha256$<iterations>$<salt>$<hash>` with Base64 salt and hash.
+  """
+
+  @iterations 100_000
+  @salt_bytes 16
+  @key_bytes 32
+
+  def hash(password) when is_binary(password) do
+    salt = :crypto.strong_rand_bytes(@salt_bytes)
+    hash = derive(password, salt, @iterations)
+
+    Enum.join(["pbkdf2_sha256", @iterations, Base.encode64(salt), Base.encode64(hash)], "$")
+  end
+
+  def verify(password, "pbkdf2_sha256$" <> rest) when is_binary(password) do
+    with [iterations, salt, hash] <- String.split(rest, "$"),
+         {iterations, ""} <- Integer.parse(iterations),
+         {:ok, salt} <- Base.decode64(salt),
+         {:ok, hash} <- Base.decode64(hash) do
+      Plug.Crypto.secure_compare(derive(password, salt, iterations), hash)
+    else
+      _ -> false
+    end
+  end
+
+  # Users created without a password can't log in. Still run the hash so
+  # response times don't reveal which emails exist.
+  def verify(_password, _hash) do
+    derive("", <<0::size(@salt_bytes * 8)>>, @iterations)
+    false
+  end
+
+  defp derive(password, salt, iterations) do
+    :crypto.pbkdf2_hmac(:sha256, password, salt, iterations, @key_bytes)
+  end
+end
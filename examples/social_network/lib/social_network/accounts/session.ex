@@ -0,0 +1,68 @@
+defmodule SocialNetwork.Accounts.Session do
+  @moduledoc """
+  A bearer-token login session. Only a SHA-256 of the token is stored, so a
+  leaked database can't be replayed as live sessions.
+  """
+  use Ecto.Schema
+
+  import Ecto.Query
+
+  alias SocialNetwork.Repo
+
+  @token_bytes 32
+  @ttl_seconds 7 * 24 * 60 * 60
+
+  schema "user_sessions" do
+    field :token_hash, :binary
+    field :expires_at, :naive_datetime
+
+    belongs_to :user, SocialNetwork.Accounts.User
+
+    timestamps(updated_at: false)
+  end
+
+  @doc """
+  Starts a session for `user`. Returns the raw token, which is never stored.
+  """
+  def create(user) do
+    token = :crypto.strong_rand_bytes(@token_bytes) |> Base.url_encode64(padding: false)
+
+    expires_at =
+      NaiveDateTime.utc_now()
+      |> NaiveDateTime.add(@ttl_seconds)
+      |> NaiveDateTime.truncate(:second)
+
+    %__MODULE__{user_id: user.id, token_hash: hash_token(token), expires_at: expires_at}
+    |> Repo.insert()
+    |> case do
+      {:ok, session} -> {:ok, token, session}
+      error -> error
+    end
+  end
+
+  @doc """
+  Returns the user for an unexpired session token, or `nil`.
+  """
+  def fetch_user(token) when is_binary(token) do
+    now = NaiveDateTime.utc_now()
+
+    from(s in __MODULE__,
+      join: u in assoc(s, :user),
+      where: s.token_hash == ^hash_token(token) and s.expires_at > ^now,
+      select: u
+    )
+    |> Repo.one()
+  end
+
+  @doc """
+  Ends the session for `token`. Unknown tokens are ignored.
+  """
+  def revoke(token) when is_binary(token) do
+    from(s in __MODULE__, where: s.token_hash == ^hash_token(token))
+    |> Repo.delete_all()
+
+    :ok
+  end
+
+  defp hash_token(token), do: :crypto.hash(:sha256, token)
+end
@@ -8,6 +8,8 @@ defmodule SocialNetwork.Accounts.User do
     field :display_name, :string
     field :bio, :string
     field :avatar_url, :string
+    field :password, :string, virtual: true, redact: true
+    field :password_hash, :string, redact: true
 
     has_many :posts, SocialNetwork.Content.Post, foreign_key: :author_id
     has_many :comments, SocialNetwork.Content.Comment, foreign_key: :author_id
@@ -15,6 +17,7 @@ defmodule SocialNetwork.Accounts.User do
 
     # Self-referential friendships
     has_many :friendships, SocialNetwork.Accounts.Friendship, foreign_key: :user_id
+    has_many :incoming_friendships, SocialNetwork.Accounts.Friendship, foreign_key: :friend_id
     has_many :friends, through: [:friendships, :friend]
 
     timestamps()
@@ -22,9 +25,27 @@ defmodule SocialNetwork.Accounts.User do
 
   def changeset(user, attrs) do
     user
-    |> cast(attrs, [:email, :username, :display_name, :bio, :avatar_url])
+    |> cast(attrs, [:email, :username, :display_name, :bio, :avatar_url, :password])
     |> validate_required([:email, :username])
+    |> validate_format(:email, ~r/^[^\s@]+@[^\s@]+\.[^\s@]+$/, message: "must be a valid email address")
+    |> validate_format(:username, ~r/^[A-Za-z0-9_-]+$/,
+      message: "may only contain letters, numbers, underscores and hyphens"
+    )
+    |> validate_length(:username, min: 2, max: 30)
+    |> validate_length(:display_name, max: 80)
+    |> validate_length(:bio, max: 500)
+    |> validate_length(:password, min: 8)
     |> unique_constraint(:email)
     |> unique_constraint(:username)
+    |> put_password_hash()
   end
+
+  # Password is optional; users created without one simply can't log in
+  defp put_password_hash(%{valid?: true, changes: %{password: password}} = changeset) do
+    changeset
+    |> put_change(:password_hash, SocialNetwork.Accounts.Password.hash(password))
+    |> delete_change(:password)
+  end
+
+  defp put_password_hash(changeset), do: changeset
 end
@@ -0,0 +1,45 @@
+defmodule SocialNetwork.Content.Media do
+  @moduledoc """
+  Stores files uploaded with `createPost(media:)` on local disk and returns
+  the URL they are served from. Files get random names, so uploads can't
+  overwrite each other or be guessed from their original filename.
+  """
+
+  @url_prefix "/uploads"
+
+  @extensions %{
+    "image/jpeg" => ".jpg",
+    "image/png" => ".png",
+    "image/gif" => ".gif",
+    "image/webp" => ".webp",
+    "video/mp4" => ".mp4",
+    "video/webm" => ".webm"
+  }
+
+  @doc "Directory uploads are written to and served from."
+  def uploads_dir, do: Application.fetch_env!(:social_network, :uploads_dir)
+
+  @doc "Content types `store/1` accepts."
+  def content_types, do: Map.keys(@extensions)
+
+  @doc """
+  Copies an upload into `uploads_dir/0`. Returns `{:ok, url}`, or
+  `{:error, message}` for unsupported content types.
+  """
+  def store(%Plug.Upload{path: path, content_type: content_type}) do
+    case Map.fetch(@extensions, content_type) do
+      {:ok, extension} ->
+        name = random_name() <> extension
+        File.mkdir_p!(uploads_dir())
+        File.cp!(path, Path.join(uploads_dir(), name))
+        {:ok, "#{@url_prefix}/#{name}"}
+
+      :error ->
+        {:error, "Unsupported media type #{inspect(content_type)}; upload an image or video"}
+    end
+  end
+
+  defp random_name do
+    :crypto.strong_rand_bytes(16) |> Base.url_encode64(padding: false)
+  end
+end
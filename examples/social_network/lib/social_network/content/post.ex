@@ -1,11 +1,14 @@
 defmodule SocialNetwork.Content.Post do
   use Ecto.Schema
   import Ecto.Changeset
+  import Ecto.Query
+
+  alias SocialNetwork.Accounts.Friendship
 
   schema "posts" do
     field :body, :string
     field :media_url, :string
-    field :visibility, Ecto.Enum, values: [:public, :friends, :private]
+    field :visibility, Ecto.Enum, values: [:public, :friends, :private], default: :public
 
     belongs_to :author, SocialNetwork.Accounts.User
     has_many :comments, SocialNetwork.Content.Comment
@@ -18,5 +21,22 @@ defmodule SocialNetwork.Content.Post do
     post
     |> cast(attrs, [:body, :media_url, :visibility, :author_id])
     |> validate_required([:body, :author_id])
+    |> validate_length(:body, max: 5000)
+  end
+
+  @doc """
+  Narrows a post query to what `viewer` may see: public posts, their own
+  posts, and friends-only posts by users they have an accepted friendship
+  with. Anonymous viewers (`nil`) only see public posts.
+  """
+  def visible_to(query, nil), do: where(query, [p], p.visibility == :public)
+
+  def visible_to(query, %{id: viewer_id}) do
+    where(
+      query,
+      [p],
+      p.visibility == :public or p.author_id == ^viewer_id or
+        (p.visibility == :friends and p.author_id in subquery(Friendship.friend_ids(viewer_id)))
+    )
   end
 end
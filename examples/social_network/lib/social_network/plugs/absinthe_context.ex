@@ -1,27 +1,50 @@
 defmodule SocialNetwork.Plugs.AbsintheContext do
   @moduledoc """
-  Plug that extracts demo authentication from X-User-ID header
-  and adds the current user to the Absinthe context.
+  Plug that authenticates `Authorization: Bearer <token>` session tokens and
+  adds the current user to the Absinthe context.
+
+  Requests without a token run anonymously. A token that is unknown or
+  expired gets a 401 with the error code `SESSION_EXPIRED`, so clients can
+  tell "logged out" apart from "public data" and send the user back to log
+  in. The message is for developers; clients show their own text for the
+  code.
   """
   @behaviour Plug
 
+  import Plug.Conn
+
   def init(opts), do: opts
 
   def call(conn, _opts) do
-    context = build_context(conn)
-    Absinthe.Plug.put_options(conn, context: context)
-  end
+    case bearer_token(conn) do
+      nil ->
+        conn
 
-  defp build_context(conn) do
-    case Plug.Conn.get_req_header(conn, "x-user-id") do
-      [user_id] ->
-        case SocialNetwork.Repo.get(SocialNetwork.Accounts.User, user_id) do
-          nil -> %{}
-          user -> %{current_user: user}
+      token ->
+        case SocialNetwork.Accounts.Session.fetch_user(token) do
+          nil -> unauthorized(conn)
+          user -> Absinthe.Plug.put_options(conn, context: %{current_user: user, session_token: token})
         end
+    end
+  end
 
-      _ ->
-        %{}
+  defp bearer_token(conn) do
+    case get_req_header(conn, "authorization") do
+      ["Bearer " <> token] when token != "" -> token
+      _ -> nil
     end
   end
+
+  defp unauthorized(conn) do
+    body =
+      Jason.encode!(%{
+        errors: [%{message: "Invalid or expired session token", extensions: %{code: "SESSION_EXPIRED"}}]
+      })
+
+    conn
+    |> put_resp_content_type("application/json")
+    |> put_resp_header("www-authenticate", ~s(Bearer error="invalid_token"))
+    |> send_resp(401, body)
+    |> halt()
+  end
 end
@@ -1,12 +1,18 @@
 defmodule SocialNetwork.Router do
   use Plug.Router
 
+  # Post media written by SocialNetwork.Content.Media
+  plug Plug.Static,
+    at: "/uploads",
+    from: Application.compile_env!(:social_network, :uploads_dir)
+
+  # Multipart requests carry createPost media, so allow larger bodies
   plug Plug.Parsers,
-    parsers: [:urlencoded, :multipart, :json, Absinthe.Plug.Parser],
+    parsers: [:urlencoded, {:multipart, length: 25_000_000}, :json, Absinthe.Plug.Parser],
     pass: ["*/*"],
     json_decoder: Jason
 
-  # Add demo authentication context before Absinthe
+  # Authenticate bearer session tokens before Absinthe
   plug SocialNetwork.Plugs.AbsintheContext
 
   plug :match
@@ -14,7 +20,12 @@ defmodule SocialNetwork.Router do
 
   forward "/api/graphql",
     to: Absinthe.Plug,
-    init_opts: [schema: SocialNetworkWeb.GraphQL.Schema]
+    init_opts: [
+      schema: SocialNetworkWeb.GraphQL.Schema,
+      document_providers: SocialNetworkWeb.GraphQL.PersistedQueries.document_providers(),
+      # Mutations over HTTP trigger subscriptions on the socket
+      pubsub: SocialNetworkWeb.Endpoint
+    ]
 
   forward "/graphiql",
     to: Absinthe.Plug.GraphiQL,
@@ -0,0 +1,17 @@
+defmodule SocialNetworkWeb.Endpoint do
+  @moduledoc """
+  The HTTP entry point. GraphQL over HTTP goes through `SocialNetwork.Router`;
+  subscriptions go over the Absinthe socket at `/socket/websocket`.
+
+  `use Absinthe.Phoenix.Endpoint` makes the endpoint the subscription pubsub,
+  so mutations sent over either transport trigger subscriptions.
+  """
+  use Phoenix.Endpoint, otp_app: :social_network
+  use Absinthe.Phoenix.Endpoint
+
+  socket "/socket", SocialNetworkWeb.UserSocket,
+    websocket: true,
+    longpoll: false
+
+  plug SocialNetwork.Router
+end
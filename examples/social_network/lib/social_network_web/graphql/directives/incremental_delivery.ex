@@ -0,0 +1,32 @@
+defmodule SocialNetworkWeb.GraphQL.Directives.IncrementalDelivery do
+  @moduledoc """
+  Declares `@defer` and `@stream`, which the frontend uses to render a post's
+  likes and comments and a profile's friends after the rest of the page.
+
+  Absinthe 1.7 doesn't deliver results incrementally, so the directives only
+  make such documents valid: they're ignored, and the whole result is sent in
+  one response. The frontend treats that response as complete. The Vite mock
+  backend (`npm run dev:mock`) does send the deferred parts separately.
+  """
+
+  use Absinthe.Schema.Notation
+
+  directive :defer do
+    @desc "Lets the server send this fragment after the rest of the response."
+
+    arg :label, :string, description: "Identifies the fragment in the later payload"
+    arg :if, non_null(:boolean), default_value: true, description: "Defers only when true"
+
+    on [:fragment_spread, :inline_fragment]
+  end
+
+  directive :stream do
+    @desc "Lets the server send the items of this list one at a time."
+
+    arg :label, :string, description: "Identifies the list in later payloads"
+    arg :initial_count, :integer, default_value: 0, description: "Items sent with the initial response"
+    arg :if, non_null(:boolean), default_value: true, description: "Streams only when true"
+
+    on [:field]
+  end
+end
@@ -0,0 +1,63 @@
+defmodule SocialNetworkWeb.GraphQL.FormConstraints do
+  @moduledoc """
+  The changeset validations behind the mutations the frontend's forms
+  submit, keyed by mutation and argument name:
+
+      %{"createUser" => %{"username" => %{"required" => true, "minLength" => 2, ...}}}
+
+  The forms build their client-side rules from this, as
+  `frontend/src/forms/constraints.json` (written by
+  `mix social_network.export_constraints`), so a limit changed in a
+  changeset can't be forgotten in a form. The file is checked by
+  `FormConstraintsTest`.
+  """
+
+  alias SocialNetwork.Accounts.User
+  alias SocialNetwork.Content.Post
+
+  @json_path Path.expand("../../../frontend/src/forms/constraints.json", __DIR__)
+
+  # Each form's mutation, the schema whose changeset it runs and the
+  # arguments the form sends
+  @mutations %{
+    "createUser" => {User, [:email, :username, :display_name, :password]},
+    "createPost" => {Post, [:body]}
+  }
+
+  @doc "Where the frontend reads the constraints from."
+  def json_path, do: @json_path
+
+  @doc "Every form mutation's constraints, per argument."
+  def all do
+    Map.new(@mutations, fn {mutation, {schema, fields}} ->
+      changeset = schema.changeset(struct(schema), %{})
+      {mutation, Map.new(fields, &{argument_name(&1), field(changeset, &1)})}
+    end)
+  end
+
+  @doc "`all/0` as the JSON the frontend reads."
+  def to_json, do: Jason.encode!(all(), pretty: true) <> "\n"
+
+  # Only validations a browser can check; uniqueness needs the database
+  defp field(changeset, name) do
+    base = if name in changeset.required, do: %{"required" => true}, else: %{}
+
+    changeset.validations
+    |> Keyword.get_values(name)
+    |> Enum.reduce(base, fn
+      {:format, regex}, acc ->
+        Map.put(acc, "format", Regex.source(regex))
+
+      {:length, opts}, acc ->
+        acc |> put_limit("minLength", opts[:min]) |> put_limit("maxLength", opts[:max])
+
+      _validation, acc ->
+        acc
+    end)
+  end
+
+  defp argument_name(field), do: Absinthe.Utils.camelize(to_string(field), lower: true)
+
+  defp put_limit(map, _key, nil), do: map
+  defp put_limit(map, key, limit), do: Map.put(map, key, limit)
+end
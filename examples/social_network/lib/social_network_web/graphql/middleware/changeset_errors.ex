@@ -0,0 +1,44 @@
+defmodule SocialNetworkWeb.GraphQL.Middleware.ChangesetErrors do
+  @moduledoc """
+  Turns `{:error, %Ecto.Changeset{}}` from a resolver into one GraphQL error
+  per invalid field, so forms can show each message next to its input:
+
+      %{
+        message: "username has already been taken",
+        extensions: %{code: "VALIDATION_FAILED", field: "username"}
+      }
+
+  `field` is the argument's GraphQL name (`displayName`, not `display_name`).
+  Absinthe can't serialize a changeset, so without this middleware such
+  errors crash the request.
+  """
+  @behaviour Absinthe.Middleware
+
+  @impl true
+  def call(%{errors: errors} = resolution, _config) do
+    %{resolution | errors: Enum.flat_map(errors, &expand/1)}
+  end
+
+  defp expand(%Ecto.Changeset{} = changeset) do
+    changeset
+    |> Ecto.Changeset.traverse_errors(&interpolate/1)
+    |> Enum.flat_map(fn {field, messages} ->
+      Enum.map(messages, fn message ->
+        %{
+          message: "#{humanize(field)} #{message}",
+          extensions: %{code: "VALIDATION_FAILED", field: Absinthe.Utils.camelize(to_string(field), lower: true)}
+        }
+      end)
+    end)
+  end
+
+  defp expand(error), do: [error]
+
+  defp interpolate({message, opts}) do
+    Enum.reduce(opts, message, fn {key, value}, acc ->
+      String.replace(acc, "%{#{key}}", fn _ -> to_string(value) end)
+    end)
+  end
+
+  defp humanize(field), do: field |> to_string() |> String.replace("_", " ")
+end
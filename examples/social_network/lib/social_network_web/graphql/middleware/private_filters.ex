@@ -0,0 +1,54 @@
+defmodule SocialNetworkWeb.GraphQL.Middleware.PrivateFilters do
+  @moduledoc """
+  Rejects a CQL `where` or `orderBy` that uses a User field the viewer can't
+  read, such as another user's email:
+
+      people(where: { email: { _ilike: "a%" } })
+
+  The field itself is never returned, but filtering or sorting on it would
+  still reveal it a guess at a time. The hidden fields are the filterable
+  ones outside what User's `authorize` grants for somebody else's profile, so
+  admins may use them all. Nested filters such as
+  `feed(where: { author: { ... } })` are checked too.
+  """
+  @behaviour Absinthe.Middleware
+
+  alias SocialNetworkWeb.GraphQL.Types
+
+  @impl true
+  def call(%{state: :resolved} = resolution, _config), do: resolution
+
+  def call(%{arguments: arguments, context: context} = resolution, _config) do
+    hidden =
+      Types.User.__cql_filterable_fields__() --
+        Types.User.__cql_authorized_fields__(%SocialNetwork.Accounts.User{}, context)
+
+    [arguments[:where], arguments[:order_by]]
+    |> fields_used()
+    |> Enum.filter(&(&1 in hidden))
+    |> Enum.uniq()
+    |> case do
+      [] ->
+        resolution
+
+      fields ->
+        names = Enum.map_join(fields, ", ", &Absinthe.Utils.camelize(to_string(&1), lower: true))
+
+        Absinthe.Resolution.put_result(
+          resolution,
+          {:error, message: "Cannot filter or order by #{names}", extensions: %{code: "BAD_USER_INPUT"}}
+        )
+    end
+  end
+
+  # Every input field a filter or ordering names, at any depth. User's
+  # hidden fields don't share a name with any other type's, so the names
+  # alone tell them apart.
+  defp fields_used(input) when is_list(input), do: Enum.flat_map(input, &fields_used/1)
+
+  defp fields_used(input) when is_map(input) and not is_struct(input) do
+    Enum.flat_map(input, fn {field, value} -> [field | fields_used(value)] end)
+  end
+
+  defp fields_used(_input), do: []
+end
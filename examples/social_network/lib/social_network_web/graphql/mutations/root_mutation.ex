@@ -9,6 +9,7 @@ defmodule SocialNetworkWeb.GraphQL.Mutations.RootMutation do
       arg :email, non_null(:string)
       arg :username, non_null(:string)
       arg :display_name, :string
+      arg :password, :string
 
       resolve fn args, _ ->
         %SocialNetwork.Accounts.User{}
@@ -17,20 +18,64 @@ defmodule SocialNetworkWeb.GraphQL.Mutations.RootMutation do
       end
     end
 
+    field :login, Types.AuthSession do
+      arg :email, non_null(:string)
+      arg :password, non_null(:string)
+
+      resolve fn %{email: email, password: password}, _ ->
+        user = SocialNetwork.Repo.get_by(SocialNetwork.Accounts.User, email: email)
+        password_hash = user && user.password_hash
+
+        # Same error for unknown emails and wrong passwords
+        if SocialNetwork.Accounts.Password.verify(password, password_hash) do
+          {:ok, token, session} = SocialNetwork.Accounts.Session.create(user)
+          {:ok, %{token: token, expires_at: session.expires_at, user: user}}
+        else
+          {:error, "Invalid email or password"}
+        end
+      end
+    end
+
+    field :logout, non_null(:boolean) do
+      resolve fn _, %{context: context} ->
+        case context[:session_token] do
+          nil -> {:ok, false}
+          token -> {:ok, SocialNetwork.Accounts.Session.revoke(token) == :ok}
+        end
+      end
+    end
+
     field :create_post, Types.Post do
       arg :body, non_null(:string)
       arg :media_url, :string
+      # An uploaded image or video; takes precedence over media_url
+      arg :media, :upload
       arg :visibility, Enums.PostVisibility
 
       resolve fn args, %{context: context} ->
         case context[:current_user] do
           nil ->
-            {:error, "Not authenticated"}
+            {:error, message: "Not authenticated", extensions: %{code: "UNAUTHENTICATED"}}
 
           user ->
-            %SocialNetwork.Content.Post{}
-            |> SocialNetwork.Content.Post.changeset(Map.put(args, :author_id, user.id))
-            |> SocialNetwork.Repo.insert()
+            stored =
+              case args do
+                %{media: %Plug.Upload{} = upload} ->
+                  with {:error, message} <- SocialNetwork.Content.Media.store(upload) do
+                    {:error, message: message, extensions: %{code: "VALIDATION_FAILED", field: "media"}}
+                  end
+
+                _ ->
+                  {:ok, args[:media_url]}
+              end
+
+            with {:ok, media_url} <- stored do
+              attrs = Map.merge(args, %{media_url: media_url, author_id: user.id})
+
+              %SocialNetwork.Content.Post{}
+              |> SocialNetwork.Content.Post.changeset(attrs)
+              |> SocialNetwork.Repo.insert()
+            end
         end
       end
     end
@@ -43,7 +88,7 @@ defmodule SocialNetworkWeb.GraphQL.Mutations.RootMutation do
       resolve fn args, %{context: context} ->
         case context[:current_user] do
           nil ->
-            {:error, "Not authenticated"}
+            {:error, message: "Not authenticated", extensions: %{code: "UNAUTHENTICATED"}}
 
           user ->
             %SocialNetwork.Content.Comment{}
@@ -59,7 +104,7 @@ defmodule SocialNetworkWeb.GraphQL.Mutations.RootMutation do
       resolve fn %{post_id: post_id}, %{context: context} ->
         case context[:current_user] do
           nil ->
-            {:error, "Not authenticated"}
+            {:error, message: "Not authenticated", extensions: %{code: "UNAUTHENTICATED"}}
 
           user ->
             %SocialNetwork.Content.Like{}
@@ -69,13 +114,29 @@ defmodule SocialNetworkWeb.GraphQL.Mutations.RootMutation do
       end
     end
 
+    field :like_comment, Types.Like do
+      arg :comment_id, non_null(:id)
+
+      resolve fn %{comment_id: comment_id}, %{context: context} ->
+        case context[:current_user] do
+          nil ->
+            {:error, message: "Not authenticated", extensions: %{code: "UNAUTHENTICATED"}}
+
+          user ->
+            %SocialNetwork.Content.Like{}
+            |> SocialNetwork.Content.Like.changeset(%{user_id: user.id, comment_id: comment_id})
+            |> SocialNetwork.Repo.insert()
+        end
+      end
+    end
+
     field :send_friend_request, Types.Friendship do
       arg :friend_id, non_null(:id)
 
       resolve fn %{friend_id: friend_id}, %{context: context} ->
         case context[:current_user] do
           nil ->
-            {:error, "Not authenticated"}
+            {:error, message: "Not authenticated", extensions: %{code: "UNAUTHENTICATED"}}
 
           user ->
             %SocialNetwork.Accounts.Friendship{}
@@ -95,17 +156,39 @@ defmodule SocialNetworkWeb.GraphQL.Mutations.RootMutation do
       resolve fn %{friendship_id: friendship_id}, %{context: context} ->
         case context[:current_user] do
           nil ->
-            {:error, "Not authenticated"}
+            {:error, message: "Not authenticated", extensions: %{code: "UNAUTHENTICATED"}}
 
-          _user ->
+          user ->
+            # Only the recipient can accept
             case SocialNetwork.Repo.get(SocialNetwork.Accounts.Friendship, friendship_id) do
-              nil ->
-                {:error, "Friendship not found"}
-
-              friendship ->
+              %{friend_id: friend_id, status: :pending} = friendship when friend_id == user.id ->
                 friendship
                 |> SocialNetwork.Accounts.Friendship.changeset(%{status: :accepted})
                 |> SocialNetwork.Repo.update()
+
+              _ ->
+                {:error, "Friend request not found"}
+            end
+        end
+      end
+    end
+
+    field :decline_friend_request, Types.Friendship do
+      arg :friendship_id, non_null(:id)
+
+      resolve fn %{friendship_id: friendship_id}, %{context: context} ->
+        case context[:current_user] do
+          nil ->
+            {:error, message: "Not authenticated", extensions: %{code: "UNAUTHENTICATED"}}
+
+          user ->
+            # Only the recipient can decline; declining removes the request
+            case SocialNetwork.Repo.get(SocialNetwork.Accounts.Friendship, friendship_id) do
+              %{friend_id: friend_id, status: :pending} = friendship when friend_id == user.id ->
+                SocialNetwork.Repo.delete(friendship)
+
+              _ ->
+                {:error, "Friend request not found"}
             end
         end
       end
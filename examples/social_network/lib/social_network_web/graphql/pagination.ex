@@ -0,0 +1,158 @@
+defmodule SocialNetworkWeb.GraphQL.Pagination do
+  @moduledoc """
+  Keyset pagination for the root `feed` and `people` connections.
+
+  A page is read in SQL: the rows past the cursor in sort order, e.g.
+  `WHERE (inserted_at, id) < (cursor) ORDER BY inserted_at DESC, id DESC
+  LIMIT first + 1`. The extra row tells whether there's a next page. A
+  cursor holds its record's sort values rather than its position, so it
+  keeps working when records are added or its own record is deleted.
+
+  The record id always ends the sort order, so records with equal sort
+  values come out in the same order on every page. NULLs sort the way
+  SQLite sorts them: first when ascending, last when descending.
+  """
+  import Ecto.Query
+
+  @max_page_size 100
+
+  @doc """
+  Builds the connection page of `query` for the Relay pagination `args`
+  (`first`/`after`, or `last`/`before`).
+
+  `order` is the sort order as `{direction, field}` pairs of the query's
+  schema, e.g. `[desc: :inserted_at]`; any ordering on `query` itself is
+  replaced. totalCount and exists are deferred, so their queries only run
+  when they're selected.
+  """
+  def page(query, repo, args, order) do
+    query = Ecto.Queryable.to_query(query)
+    %{from: %{source: {_, schema}}} = query
+    {last_direction, _} = List.last(order)
+    order = order ++ [{last_direction, :id}]
+
+    {size, cursor, backward?} =
+      case args do
+        %{last: last} when is_integer(last) -> {min(last, @max_page_size), args[:before], true}
+        _ -> {min(args[:first] || @max_page_size, @max_page_size), args[:after], false}
+      end
+
+    # Backward pages are read in reverse order, then flipped back
+    read_order = if backward?, do: Enum.map(order, &reverse/1), else: order
+
+    with {:ok, values} <- decode_cursor(cursor, order, schema) do
+      rows =
+        query
+        |> exclude(:order_by)
+        |> order_by(^read_order)
+        |> past_cursor(read_order, values)
+        |> limit(^(size + 1))
+        |> repo.all()
+
+      more? = length(rows) > size
+      records = Enum.take(rows, size)
+      records = if backward?, do: Enum.reverse(records), else: records
+      edges = Enum.map(records, &%{node: &1, cursor: encode_cursor(&1, order)})
+      count_query = query |> exclude(:order_by) |> exclude(:preload)
+
+      {:ok,
+       %{
+         edges: edges,
+         nodes: records,
+         page_info: %{
+           # Only the side being paged towards is known; the other side has
+           # more records whenever there's a cursor to page from
+           has_next_page: if(backward?, do: cursor != nil, else: more?),
+           has_previous_page: if(backward?, do: more?, else: cursor != nil),
+           start_cursor: edges |> List.first() |> edge_cursor(),
+           end_cursor: edges |> List.last() |> edge_cursor()
+         },
+         _total_count_fn: fn -> repo.aggregate(count_query, :count, :id) end,
+         _exists_fn: fn -> repo.exists?(count_query) end
+       }}
+    end
+  end
+
+  @doc """
+  The `{direction, field}` sort order of a CQL `order_by` argument, or
+  `default` when it orders by nothing. NULLs always sort the SQLite way, so
+  `ASC_NULLS_LAST` and the like sort as plain `ASC` or `DESC`.
+  """
+  def order_from_input(order_by, default) do
+    order =
+      for spec <- order_by || [], {field, %{direction: direction}} <- spec do
+        {base_direction(direction), field}
+      end
+
+    if order == [], do: default, else: order
+  end
+
+  defp base_direction(direction) when direction in [:asc, :asc_nulls_first, :asc_nulls_last], do: :asc
+  defp base_direction(_direction), do: :desc
+
+  defp reverse({:asc, field}), do: {:desc, field}
+  defp reverse({:desc, field}), do: {:asc, field}
+
+  defp edge_cursor(nil), do: nil
+  defp edge_cursor(edge), do: edge.cursor
+
+  defp encode_cursor(record, order) do
+    order
+    |> Enum.map(fn {_direction, field} -> Map.fetch!(record, field) end)
+    |> Jason.encode!()
+    |> Base.url_encode64(padding: false)
+  end
+
+  defp decode_cursor(nil, _order, _schema), do: {:ok, nil}
+
+  defp decode_cursor(cursor, order, schema) do
+    with {:ok, json} <- Base.url_decode64(cursor, padding: false),
+         {:ok, values} when length(values) == length(order) <- Jason.decode(json),
+         {:ok, values} <- cast_values(values, order, schema) do
+      {:ok, values}
+    else
+      _ -> {:error, "Invalid cursor"}
+    end
+  end
+
+  # Cursor values come back as JSON; cast them to their fields' types so
+  # they compare like the columns do
+  defp cast_values(values, order, schema) do
+    values
+    |> Enum.zip(order)
+    |> Enum.reduce_while({:ok, []}, fn {value, {_direction, field}}, {:ok, acc} ->
+      case Ecto.Type.cast(schema.__schema__(:type, field), value) do
+        {:ok, cast} -> {:cont, {:ok, [cast | acc]}}
+        _ -> {:halt, :error}
+      end
+    end)
+    |> case do
+      {:ok, values} -> {:ok, Enum.reverse(values)}
+      :error -> :error
+    end
+  end
+
+  defp past_cursor(query, _order, nil), do: query
+
+  # (a, b) past (x, y) is `a past x OR (a = x AND b past y)`, built from the
+  # last field outwards
+  defp past_cursor(query, order, values) do
+    condition =
+      order
+      |> Enum.zip(values)
+      |> Enum.reverse()
+      |> Enum.reduce(dynamic(false), fn {{direction, field}, value}, rest ->
+        dynamic(^past(direction, field, value) or (^equal(field, value) and ^rest))
+      end)
+
+    where(query, ^condition)
+  end
+
+  defp past(:asc, field, nil), do: dynamic([r], not is_nil(field(r, ^field)))
+  defp past(:asc, field, value), do: dynamic([r], field(r, ^field) > ^value)
+  defp past(:desc, _field, nil), do: dynamic(false)
+  defp past(:desc, field, value), do: dynamic([r], field(r, ^field) < ^value or is_nil(field(r, ^field)))
+
+  defp equal(field, nil), do: dynamic([r], is_nil(field(r, ^field)))
+  defp equal(field, value), do: dynamic([r], field(r, ^field) == ^value)
+end
@@ -0,0 +1,34 @@
+defmodule SocialNetworkWeb.GraphQL.PersistedQueries do
+  @moduledoc """
+  Serves the frontend's persisted queries by id.
+
+  The manifest is produced by `npm run persist` in `frontend/` (relay-compiler
+  plus `scripts/export-persisted-queries.mjs`) and compiled into this module,
+  so recompiling picks up a new manifest. Requests send
+  `{"id": ..., "variables": ...}` instead of a query string.
+
+  With `config :social_network, persisted_queries_only: true` (the default in
+  prod) only these documents can run; elsewhere full query strings are
+  accepted too, for GraphiQL and for the frontend's fallback when it knows a
+  query the server doesn't yet.
+  """
+  use Absinthe.Plug.DocumentProvider.Compiled
+
+  @manifest Path.expand("../../../priv/graphql/persisted_queries.json", __DIR__)
+  @external_resource @manifest
+
+  provide(@manifest |> File.read!() |> Jason.decode!())
+
+  @persisted_only Application.compile_env(:social_network, :persisted_queries_only, false)
+
+  @doc """
+  Document providers for `Absinthe.Plug`, tried in order.
+  """
+  def document_providers do
+    if @persisted_only do
+      [__MODULE__]
+    else
+      [__MODULE__, Absinthe.Plug.DocumentProvider.Default]
+    end
+  end
+end
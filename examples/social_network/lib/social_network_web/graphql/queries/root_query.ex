@@ -37,16 +37,83 @@ defmodule SocialNetworkWeb.GraphQL.Queries.RootQuery do
   alias SocialNetworkWeb.GraphQL.Types
 
   queries do
-    # Relay Node field - automatically decodes GlobalId and fetches the record
-    node_field()
+    # Relay Node field - decodes the GlobalId and fetches the record, like
+    # node_field(), but hides posts the viewer may not see
+    field :node, :node do
+      arg :id, non_null(:id)
+
+      resolve fn _, %{id: global_id}, resolution ->
+        with {:ok, record} <- GreenFairy.Query.resolve_node(global_id, resolution) do
+          SocialNetworkWeb.GraphQL.Queries.RootQuery.visible_node(record, resolution.context[:current_user])
+        end
+      end
+    end
+
+    # NOTE: user(id:) is auto-generated from the User type because it has
+    # `expose :id` defined. post(id:) is scoped by the viewer, so it's here.
+    field :post, Types.Post do
+      arg :id, non_null(:id)
 
-    # NOTE: user(id:) and post(id:) are auto-generated from the types
-    # because they have `expose :id` defined. No need to define them here!
+      resolve fn _, %{id: id}, %{context: context} ->
+        SocialNetworkWeb.GraphQL.Queries.RootQuery.fetch_visible_post(id, context[:current_user])
+      end
+    end
 
     # List queries with automatic CQL filtering
     # No resolver needed - the list macro handles everything!
     list :users, Types.User
-    list :posts, Types.Post
+
+    # Like the feed, posts only holds what the viewer may see
+    field :posts, list_of(Types.Post) do
+      resolve fn _, args, %{context: context} ->
+        import Ecto.Query
+
+        query =
+          from(p in SocialNetwork.Content.Post, order_by: [desc: p.inserted_at, desc: p.id])
+          |> SocialNetwork.Content.Post.visible_to(context[:current_user])
+
+        SocialNetworkWeb.GraphQL.Queries.RootQuery.filter(query, args, SocialNetworkWeb.GraphQL.Types.Post)
+      end
+    end
+
+    # Paginated connections for the frontend's infinite-scrolling views,
+    # paged in SQL by SocialNetworkWeb.GraphQL.Pagination.
+    # The feed only holds posts the viewer may see; `where` narrows it further
+    # (the frontend's Public / Friends / Mine scopes are CQL filters).
+    field :feed, :feed_connection do
+      arg :where, :cql_filter_post_input
+      arg :order_by, list_of(:cql_order_post_input)
+      arg :first, :integer
+      arg :after, :string
+      arg :last, :integer
+      arg :before, :string
+
+      resolve fn _, args, %{context: context} ->
+        query = SocialNetwork.Content.Post.visible_to(SocialNetwork.Content.Post, context[:current_user])
+
+        SocialNetworkWeb.GraphQL.Queries.RootQuery.paginate(query, args, SocialNetworkWeb.GraphQL.Types.Post,
+          desc: :inserted_at
+        )
+      end
+    end
+
+    field :people, :people_connection do
+      arg :where, :cql_filter_user_input
+      arg :order_by, list_of(:cql_order_user_input)
+      arg :first, :integer
+      arg :after, :string
+      arg :last, :integer
+      arg :before, :string
+
+      resolve fn _, args, _ ->
+        SocialNetworkWeb.GraphQL.Queries.RootQuery.paginate(
+          SocialNetwork.Accounts.User,
+          args,
+          SocialNetworkWeb.GraphQL.Types.User,
+          asc: :username
+        )
+      end
+    end
 
     # Current viewer - custom field (not exposed via GlobalId)
     field :viewer, Types.User do
@@ -55,4 +122,107 @@ defmodule SocialNetworkWeb.GraphQL.Queries.RootQuery do
       end
     end
   end
+
+  # Edge and connection objects of the feed and people connections: what
+  # `connection` generates inside a type, which it doesn't do inside `queries`.
+  object :feed_edge do
+    field :node, :post
+    field :cursor, non_null(:string)
+  end
+
+  object :feed_connection do
+    field :edges, list_of(:feed_edge)
+    field :page_info, non_null(:page_info)
+
+    @desc "Flattened list of nodes (GitHub-style shortcut)"
+    field :nodes, list_of(:post)
+
+    @desc "Total count of items matching the query (ignoring pagination)"
+    field :total_count, :integer, resolve: &__MODULE__.total_count/3
+
+    @desc "Whether any items match the query"
+    field :exists, :boolean, resolve: &__MODULE__.exists/3
+  end
+
+  object :people_edge do
+    field :node, :user
+    field :cursor, non_null(:string)
+  end
+
+  object :people_connection do
+    field :edges, list_of(:people_edge)
+    field :page_info, non_null(:page_info)
+
+    @desc "Flattened list of nodes (GitHub-style shortcut)"
+    field :nodes, list_of(:user)
+
+    @desc "Total count of items matching the query (ignoring pagination)"
+    field :total_count, :integer, resolve: &__MODULE__.total_count/3
+
+    @desc "Whether any items match the query"
+    field :exists, :boolean, resolve: &__MODULE__.exists/3
+  end
+
+  @doc false
+  # totalCount and exists only run their query when they're selected
+  def total_count(%{_total_count_fn: count_fn}, _args, _resolution), do: {:ok, count_fn.()}
+
+  @doc false
+  def exists(%{_exists_fn: exists_fn}, _args, _resolution), do: {:ok, exists_fn.()}
+
+  @doc false
+  # The post with `id` (a GlobalId or a raw id) if `viewer` may see it.
+  # Posts they may not see are reported as missing, not forbidden, so ids
+  # can't be probed.
+  def fetch_visible_post(id, viewer) do
+    local_id =
+      case GreenFairy.GlobalId.decode_id(id) do
+        {:ok, {_, local_id}} -> local_id
+        {:error, _} -> id
+      end
+
+    SocialNetwork.Content.Post
+    |> SocialNetwork.Content.Post.visible_to(viewer)
+    |> SocialNetwork.Repo.get(local_id)
+    |> case do
+      nil -> {:error, "Post not found"}
+      post -> {:ok, post}
+    end
+  end
+
+  @doc false
+  def visible_node(%SocialNetwork.Content.Post{id: id}, viewer), do: fetch_visible_post(id, viewer)
+  def visible_node(record, _viewer), do: {:ok, record}
+
+  @doc false
+  # Applies CQL where/order_by (ordering replaces the default) and lists the
+  # matching records.
+  def filter(query, args, type_module) do
+    with {:ok, query} <- apply_cql(query, args, type_module) do
+      {:ok, SocialNetwork.Repo.all(query)}
+    end
+  end
+
+  @doc false
+  # Applies the CQL where and reads the connection page in `order_by`'s
+  # order, or in `default_order`, with keyset pagination.
+  def paginate(query, args, type_module, default_order) do
+    with {:ok, query} <- GreenFairy.CQL.QueryBuilder.apply_where(query, args[:where], type_module) do
+      order = SocialNetworkWeb.GraphQL.Pagination.order_from_input(args[:order_by], default_order)
+      SocialNetworkWeb.GraphQL.Pagination.page(query, SocialNetwork.Repo, args, order)
+    end
+  end
+
+  defp apply_cql(query, args, type_module) do
+    with {:ok, query} <- GreenFairy.CQL.QueryBuilder.apply_where(query, args[:where], type_module) do
+      if args[:order_by] in [nil, []] do
+        {:ok, query}
+      else
+        {:ok,
+         query
+         |> Ecto.Query.exclude(:order_by)
+         |> GreenFairy.CQL.QueryBuilder.apply_order_by(args[:order_by], type_module)}
+      end
+    end
+  end
 end
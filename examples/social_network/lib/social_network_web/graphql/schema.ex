@@ -18,4 +18,22 @@ defmodule SocialNetworkWeb.GraphQL.Schema do
     repo: SocialNetwork.Repo
     # Optional: custom global_id implementation
     # global_id: MyApp.CustomGlobalId
+
+  # The `Upload` scalar for multipart file arguments (createPost's media)
+  import_types Absinthe.Plug.Types
+
+  # @defer and @stream, accepted but answered in a single response
+  import_types SocialNetworkWeb.GraphQL.Directives.IncrementalDelivery
+
+  # Report changeset errors from mutations per field
+  def middleware(middleware, _field, %{identifier: :mutation}) do
+    middleware ++ [SocialNetworkWeb.GraphQL.Middleware.ChangesetErrors]
+  end
+
+  # Keep CQL filters off User fields the viewer can't read
+  def middleware(middleware, _field, %{identifier: :query}) do
+    [SocialNetworkWeb.GraphQL.Middleware.PrivateFilters | middleware]
+  end
+
+  def middleware(middleware, _field, _object), do: middleware
 end
@@ -4,21 +4,29 @@ defmodule SocialNetworkWeb.GraphQL.Subscriptions.RootSubscription do
   alias SocialNetworkWeb.GraphQL.Types
 
   subscriptions do
-    @desc "Subscribe to new posts"
+    @desc "Subscribe to new posts the viewer may see"
     field :post_created, Types.Post do
-      config fn _args, _info ->
-        {:ok, topic: "posts"}
+      config fn _args, %{context: context} ->
+        {:ok,
+         topic: SocialNetworkWeb.GraphQL.Subscriptions.RootSubscription.viewer_post_topics(context[:current_user])}
       end
 
-      trigger :create_post, topic: fn _post -> "posts" end
+      trigger :create_post,
+        topic: fn post ->
+          SocialNetworkWeb.GraphQL.Subscriptions.RootSubscription.post_topics(post)
+        end
     end
 
     @desc "Subscribe to new comments on a post"
     field :comment_added, Types.Comment do
       arg :post_id, non_null(:id)
 
-      config fn args, _info ->
-        {:ok, topic: "post:#{args.post_id}:comments"}
+      # Only for posts the viewer may see
+      config fn args, %{context: context} ->
+        with {:ok, _post} <-
+               SocialNetworkWeb.GraphQL.Queries.RootQuery.fetch_visible_post(args.post_id, context[:current_user]) do
+          {:ok, topic: "post:#{args.post_id}:comments"}
+        end
       end
 
       trigger :create_comment,
@@ -27,4 +35,25 @@ defmodule SocialNetworkWeb.GraphQL.Subscriptions.RootSubscription do
         end
     end
   end
+
+  # New posts are published only to the topics of users who may see them,
+  # following SocialNetwork.Content.Post.visible_to/2: public posts to a
+  # shared topic, everything else to a topic per user. Each subscriber
+  # listens on the shared topic and their own.
+
+  @doc false
+  def viewer_post_topics(nil), do: ["posts:public"]
+  def viewer_post_topics(%{id: user_id}), do: ["posts:public", user_post_topic(user_id)]
+
+  @doc false
+  def post_topics(%{visibility: :public}), do: ["posts:public"]
+
+  def post_topics(%{visibility: :friends, author_id: author_id}) do
+    friend_ids = author_id |> SocialNetwork.Accounts.Friendship.friend_ids() |> SocialNetwork.Repo.all()
+    Enum.map([author_id | friend_ids], &user_post_topic/1)
+  end
+
+  def post_topics(%{author_id: author_id}), do: [user_post_topic(author_id)]
+
+  defp user_post_topic(user_id), do: "posts:user:#{user_id}"
 end
@@ -0,0 +1,11 @@
+defmodule SocialNetworkWeb.GraphQL.Types.AuthSession do
+  use GreenFairy.Type
+
+  # Returned by `login`. Not backed by a struct: the raw token only exists in
+  # this response, the database keeps a hash of it.
+  type "AuthSession" do
+    field :token, non_null(:string)
+    field :expires_at, non_null(:naive_datetime)
+    field :user, non_null(:user)
+  end
+end
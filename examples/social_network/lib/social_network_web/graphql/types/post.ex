@@ -7,8 +7,8 @@ defmodule SocialNetworkWeb.GraphQL.Types.Post do
   type "Post", struct: SocialNetwork.Content.Post do
     implements Interfaces.Node
 
-    # Expose this type as a query field - auto-generates: post(id: ID!): Post
-    expose :id
+    # post(id:) is defined in RootQuery rather than exposed here: it has to
+    # respect the post's visibility, which a plain Repo.get can't
 
     # CQL is automatically enabled for types with structs!
     # Authorization: all users can see all post fields
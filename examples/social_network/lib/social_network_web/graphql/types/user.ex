@@ -10,14 +10,16 @@ defmodule SocialNetworkWeb.GraphQL.Types.User do
     expose :id
 
     # CQL is automatically enabled for types with structs!
-    # Authorization: admins see all fields, others see limited fields
-    authorize fn _user, ctx ->
+    # Authorization: admins see all fields, others see the public profile
+    # (including posts and friends). Users always see all of their own fields
+    # (e.g. their friend requests)
+    authorize fn user, ctx ->
       current_user = ctx[:current_user]
 
-      if current_user && current_user.is_admin do
-        :all
-      else
-        [:id, :username, :display_name, :bio, :avatar_url, :inserted_at, :updated_at]
+      cond do
+        current_user && current_user.id == user.id -> :all
+        current_user && Map.get(current_user, :is_admin) -> :all
+        true -> [:id, :username, :display_name, :bio, :avatar_url, :posts, :friends, :inserted_at, :updated_at]
       end
     end
 
@@ -30,10 +32,10 @@ defmodule SocialNetworkWeb.GraphQL.Types.User do
 
     # Association fields - automatically inferred from Ecto schema
     # Adds limit/offset pagination for has_many associations
-    assoc :posts
     assoc :comments
     assoc :likes
     assoc :friendships
+    assoc :incoming_friendships
 
     # friends is a has_through association - requires custom loader
     # Using inline loader syntax for clarity
@@ -67,6 +69,27 @@ defmodule SocialNetworkWeb.GraphQL.Types.User do
       end
     end
 
+    # posts holds only what the viewer may see, like the feed, so it can't
+    # be a plain association either
+    field :posts, list_of(:post) do
+      loader users, _args, context do
+        import Ecto.Query
+
+        user_ids = Enum.map(users, & &1.id)
+
+        posts =
+          from(p in SocialNetwork.Content.Post,
+            where: p.author_id in ^user_ids,
+            order_by: [desc: p.inserted_at, desc: p.id]
+          )
+          |> SocialNetwork.Content.Post.visible_to(context[:current_user])
+          |> SocialNetwork.Repo.all()
+          |> Enum.group_by(& &1.author_id)
+
+        Map.new(users, fn user -> {user, Map.get(posts, user.id, [])} end)
+      end
+    end
+
     field :inserted_at, non_null(:naive_datetime)
     field :updated_at, non_null(:naive_datetime)
   end
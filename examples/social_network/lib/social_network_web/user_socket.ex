@@ -0,0 +1,26 @@
+defmodule SocialNetworkWeb.UserSocket do
+  @moduledoc """
+  Socket for Absinthe subscriptions.
+
+  Clients send their session token as the `token` connect param, since
+  browsers can't set headers on a WebSocket. The token's user becomes the
+  `current_user` of every subscription on the socket, as
+  `SocialNetwork.Plugs.AbsintheContext` does for HTTP requests. Without a
+  token the socket is anonymous; an unknown or expired token is refused.
+  """
+  use Phoenix.Socket
+  use Absinthe.Phoenix.Socket, schema: SocialNetworkWeb.GraphQL.Schema
+
+  @impl true
+  def connect(%{"token" => token}, socket, _connect_info) when is_binary(token) and token != "" do
+    case SocialNetwork.Accounts.Session.fetch_user(token) do
+      nil -> {:error, :unauthorized}
+      user -> {:ok, Absinthe.Phoenix.Socket.put_options(socket, context: %{current_user: user})}
+    end
+  end
+
+  def connect(_params, socket, _connect_info), do: {:ok, socket}
+
+  @impl true
+  def id(_socket), do: nil
+end
@@ -30,6 +30,7 @@ defmodule SocialNetwork.MixProject do
       {:absinthe_plug, "~> 1.5"},
       {:absinthe_relay, "~> 1.5"},
       {:absinthe_phoenix, "~> 2.0"},
+      {:phoenix, "~> 1.7"},
       {:phoenix_pubsub, "~> 2.1"},
       {:dataloader, "~> 2.0"},
       {:ecto_sql, "~> 3.10"},
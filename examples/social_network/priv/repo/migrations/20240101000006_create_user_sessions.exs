@@ -0,0 +1,20 @@
+defmodule SocialNetwork.Repo.Migrations.CreateUserSessions do
+  use Ecto.Migration
+
+  def change do
+    alter table(:users) do
+      add :password_hash, :string
+    end
+
+    create table(:user_sessions) do
+      add :user_id, references(:users, on_delete: :delete_all), null: false
+      add :token_hash, :binary, null: false
+      add :expires_at, :naive_datetime, null: false
+
+      timestamps(updated_at: false)
+    end
+
+    create index(:user_sessions, [:user_id])
+    create unique_index(:user_sessions, [:token_hash])
+  end
+end
@@ -18,6 +18,9 @@ defmodule SocialNetworkWeb.GraphQL.CQLIntegrationTest do
   - Complex nested queries with real data
   """
 
+  # Only admins may filter on other users' private fields, like email
+  @admin %{current_user: %{id: 0, is_admin: true}}
+
   setup do
     # Create test users
     {:ok, alice} =
@@ -152,7 +155,7 @@ defmodule SocialNetworkWeb.GraphQL.CQLIntegrationTest do
       }
       """
 
-      result = run_query(query)
+      result = run_query(query, context: @admin)
 
       assert {:ok, %{data: %{"users" => returned_users}}} = result
       assert length(returned_users) == 1
@@ -211,7 +214,7 @@ defmodule SocialNetworkWeb.GraphQL.CQLIntegrationTest do
       }
       """
 
-      result = run_query(query)
+      result = run_query(query, context: @admin)
 
       assert {:ok, %{data: %{"users" => returned_users}}} = result
       assert length(returned_users) == 1
@@ -363,7 +366,7 @@ defmodule SocialNetworkWeb.GraphQL.CQLIntegrationTest do
       }
       """
 
-      result = run_query(query)
+      result = run_query(query, context: @admin)
 
       assert {:ok, %{data: %{"posts" => returned_posts}}} = result
       assert length(returned_posts) == 3
@@ -491,9 +494,7 @@ defmodule SocialNetworkWeb.GraphQL.CQLIntegrationTest do
   end
 
   describe "Authorization Enforcement" do
-    @tag :skip
-    @tag :pending
-    test "non-admin users cannot filter by email field (authorization not yet implemented)", %{users: _users} do
+    test "non-admin users cannot filter by email field", %{users: _users} do
       query = """
       query {
         users(where: { email: { _eq: "alice@example.com" } }) {
@@ -516,9 +517,7 @@ defmodule SocialNetworkWeb.GraphQL.CQLIntegrationTest do
       end)
     end
 
-    @tag :skip
-    @tag :pending
-    test "admin users can filter by email field (authorization not yet implemented)", %{users: _users} do
+    test "admin users can filter by email field", %{users: _users} do
       query = """
       query {
         users(where: { email: { _eq: "alice@example.com" } }) {
@@ -538,9 +537,7 @@ defmodule SocialNetworkWeb.GraphQL.CQLIntegrationTest do
       assert List.first(returned_users)["email"] == "alice@example.com"
     end
 
-    @tag :skip
-    @tag :pending
-    test "non-admin users can filter by allowed fields (authorization not yet implemented)", %{users: _users} do
+    test "non-admin users can filter by allowed fields", %{users: _users} do
       query = """
       query {
         users(where: { username: { _eq: "alice" } }) {
@@ -559,6 +556,47 @@ defmodule SocialNetworkWeb.GraphQL.CQLIntegrationTest do
       assert length(returned_users) == 1
       assert List.first(returned_users)["username"] == "alice"
     end
+
+    test "anonymous users cannot match emails by pattern on people", %{users: _users} do
+      query = """
+      query {
+        people(first: 5, where: { email: { _ilike: "a%" } }) {
+          edges { node { username } }
+        }
+      }
+      """
+
+      assert {:ok, %{data: %{"people" => nil}, errors: [error]}} = run_query(query)
+      assert error.message == "Cannot filter or order by email"
+    end
+
+    test "non-admin users cannot filter by email through a nested filter", %{posts: _posts} do
+      query = """
+      query {
+        posts(where: { author: { email: { _contains: "@example.com" } } }) {
+          id
+        }
+      }
+      """
+
+      context = %{current_user: %{id: 1, is_admin: false}}
+      assert {:ok, %{errors: [error]}} = run_query(query, context: context)
+      assert error.message == "Cannot filter or order by email"
+    end
+
+    test "non-admin users cannot order by email", %{users: _users} do
+      query = """
+      query {
+        users(order_by: [{ email: { direction: ASC } }]) {
+          id
+        }
+      }
+      """
+
+      context = %{current_user: %{id: 1, is_admin: false}}
+      assert {:ok, %{errors: [error]}} = run_query(query, context: context)
+      assert error.message == "Cannot filter or order by email"
+    end
   end
 
   describe "Complex Real-World Queries" do
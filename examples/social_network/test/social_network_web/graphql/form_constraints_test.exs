@@ -0,0 +1,29 @@
+defmodule SocialNetworkWeb.GraphQL.FormConstraintsTest do
+  use ExUnit.Case, async: true
+
+  alias SocialNetworkWeb.GraphQL.FormConstraints
+
+  test "the frontend's copy matches the changesets" do
+    exported = FormConstraints.json_path() |> File.read!() |> Jason.decode!()
+
+    assert exported == Jason.decode!(FormConstraints.to_json()),
+           "constraints.json is out of date; run mix social_network.export_constraints"
+  end
+
+  test "reads required fields, formats and lengths from the changesets" do
+    assert %{
+             "createUser" => %{
+               "email" => %{"required" => true, "format" => _},
+               "username" => %{
+                 "required" => true,
+                 "format" => "^[A-Za-z0-9_-]+$",
+                 "minLength" => 2,
+                 "maxLength" => 30
+               },
+               "displayName" => %{"maxLength" => 80},
+               "password" => %{"minLength" => 8}
+             },
+             "createPost" => %{"body" => %{"required" => true, "maxLength" => 5000}}
+           } = FormConstraints.all()
+  end
+end
@@ -45,11 +45,74 @@ defmodule SocialNetworkWeb.GraphQL.MutationsTest do
         "username" => "different"
       }
 
-      # This will raise an error due to changeset not being handled properly
-      # In a production app, you'd handle changeset errors in the resolver
-      assert_raise Protocol.UndefinedError, fn ->
-        run_query(mutation, variables)
-      end
+      errors = get_errors(run_query(mutation, variables))
+
+      assert [%{message: "email has already been taken", extensions: extensions}] = errors
+      assert extensions == %{code: "VALIDATION_FAILED", field: "email"}
+    end
+
+    test "reports each invalid field with its GraphQL name" do
+      mutation = """
+      mutation CreateUser($email: String!, $username: String!, $displayName: String) {
+        createUser(email: $email, username: $username, displayName: $displayName) {
+          id
+        }
+      }
+      """
+
+      variables = %{
+        "email" => "not-an-email",
+        "username" => "has spaces",
+        "displayName" => String.duplicate("x", 81)
+      }
+
+      errors = get_errors(run_query(mutation, variables))
+      by_field = Map.new(errors, &{&1.extensions.field, &1.message})
+
+      assert by_field["email"] == "email must be a valid email address"
+      assert by_field["username"] =~ "may only contain"
+      assert by_field["displayName"] == "display name should be at most 80 character(s)"
+    end
+  end
+
+  describe "login and logout mutations" do
+    @login """
+    mutation Login($email: String!, $password: String!) {
+      login(email: $email, password: $password) {
+        token
+        expiresAt
+        user {
+          username
+        }
+      }
+    }
+    """
+
+    test "returns a session token for valid credentials" do
+      user = create_user(%{email: "alice@example.com", username: "alice", password: "correct horse"})
+
+      data = get_data(run_query(@login, %{"email" => "alice@example.com", "password" => "correct horse"}))
+
+      assert data["login"]["user"]["username"] == "alice"
+      assert SocialNetwork.Accounts.Session.fetch_user(data["login"]["token"]).id == user.id
+    end
+
+    test "rejects a wrong password" do
+      create_user(%{email: "alice@example.com", password: "correct horse"})
+
+      result = run_query(@login, %{"email" => "alice@example.com", "password" => "wrong horse"})
+
+      assert [%{message: "Invalid email or password"}] = get_errors(result)
+    end
+
+    test "logout revokes the session token" do
+      user = create_user(%{password: "correct horse"})
+      {:ok, token, _session} = SocialNetwork.Accounts.Session.create(user)
+
+      result = run_query("mutation { logout }", %{}, %{current_user: user, session_token: token})
+
+      assert get_data(result) == %{"logout" => true}
+      assert SocialNetwork.Accounts.Session.fetch_user(token) == nil
     end
   end
 
@@ -69,6 +132,7 @@ defmodule SocialNetworkWeb.GraphQL.MutationsTest do
 
       assert errors != nil
       assert Enum.any?(errors, &String.contains?(&1.message, "Not authenticated"))
+      assert Enum.any?(errors, &(&1[:extensions][:code] == "UNAUTHENTICATED"))
     end
 
     test "creates post when authenticated" do
@@ -96,6 +160,47 @@ defmodule SocialNetworkWeb.GraphQL.MutationsTest do
       assert data["createPost"]["visibility"] == "FRIENDS"
       assert data["createPost"]["id"] != nil
     end
+
+    test "stores uploaded media and sets mediaUrl" do
+      user = create_user()
+      upload = upload_fixture("photo.png", "image/png", "not really a png")
+
+      mutation = """
+      mutation CreatePost($body: String!, $media: Upload) {
+        createPost(body: $body, media: $media) {
+          mediaUrl
+        }
+      }
+      """
+
+      # Absinthe.Plug puts multipart files here; variables hold the part name
+      context = %{current_user: user, __absinthe_plug__: %{uploads: %{"media" => upload}}}
+      result = run_query(mutation, %{"body" => "With a photo", "media" => "media"}, context)
+
+      "/uploads/" <> name = get_data(result)["createPost"]["mediaUrl"]
+      assert String.ends_with?(name, ".png")
+      stored = Path.join(SocialNetwork.Content.Media.uploads_dir(), name)
+      assert File.read!(stored) == "not really a png"
+      File.rm!(stored)
+    end
+
+    test "rejects unsupported media types" do
+      user = create_user()
+      upload = upload_fixture("notes.pdf", "application/pdf", "%PDF")
+
+      mutation = """
+      mutation CreatePost($body: String!, $media: Upload) {
+        createPost(body: $body, media: $media) {
+          id
+        }
+      }
+      """
+
+      context = %{current_user: user, __absinthe_plug__: %{uploads: %{"media" => upload}}}
+      result = run_query(mutation, %{"body" => "With a PDF", "media" => "media"}, context)
+
+      assert Enum.any?(get_errors(result), &String.contains?(&1.message, "Unsupported media type"))
+    end
   end
 
   describe "createComment mutation" do
@@ -210,6 +315,51 @@ defmodule SocialNetworkWeb.GraphQL.MutationsTest do
     end
   end
 
+  describe "likeComment mutation" do
+    test "requires authentication" do
+      user = create_user()
+      post = create_post(user)
+      comment = create_comment(user, post)
+
+      mutation = """
+      mutation LikeComment($commentId: ID!) {
+        likeComment(commentId: $commentId) {
+          id
+        }
+      }
+      """
+
+      result = run_query(mutation, %{"commentId" => to_string(comment.id)})
+      errors = get_errors(result)
+
+      assert errors != nil
+    end
+
+    test "likes a comment when authenticated" do
+      author = create_user(%{username: "author"})
+      liker = create_user(%{username: "liker"})
+      post = create_post(author)
+      comment = create_comment(author, post)
+
+      mutation = """
+      mutation LikeComment($commentId: ID!) {
+        likeComment(commentId: $commentId) {
+          id
+          comment {
+            id
+          }
+        }
+      }
+      """
+
+      result = run_query_as(mutation, liker, %{"commentId" => to_string(comment.id)})
+      data = get_data(result)
+
+      assert data["likeComment"]["id"] != nil
+      assert data["likeComment"]["comment"]["id"] == to_string(comment.id)
+    end
+  end
+
   describe "sendFriendRequest mutation" do
     test "requires authentication" do
       friend = create_user()
@@ -278,5 +428,67 @@ defmodule SocialNetworkWeb.GraphQL.MutationsTest do
 
       assert data["acceptFriendRequest"]["status"] == "ACCEPTED"
     end
+
+    test "cannot be accepted by anyone but the recipient" do
+      user = create_user(%{username: "user"})
+      requester = create_user(%{username: "requester"})
+      bystander = create_user(%{username: "bystander"})
+      friendship = create_friendship(requester, user, %{status: :pending})
+
+      mutation = """
+      mutation AcceptFriendRequest($friendshipId: ID!) {
+        acceptFriendRequest(friendshipId: $friendshipId) {
+          status
+        }
+      }
+      """
+
+      for other <- [requester, bystander] do
+        result = run_query_as(mutation, other, %{"friendshipId" => to_string(friendship.id)})
+        assert [%{message: "Friend request not found"}] = get_errors(result)
+      end
+
+      assert SocialNetwork.Repo.get(SocialNetwork.Accounts.Friendship, friendship.id).status == :pending
+    end
+  end
+
+  describe "declineFriendRequest mutation" do
+    setup do
+      user = create_user(%{username: "user"})
+      requester = create_user(%{username: "requester"})
+
+      {:ok, friendship} =
+        %SocialNetwork.Accounts.Friendship{}
+        |> SocialNetwork.Accounts.Friendship.changeset(%{
+          user_id: requester.id,
+          friend_id: user.id,
+          status: :pending
+        })
+        |> SocialNetwork.Repo.insert()
+
+      %{user: user, requester: requester, friendship: friendship}
+    end
+
+    @mutation """
+    mutation DeclineFriendRequest($friendshipId: ID!) {
+      declineFriendRequest(friendshipId: $friendshipId) {
+        id
+      }
+    }
+    """
+
+    test "removes the request when declined by the recipient", %{user: user, friendship: friendship} do
+      result = run_query_as(@mutation, user, %{"friendshipId" => to_string(friendship.id)})
+
+      assert get_data(result)["declineFriendRequest"]["id"] == to_string(friendship.id)
+      assert SocialNetwork.Repo.get(SocialNetwork.Accounts.Friendship, friendship.id) == nil
+    end
+
+    test "cannot be declined by the requester", %{requester: requester, friendship: friendship} do
+      result = run_query_as(@mutation, requester, %{"friendshipId" => to_string(friendship.id)})
+
+      assert get_errors(result) != nil
+      assert SocialNetwork.Repo.get(SocialNetwork.Accounts.Friendship, friendship.id) != nil
+    end
   end
 end
@@ -0,0 +1,21 @@
+defmodule SocialNetworkWeb.GraphQL.PersistedQueriesTest do
+  use SocialNetwork.GraphQLCase
+
+  alias Absinthe.Plug.DocumentProvider.Compiled
+  alias SocialNetworkWeb.GraphQL.PersistedQueries
+
+  @manifest "priv/graphql/persisted_queries.json" |> File.read!() |> Jason.decode!()
+
+  test "serves every document in the frontend manifest by id" do
+    for {id, source} <- @manifest do
+      assert Compiled.get(PersistedQueries, id, :source) == source
+    end
+  end
+
+  test "accepts full query strings outside production" do
+    assert PersistedQueries.document_providers() == [
+             PersistedQueries,
+             Absinthe.Plug.DocumentProvider.Default
+           ]
+  end
+end
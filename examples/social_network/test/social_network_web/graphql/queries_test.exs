@@ -120,6 +120,89 @@ defmodule SocialNetworkWeb.GraphQL.QueriesTest do
     end
   end
 
+  describe "node query" do
+    test "resolves another user's public profile by global id" do
+      viewer = create_user(%{username: "viewer"})
+      author = create_user(%{username: "author", bio: "Writes things"})
+      create_post(author, %{body: "Hello from author"})
+
+      query = """
+      query Profile($id: ID!) {
+        node(id: $id) {
+          ... on User {
+            id
+            username
+            bio
+            posts {
+              body
+            }
+          }
+        }
+      }
+      """
+
+      global_id = GreenFairy.GlobalId.encode("User", author.id)
+      data = get_data(run_query_as(query, viewer, %{"id" => global_id}))
+
+      assert data["node"]["id"] == to_string(author.id)
+      assert data["node"]["bio"] == "Writes things"
+      assert Enum.map(data["node"]["posts"], & &1["body"]) == ["Hello from author"]
+    end
+
+    test "lists only the posts the viewer may see on a profile" do
+      author = create_user(%{username: "author"})
+      friend = create_user(%{username: "friend"})
+      stranger = create_user(%{username: "stranger"})
+      create_friendship(author, friend)
+
+      create_post(author, %{body: "author public"})
+      create_post(author, %{body: "author friends", visibility: :friends})
+      create_post(author, %{body: "author private", visibility: :private})
+
+      query = """
+      query Profile($id: ID!) {
+        node(id: $id) {
+          ... on User {
+            posts {
+              body
+            }
+          }
+        }
+      }
+      """
+
+      variables = %{"id" => GreenFairy.GlobalId.encode("User", author.id)}
+      bodies = fn result -> Enum.map(get_data(result)["node"]["posts"], & &1["body"]) end
+
+      assert bodies.(run_query_as(query, stranger, variables)) == ["author public"]
+      assert bodies.(run_query_as(query, friend, variables)) == ["author friends", "author public"]
+
+      assert bodies.(run_query_as(query, author, variables)) ==
+               ["author private", "author friends", "author public"]
+    end
+
+    test "does not resolve a post the viewer may not see" do
+      author = create_user(%{username: "author"})
+      stranger = create_user(%{username: "stranger"})
+      post = create_post(author, %{body: "Secret", visibility: :private})
+
+      query = """
+      query Node($id: ID!) {
+        node(id: $id) {
+          ... on Post {
+            body
+          }
+        }
+      }
+      """
+
+      variables = %{"id" => GreenFairy.GlobalId.encode("Post", post.id)}
+
+      assert get_data(run_query_as(query, stranger, variables))["node"] == nil
+      assert get_data(run_query_as(query, author, variables))["node"]["body"] == "Secret"
+    end
+  end
+
   describe "posts query" do
     test "returns empty list when no posts exist" do
       query = """
@@ -181,6 +264,164 @@ defmodule SocialNetworkWeb.GraphQL.QueriesTest do
     end
   end
 
+  describe "feed connection" do
+    test "paginates posts newest first with stable cursors" do
+      user = create_user()
+      for n <- 1..5, do: create_post(user, %{body: "Post #{n}"})
+
+      query = """
+      query Feed($first: Int, $after: String) {
+        feed(first: $first, after: $after) {
+          edges {
+            cursor
+            node {
+              body
+            }
+          }
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+          totalCount
+        }
+      }
+      """
+
+      first_page = get_data(run_query(query, %{"first" => 2}))["feed"]
+      assert Enum.map(first_page["edges"], & &1["node"]["body"]) == ["Post 5", "Post 4"]
+      assert first_page["pageInfo"]["hasNextPage"] == true
+      assert first_page["totalCount"] == 5
+
+      second_page =
+        get_data(run_query(query, %{"first" => 2, "after" => first_page["pageInfo"]["endCursor"]}))["feed"]
+
+      assert Enum.map(second_page["edges"], & &1["node"]["body"]) == ["Post 3", "Post 2"]
+
+      last_page =
+        get_data(run_query(query, %{"first" => 2, "after" => second_page["pageInfo"]["endCursor"]}))["feed"]
+
+      assert Enum.map(last_page["edges"], & &1["node"]["body"]) == ["Post 1"]
+      assert last_page["pageInfo"]["hasNextPage"] == false
+    end
+
+    test "keeps paging after the cursor's post is deleted" do
+      user = create_user()
+      posts = for n <- 1..4, do: create_post(user, %{body: "Post #{n}"})
+
+      query = """
+      query Feed($first: Int, $after: String) {
+        feed(first: $first, after: $after) {
+          edges {
+            node {
+              body
+            }
+          }
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+        }
+      }
+      """
+
+      first_page = get_data(run_query(query, %{"first" => 2}))["feed"]
+      assert Enum.map(first_page["edges"], & &1["node"]["body"]) == ["Post 4", "Post 3"]
+
+      # "Post 3" holds the cursor
+      Repo.delete!(Enum.at(posts, 2))
+
+      next_page =
+        get_data(run_query(query, %{"first" => 2, "after" => first_page["pageInfo"]["endCursor"]}))["feed"]
+
+      assert Enum.map(next_page["edges"], & &1["node"]["body"]) == ["Post 2", "Post 1"]
+      assert next_page["pageInfo"]["hasNextPage"] == false
+    end
+
+    test "rejects a malformed cursor" do
+      query = """
+      query Feed($after: String) {
+        feed(first: 2, after: $after) {
+          edges {
+            cursor
+          }
+        }
+      }
+      """
+
+      assert [%{message: "Invalid cursor"}] = get_errors(run_query(query, %{"after" => "not-a-cursor"}))
+    end
+
+    test "applies CQL where and orderBy" do
+      alice = create_user(%{username: "alice"})
+      bob = create_user(%{username: "bob"})
+      create_post(alice, %{body: "Beta from alice"})
+      create_post(alice, %{body: "Alpha from alice"})
+      create_post(alice, %{body: "Unrelated"})
+      create_post(bob, %{body: "Gamma from bob"})
+
+      query = """
+      query Feed($where: CqlFilterPostInput, $orderBy: [CqlOrderPostInput]) {
+        feed(first: 10, where: $where, orderBy: $orderBy) {
+          edges {
+            node {
+              body
+            }
+          }
+          totalCount
+        }
+      }
+      """
+
+      variables = %{
+        "where" => %{
+          "_and" => [
+            %{"body" => %{"_icontains" => "from"}},
+            %{"author" => %{"username" => %{"_eq" => "alice"}}}
+          ]
+        },
+        "orderBy" => [%{"body" => %{"direction" => "ASC"}}]
+      }
+
+      feed = get_data(run_query(query, variables))["feed"]
+      assert Enum.map(feed["edges"], & &1["node"]["body"]) == ["Alpha from alice", "Beta from alice"]
+      assert feed["totalCount"] == 2
+    end
+
+    test "only holds posts the viewer may see" do
+      alice = create_user(%{username: "alice"})
+      bob = create_user(%{username: "bob"})
+      carol = create_user(%{username: "carol"})
+      create_friendship(alice, bob)
+      create_friendship(carol, alice, %{status: :pending})
+
+      create_post(alice, %{body: "alice public"})
+      create_post(alice, %{body: "alice friends", visibility: :friends})
+      create_post(alice, %{body: "alice private", visibility: :private})
+      create_post(bob, %{body: "bob friends", visibility: :friends})
+
+      query = """
+      query Feed {
+        feed(first: 10) {
+          edges {
+            node {
+              body
+            }
+          }
+        }
+      }
+      """
+
+      bodies = fn result -> Enum.map(get_data(result)["feed"]["edges"], & &1["node"]["body"]) end
+
+      assert bodies.(run_query(query)) == ["alice public"]
+      assert bodies.(run_query_as(query, carol)) == ["alice public"]
+      assert bodies.(run_query_as(query, bob)) == ["bob friends", "alice friends", "alice public"]
+
+      assert bodies.(run_query_as(query, alice)) ==
+               ["bob friends", "alice private", "alice friends", "alice public"]
+    end
+  end
+
   describe "post query" do
     test "returns post by id" do
       user = create_user(%{username: "author"})
@@ -202,5 +443,27 @@ defmodule SocialNetworkWeb.GraphQL.QueriesTest do
       assert data["post"]["body"] == "My awesome post"
       assert data["post"]["id"] == to_string(post.id)
     end
+
+    test "treats a post the viewer may not see as missing" do
+      author = create_user(%{username: "author"})
+      friend = create_user(%{username: "friend"})
+      stranger = create_user(%{username: "stranger"})
+      create_friendship(author, friend)
+      post = create_post(author, %{body: "Friends only", visibility: :friends})
+
+      query = """
+      query GetPost($id: ID!) {
+        post(id: $id) {
+          body
+        }
+      }
+      """
+
+      variables = %{"id" => to_string(post.id)}
+
+      assert get_data(run_query(query, variables))["post"] == nil
+      assert [%{message: "Post not found"}] = get_errors(run_query_as(query, stranger, variables))
+      assert get_data(run_query_as(query, friend, variables))["post"]["body"] == "Friends only"
+    end
   end
 end
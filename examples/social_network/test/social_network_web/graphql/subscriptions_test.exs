@@ -0,0 +1,101 @@
+defmodule SocialNetworkWeb.GraphQL.SubscriptionsTest do
+  use SocialNetwork.GraphQLCase
+  use Absinthe.Phoenix.SubscriptionTest, schema: SocialNetworkWeb.GraphQL.Schema
+
+  import Phoenix.ChannelTest
+
+  @endpoint SocialNetworkWeb.Endpoint
+
+  @post_created """
+  subscription {
+    postCreated {
+      body
+    }
+  }
+  """
+
+  @create_post """
+  mutation CreatePost($body: String!, $visibility: PostVisibility) {
+    createPost(body: $body, visibility: $visibility) {
+      id
+    }
+  }
+  """
+
+  # An Absinthe socket for `user`, or an anonymous one for nil
+  defp socket_for(user) do
+    params =
+      if user do
+        {:ok, token, _session} = SocialNetwork.Accounts.Session.create(user)
+        %{"token" => token}
+      else
+        %{}
+      end
+
+    {:ok, socket} = connect(SocialNetworkWeb.UserSocket, params)
+    {:ok, socket} = join_absinthe(socket)
+    socket
+  end
+
+  defp subscribe(socket) do
+    ref = push_doc(socket, @post_created)
+    assert_reply ref, :ok, %{subscriptionId: subscription_id}
+    subscription_id
+  end
+
+  defp create_post(socket, body, visibility) do
+    ref = push_doc(socket, @create_post, variables: %{"body" => body, "visibility" => visibility})
+    assert_reply ref, :ok, %{data: %{"createPost" => %{"id" => _}}}
+  end
+
+  describe "postCreated subscription" do
+    setup do
+      author = create_user(%{username: "author"})
+      friend = create_user(%{username: "friend"})
+      stranger = create_user(%{username: "stranger"})
+      create_friendship(author, friend)
+
+      author_socket = socket_for(author)
+
+      %{
+        author_socket: author_socket,
+        author: subscribe(author_socket),
+        friend: subscribe(socket_for(friend)),
+        stranger: subscribe(socket_for(stranger)),
+        anonymous: subscribe(socket_for(nil))
+      }
+    end
+
+    test "sends a private post only to its author", subscriptions do
+      create_post(subscriptions.author_socket, "Note to self", "PRIVATE")
+
+      author = subscriptions.author
+      assert_push "subscription:data", %{subscriptionId: ^author, result: %{data: %{"postCreated" => post}}}
+      assert post["body"] == "Note to self"
+
+      for subscriber <- [subscriptions.friend, subscriptions.stranger, subscriptions.anonymous] do
+        refute_push "subscription:data", %{subscriptionId: ^subscriber}
+      end
+    end
+
+    test "sends a friends-only post to the author and their friends", subscriptions do
+      create_post(subscriptions.author_socket, "For friends", "FRIENDS")
+
+      for subscriber <- [subscriptions.author, subscriptions.friend] do
+        assert_push "subscription:data", %{subscriptionId: ^subscriber}
+      end
+
+      for subscriber <- [subscriptions.stranger, subscriptions.anonymous] do
+        refute_push "subscription:data", %{subscriptionId: ^subscriber}
+      end
+    end
+
+    test "sends a public post to everyone", subscriptions do
+      create_post(subscriptions.author_socket, "Hello, world", "PUBLIC")
+
+      for subscriber <- [subscriptions.author, subscriptions.friend, subscriptions.stranger, subscriptions.anonymous] do
+        assert_push "subscription:data", %{subscriptionId: ^subscriber}
+      end
+    end
+  end
+end
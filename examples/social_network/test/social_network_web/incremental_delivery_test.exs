@@ -0,0 +1,77 @@
+defmodule SocialNetworkWeb.IncrementalDeliveryTest do
+  @moduledoc """
+  Absinthe 1.7 can't send results incrementally, so `@defer` and `@stream`
+  are accepted and ignored. These requests go through the endpoint the way
+  the frontend sends them, and check the answer is one complete JSON
+  response that the frontend can treat as final.
+  """
+  use SocialNetwork.GraphQLCase
+
+  import Phoenix.ConnTest
+  import Plug.Conn
+
+  @endpoint SocialNetworkWeb.Endpoint
+
+  # The frontend's persisted ViewerPageQuery, which defers the viewer's
+  # friends and streams their posts after the first two
+  @viewer_page_query "priv/graphql/persisted_queries.json"
+                     |> File.read!()
+                     |> Jason.decode!()
+                     |> Enum.find_value(fn {id, source} ->
+                       if source =~ "query ViewerPageQuery", do: id
+                     end)
+
+  defp request(user, body) do
+    {:ok, token, _session} = SocialNetwork.Accounts.Session.create(user)
+
+    build_conn()
+    |> put_req_header("content-type", "application/json")
+    |> put_req_header("accept", "multipart/mixed;deferSpec=20220824, application/json")
+    |> put_req_header("authorization", "Bearer #{token}")
+    |> post("/api/graphql", Jason.encode!(body))
+  end
+
+  test "answers a persisted query using @defer and @stream with one complete response" do
+    viewer = create_user(%{username: "alice"})
+    friend = create_user(%{username: "bob"})
+    create_friendship(viewer, friend)
+    for n <- 1..3, do: create_post(viewer, %{body: "Post #{n}"})
+
+    conn = request(viewer, %{id: @viewer_page_query, variables: %{}})
+
+    assert conn.status == 200
+    assert [content_type] = get_resp_header(conn, "content-type")
+    assert content_type =~ "application/json"
+
+    body = Jason.decode!(conn.resp_body)
+    refute Map.has_key?(body, "hasNext")
+    refute Map.has_key?(body, "errors")
+
+    viewer_data = body["data"]["viewer"]
+    # Streamed: every post is there, not just the initial two
+    assert length(viewer_data["posts"]) == 3
+    # Deferred: the fragments' fields arrive with the rest
+    assert is_list(viewer_data["friends"])
+    assert Enum.all?(viewer_data["posts"], &is_list(&1["comments"]))
+  end
+
+  test "accepts the directives in a query sent as text" do
+    viewer = create_user()
+    create_post(viewer)
+
+    query = """
+    query {
+      viewer {
+        id
+        posts @stream(initialCount: 0) { id }
+        ... on User @defer(label: "details") { username }
+      }
+    }
+    """
+
+    body = request(viewer, %{query: query}).resp_body |> Jason.decode!()
+
+    assert %{"data" => %{"viewer" => %{"posts" => [_post], "username" => _}}} = body
+    refute Map.has_key?(body, "hasNext")
+  end
+end
@@ -0,0 +1,33 @@
+defmodule SocialNetworkWeb.UserSocketTest do
+  use SocialNetwork.GraphQLCase
+
+  import Phoenix.ChannelTest
+
+  alias SocialNetworkWeb.UserSocket
+
+  @endpoint SocialNetworkWeb.Endpoint
+
+  defp current_user(socket), do: socket.assigns.absinthe.opts[:context][:current_user]
+
+  test "runs subscriptions as the user of the token connect param" do
+    user = create_user(%{username: "alice"})
+    {:ok, token, _session} = SocialNetwork.Accounts.Session.create(user)
+
+    assert {:ok, socket} = connect(UserSocket, %{"token" => token})
+    assert current_user(socket).id == user.id
+  end
+
+  test "connects anonymously without a token" do
+    assert {:ok, socket} = connect(UserSocket, %{})
+    assert current_user(socket) == nil
+  end
+
+  test "refuses an unknown or revoked token" do
+    user = create_user()
+    {:ok, token, _session} = SocialNetwork.Accounts.Session.create(user)
+    SocialNetwork.Accounts.Session.revoke(token)
+
+    assert connect(UserSocket, %{"token" => token}) == {:error, :unauthorized}
+    assert connect(UserSocket, %{"token" => "not-a-token"}) == {:error, :unauthorized}
+  end
+end
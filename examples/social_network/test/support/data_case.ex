@@ -89,4 +89,26 @@ defmodule SocialNetwork.DataCase do
     |> SocialNetwork.Content.Comment.changeset(attrs)
     |> SocialNetwork.Repo.insert!()
   end
+
+  @doc """
+  A helper that creates a friendship request from `user` to `friend`.
+  """
+  def create_friendship(user, friend, attrs \\ %{}) do
+    attrs = Map.merge(%{user_id: user.id, friend_id: friend.id, status: :accepted}, attrs)
+
+    %SocialNetwork.Accounts.Friendship{}
+    |> SocialNetwork.Accounts.Friendship.changeset(attrs)
+    |> SocialNetwork.Repo.insert!()
+  end
+
+  @doc """
+  A helper that writes `contents` to a temporary file and wraps it in a
+  `Plug.Upload`, as Plug.Parsers would for a multipart request.
+  """
+  def upload_fixture(filename, content_type, contents) do
+    path = Path.join(System.tmp_dir!(), "upload-#{System.unique_integer([:positive])}")
+    File.write!(path, contents)
+    ExUnit.Callbacks.on_exit(fn -> File.rm(path) end)
+    %Plug.Upload{path: path, filename: filename, content_type: content_type}
+  end
 end